@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."LLMProvider" ADD COLUMN     "adapter" TEXT,
+ADD COLUMN     "chatPath" TEXT,
+ADD COLUMN     "extraHeaders" JSONB;
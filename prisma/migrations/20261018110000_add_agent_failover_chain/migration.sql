@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Agent" ADD COLUMN     "fallbackModelIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "public"."Message" ADD COLUMN     "failover" JSONB;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."LLMProvider" ADD COLUMN     "maxConcurrent" INTEGER,
+ADD COLUMN     "requestsPerMinute" INTEGER,
+ADD COLUMN     "tokensPerMinute" INTEGER;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Message" ADD COLUMN     "attachments" TEXT[] DEFAULT ARRAY[]::TEXT[];
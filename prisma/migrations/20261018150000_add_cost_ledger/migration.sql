@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "public"."Message" ADD COLUMN     "costMicroCents" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."CostLedgerEntry" (
+    "id" TEXT NOT NULL,
+    "convId" TEXT,
+    "messageId" TEXT,
+    "source" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "cachedTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+    "costMicroCents" INTEGER NOT NULL DEFAULT 0,
+    "pricing" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CostLedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CostLedgerEntry_convId_idx" ON "public"."CostLedgerEntry"("convId");
+
+-- CreateIndex
+CREATE INDEX "CostLedgerEntry_createdAt_idx" ON "public"."CostLedgerEntry"("createdAt");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."Plan" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "dailyMessages" INTEGER,
+    "monthlyTokens" INTEGER,
+    "monthlyCostCents" INTEGER,
+    "maxAgentsPerConversation" INTEGER,
+    "allowedModels" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Plan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Plan_code_key" ON "public"."Plan"("code");
+
+-- 默认套餐：注册用户为 free
+INSERT INTO "public"."Plan" ("id", "code", "name", "description", "dailyMessages", "monthlyTokens", "monthlyCostCents", "maxAgentsPerConversation", "updatedAt")
+VALUES
+    ('plan_free', 'free', '免费版', '适合体验群聊功能', 50, 200000, 100, 3, CURRENT_TIMESTAMP),
+    ('plan_pro', 'pro', '专业版', '更高的消息和费用额度', 1000, 5000000, 2000, 8, CURRENT_TIMESTAMP);
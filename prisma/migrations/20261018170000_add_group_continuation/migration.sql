@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."ChatGroup" ADD COLUMN     "idleSimilarity" DOUBLE PRECISION NOT NULL DEFAULT 0.6,
+ADD COLUMN     "maxMessages" INTEGER NOT NULL DEFAULT 8,
+ADD COLUMN     "maxRounds" INTEGER NOT NULL DEFAULT 3;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."Conversation" ADD COLUMN     "summarizedUntil" TIMESTAMP(3),
+ADD COLUMN     "summary" TEXT;
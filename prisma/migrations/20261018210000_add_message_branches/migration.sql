@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."Conversation" ADD COLUMN     "activeBranchId" TEXT NOT NULL DEFAULT 'main',
+ADD COLUMN     "activeLeafId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Message" ADD COLUMN     "branchId" TEXT NOT NULL DEFAULT 'main',
+ADD COLUMN     "parentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Message_convId_branchId_idx" ON "public"."Message"("convId", "branchId");
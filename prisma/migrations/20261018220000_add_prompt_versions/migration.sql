@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "public"."Message" ADD COLUMN     "promptVersions" JSONB;
+
+-- CreateTable
+CREATE TABLE "public"."PromptVersion" (
+    "id" TEXT NOT NULL,
+    "agentId" TEXT,
+    "templateId" TEXT,
+    "version" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "note" TEXT,
+    "authorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromptVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptVersion_agentId_version_key" ON "public"."PromptVersion"("agentId", "version");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptVersion_templateId_version_key" ON "public"."PromptVersion"("templateId", "version");
+
+-- AddForeignKey
+ALTER TABLE "public"."PromptVersion" ADD CONSTRAINT "PromptVersion_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "public"."Agent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PromptVersion" ADD CONSTRAINT "PromptVersion_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "public"."PromptTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PromptVersion" ADD CONSTRAINT "PromptVersion_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- 现有的智能体提示词和模板记为版本1
+INSERT INTO "public"."PromptVersion" ("id", "agentId", "version", "content", "note", "authorId")
+SELECT 'pv_' || md5(random()::text || "id"), "id", 1, "prompt", '初始版本', "createdBy" FROM "public"."Agent";
+
+INSERT INTO "public"."PromptVersion" ("id", "templateId", "version", "content", "note", "authorId")
+SELECT 'pv_' || md5(random()::text || "id"), "id", 1, "content", '初始版本', "createdBy" FROM "public"."PromptTemplate";
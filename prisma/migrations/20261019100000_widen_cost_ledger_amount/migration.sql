@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."CostLedgerEntry" ALTER COLUMN "costMicroCents" SET DATA TYPE BIGINT;
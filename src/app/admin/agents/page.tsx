@@ -12,9 +12,12 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Bot, Plus, Edit, Trash2, Eye, EyeOff, Copy, Save, AlertCircle, CheckCircle, ArrowLeft, ArrowRight, Loader2, Info } from 'lucide-react';
+import { Bot, Plus, Edit, Trash2, Eye, EyeOff, Copy, Save, AlertCircle, CheckCircle, ArrowLeft, ArrowRight, ArrowUp, ArrowDown, Loader2, Info, BookOpen, FileText, History } from 'lucide-react';
 import Link from 'next/link';
 import { APIClient, APIResponseHelper } from '@/types/api';
+import AgentKnowledgeDialog from '@/components/admin/AgentKnowledgeDialog';
+import AgentPromptsDialog from '@/components/admin/AgentPromptsDialog';
+import PromptVersionsDialog, { PromptVersionsTarget } from '@/components/admin/PromptVersionsDialog';
 
 interface Agent {
   id: string;
@@ -29,6 +32,8 @@ interface Agent {
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
+  fallbackModelIds?: string[];
+  tools?: string[];
   model?: {
     id: string;
     name: string;
@@ -56,6 +61,12 @@ interface Provider {
   code: string;
 }
 
+interface AgentToolOption {
+  name: string;
+  label: string;
+  description: string;
+}
+
 interface LLMModel {
   id: string;
   name: string;
@@ -70,9 +81,14 @@ interface LLMModel {
 export default function AgentsPage() {
   const [agents, setAgents] = useState<Agent[]>([]);
   const [providers, setProviders] = useState<LLMProvider[]>([]);
+  const [availableTools, setAvailableTools] = useState<AgentToolOption[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingAgent, setEditingAgent] = useState<Agent | null>(null);
+  const [knowledgeAgent, setKnowledgeAgent] = useState<Agent | null>(null);
+  const [promptsAgent, setPromptsAgent] = useState<Agent | null>(null);
+  const [versionsTarget, setVersionsTarget] = useState<PromptVersionsTarget | null>(null);
+  const [promptChangeNote, setPromptChangeNote] = useState(''); // 修改提示词时的说明，记录在版本历史里
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<{[key: string]: string}>({});
   const [currentStep, setCurrentStep] = useState(1);
@@ -87,13 +103,16 @@ export default function AgentsPage() {
     isActive: true,
     prompt: '',
     providerId: '',
-    modelId: ''
+    modelId: '',
+    fallbackModelIds: [] as string[],
+    tools: [] as string[]
   });
 
   // 加载数据
   useEffect(() => {
     loadAgents();
     loadProviders();
+    loadTools();
   }, []);
 
   const loadAgents = async () => {
@@ -127,10 +146,25 @@ export default function AgentsPage() {
     }
   };
 
+  const loadTools = async () => {
+    try {
+      const result = await APIClient.get('/api/admin/tools');
+
+      if (APIResponseHelper.isSuccess(result)) {
+        setAvailableTools(result.data);
+      } else {
+        console.error('加载工具列表失败:', result.error);
+      }
+    } catch (error) {
+      console.error('加载工具列表失败:', error);
+    }
+  };
+
 
   const handleEdit = (agent: Agent) => {
     setEditingAgent(agent);
     setEditCurrentStep(1);
+    setPromptChangeNote('');
     // 根据 agent 的 modelId 找到对应的 provider
     const selectedModel = providers.flatMap(p => p.models).find(m => m.id === agent.model?.id);
     const selectedProviderId = providers.find(p => p.models.some(m => m.id === agent.model?.id))?.id || '';
@@ -145,7 +179,9 @@ export default function AgentsPage() {
       isActive: agent.isActive,
       prompt: agent.prompt || '', // 从API返回的数据中获取提示词
       providerId: selectedProviderId,
-      modelId: agent.model?.id || ''
+      modelId: agent.model?.id || '',
+      fallbackModelIds: agent.fallbackModelIds || [],
+      tools: agent.tools || []
     });
   };
 
@@ -165,6 +201,8 @@ export default function AgentsPage() {
         maxTokens: formData.maxTokens,
         prompt: formData.prompt.trim(),
         modelId: formData.modelId,
+        fallbackModelIds: formData.fallbackModelIds.filter(id => id !== formData.modelId),
+        tools: formData.tools,
         isActive: formData.isActive,
         userId: 'system' // 实际应用中从session获取
       });
@@ -206,7 +244,10 @@ export default function AgentsPage() {
         maxTokens: formData.maxTokens,
         prompt: formData.prompt,
         modelId: formData.modelId,
-        isActive: formData.isActive
+        fallbackModelIds: formData.fallbackModelIds.filter(id => id !== formData.modelId),
+        tools: formData.tools,
+        isActive: formData.isActive,
+        changeNote: promptChangeNote
       });
       
       if (APIResponseHelper.isSuccess(result)) {
@@ -265,7 +306,9 @@ export default function AgentsPage() {
       isActive: true,
       prompt: '',
       providerId: '',
-      modelId: ''
+      modelId: '',
+      fallbackModelIds: [],
+      tools: []
     });
     setErrors({});
     setCurrentStep(1);
@@ -367,6 +410,97 @@ export default function AgentsPage() {
     return providers.find(p => p.id === formData.providerId);
   };
 
+  // 故障转移链可以跨厂家选择模型
+  const allModels = providers.flatMap(p => p.models.map(m => ({ ...m, providerName: p.name })));
+
+  const moveFallbackModel = (index: number, offset: number) => {
+    const ids = [...formData.fallbackModelIds];
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    setFormData({...formData, fallbackModelIds: ids});
+  };
+
+  const renderFallbackModels = () => (
+    <div className="space-y-2">
+      <Label>备用模型（故障转移）</Label>
+      <p className="text-xs text-muted-foreground">
+        主模型限流、服务端错误或超时时，按以下顺序切换到备用模型
+      </p>
+      {formData.fallbackModelIds.map((id, index) => {
+        const model = allModels.find(m => m.id === id);
+        return (
+          <div key={id} className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm">
+            <Badge variant="outline">{index + 1}</Badge>
+            <span className="flex-1">{model ? `${model.providerName} / ${model.name}` : id}</span>
+            <Button type="button" variant="ghost" size="sm" disabled={index === 0} onClick={() => moveFallbackModel(index, -1)}>
+              <ArrowUp className="h-3 w-3" />
+            </Button>
+            <Button type="button" variant="ghost" size="sm" disabled={index === formData.fallbackModelIds.length - 1} onClick={() => moveFallbackModel(index, 1)}>
+              <ArrowDown className="h-3 w-3" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setFormData({...formData, fallbackModelIds: formData.fallbackModelIds.filter(fid => fid !== id)})}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        );
+      })}
+      <Select
+        value=""
+        onValueChange={(value) => setFormData({...formData, fallbackModelIds: [...formData.fallbackModelIds, value]})}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="添加备用模型" />
+        </SelectTrigger>
+        <SelectContent>
+          {allModels
+            .filter(m => m.id !== formData.modelId && !formData.fallbackModelIds.includes(m.id))
+            .map(model => (
+              <SelectItem key={model.id} value={model.id}>
+                {model.providerName} / {model.name}
+              </SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const toggleTool = (name: string, enabled: boolean) => {
+    setFormData({
+      ...formData,
+      tools: enabled ? [...formData.tools, name] : formData.tools.filter(tool => tool !== name)
+    });
+  };
+
+  const renderTools = () => (
+    <div className="space-y-2">
+      <Label>工具</Label>
+      <p className="text-xs text-muted-foreground">
+        启用后模型可以在回复前调用这些工具（仅支持工具调用的模型生效）
+      </p>
+      {availableTools.length === 0 ? (
+        <p className="text-sm text-muted-foreground">暂无可用工具</p>
+      ) : (
+        availableTools.map(tool => (
+          <div key={tool.name} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm">
+            <div>
+              <div className="font-medium">{tool.label}</div>
+              <div className="text-xs text-muted-foreground">{tool.description}</div>
+            </div>
+            <Switch
+              checked={formData.tools.includes(tool.name)}
+              onCheckedChange={(checked) => toggleTool(tool.name, checked)}
+            />
+          </div>
+        ))
+      )}
+    </div>
+  );
+
   // 步骤验证（不触发状态更新）
   const canProceedToStep = (step: number) => {
     switch (step) {
@@ -637,6 +771,9 @@ export default function AgentsPage() {
                           </div>
                         </Card>
                       )}
+
+                      {renderFallbackModels()}
+                      {renderTools()}
                     </div>
                   )}
 
@@ -885,6 +1022,30 @@ export default function AgentsPage() {
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="知识库"
+                          onClick={() => setKnowledgeAgent(agent)}
+                        >
+                          <BookOpen className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="提示词模板"
+                          onClick={() => setPromptsAgent(agent)}
+                        >
+                          <FileText className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="提示词版本"
+                          onClick={() => setVersionsTarget({ type: 'agent', id: agent.id, name: agent.name })}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -903,6 +1064,11 @@ export default function AgentsPage() {
           </CardContent>
         </Card>
 
+      {/* Knowledge Dialog */}
+      <AgentKnowledgeDialog agent={knowledgeAgent} onClose={() => setKnowledgeAgent(null)} />
+      <AgentPromptsDialog agent={promptsAgent} onClose={() => setPromptsAgent(null)} />
+      <PromptVersionsDialog target={versionsTarget} onClose={() => setVersionsTarget(null)} onRolledBack={loadAgents} />
+
       {/* Edit Dialog */}
       {editingAgent && (
         <Dialog open={!!editingAgent} onOpenChange={() => setEditingAgent(null)}>
@@ -1145,6 +1311,9 @@ export default function AgentsPage() {
                       </div>
                     </Card>
                   )}
+
+                  {renderFallbackModels()}
+                  {renderTools()}
                 </div>
               )}
 
@@ -1177,6 +1346,18 @@ export default function AgentsPage() {
                     </p>
                   </div>
 
+                  {formData.prompt !== (editingAgent?.prompt || '') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-prompt-note">修改说明</Label>
+                      <Input
+                        id="edit-prompt-note"
+                        value={promptChangeNote}
+                        onChange={(e) => setPromptChangeNote(e.target.value)}
+                        placeholder="简要说明这次改了什么，会记录在提示词版本历史里"
+                      />
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
                       <Label htmlFor="edit-temperature">
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -9,19 +10,22 @@ import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { UsersRound, Plus, Edit, Trash2, Save, Users, Settings, Play } from 'lucide-react';
+import { UsersRound, Plus, Edit, Trash2, Save, Play, ChevronUp, ChevronDown, Loader2 } from 'lucide-react';
 import Link from 'next/link';
+import { APIClient, APIResponseHelper } from '@/types/api';
 
 interface ChatGroup {
   id: string;
   name: string;
-  description?: string;
+  description?: string | null;
   mode: string;
   isActive: boolean;
-  createdAt: Date;
-  updatedAt: Date;
+  maxRounds: number;
+  maxMessages: number;
+  idleSimilarity: number;
+  createdAt: string;
+  updatedAt: string;
   members: ChatGroupMember[];
   conversationCount: number;
 }
@@ -44,166 +48,378 @@ interface Agent {
   description?: string;
 }
 
-const mockAgents: Agent[] = [
-  { id: '1', name: '共情者小暖', code: 'EMPATHY', color: '#EF4444', description: '情感共鸣专家' },
-  { id: '2', name: '建议者小智', code: 'PRACTICAL', color: '#3B82F6', description: '实用问题解决' },
-  { id: '3', name: '创意者小思', code: 'CREATIVE', color: '#8B5CF6', description: '创新思路提供' },
-  { id: '4', name: '分析师小明', code: 'ANALYST', color: '#F59E0B', description: '理性分析专家' },
-  { id: '5', name: '关怀者小爱', code: 'FOLLOWUP', color: '#10B981', description: '温暖关怀总结' }
-];
-
-const mockGroups: ChatGroup[] = [
-  {
-    id: '1',
-    name: '基础关怀群聊',
-    description: '适合日常情感支持和一般咨询',
-    mode: 'smart',
-    isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-    conversationCount: 45,
-    members: [
-      { id: '1', agentId: '1', agentName: '共情者小暖', agentCode: 'EMPATHY', agentColor: '#EF4444', order: 1, priority: 8 },
-      { id: '2', agentId: '2', agentName: '建议者小智', agentCode: 'PRACTICAL', agentColor: '#3B82F6', order: 2, priority: 6 },
-      { id: '3', agentId: '5', agentName: '关怀者小爱', agentCode: 'FOLLOWUP', agentColor: '#10B981', order: 3, priority: 7 }
-    ]
-  },
-  {
-    id: '2',
-    name: '创意工作坊',
-    description: '专注于创意和创新的讨论',
-    mode: 'natural',
-    isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-    conversationCount: 23,
-    members: [
-      { id: '4', agentId: '3', agentName: '创意者小思', agentCode: 'CREATIVE', agentColor: '#8B5CF6', order: 1, priority: 9 },
-      { id: '5', agentId: '2', agentName: '建议者小智', agentCode: 'PRACTICAL', agentColor: '#3B82F6', order: 2, priority: 7 },
-      { id: '6', agentId: '4', agentName: '分析师小明', agentCode: 'ANALYST', agentColor: '#F59E0B', order: 3, priority: 6 }
-    ]
-  }
-];
+// 表单里的成员，按发言顺序排列
+interface MemberDraft {
+  agentId: string;
+  priority: number;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  description: '',
+  mode: 'smart',
+  isActive: true,
+  maxRounds: 3,
+  maxMessages: 8,
+  idleSimilarity: 0.6
+};
+
+const MODE_LABELS: Record<string, string> = {
+  smart: '智能匹配',
+  natural: '随机顺序',
+  fixed: '固定顺序'
+};
 
 export default function GroupsPage() {
-  const [groups, setGroups] = useState<ChatGroup[]>(mockGroups);
-  const [agents] = useState<Agent[]>(mockAgents);
+  const router = useRouter();
+  const [groups, setGroups] = useState<ChatGroup[]>([]);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingGroup, setEditingGroup] = useState<ChatGroup | null>(null);
-  const [selectedAgents, setSelectedAgents] = useState<string[]>([]);
-  const [formData, setFormData] = useState({
-    name: '',
-    description: '',
-    mode: 'smart',
-    isActive: true
+  const [members, setMembers] = useState<MemberDraft[]>([]);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  // 加载数据
+  useEffect(() => {
+    loadGroups();
+    loadAgents();
+  }, []);
+
+  const loadGroups = async () => {
+    try {
+      setIsLoading(true);
+      const result = await APIClient.get<ChatGroup[]>('/api/admin/groups');
+
+      if (APIResponseHelper.isSuccess(result)) {
+        setGroups(result.data);
+      } else {
+        console.error('加载群聊失败:', result.error);
+      }
+    } catch (error) {
+      console.error('加载群聊失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadAgents = async () => {
+    try {
+      const result = await APIClient.get<Agent[]>('/api/admin/agents');
+
+      if (APIResponseHelper.isSuccess(result)) {
+        setAgents(result.data);
+      } else {
+        console.error('加载智能体失败:', result.error);
+      }
+    } catch (error) {
+      console.error('加载智能体失败:', error);
+    }
+  };
+
+  const buildPayload = () => ({
+    ...formData,
+    name: formData.name.trim(),
+    description: formData.description.trim(),
+    members
   });
 
-  const handleCreate = () => {
-    const newGroup: ChatGroup = {
-      id: Date.now().toString(),
-      name: formData.name,
-      description: formData.description,
-      mode: formData.mode,
-      isActive: formData.isActive,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      conversationCount: 0,
-      members: selectedAgents.map((agentId, index) => {
-        const agent = agents.find(a => a.id === agentId)!;
-        return {
-          id: `${Date.now()}-${index}`,
-          agentId,
-          agentName: agent.name,
-          agentCode: agent.code,
-          agentColor: agent.color,
-          order: index + 1,
-          priority: 5
-        };
-      })
-    };
-    setGroups([...groups, newGroup]);
-    setIsCreateDialogOpen(false);
-    resetForm();
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await APIClient.post<ChatGroup>('/api/admin/groups', buildPayload());
+
+      if (APIResponseHelper.isSuccess(result)) {
+        setGroups([result.data, ...groups]);
+        setIsCreateDialogOpen(false);
+        resetForm();
+      } else {
+        alert(`创建失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('创建群聊失败:', error);
+      alert('创建群聊失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   const handleEdit = (group: ChatGroup) => {
     setEditingGroup(group);
-    setSelectedAgents(group.members.map(m => m.agentId));
+    setMembers(
+      [...group.members]
+        .sort((a, b) => a.order - b.order)
+        .map(member => ({ agentId: member.agentId, priority: member.priority }))
+    );
     setFormData({
       name: group.name,
       description: group.description || '',
       mode: group.mode,
-      isActive: group.isActive
+      isActive: group.isActive,
+      maxRounds: group.maxRounds,
+      maxMessages: group.maxMessages,
+      idleSimilarity: group.idleSimilarity
     });
   };
 
-  const handleUpdate = () => {
+  const handleUpdate = async () => {
     if (!editingGroup) return;
-    setGroups(groups.map(group =>
-      group.id === editingGroup.id
-        ? {
-            ...group,
-            ...formData,
-            members: selectedAgents.map((agentId, index) => {
-              const agent = agents.find(a => a.id === agentId)!;
-              return {
-                id: `${Date.now()}-${index}`,
-                agentId,
-                agentName: agent.name,
-                agentCode: agent.code,
-                agentColor: agent.color,
-                order: index + 1,
-                priority: 5
-              };
-            }),
-            updatedAt: new Date()
-          }
-        : group
-    ));
-    setEditingGroup(null);
-    resetForm();
+
+    setIsSubmitting(true);
+    try {
+      const result = await APIClient.put<ChatGroup>(`/api/admin/groups/${editingGroup.id}`, buildPayload());
+
+      if (APIResponseHelper.isSuccess(result)) {
+        setGroups(groups.map(group => group.id === editingGroup.id ? result.data : group));
+        setEditingGroup(null);
+        resetForm();
+      } else {
+        alert(`更新失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('更新群聊失败:', error);
+      alert('更新群聊失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
-  const handleDelete = (id: string) => {
-    setGroups(groups.filter(group => group.id !== id));
+  const handleDelete = async (group: ChatGroup) => {
+    if (!confirm(`确定要删除群聊「${group.name}」吗？`)) return;
+
+    try {
+      const result = await APIClient.delete(`/api/admin/groups/${group.id}`);
+
+      if (APIResponseHelper.isSuccess(result)) {
+        setGroups(groups.filter(item => item.id !== group.id));
+      } else {
+        alert(`删除失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('删除群聊失败:', error);
+      alert('删除群聊失败，请重试');
+    }
   };
 
-  const handleTestGroup = (groupId: string) => {
-    console.log('测试群聊:', groupId);
-    // 这里可以跳转到测试页面或者打开测试对话
+  // 用这个群聊创建一个对话并打开
+  const handleTestGroup = async (group: ChatGroup) => {
+    try {
+      const result = await APIClient.post<{ id: string }>('/api/conversations', {
+        title: `群聊: ${group.name}`,
+        mode: 'smart',
+        groupId: group.id
+      });
+
+      if (APIResponseHelper.isSuccess(result)) {
+        router.push(`/chat/${result.data.id}`);
+      } else {
+        alert(`创建对话失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('创建测试对话失败:', error);
+      alert('创建对话失败，请重试');
+    }
   };
 
   const resetForm = () => {
-    setFormData({
-      name: '',
-      description: '',
-      mode: 'smart',
-      isActive: true
-    });
-    setSelectedAgents([]);
+    setFormData(EMPTY_FORM);
+    setMembers([]);
   };
 
   const toggleAgentSelection = (agentId: string) => {
-    setSelectedAgents(prev =>
-      prev.includes(agentId)
-        ? prev.filter(id => id !== agentId)
-        : [...prev, agentId]
+    setMembers(prev =>
+      prev.some(member => member.agentId === agentId)
+        ? prev.filter(member => member.agentId !== agentId)
+        : [...prev, { agentId, priority: 5 }]
     );
   };
 
+  const moveMember = (index: number, offset: number) => {
+    setMembers(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const setMemberPriority = (agentId: string, priority: number) => {
+    setMembers(prev => prev.map(member => member.agentId === agentId ? { ...member, priority } : member));
+  };
+
   const getModeDescription = (mode: string) => {
     switch (mode) {
       case 'smart':
-        return '智能匹配，根据用户情绪和话题动态调整成员';
+        return '智能匹配，根据用户情绪和话题挑选成员，优先级高的成员更容易被选中';
       case 'natural':
-        return '随机顺序，打破固定模式，增加新鲜感';
+        return '随机发言，每位成员按优先级对应的概率发言，顺序随机';
       case 'fixed':
-        return '固定顺序，按预设的发言顺序进行对话';
+        return '固定顺序，全部成员按预设的发言顺序依次回复';
       default:
         return '未知模式';
     }
   };
 
+  // 创建和编辑共用的表单
+  const renderFormFields = (idPrefix: string) => (
+    <div className="grid gap-6 py-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}name`}>群聊名称</Label>
+          <Input
+            id={`${idPrefix}name`}
+            value={formData.name}
+            onChange={(e) => setFormData({...formData, name: e.target.value})}
+            placeholder="例如：基础关怀群聊"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}mode`}>对话模式</Label>
+          <Select value={formData.mode} onValueChange={(value) => setFormData({...formData, mode: value})}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(MODE_LABELS).map(([mode, label]) => (
+                <SelectItem key={mode} value={mode}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}description`}>描述</Label>
+        <Input
+          id={`${idPrefix}description`}
+          value={formData.description}
+          onChange={(e) => setFormData({...formData, description: e.target.value})}
+          placeholder="描述这个群聊的用途和特点"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>选择智能体成员</Label>
+        <p className="text-sm text-gray-600">已选择 {members.length} 个智能体，按选择顺序发言</p>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 max-h-60 overflow-y-auto p-4 border rounded-lg">
+          {agents.map((agent) => (
+            <Card
+              key={agent.id}
+              className={`cursor-pointer transition-all ${
+                members.some(member => member.agentId === agent.id)
+                  ? 'ring-2 ring-blue-500 bg-blue-50'
+                  : 'hover:shadow-md'
+              }`}
+              onClick={() => toggleAgentSelection(agent.id)}
+            >
+              <CardContent className="p-3">
+                <div className="flex items-center space-x-2">
+                  <Avatar className="h-6 w-6">
+                    <AvatarFallback style={{ backgroundColor: agent.color }}>
+                      {agent.name.slice(0, 1)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <p className="font-medium text-sm">{agent.name}</p>
+                    <p className="text-xs text-gray-500">{agent.description}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+
+      {members.length > 0 && (
+        <div className="space-y-2">
+          <Label>发言顺序和优先级</Label>
+          <div className="divide-y rounded-lg border">
+            {members.map((member, index) => {
+              const agent = agents.find(a => a.id === member.agentId);
+              return (
+                <div key={member.agentId} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant="outline">{index + 1}</Badge>
+                    <span className="text-sm truncate">{agent?.name || member.agentId}</span>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Label htmlFor={`${idPrefix}priority-${member.agentId}`} className="text-xs text-gray-500">优先级</Label>
+                    <Input
+                      id={`${idPrefix}priority-${member.agentId}`}
+                      type="number"
+                      min={1}
+                      max={10}
+                      className="w-16 h-8"
+                      value={member.priority}
+                      onChange={(e) => setMemberPriority(member.agentId, parseInt(e.target.value) || 1)}
+                    />
+                    <Button type="button" variant="ghost" size="sm" disabled={index === 0} onClick={() => moveMember(index, -1)}>
+                      <ChevronUp className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="sm" disabled={index === members.length - 1} onClick={() => moveMember(index, 1)}>
+                      <ChevronDown className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>继续聊天的停止条件</Label>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}maxRounds`} className="text-xs text-gray-500">最多轮数</Label>
+            <Input
+              id={`${idPrefix}maxRounds`}
+              type="number"
+              min={1}
+              max={20}
+              value={formData.maxRounds}
+              onChange={(e) => setFormData({...formData, maxRounds: parseInt(e.target.value) || 1})}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}maxMessages`} className="text-xs text-gray-500">最多消息数</Label>
+            <Input
+              id={`${idPrefix}maxMessages`}
+              type="number"
+              min={1}
+              max={50}
+              value={formData.maxMessages}
+              onChange={(e) => setFormData({...formData, maxMessages: parseInt(e.target.value) || 1})}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}idleSimilarity`} className="text-xs text-gray-500">重复内容相似度</Label>
+            <Input
+              id={`${idPrefix}idleSimilarity`}
+              type="number"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={formData.idleSimilarity}
+              onChange={(e) => setFormData({...formData, idleSimilarity: parseFloat(e.target.value) || 0.6})}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={`${idPrefix}isActive`}
+          checked={formData.isActive}
+          onCheckedChange={(checked) => setFormData({...formData, isActive: checked})}
+        />
+        <Label htmlFor={`${idPrefix}isActive`}>启用群聊</Label>
+      </div>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -219,7 +435,13 @@ export default function GroupsPage() {
                 <p className="text-gray-600">创建和管理智能体群聊组合</p>
               </div>
             </div>
-            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <Dialog
+              open={isCreateDialogOpen}
+              onOpenChange={(open) => {
+                setIsCreateDialogOpen(open);
+                if (open) resetForm();
+              }}
+            >
               <DialogTrigger asChild>
                 <Button>
                   <Plus className="h-4 w-4 mr-2" />
@@ -233,89 +455,13 @@ export default function GroupsPage() {
                     选择智能体成员，配置对话模式
                   </DialogDescription>
                 </DialogHeader>
-                <div className="grid gap-6 py-4">
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="name">群聊名称</Label>
-                      <Input
-                        id="name"
-                        value={formData.name}
-                        onChange={(e) => setFormData({...formData, name: e.target.value})}
-                        placeholder="例如：基础关怀群聊"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="mode">对话模式</Label>
-                      <Select value={formData.mode} onValueChange={(value) => setFormData({...formData, mode: value})}>
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="smart">智能匹配</SelectItem>
-                          <SelectItem value="natural">随机顺序</SelectItem>
-                          <SelectItem value="fixed">固定顺序</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="description">描述</Label>
-                    <Input
-                      id="description"
-                      value={formData.description}
-                      onChange={(e) => setFormData({...formData, description: e.target.value})}
-                      placeholder="描述这个群聊的用途和特点"
-                    />
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label>选择智能体成员</Label>
-                    <p className="text-sm text-gray-600">已选择 {selectedAgents.length} 个智能体</p>
-                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3 max-h-60 overflow-y-auto p-4 border rounded-lg">
-                      {agents.map((agent) => (
-                        <Card
-                          key={agent.id}
-                          className={`cursor-pointer transition-all ${
-                            selectedAgents.includes(agent.id)
-                              ? 'ring-2 ring-blue-500 bg-blue-50'
-                              : 'hover:shadow-md'
-                          }`}
-                          onClick={() => toggleAgentSelection(agent.id)}
-                        >
-                          <CardContent className="p-3">
-                            <div className="flex items-center space-x-2">
-                              <Avatar className="h-6 w-6">
-                                <AvatarFallback style={{ backgroundColor: agent.color }}>
-                                  {agent.name.slice(0, 1)}
-                                </AvatarFallback>
-                              </Avatar>
-                              <div>
-                                <p className="font-medium text-sm">{agent.name}</p>
-                                <p className="text-xs text-gray-500">{agent.description}</p>
-                              </div>
-                            </div>
-                          </CardContent>
-                        </Card>
-                      ))}
-                    </div>
-                  </div>
-
-                  <div className="flex items-center space-x-2">
-                    <Switch
-                      id="isActive"
-                      checked={formData.isActive}
-                      onCheckedChange={(checked) => setFormData({...formData, isActive: checked})}
-                    />
-                    <Label htmlFor="isActive">启用群聊</Label>
-                  </div>
-                </div>
+                {renderFormFields('')}
                 <div className="flex justify-end space-x-2">
                   <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
                     取消
                   </Button>
-                  <Button onClick={handleCreate} disabled={selectedAgents.length === 0}>
-                    <Save className="h-4 w-4 mr-2" />
+                  <Button onClick={handleCreate} disabled={isSubmitting || !formData.name.trim() || members.length === 0}>
+                    {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
                     创建群聊
                   </Button>
                 </div>
@@ -327,6 +473,13 @@ export default function GroupsPage() {
 
       {/* Groups Grid */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="py-12 text-center text-gray-500">还没有群聊配置</p>
+        ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {groups.map((group) => (
             <Card key={group.id} className="hover:shadow-lg transition-shadow duration-200">
@@ -337,13 +490,19 @@ export default function GroupsPage() {
                     <CardTitle className="text-lg">{group.name}</CardTitle>
                   </div>
                   <div className="flex items-center space-x-2">
-                    <Button variant="ghost" size="sm" onClick={() => handleTestGroup(group.id)}>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="用这个群聊开始对话"
+                      disabled={!group.isActive || group.members.length === 0}
+                      onClick={() => handleTestGroup(group)}
+                    >
                       <Play className="h-4 w-4" />
                     </Button>
                     <Button variant="ghost" size="sm" onClick={() => handleEdit(group)}>
                       <Edit className="h-4 w-4" />
                     </Button>
-                    <Button variant="ghost" size="sm" onClick={() => handleDelete(group.id)}>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(group)}>
                       <Trash2 className="h-4 w-4" />
                     </Button>
                   </div>
@@ -352,7 +511,7 @@ export default function GroupsPage() {
               </CardHeader>
               <CardContent className="pt-0">
                 <div className="flex flex-wrap gap-2 mb-4">
-                  <Badge variant="secondary">{group.mode}</Badge>
+                  <Badge variant="secondary">{MODE_LABELS[group.mode] || group.mode}</Badge>
                   <Badge variant={group.isActive ? "default" : "secondary"}>
                     {group.isActive ? "启用" : "禁用"}
                   </Badge>
@@ -368,34 +527,36 @@ export default function GroupsPage() {
                 <div className="space-y-2">
                   <Label className="text-sm font-medium">群聊成员：</Label>
                   <div className="flex flex-wrap gap-2">
-                    {group.members
-                      .sort((a, b) => a.order - b.order)
-                      .map((member) => (
-                        <div key={member.id} className="flex items-center space-x-1 bg-gray-100 rounded px-2 py-1">
-                          <Avatar className="h-4 w-4">
-                            <AvatarFallback style={{ backgroundColor: member.agentColor }} className="text-xs">
-                              {member.agentName.slice(0, 1)}
-                            </AvatarFallback>
-                          </Avatar>
-                          <span className="text-xs">{member.agentName}</span>
-                          <Badge variant="outline" className="text-xs">
-                            {member.order}
-                          </Badge>
-                        </div>
-                      ))}
+                    {group.members.map((member) => (
+                      <div key={member.id} className="flex items-center space-x-1 bg-gray-100 rounded px-2 py-1" title={`优先级 ${member.priority}`}>
+                        <Avatar className="h-4 w-4">
+                          <AvatarFallback style={{ backgroundColor: member.agentColor }} className="text-xs">
+                            {member.agentName.slice(0, 1)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <span className="text-xs">{member.agentName}</span>
+                        <Badge variant="outline" className="text-xs">
+                          {member.order}
+                        </Badge>
+                      </div>
+                    ))}
                   </div>
                 </div>
 
                 <div className="mt-4 pt-4 border-t">
                   <div className="flex items-center justify-between text-sm text-gray-500">
                     <span>对话次数: {group.conversationCount}</span>
-                    <span>创建时间: {group.createdAt.toLocaleDateString()}</span>
+                    <span>创建时间: {new Date(group.createdAt).toLocaleDateString()}</span>
+                  </div>
+                  <div className="mt-1 text-xs text-gray-400">
+                    续聊最多 {group.maxRounds} 轮 / {group.maxMessages} 条消息，相似度 {group.idleSimilarity}
                   </div>
                 </div>
               </CardContent>
             </Card>
           ))}
         </div>
+        )}
       </div>
 
       {/* Edit Dialog */}
@@ -408,87 +569,13 @@ export default function GroupsPage() {
                 修改群聊配置和成员设置
               </DialogDescription>
             </DialogHeader>
-            <div className="grid gap-6 py-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="edit-name">群聊名称</Label>
-                  <Input
-                    id="edit-name"
-                    value={formData.name}
-                    onChange={(e) => setFormData({...formData, name: e.target.value})}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="edit-mode">对话模式</Label>
-                  <Select value={formData.mode} onValueChange={(value) => setFormData({...formData, mode: value})}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="smart">智能匹配</SelectItem>
-                      <SelectItem value="natural">随机顺序</SelectItem>
-                      <SelectItem value="fixed">固定顺序</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="edit-description">描述</Label>
-                <Input
-                  id="edit-description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({...formData, description: e.target.value})}
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label>选择智能体成员</Label>
-                <p className="text-sm text-gray-600">已选择 {selectedAgents.length} 个智能体</p>
-                <div className="grid grid-cols-2 md:grid-cols-3 gap-3 max-h-60 overflow-y-auto p-4 border rounded-lg">
-                  {agents.map((agent) => (
-                    <Card
-                      key={agent.id}
-                      className={`cursor-pointer transition-all ${
-                        selectedAgents.includes(agent.id)
-                          ? 'ring-2 ring-blue-500 bg-blue-50'
-                          : 'hover:shadow-md'
-                      }`}
-                      onClick={() => toggleAgentSelection(agent.id)}
-                    >
-                      <CardContent className="p-3">
-                        <div className="flex items-center space-x-2">
-                          <Avatar className="h-6 w-6">
-                            <AvatarFallback style={{ backgroundColor: agent.color }}>
-                              {agent.name.slice(0, 1)}
-                            </AvatarFallback>
-                          </Avatar>
-                          <div>
-                            <p className="font-medium text-sm">{agent.name}</p>
-                            <p className="text-xs text-gray-500">{agent.description}</p>
-                          </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
-              </div>
-
-              <div className="flex items-center space-x-2">
-                <Switch
-                  id="edit-isActive"
-                  checked={formData.isActive}
-                  onCheckedChange={(checked) => setFormData({...formData, isActive: checked})}
-                />
-                <Label htmlFor="edit-isActive">启用群聊</Label>
-              </div>
-            </div>
+            {renderFormFields('edit-')}
             <div className="flex justify-end space-x-2">
               <Button variant="outline" onClick={() => setEditingGroup(null)}>
                 取消
               </Button>
-              <Button onClick={handleUpdate}>
-                <Save className="h-4 w-4 mr-2" />
+              <Button onClick={handleUpdate} disabled={isSubmitting || !formData.name.trim()}>
+                {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
                 保存更改
               </Button>
             </div>
@@ -497,4 +584,4 @@ export default function GroupsPage() {
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -10,50 +10,26 @@ import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { FileText, Plus, Edit, Trash2, Sparkles, Copy, Save, Wand2 } from 'lucide-react';
+import { FileText, Plus, Edit, Trash2, Sparkles, Copy, Save, Wand2, Loader2, History } from 'lucide-react';
 import Link from 'next/link';
+import { APIClient, APIResponseHelper } from '@/types/api';
+import PromptVersionsDialog, { PromptVersionsTarget } from '@/components/admin/PromptVersionsDialog';
 
 interface PromptTemplate {
   id: string;
   name: string;
   category: string;
   content: string;
-  description?: string;
+  description?: string | null;
   tags: string[];
   isPublic: boolean;
-  createdAt: Date;
-  updatedAt: Date;
+  createdAt: string;
+  updatedAt: string;
   usageCount: number;
+  isOwner: boolean;
+  creator: { id: string; name: string | null; email: string };
 }
 
-const mockPrompts: PromptTemplate[] = [
-  {
-    id: '1',
-    name: '共情回应模板',
-    category: 'empathy',
-    content: '你是一个富有同理心的AI助手，名叫{name}。你的主要任务是理解和感受用户的情感，提供温暖的共情回应。\n\n你的特点：\n- 温暖、耐心、善于倾听\n- 能够敏锐地感受到用户的情绪变化\n- 用温和的语言表达理解和关怀\n\n请基于用户分享的内容，给出温暖的共情回应。',
-    description: '用于生成共情性回应的基础模板',
-    tags: ['共情', '情感支持', '温暖'],
-    isPublic: true,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-    usageCount: 245
-  },
-  {
-    id: '2',
-    name: '实用建议模板',
-    category: 'practical',
-    content: '你是一个实用的问题解决专家，名叫{name}。基于用户的情况，你需要提供具体、可操作的建议和解决方案。\n\n你的特点：\n- 逻辑清晰，思路缜密\n- 提供具体可行的行动步骤\n- 考虑用户的实际情况和能力\n\n请基于用户的问题，提供实用的建议和解决方案。',
-    description: '用于生成实用建议的专业模板',
-    tags: ['建议', '解决方案', '实用'],
-    isPublic: true,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-    usageCount: 189
-  }
-];
-
 const categories = [
   { value: 'common', label: '通用' },
   { value: 'empathy', label: '共情' },
@@ -62,44 +38,99 @@ const categories = [
   { value: 'analytical', label: '分析' }
 ];
 
+// 与服务端 MAX_PROMPT_LENGTH 保持一致
+const MAX_PROMPT_LENGTH = 10000;
+
+const EMPTY_FORM = {
+  name: '',
+  category: 'common',
+  content: '',
+  description: '',
+  tags: '',
+  isPublic: true,
+  changeNote: '' // 修改内容时的说明，记录在版本历史里
+};
+
 export default function PromptsPage() {
-  const [prompts, setPrompts] = useState<PromptTemplate[]>(mockPrompts);
+  const [prompts, setPrompts] = useState<PromptTemplate[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingPrompt, setEditingPrompt] = useState<PromptTemplate | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [selectedTag, setSelectedTag] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
-  const [formData, setFormData] = useState({
-    name: '',
-    category: 'common',
-    content: '',
-    description: '',
-    tags: '',
-    isPublic: true
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [versionsTarget, setVersionsTarget] = useState<PromptVersionsTarget | null>(null);
+
+  const loadPrompts = useCallback(async () => {
+    const params = new URLSearchParams();
+    if (selectedCategory !== 'all') params.set('category', selectedCategory);
+    if (selectedTag !== 'all') params.set('tag', selectedTag);
+    if (searchTerm.trim()) params.set('search', searchTerm.trim());
 
-  const filteredPrompts = prompts.filter(prompt => {
-    const matchesCategory = selectedCategory === 'all' || prompt.category === selectedCategory;
-    const matchesSearch = prompt.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         prompt.description?.toLowerCase().includes(searchTerm.toLowerCase());
-    return matchesCategory && matchesSearch;
+    try {
+      setIsLoading(true);
+      const result = await APIClient.get<PromptTemplate[]>(`/api/admin/prompts?${params.toString()}`);
+
+      if (APIResponseHelper.isSuccess(result)) {
+        setPrompts(result.data);
+        setTags(result.metadata?.tags || []);
+      } else {
+        console.error('加载提示词失败:', result.error);
+      }
+    } catch (error) {
+      console.error('加载提示词失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedCategory, selectedTag, searchTerm]);
+
+  // 筛选条件变化时重新加载，输入关键词时稍等再请求
+  useEffect(() => {
+    const timer = setTimeout(loadPrompts, 300);
+    return () => clearTimeout(timer);
+  }, [loadPrompts]);
+
+  const buildPayload = () => ({
+    ...formData,
+    name: formData.name.trim(),
+    description: formData.description.trim()
   });
 
-  const handleCreate = () => {
-    const newPrompt: PromptTemplate = {
-      id: Date.now().toString(),
-      name: formData.name,
-      category: formData.category,
-      content: formData.content,
-      description: formData.description,
-      tags: formData.tags.split(',').map(tag => tag.trim()).filter(tag => tag),
-      isPublic: formData.isPublic,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      usageCount: 0
-    };
-    setPrompts([...prompts, newPrompt]);
-    setIsCreateDialogOpen(false);
-    resetForm();
+  const validateForm = () => {
+    if (!formData.name.trim() || !formData.content.trim()) {
+      alert('请填写模板名称和提示词内容');
+      return false;
+    }
+    if (formData.content.length > MAX_PROMPT_LENGTH) {
+      alert(`提示词过长，最多 ${MAX_PROMPT_LENGTH} 个字符`);
+      return false;
+    }
+    return true;
+  };
+
+  const handleCreate = async () => {
+    if (!validateForm()) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await APIClient.post<PromptTemplate>('/api/admin/prompts', buildPayload());
+
+      if (APIResponseHelper.isSuccess(result)) {
+        setIsCreateDialogOpen(false);
+        resetForm();
+        await loadPrompts();
+      } else {
+        alert(`创建失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('创建提示词失败:', error);
+      alert('创建失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   const handleEdit = (prompt: PromptTemplate) => {
@@ -110,34 +141,52 @@ export default function PromptsPage() {
       content: prompt.content,
       description: prompt.description || '',
       tags: prompt.tags.join(', '),
-      isPublic: prompt.isPublic
+      isPublic: prompt.isPublic,
+      changeNote: ''
     });
   };
 
-  const handleUpdate = () => {
-    if (!editingPrompt) return;
-    setPrompts(prompts.map(prompt =>
-      prompt.id === editingPrompt.id
-        ? {
-            ...prompt,
-            ...formData,
-            tags: formData.tags.split(',').map(tag => tag.trim()).filter(tag => tag),
-            updatedAt: new Date()
-          }
-        : prompt
-    ));
-    setEditingPrompt(null);
-    resetForm();
-  };
+  const handleUpdate = async () => {
+    if (!editingPrompt || !validateForm()) return;
 
-  const handleDelete = (id: string) => {
-    setPrompts(prompts.filter(prompt => prompt.id !== id));
+    setIsSubmitting(true);
+    try {
+      const result = await APIClient.put<PromptTemplate>(`/api/admin/prompts/${editingPrompt.id}`, buildPayload());
+
+      if (APIResponseHelper.isSuccess(result)) {
+        setEditingPrompt(null);
+        resetForm();
+        await loadPrompts();
+      } else {
+        alert(`保存失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('更新提示词失败:', error);
+      alert('保存失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
-  const handleBeautifyPrompt = async (promptId: string) => {
-    const prompt = prompts.find(p => p.id === promptId);
-    if (!prompt) return;
+  const handleDelete = async (prompt: PromptTemplate) => {
+    const usage = prompt.usageCount > 0 ? `，${prompt.usageCount} 个智能体会同时移除这个模板` : '';
+    if (!confirm(`确定删除提示词模板「${prompt.name}」吗${usage}？`)) return;
 
+    try {
+      const result = await APIClient.delete(`/api/admin/prompts/${prompt.id}`);
+
+      if (APIResponseHelper.isSuccess(result)) {
+        await loadPrompts();
+      } else {
+        alert(`删除失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('删除提示词失败:', error);
+      alert('删除失败，请重试');
+    }
+  };
+
+  const handleBeautifyPrompt = async (prompt: PromptTemplate) => {
     try {
       console.log('正在美化提示词:', prompt.name);
 
@@ -155,13 +204,17 @@ export default function PromptsPage() {
 
       const result = await response.json();
 
-      setPrompts(prompts.map(p =>
-        p.id === promptId
-          ? { ...p, content: result.beautifiedContent, updatedAt: new Date() }
-          : p
-      ));
+      // 美化结果直接保存到模板
+      const saved = await APIClient.put<PromptTemplate>(`/api/admin/prompts/${prompt.id}`, {
+        content: result.beautifiedContent,
+        changeNote: 'AI美化'
+      });
+      if (!APIResponseHelper.isSuccess(saved)) {
+        alert(`保存美化结果失败: ${saved.error}`);
+        return;
+      }
 
-      // 这里可以显示成功提示
+      setPrompts(prev => prev.map(p => p.id === prompt.id ? saved.data : p));
       alert(`提示词美化完成！\n\n优化内容：\n${result.improvements.join('\n')}`);
 
     } catch (error) {
@@ -205,14 +258,7 @@ export default function PromptsPage() {
   };
 
   const resetForm = () => {
-    setFormData({
-      name: '',
-      category: 'common',
-      content: '',
-      description: '',
-      tags: '',
-      isPublic: true
-    });
+    setFormData(EMPTY_FORM);
   };
 
   const copyToClipboard = async (content: string) => {
@@ -260,6 +306,19 @@ export default function PromptsPage() {
                     ))}
                   </SelectContent>
                 </Select>
+                <Select value={selectedTag} onValueChange={setSelectedTag}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">全部标签</SelectItem>
+                    {tags.map(tag => (
+                      <SelectItem key={tag} value={tag}>
+                        {tag}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
                 <DialogTrigger asChild>
@@ -340,7 +399,7 @@ export default function PromptsPage() {
                         id="content"
                         value={formData.content}
                         onChange={(e) => setFormData({...formData, content: e.target.value})}
-                        placeholder="输入提示词模板内容，使用 {name} 作为占位符..."
+                        placeholder="输入提示词模板内容，可使用 {{userName}}、{{timeOfDay}}、{{groupName}}、{{sceneType}}、{{agentName}} 等变量..."
                         rows={12}
                         className="font-mono text-sm"
                       />
@@ -364,8 +423,8 @@ export default function PromptsPage() {
                     <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
                       取消
                     </Button>
-                    <Button onClick={handleCreate}>
-                      <Save className="h-4 w-4 mr-2" />
+                    <Button onClick={handleCreate} disabled={isSubmitting}>
+                      {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
                       创建模板
                     </Button>
                   </div>
@@ -378,8 +437,15 @@ export default function PromptsPage() {
 
       {/* Prompts Grid */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+          </div>
+        ) : prompts.length === 0 ? (
+          <p className="py-12 text-center text-gray-500">没有符合条件的提示词模板</p>
+        ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredPrompts.map((prompt) => (
+          {prompts.map((prompt) => (
             <Card key={prompt.id} className="hover:shadow-lg transition-shadow duration-200">
               <CardHeader className="pb-4">
                 <div className="flex items-center justify-between">
@@ -388,19 +454,29 @@ export default function PromptsPage() {
                     <CardTitle className="text-lg">{prompt.name}</CardTitle>
                   </div>
                   <div className="flex items-center space-x-2">
+                    {prompt.isOwner && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleBeautifyPrompt(prompt)}
+                      >
+                        <Sparkles className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => handleBeautifyPrompt(prompt.id)}
+                      onClick={() => copyToClipboard(prompt.content)}
                     >
-                      <Sparkles className="h-4 w-4" />
+                      <Copy className="h-4 w-4" />
                     </Button>
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => copyToClipboard(prompt.content)}
+                      title="版本历史"
+                      onClick={() => setVersionsTarget({ type: 'template', id: prompt.id, name: prompt.name })}
                     >
-                      <Copy className="h-4 w-4" />
+                      <History className="h-4 w-4" />
                     </Button>
                   </div>
                 </div>
@@ -408,7 +484,9 @@ export default function PromptsPage() {
               </CardHeader>
               <CardContent className="pt-0">
                 <div className="flex flex-wrap gap-2 mb-4">
-                  <Badge variant="secondary">{prompt.category}</Badge>
+                  <Badge variant="secondary">
+                    {categories.find(category => category.value === prompt.category)?.label || prompt.category}
+                  </Badge>
                   {prompt.tags.map((tag) => (
                     <Badge key={tag} variant="outline" className="text-xs">
                       {tag}
@@ -423,31 +501,38 @@ export default function PromptsPage() {
                 </div>
 
                 <div className="flex items-center justify-between text-sm text-gray-500 mb-4">
-                  <span>使用次数: {prompt.usageCount}</span>
+                  <span>使用智能体: {prompt.usageCount}</span>
                   <Badge variant={prompt.isPublic ? "default" : "secondary"}>
                     {prompt.isPublic ? "公开" : "私有"}
                   </Badge>
                 </div>
 
-                <div className="flex justify-end space-x-2">
-                  <Button variant="outline" size="sm" onClick={() => handleEdit(prompt)}>
-                    <Edit className="h-4 w-4 mr-2" />
-                    编辑
-                  </Button>
-                  <Button variant="outline" size="sm" onClick={() => handleDelete(prompt.id)}>
-                    <Trash2 className="h-4 w-4 mr-2" />
-                    删除
-                  </Button>
-                </div>
+                {prompt.isOwner ? (
+                  <div className="flex justify-end space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => handleEdit(prompt)}>
+                      <Edit className="h-4 w-4 mr-2" />
+                      编辑
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleDelete(prompt)}>
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      删除
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-right text-xs text-gray-500">
+                    由 {prompt.creator.name || prompt.creator.email} 创建
+                  </p>
+                )}
               </CardContent>
             </Card>
           ))}
         </div>
+        )}
       </div>
 
       {/* Edit Dialog */}
       {editingPrompt && (
-        <Dialog open={!!editingPrompt} onOpenChange={() => setEditingPrompt(null)}>
+        <Dialog open={!!editingPrompt} onOpenChange={() => { setEditingPrompt(null); resetForm(); }}>
           <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>编辑提示词模板</DialogTitle>
@@ -535,19 +620,37 @@ export default function PromptsPage() {
                 />
                 <Label htmlFor="edit-isPublic">公开模板</Label>
               </div>
+
+              {formData.content !== editingPrompt.content && (
+                <div className="space-y-2">
+                  <Label htmlFor="edit-changeNote">修改说明</Label>
+                  <Input
+                    id="edit-changeNote"
+                    value={formData.changeNote}
+                    onChange={(e) => setFormData({...formData, changeNote: e.target.value})}
+                    placeholder="简要说明这次改了什么，会记录在版本历史里"
+                  />
+                </div>
+              )}
             </div>
             <div className="flex justify-end space-x-2">
               <Button variant="outline" onClick={() => setEditingPrompt(null)}>
                 取消
               </Button>
-              <Button onClick={handleUpdate}>
-                <Save className="h-4 w-4 mr-2" />
+              <Button onClick={handleUpdate} disabled={isSubmitting}>
+                {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
                 保存更改
               </Button>
             </div>
           </DialogContent>
         </Dialog>
       )}
+
+      <PromptVersionsDialog
+        target={versionsTarget}
+        onClose={() => setVersionsTarget(null)}
+        onRolledBack={loadPrompts}
+      />
     </div>
   );
 }
\ No newline at end of file
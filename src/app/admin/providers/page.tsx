@@ -13,8 +13,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { Network, Plus, Edit, Trash2, Key, TestTube, Save, Eye, EyeOff, ChevronDown, ChevronRight, Bot, AlertCircle, Loader2, Download } from 'lucide-react';
+import { Network, Plus, Edit, Trash2, Key, TestTube, Save, Eye, EyeOff, ChevronDown, ChevronRight, Bot, AlertCircle, Loader2, Download, Gauge, RotateCcw } from 'lucide-react';
 import Link from 'next/link';
+import { LOCAL_PROVIDERS, LLMProvider as LLMProviderCode } from '@/types/llm';
 
 interface LLMModel {
   id: string;
@@ -32,9 +33,21 @@ interface LLMProvider {
   name: string;
   code: string;
   baseUrl: string;
+  adapter?: string | null;
+  chatPath?: string | null;
+  extraHeaders?: Record<string, string> | null;
+  requestsPerMinute?: number | null;
+  tokensPerMinute?: number | null;
+  maxConcurrent?: number | null;
   isActive: boolean;
   models: LLMModel[];
   agentCount: number;
+  circuit?: {
+    state: 'closed' | 'open' | 'half_open';
+    consecutiveFailures: number;
+    retryAt: string | null;
+    lastError: string | null;
+  };
 }
 
 const providerTemplates = [
@@ -59,11 +72,84 @@ const providerTemplates = [
   {
     name: 'Google Gemini',
     code: 'google',
-    baseUrl: 'https://generativelanguage.googleapis.com/v1',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
     description: 'Google的最新生成模型'
+  },
+  {
+    name: 'Ollama (本地)',
+    code: 'ollama',
+    baseUrl: 'http://localhost:11434',
+    description: '本地离线运行开源模型，无需API密钥'
+  },
+  {
+    name: 'llama.cpp (本地)',
+    code: 'llamacpp',
+    baseUrl: 'http://localhost:8080/v1',
+    description: 'llama-server 本地推理服务，无需API密钥'
+  },
+  {
+    name: 'OpenAI 兼容服务',
+    code: 'custom',
+    adapter: 'custom',
+    baseUrl: 'http://localhost:8000/v1',
+    description: 'vLLM、OneAPI、SiliconFlow 等兼容接口'
   }
 ];
 
+const isLocalProvider = (code: string) => LOCAL_PROVIDERS.includes(code as LLMProviderCode);
+
+// 本地运行时和自定义提供商的API密钥可选
+const isApiKeyOptional = (code: string, adapter: string) =>
+  isLocalProvider(adapter || code) || (adapter || code) === 'custom';
+
+const parseExtraHeaders = (text: string): Record<string, string> | null => {
+  if (!text.trim()) return null;
+  const parsed = JSON.parse(text);
+  if (typeof parsed !== 'object' || Array.isArray(parsed) || parsed === null) {
+    throw new Error('额外请求头必须是JSON对象');
+  }
+  return parsed;
+};
+
+interface RateLimitForm {
+  requestsPerMinute: string;
+  tokensPerMinute: string;
+  maxConcurrent: string;
+}
+
+const emptyRateLimits: RateLimitForm = { requestsPerMinute: '', tokensPerMinute: '', maxConcurrent: '' };
+
+// 限流输入框留空表示不限制
+const parseRateLimit = (text: string): number | null => {
+  if (!text.trim()) return null;
+  const value = Number(text);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error('限流配置必须是正整数');
+  }
+  return value;
+};
+
+const parseRateLimits = (form: RateLimitForm) => ({
+  requestsPerMinute: parseRateLimit(form.requestsPerMinute),
+  tokensPerMinute: parseRateLimit(form.tokensPerMinute),
+  maxConcurrent: parseRateLimit(form.maxConcurrent)
+});
+
+const describeRateLimits = (provider: LLMProvider) => {
+  const parts = [
+    provider.requestsPerMinute ? `${provider.requestsPerMinute} 次/分钟` : null,
+    provider.tokensPerMinute ? `${provider.tokensPerMinute} tokens/分钟` : null,
+    provider.maxConcurrent ? `并发 ${provider.maxConcurrent}` : null
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : '不限制';
+};
+
+const circuitStateLabels = {
+  closed: '正常',
+  open: '熔断中',
+  half_open: '半开（探测中）'
+};
+
 const capabilityOptions = [
   { value: 'chat', label: '文本对话' },
   { value: 'vision', label: '图像识别' },
@@ -89,8 +175,14 @@ export default function ProvidersPage() {
     code: '',
     baseUrl: '',
     apiKey: '',
+    adapter: '',
+    chatPath: '',
+    extraHeaders: '',
+    ...emptyRateLimits,
     isActive: true
   });
+  const [rateLimitProvider, setRateLimitProvider] = useState<LLMProvider | null>(null);
+  const [rateLimitForm, setRateLimitForm] = useState<RateLimitForm>(emptyRateLimits);
 
   const [modelFormData, setModelFormData] = useState({
     name: '',
@@ -132,7 +224,13 @@ export default function ProvidersPage() {
       const response = await fetch('/api/admin/providers', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(providerFormData)
+        body: JSON.stringify({
+          ...providerFormData,
+          adapter: providerFormData.adapter || null,
+          chatPath: providerFormData.chatPath.trim() || null,
+          extraHeaders: parseExtraHeaders(providerFormData.extraHeaders),
+          ...parseRateLimits(providerFormData)
+        })
       });
 
       const result = await response.json();
@@ -198,7 +296,7 @@ export default function ProvidersPage() {
       
       if (result.success) {
         await loadProviders();
-        alert(`成功导入 ${result.data.length} 个预设模型`);
+        alert(result.message || `成功导入 ${result.data.length} 个预设模型`);
       } else {
         console.error('导入模型失败:', result.error);
         alert(`导入失败: ${result.error}`);
@@ -211,6 +309,118 @@ export default function ProvidersPage() {
     }
   };
 
+  const openRateLimitDialog = (provider: LLMProvider) => {
+    setRateLimitProvider(provider);
+    setRateLimitForm({
+      requestsPerMinute: provider.requestsPerMinute?.toString() || '',
+      tokensPerMinute: provider.tokensPerMinute?.toString() || '',
+      maxConcurrent: provider.maxConcurrent?.toString() || ''
+    });
+    setErrors({});
+  };
+
+  const handleSaveRateLimits = async () => {
+    if (!rateLimitProvider) return;
+
+    let limits;
+    try {
+      limits = parseRateLimits(rateLimitForm);
+    } catch {
+      setErrors({ rateLimits: '限流配置必须是正整数，留空表示不限制' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      // PUT 会覆盖整个提供商配置，需要带上现有字段
+      const response = await fetch(`/api/admin/providers/${rateLimitProvider.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: rateLimitProvider.name,
+          code: rateLimitProvider.code,
+          baseUrl: rateLimitProvider.baseUrl,
+          adapter: rateLimitProvider.adapter,
+          chatPath: rateLimitProvider.chatPath,
+          extraHeaders: rateLimitProvider.extraHeaders,
+          isActive: rateLimitProvider.isActive,
+          ...limits
+        })
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        await loadProviders();
+        setRateLimitProvider(null);
+      } else {
+        console.error('保存限流配置失败:', result.error);
+        alert(`保存失败: ${result.details || result.error}`);
+      }
+    } catch (error) {
+      console.error('保存限流配置失败:', error);
+      alert('保存限流配置失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderRateLimitFields = (form: RateLimitForm, onChange: (form: RateLimitForm) => void) => (
+    <div className="space-y-2">
+      <Label>限流配置 <span className="text-gray-400 font-normal">（可选，留空不限制）</span></Label>
+      <div className="grid grid-cols-3 gap-4">
+        <Input
+          type="number"
+          min={1}
+          value={form.requestsPerMinute}
+          onChange={(e) => onChange({...form, requestsPerMinute: e.target.value})}
+          placeholder="请求数/分钟"
+        />
+        <Input
+          type="number"
+          min={1}
+          value={form.tokensPerMinute}
+          onChange={(e) => onChange({...form, tokensPerMinute: e.target.value})}
+          placeholder="Token数/分钟"
+        />
+        <Input
+          type="number"
+          min={1}
+          value={form.maxConcurrent}
+          onChange={(e) => onChange({...form, maxConcurrent: e.target.value})}
+          placeholder="最大并发"
+        />
+      </div>
+      <p className="text-xs text-gray-500">超出限制的调用会排队等待，而不是直接失败</p>
+      {errors.rateLimits && (
+        <p className="text-xs text-red-500">{errors.rateLimits}</p>
+      )}
+    </div>
+  );
+
+  const handleResetCircuit = async (provider: LLMProvider) => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/admin/providers/${provider.id}/circuit`, {
+        method: 'DELETE'
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        await loadProviders();
+      } else {
+        console.error('重置熔断失败:', result.error);
+        alert(`重置失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('重置熔断失败:', error);
+      alert('重置熔断失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const validateProviderForm = () => {
     const newErrors: {[key: string]: string} = {};
     
@@ -223,9 +433,22 @@ export default function ProvidersPage() {
     if (!providerFormData.baseUrl.trim()) {
       newErrors.baseUrl = 'API基础URL不能为空';
     }
-    if (!providerFormData.apiKey.trim()) {
+    if (!providerFormData.apiKey.trim() && !isApiKeyOptional(providerFormData.code, providerFormData.adapter)) {
       newErrors.apiKey = 'API密钥不能为空';
     }
+    if (providerFormData.chatPath.trim() && !providerFormData.chatPath.startsWith('/')) {
+      newErrors.chatPath = '接口路径必须以 / 开头';
+    }
+    try {
+      parseExtraHeaders(providerFormData.extraHeaders);
+    } catch {
+      newErrors.extraHeaders = '额外请求头必须是合法的JSON对象';
+    }
+    try {
+      parseRateLimits(providerFormData);
+    } catch {
+      newErrors.rateLimits = '限流配置必须是正整数，留空表示不限制';
+    }
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -257,6 +480,10 @@ export default function ProvidersPage() {
       code: '',
       baseUrl: '',
       apiKey: '',
+      adapter: '',
+      chatPath: '',
+      extraHeaders: '',
+      ...emptyRateLimits,
       isActive: true
     });
     setErrors({});
@@ -280,6 +507,10 @@ export default function ProvidersPage() {
       code: template.code,
       baseUrl: template.baseUrl,
       apiKey: '',
+      adapter: template.adapter || '',
+      chatPath: '',
+      extraHeaders: '',
+      ...emptyRateLimits,
       isActive: true
     });
   };
@@ -387,7 +618,9 @@ export default function ProvidersPage() {
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="apiKey">API密钥</Label>
+                    <Label htmlFor="apiKey">
+                      API密钥{isApiKeyOptional(providerFormData.code, providerFormData.adapter) && <span className="text-gray-400 font-normal">（可选）</span>}
+                    </Label>
                     <div className="relative">
                       <Input
                         id="apiKey"
@@ -416,6 +649,54 @@ export default function ProvidersPage() {
                     )}
                   </div>
 
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="adapter">适配器类型</Label>
+                      <Select
+                        value={providerFormData.adapter || 'auto'}
+                        onValueChange={(value) => setProviderFormData({...providerFormData, adapter: value === 'auto' ? '' : value})}
+                      >
+                        <SelectTrigger id="adapter">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">按代码标识匹配</SelectItem>
+                          <SelectItem value="custom">OpenAI 兼容 (custom)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="chatPath">接口路径 <span className="text-gray-400 font-normal">（可选）</span></Label>
+                      <Input
+                        id="chatPath"
+                        value={providerFormData.chatPath}
+                        onChange={(e) => setProviderFormData({...providerFormData, chatPath: e.target.value})}
+                        placeholder="/chat/completions"
+                        className={errors.chatPath ? 'border-red-500' : ''}
+                      />
+                      {errors.chatPath && (
+                        <p className="text-xs text-red-500">{errors.chatPath}</p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="extraHeaders">额外请求头 <span className="text-gray-400 font-normal">（可选，JSON）</span></Label>
+                    <Textarea
+                      id="extraHeaders"
+                      value={providerFormData.extraHeaders}
+                      onChange={(e) => setProviderFormData({...providerFormData, extraHeaders: e.target.value})}
+                      placeholder='{"X-Custom-Header": "value"}'
+                      rows={2}
+                      className={`font-mono text-sm ${errors.extraHeaders ? 'border-red-500' : ''}`}
+                    />
+                    {errors.extraHeaders && (
+                      <p className="text-xs text-red-500">{errors.extraHeaders}</p>
+                    )}
+                  </div>
+
+                  {renderRateLimitFields(providerFormData, (limits) => setProviderFormData({...providerFormData, ...limits}))}
+
                   <div className="flex items-center space-x-2">
                     <Switch
                       id="isActive"
@@ -496,6 +777,11 @@ export default function ProvidersPage() {
                               <Badge variant={provider.isActive ? "default" : "secondary"}>
                                 {provider.isActive ? "启用" : "禁用"}
                               </Badge>
+                              {provider.circuit && provider.circuit.state !== 'closed' && (
+                                <Badge variant="destructive">
+                                  {circuitStateLabels[provider.circuit.state]}
+                                </Badge>
+                              )}
                             </div>
                           </div>
                         </CollapsibleTrigger>
@@ -506,18 +792,58 @@ export default function ProvidersPage() {
                               <div className="grid grid-cols-2 gap-4 text-sm">
                                 <div>
                                   <span className="font-medium">API地址: </span>
-                                  <span className="font-mono">{provider.baseUrl}</span>
+                                  <span className="font-mono">{provider.baseUrl}{provider.chatPath || ''}</span>
                                 </div>
                                 <div>
                                   <span className="font-medium">使用智能体: </span>
                                   <span>{provider.agentCount} 个</span>
                                 </div>
+                                <div className="col-span-2">
+                                  <span className="font-medium">限流: </span>
+                                  <span>{describeRateLimits(provider)}</span>
+                                </div>
+                                <div className="col-span-2 flex items-center justify-between">
+                                  <div>
+                                    <span className="font-medium">熔断状态: </span>
+                                    <span>{circuitStateLabels[provider.circuit?.state || 'closed']}</span>
+                                    {provider.circuit && provider.circuit.consecutiveFailures > 0 && (
+                                      <span className="text-gray-500">
+                                        （连续失败 {provider.circuit.consecutiveFailures} 次
+                                        {provider.circuit.retryAt && provider.circuit.state === 'open' && `，${new Date(provider.circuit.retryAt).toLocaleTimeString()} 后探测`}）
+                                      </span>
+                                    )}
+                                  </div>
+                                  {provider.circuit && provider.circuit.state !== 'closed' && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => handleResetCircuit(provider)}
+                                      disabled={isSubmitting}
+                                    >
+                                      <RotateCcw className="h-4 w-4 mr-1" />
+                                      重置熔断
+                                    </Button>
+                                  )}
+                                </div>
+                                {provider.circuit?.lastError && provider.circuit.state !== 'closed' && (
+                                  <div className="col-span-2 text-xs text-red-500 break-all">
+                                    最近错误: {provider.circuit.lastError}
+                                  </div>
+                                )}
                               </div>
                             </div>
 
                             <div className="flex justify-between items-center mb-3">
                               <h4 className="font-medium">模型列表</h4>
                               <div className="flex space-x-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => openRateLimitDialog(provider)}
+                                >
+                                  <Gauge className="h-4 w-4 mr-1" />
+                                  限流设置
+                                </Button>
                                 <Button
                                   size="sm"
                                   variant="outline"
@@ -525,7 +851,7 @@ export default function ProvidersPage() {
                                   disabled={isSubmitting}
                                 >
                                   <Download className="h-4 w-4 mr-1" />
-                                  导入预设模型
+                                  {isLocalProvider(provider.code) ? '发现本地模型' : '导入预设模型'}
                                 </Button>
                                 <Dialog open={isCreateModelDialogOpen} onOpenChange={setIsCreateModelDialogOpen}>
                                   <DialogTrigger asChild>
@@ -716,6 +1042,27 @@ export default function ProvidersPage() {
             )}
           </CardContent>
         </Card>
+
+        <Dialog open={!!rateLimitProvider} onOpenChange={(open) => !open && setRateLimitProvider(null)}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>限流设置</DialogTitle>
+              <DialogDescription>
+                配置 {rateLimitProvider?.name} 的每分钟请求数、每分钟Token数和最大并发
+              </DialogDescription>
+            </DialogHeader>
+            {renderRateLimitFields(rateLimitForm, setRateLimitForm)}
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setRateLimitProvider(null)}>
+                取消
+              </Button>
+              <Button onClick={handleSaveRateLimits} disabled={isSubmitting}>
+                {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                保存
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
     </div>
   );
 }
\ No newline at end of file
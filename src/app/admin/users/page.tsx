@@ -0,0 +1,235 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+
+interface Plan {
+  id: string;
+  code: string;
+  name: string;
+  description?: string | null;
+  dailyMessages: number | null;
+  monthlyTokens: number | null;
+  monthlyCostCents: number | null;
+  maxAgentsPerConversation: number | null;
+  allowedModels: string[];
+}
+
+interface User {
+  id: string;
+  email: string;
+  name: string | null;
+  role: string;
+  plan: string;
+  createdAt: string;
+  conversationCount: number;
+}
+
+function formatLimit(value: number | null, unit: string = ''): string {
+  return value === null ? '不限' : `${value.toLocaleString()}${unit}`;
+}
+
+export default function UsersPage() {
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [updatingUserId, setUpdatingUserId] = useState<string | null>(null);
+
+  // 加载数据
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setIsLoading(true);
+      const [plansResponse, usersResponse] = await Promise.all([
+        fetch('/api/admin/plans'),
+        fetch('/api/admin/users')
+      ]);
+      const plansResult = await plansResponse.json();
+      const usersResult = await usersResponse.json();
+
+      if (plansResult.success) {
+        setPlans(plansResult.data);
+      } else {
+        console.error('加载套餐失败:', plansResult.error);
+      }
+
+      if (usersResult.success) {
+        setUsers(usersResult.data);
+      } else {
+        console.error('加载用户失败:', usersResult.error);
+      }
+    } catch (error) {
+      console.error('加载用户套餐数据失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePlanChange = async (user: User, plan: string) => {
+    if (plan === user.plan) return;
+
+    setUpdatingUserId(user.id);
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ plan })
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setUsers(prev => prev.map(item => item.id === user.id ? { ...item, plan: result.data.plan } : item));
+      } else {
+        alert(`修改套餐失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('修改套餐失败:', error);
+      alert('修改套餐失败，请重试');
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">用户套餐</h1>
+        <p className="mt-2 text-gray-600">查看套餐额度，为用户分配套餐</p>
+      </div>
+
+      {/* Plans */}
+      <Card>
+        <CardHeader>
+          <CardTitle>套餐列表</CardTitle>
+          <CardDescription>
+            额度按自然日、自然月统计，共 {plans.length} 个套餐
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>套餐</TableHead>
+                <TableHead>每日消息</TableHead>
+                <TableHead>每月Token</TableHead>
+                <TableHead>每月费用</TableHead>
+                <TableHead>每对话智能体</TableHead>
+                <TableHead>可用模型</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plans.map(plan => (
+                <TableRow key={plan.id}>
+                  <TableCell>
+                    <p className="font-medium">{plan.name}</p>
+                    <p className="text-sm text-gray-500">{plan.code}</p>
+                  </TableCell>
+                  <TableCell>{formatLimit(plan.dailyMessages, ' 条')}</TableCell>
+                  <TableCell>{formatLimit(plan.monthlyTokens)}</TableCell>
+                  <TableCell>
+                    {plan.monthlyCostCents === null ? '不限' : `$${(plan.monthlyCostCents / 100).toFixed(2)}`}
+                  </TableCell>
+                  <TableCell>{formatLimit(plan.maxAgentsPerConversation, ' 个')}</TableCell>
+                  <TableCell>
+                    {plan.allowedModels.length === 0 ? '不限' : (
+                      <div className="flex flex-wrap gap-1">
+                        {plan.allowedModels.map(model => (
+                          <Badge key={model} variant="outline" className="font-mono text-xs">{model}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Users */}
+      <Card>
+        <CardHeader>
+          <CardTitle>用户列表</CardTitle>
+          <CardDescription>
+            修改后立即生效，共 {users.length} 个用户
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2"></div>
+                <p className="text-sm text-muted-foreground">加载用户中...</p>
+              </div>
+            </div>
+          ) : users.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              暂无用户
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>用户</TableHead>
+                  <TableHead>角色</TableHead>
+                  <TableHead>对话数</TableHead>
+                  <TableHead>注册时间</TableHead>
+                  <TableHead>套餐</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(user => (
+                  <TableRow key={user.id}>
+                    <TableCell>
+                      <p className="font-medium">{user.name || '未设置昵称'}</p>
+                      <p className="text-sm text-gray-500">{user.email}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={user.role === 'admin' ? 'default' : 'secondary'}>
+                        {user.role === 'admin' ? '管理员' : '用户'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{user.conversationCount}</TableCell>
+                    <TableCell>{new Date(user.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={user.plan}
+                          onValueChange={(plan) => handlePlanChange(user, plan)}
+                          disabled={updatingUserId === user.id}
+                        >
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {plans.map(plan => (
+                              <SelectItem key={plan.code} value={plan.code}>
+                                {plan.name}
+                              </SelectItem>
+                            ))}
+                            {!plans.some(plan => plan.code === user.plan) && (
+                              <SelectItem value={user.plan}>{user.plan}（未定义）</SelectItem>
+                            )}
+                          </SelectContent>
+                        </Select>
+                        {updatingUserId === user.id && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import knowledgeBase from '@/lib/knowledge-base';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 从智能体知识库删除文档及其切片
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; docId: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id, docId } = await params;
+    const deleted = await knowledgeBase.deleteDocument(id, docId);
+
+    if (!deleted) {
+      return NextResponse.json(
+        APIResponseHelper.error('文档不存在'),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      APIResponseHelper.success({ id: docId }, '文档已删除')
+    );
+  } catch (error) {
+    console.error('删除知识库文档失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('删除知识库文档失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import prisma from '@/lib/db';
+import knowledgeBase from '@/lib/knowledge-base';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 用当前的向量实现重新索引智能体的知识库（切换 EMBEDDING_PROVIDER 后使用）
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const agent = await prisma.agent.findUnique({ where: { id }, select: { id: true } });
+    if (!agent) {
+      return NextResponse.json(
+        APIResponseHelper.error('智能体不存在'),
+        { status: 404 }
+      );
+    }
+
+    const chunkCount = await knowledgeBase.reindex(id);
+
+    return NextResponse.json(
+      APIResponseHelper.success({ chunkCount }, '知识库已重新索引')
+    );
+  } catch (error) {
+    console.error('重新索引知识库失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('重新索引知识库失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
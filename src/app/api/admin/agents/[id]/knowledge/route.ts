@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import prisma from '@/lib/db';
+import knowledgeBase, { KNOWLEDGE_FORMATS, KnowledgeFormat, MAX_DOCUMENT_LENGTH } from '@/lib/knowledge-base';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 获取智能体知识库的文档列表
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const agent = await prisma.agent.findUnique({ where: { id }, select: { id: true } });
+    if (!agent) {
+      return NextResponse.json(
+        APIResponseHelper.error('智能体不存在'),
+        { status: 404 }
+      );
+    }
+
+    const documents = await knowledgeBase.listDocuments(id);
+
+    return NextResponse.json(
+      APIResponseHelper.success(documents)
+    );
+  } catch (error) {
+    console.error('获取知识库文档失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('获取知识库文档失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 向智能体知识库添加文档 - PDF 需要先提取成文本再上传
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { title, format, content } = await request.json();
+
+    if (!title || typeof title !== 'string' || !title.trim()) {
+      return NextResponse.json(
+        APIResponseHelper.error('缺少文档标题'),
+        { status: 400 }
+      );
+    }
+
+    if (!KNOWLEDGE_FORMATS.includes(format)) {
+      return NextResponse.json(
+        APIResponseHelper.error(`不支持的文档格式: ${format}`, `支持的格式: ${KNOWLEDGE_FORMATS.join(', ')}`),
+        { status: 400 }
+      );
+    }
+
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json(
+        APIResponseHelper.error('文档内容不能为空'),
+        { status: 400 }
+      );
+    }
+
+    if (content.length > MAX_DOCUMENT_LENGTH) {
+      return NextResponse.json(
+        APIResponseHelper.error(`文档过长，最多 ${MAX_DOCUMENT_LENGTH} 个字符`),
+        { status: 400 }
+      );
+    }
+
+    const agent = await prisma.agent.findUnique({ where: { id }, select: { id: true } });
+    if (!agent) {
+      return NextResponse.json(
+        APIResponseHelper.error('智能体不存在'),
+        { status: 404 }
+      );
+    }
+
+    const document = await knowledgeBase.addDocument(id, {
+      title: title.trim(),
+      format: format as KnowledgeFormat,
+      content
+    });
+
+    return NextResponse.json(
+      APIResponseHelper.success({
+        id: document.id,
+        title: document.title,
+        format: document.format,
+        createdAt: document.createdAt,
+        updatedAt: document.updatedAt,
+        chunkCount: document.chunkCount
+      }, '文档已加入知识库'),
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('添加知识库文档失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('添加知识库文档失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
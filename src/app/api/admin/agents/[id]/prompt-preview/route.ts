@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import prisma from '@/lib/db';
+import promptComposer from '@/lib/prompt-composer';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 预览智能体组装后的系统提示词 - conversationId 指定对话（用户名、群聊名取自该对话），
+ * sceneType 指定场景类型；返回最终的系统提示词、各段来源和变量取值
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const agent = await prisma.agent.findUnique({
+      where: { id },
+      select: { id: true, name: true, prompt: true }
+    });
+    if (!agent) {
+      return NextResponse.json(
+        APIResponseHelper.error('智能体不存在'),
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const conversationId = searchParams.get('conversationId') || undefined;
+    if (conversationId) {
+      const conversation = await prisma.conversation.findUnique({
+        where: { id: conversationId },
+        select: { id: true }
+      });
+      if (!conversation) {
+        return NextResponse.json(
+          APIResponseHelper.error('对话不存在'),
+          { status: 404 }
+        );
+      }
+    }
+
+    const composed = await promptComposer.compose(agent, {
+      conversationId,
+      sceneType: searchParams.get('sceneType') || undefined
+    });
+
+    return NextResponse.json(
+      APIResponseHelper.success(composed)
+    );
+  } catch (error) {
+    console.error('预览系统提示词失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('预览系统提示词失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import promptVersions, { PromptVersionError } from '@/lib/prompt-versions';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 把智能体提示词回滚到指定版本 - {note} 为可选的说明，回滚本身记录为一个新版本
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id, version } = await params;
+    const versionNumber = Number(version);
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return NextResponse.json(
+        APIResponseHelper.error('版本号无效'),
+        { status: 400 }
+      );
+    }
+
+    // 说明是可选的，没有请求体时按没有说明处理
+    const { note } = await request.json().catch(() => ({}));
+    const created = await promptVersions.rollback({ type: 'agent', id }, versionNumber, user.userId, note);
+
+    return NextResponse.json(
+      APIResponseHelper.success(created, `已回滚到版本 ${versionNumber}`)
+    );
+  } catch (error) {
+    if (error instanceof PromptVersionError) {
+      return NextResponse.json(
+        APIResponseHelper.error(error.message),
+        { status: error.status }
+      );
+    }
+
+    console.error('回滚智能体提示词失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('回滚智能体提示词失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import prisma from '@/lib/db';
+import promptVersions from '@/lib/prompt-versions';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 获取智能体提示词的全部版本，最新的在前
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const agent = await prisma.agent.findUnique({ where: { id }, select: { id: true } });
+    if (!agent) {
+      return NextResponse.json(
+        APIResponseHelper.error('智能体不存在'),
+        { status: 404 }
+      );
+    }
+
+    const versions = await promptVersions.list({ type: 'agent', id });
+
+    return NextResponse.json(
+      APIResponseHelper.success(versions)
+    );
+  } catch (error) {
+    console.error('获取智能体提示词版本失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('获取智能体提示词版本失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import promptTemplates, { PromptTemplateError } from '@/lib/prompt-templates';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 从智能体上移除提示词模板
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; promptId: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id, promptId } = await params;
+    const prompts = await promptTemplates.detach(id, promptId);
+
+    return NextResponse.json(
+      APIResponseHelper.success(prompts, '提示词模板已移除')
+    );
+  } catch (error) {
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json(
+        APIResponseHelper.error(error.message),
+        { status: error.status }
+      );
+    }
+
+    console.error('移除提示词模板失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('移除提示词模板失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import prisma from '@/lib/db';
+import promptTemplates, { PromptTemplateError } from '@/lib/prompt-templates';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 获取智能体挂载的提示词模板，按顺序排列
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const agent = await prisma.agent.findUnique({ where: { id }, select: { id: true } });
+    if (!agent) {
+      return NextResponse.json(
+        APIResponseHelper.error('智能体不存在'),
+        { status: 404 }
+      );
+    }
+
+    const prompts = await promptTemplates.listAgentPrompts(id);
+
+    return NextResponse.json(
+      APIResponseHelper.success(prompts)
+    );
+  } catch (error) {
+    console.error('获取智能体提示词模板失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('获取智能体提示词模板失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 给智能体挂载提示词模板 - {promptId}，排在最后
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { promptId } = await request.json();
+    if (!promptId || typeof promptId !== 'string') {
+      return NextResponse.json(
+        APIResponseHelper.error('缺少 promptId'),
+        { status: 400 }
+      );
+    }
+
+    const prompts = await promptTemplates.attach(user.userId, id, promptId);
+
+    return NextResponse.json(
+      APIResponseHelper.success(prompts, '提示词模板已挂载'),
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json(
+        APIResponseHelper.error(error.message),
+        { status: error.status }
+      );
+    }
+
+    console.error('挂载提示词模板失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('挂载提示词模板失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 调整智能体挂载的模板顺序 - {promptIds} 按新的顺序列出全部已挂载的模板
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { promptIds } = await request.json();
+    const prompts = await promptTemplates.reorder(id, promptIds);
+
+    return NextResponse.json(
+      APIResponseHelper.success(prompts, '模板顺序已更新')
+    );
+  } catch (error) {
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json(
+        APIResponseHelper.error(error.message),
+        { status: error.status }
+      );
+    }
+
+    console.error('调整模板顺序失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('调整模板顺序失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db';
+import LLMConfigManager from '@/lib/llm-config';
+import toolRegistry from '@/lib/tool-registry';
+import { verifyAuth } from '@/lib/auth';
+import promptVersions, { PromptVersionError } from '@/lib/prompt-versions';
 import { APIResponseHelper } from '@/types/api'
 
 export const runtime = 'nodejs';
@@ -58,6 +62,8 @@ export async function GET(
         order: agent.order,
         createdAt: agent.createdAt,
         updatedAt: agent.updatedAt,
+        fallbackModelIds: agent.fallbackModelIds,
+        tools: agent.tools,
         model: agent.model ? {
           id: agent.model.id,
           name: agent.model.name,
@@ -105,8 +111,11 @@ export async function PUT(
       maxTokens,
       prompt,
       modelId,
+      fallbackModelIds,
+      tools,
       isActive,
-      order
+      order,
+      changeNote // 修改提示词时的说明，记录在提示词版本上
     } = body;
 
     // 检查智能体是否存在
@@ -124,6 +133,52 @@ export async function PUT(
       );
     }
 
+    if (fallbackModelIds !== undefined) {
+      const fallbackError = await LLMConfigManager.validateFallbackModelIds(
+        modelId !== undefined ? modelId : existingAgent.modelId,
+        fallbackModelIds
+      );
+      if (fallbackError) {
+        return NextResponse.json(
+          { 
+            success: false,
+            error: '备用模型配置无效',
+            details: fallbackError
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    let note: string | null = null;
+    try {
+      note = promptVersions.parseNote(changeNote);
+    } catch (error) {
+      if (!(error instanceof PromptVersionError)) throw error;
+      return NextResponse.json(
+        { 
+          success: false,
+          error: '修改说明无效',
+          details: error.message
+        },
+        { status: 400 }
+      );
+    }
+
+    if (tools !== undefined) {
+      const toolsError = toolRegistry.validateToolNames(tools);
+      if (toolsError) {
+        return NextResponse.json(
+          { 
+            success: false,
+            error: '工具配置无效',
+            details: toolsError
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     // 如果要更新roleTag，检查是否重复
     if (code && code !== existingAgent.roleTag) {
       const duplicateAgent = await prisma.agent.findUnique({
@@ -142,37 +197,47 @@ export async function PUT(
       }
     }
 
-    // 更新智能体
-    const updatedAgent = await prisma.agent.update({
-      where: { id },
-      data: {
-        ...(name !== undefined && { name }),
-        ...(code !== undefined && { roleTag: code }),
-        ...(description !== undefined && { description }),
-        ...(avatar !== undefined && { avatar }),
-        ...(color !== undefined && { color }),
-        ...(temperature !== undefined && { temperature }),
-        ...(maxTokens !== undefined && { maxTokens }),
-        ...(prompt !== undefined && { prompt }),
-        ...(modelId !== undefined && { modelId }),
-        ...(isActive !== undefined && { enabled: isActive }),
-        ...(order !== undefined && { order }),
-        updatedAt: new Date()
-      },
-      include: {
-        model: {
-          include: {
-            provider: true
-          }
+    // 更新智能体，提示词有变化时在同一个事务中记录新版本
+    const user = prompt !== undefined ? await verifyAuth(request) : null;
+    const updatedAgent = await promptVersions.transaction(async (tx) => {
+      const agent = await tx.agent.update({
+        where: { id },
+        data: {
+          ...(name !== undefined && { name }),
+          ...(code !== undefined && { roleTag: code }),
+          ...(description !== undefined && { description }),
+          ...(avatar !== undefined && { avatar }),
+          ...(color !== undefined && { color }),
+          ...(temperature !== undefined && { temperature }),
+          ...(maxTokens !== undefined && { maxTokens }),
+          ...(prompt !== undefined && { prompt }),
+          ...(modelId !== undefined && { modelId }),
+          ...(fallbackModelIds !== undefined && { fallbackModelIds }),
+          ...(tools !== undefined && { tools }),
+          ...(isActive !== undefined && { enabled: isActive }),
+          ...(order !== undefined && { order }),
+          updatedAt: new Date()
         },
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            email: true
+        include: {
+          model: {
+            include: {
+              provider: true
+            }
+          },
+          creator: {
+            select: {
+              id: true,
+              name: true,
+              email: true
+            }
           }
         }
+      });
+
+      if (prompt !== undefined) {
+        await promptVersions.record({ type: 'agent', id }, agent.prompt, user?.userId ?? null, note, existingAgent.prompt, tx);
       }
+      return agent;
     });
 
     return NextResponse.json({
@@ -192,6 +257,8 @@ export async function PUT(
         order: updatedAgent.order,
         createdAt: updatedAgent.createdAt,
         updatedAt: updatedAgent.updatedAt,
+        fallbackModelIds: updatedAgent.fallbackModelIds,
+        tools: updatedAgent.tools,
         model: updatedAgent.model ? {
           id: updatedAgent.model.id,
           name: updatedAgent.model.name,
@@ -206,6 +273,16 @@ export async function PUT(
     });
 
   } catch (error) {
+    if (error instanceof PromptVersionError) {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: error.message
+        },
+        { status: error.status }
+      );
+    }
+
     console.error('更新智能体失败:', error);
     return NextResponse.json(
       { 
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db';
+import LLMConfigManager from '@/lib/llm-config';
+import toolRegistry from '@/lib/tool-registry';
+import promptVersions from '@/lib/prompt-versions';
 import { APIResponseHelper } from '@/types/api'
 
 export const runtime = 'nodejs';
@@ -14,7 +17,7 @@ export async function GET() {
       SELECT 
         a.id, a.name, a."roleTag", a.description, a.avatar, a.color,
         a.temperature, a."maxTokens", a.prompt, a.enabled, a."order",
-        a."updatedAt", a.provider, a."modelId",
+        a."updatedAt", a.provider, a."modelId", a."fallbackModelIds", a.tools,
         u.id as creator_id, u.name as creator_name, u.email as creator_email,
         m.id as model_id, m.name as model_name, m.code as model_code,
         m."contextLength", m."maxTokens" as model_max_tokens, m.capabilities,
@@ -45,6 +48,8 @@ export async function GET() {
         updatedAt: agent.updatedAt,
         provider: agent.provider,
         modelId: agent.modelId,
+        fallbackModelIds: agent.fallbackModelIds || [],
+        tools: agent.tools || [],
         model: agent.model_id ? {
           id: agent.model_id,
           name: agent.model_name,
@@ -95,6 +100,8 @@ export async function POST(request: NextRequest) {
       maxTokens = 1000,
       prompt,
       modelId,
+      fallbackModelIds = [],
+      tools = [],
       isActive = true,
       order,
       userId // 创建者ID，实际项目中从session获取
@@ -112,6 +119,30 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const fallbackError = await LLMConfigManager.validateFallbackModelIds(modelId, fallbackModelIds);
+    if (fallbackError) {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: '备用模型配置无效',
+          details: fallbackError
+        },
+        { status: 400 }
+      );
+    }
+
+    const toolsError = toolRegistry.validateToolNames(tools);
+    if (toolsError) {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: '工具配置无效',
+          details: toolsError
+        },
+        { status: 400 }
+      );
+    }
+
     // 检查roleTag是否已存在
     const existingAgent = await prisma.agent.findUnique({
       where: { roleTag: code }
@@ -168,20 +199,22 @@ export async function POST(request: NextRequest) {
     await prisma.$executeRaw`
       INSERT INTO "Agent" (
         id, name, provider, "roleTag", "order", prompt, description, avatar, 
-        color, temperature, "maxTokens", "modelId", enabled, "createdBy", "updatedAt"
+        color, temperature, "maxTokens", "modelId", "fallbackModelIds", tools, enabled, "createdBy", "updatedAt"
       ) VALUES (
         ${agentId}, ${name}, 'system', ${code}, ${finalOrder}, ${prompt}, 
         ${description}, ${avatar}, ${color}, ${temperature}, ${maxTokens}, 
-        ${modelId}, ${isActive}, ${creator.id}, NOW()
+        ${modelId}, ${fallbackModelIds}, ${tools}, ${isActive}, ${creator.id}, NOW()
       )
     `;
 
+    await promptVersions.record({ type: 'agent', id: agentId }, prompt, creator.id, '创建智能体');
+
     // 查询创建的智能体及其关联信息
     const agent = await prisma.$queryRaw`
       SELECT 
         a.id, a.name, a."roleTag", a.description, a.avatar, a.color,
         a.temperature, a."maxTokens", a.prompt, a.enabled, a."order",
-        a."updatedAt", a.provider, a."modelId",
+        a."updatedAt", a.provider, a."modelId", a."fallbackModelIds", a.tools,
         u.id as creator_id, u.name as creator_name, u.email as creator_email,
         m.id as model_id, m.name as model_name, m.code as model_code,
         m."contextLength", m."maxTokens" as model_max_tokens, m.capabilities,
@@ -213,6 +246,8 @@ export async function POST(request: NextRequest) {
         createdAt: new Date(),
         updatedAt: agentData.updatedAt,
         modelId: agentData.modelId,
+        fallbackModelIds: agentData.fallbackModelIds || [],
+        tools: agentData.tools || [],
         model: agentData.model_id ? {
           id: agentData.model_id,
           name: agentData.model_name,
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/db';
+import { MICRO_CENTS_PER_CENT, toMicroCents } from '@/lib/cost-ledger';
 import { APIResponseHelper } from '@/types/api'
 
 export const runtime = 'nodejs';
@@ -111,10 +112,10 @@ export async function GET() {
       })
     ]);
 
-    // 计算消息使用成本
-    const totalCost = await prisma.message.aggregate({
+    // 计算模型调用总成本（成本账本，包含消息回复和场景分析）
+    const totalCost = await prisma.costLedgerEntry.aggregate({
       _sum: {
-        costCents: true
+        costMicroCents: true
       }
     });
 
@@ -162,7 +163,7 @@ export async function GET() {
           growth: '+8.1'
         },
         costs: {
-          total: (totalCost._sum.costCents || 0) / 100, // 转换为元
+          total: toMicroCents(totalCost._sum.costMicroCents) / MICRO_CENTS_PER_CENT / 100, // 微分转换为美元
           currency: 'USD',
           growth: '-5.2'
         }
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import chatGroupManager, { ChatGroupError } from '@/lib/chat-groups';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 修改群聊成员的优先级 - {priority}
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id, memberId } = await params;
+    const { priority } = await request.json();
+    const group = await chatGroupManager.updateMember(id, memberId, priority);
+
+    return NextResponse.json(
+      APIResponseHelper.success(group, '优先级已更新')
+    );
+  } catch (error) {
+    if (error instanceof ChatGroupError) {
+      return NextResponse.json(
+        APIResponseHelper.error(error.message),
+        { status: error.status }
+      );
+    }
+
+    console.error('修改成员优先级失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('修改成员优先级失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 移除群聊成员
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id, memberId } = await params;
+    const group = await chatGroupManager.removeMember(id, memberId);
+
+    return NextResponse.json(
+      APIResponseHelper.success(group, '成员已移除')
+    );
+  } catch (error) {
+    if (error instanceof ChatGroupError) {
+      return NextResponse.json(
+        APIResponseHelper.error(error.message),
+        { status: error.status }
+      );
+    }
+
+    console.error('移除群聊成员失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('移除群聊成员失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
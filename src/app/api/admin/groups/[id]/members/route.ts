@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import chatGroupManager, { ChatGroupError } from '@/lib/chat-groups';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 添加群聊成员 - {agentId, priority?}，排在最后发言
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const [member] = chatGroupManager.parseMembers([await request.json()]);
+    const group = await chatGroupManager.addMember(id, member);
+
+    return NextResponse.json(
+      APIResponseHelper.success(group, '成员已添加'),
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ChatGroupError) {
+      return NextResponse.json(
+        APIResponseHelper.error(error.message),
+        { status: error.status }
+      );
+    }
+
+    console.error('添加群聊成员失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('添加群聊成员失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 调整发言顺序 - {memberIds} 按新的顺序列出全部成员
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { memberIds } = await request.json();
+    const group = await chatGroupManager.reorderMembers(id, memberIds);
+
+    return NextResponse.json(
+      APIResponseHelper.success(group, '发言顺序已更新')
+    );
+  } catch (error) {
+    if (error instanceof ChatGroupError) {
+      return NextResponse.json(
+        APIResponseHelper.error(error.message),
+        { status: error.status }
+      );
+    }
+
+    console.error('调整发言顺序失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('调整发言顺序失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import chatGroupManager, { ChatGroupError } from '@/lib/chat-groups';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 获取单个群聊配置
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const group = await chatGroupManager.get(id);
+    if (!group) {
+      return NextResponse.json(
+        APIResponseHelper.error('群聊不存在'),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      APIResponseHelper.success(group)
+    );
+  } catch (error) {
+    console.error('获取群聊失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('获取群聊失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 更新群聊配置 - 只更新传入的字段，传入 members 时整体替换成员
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { members, ...input } = await request.json();
+    const group = await chatGroupManager.update(
+      id,
+      input,
+      members === undefined ? undefined : chatGroupManager.parseMembers(members)
+    );
+
+    return NextResponse.json(
+      APIResponseHelper.success(group, '群聊已更新')
+    );
+  } catch (error) {
+    if (error instanceof ChatGroupError) {
+      return NextResponse.json(
+        APIResponseHelper.error(error.message),
+        { status: error.status }
+      );
+    }
+
+    console.error('更新群聊失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('更新群聊失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 删除群聊配置 - 还有对话使用时返回 409
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    await chatGroupManager.delete(id);
+
+    return NextResponse.json(
+      APIResponseHelper.success({ id }, '群聊已删除')
+    );
+  } catch (error) {
+    if (error instanceof ChatGroupError) {
+      return NextResponse.json(
+        APIResponseHelper.error(error.message),
+        { status: error.status }
+      );
+    }
+
+    console.error('删除群聊失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('删除群聊失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
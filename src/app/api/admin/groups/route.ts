@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import chatGroupManager, { ChatGroupError } from '@/lib/chat-groups';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 获取所有群聊配置
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const groups = await chatGroupManager.list();
+
+    return NextResponse.json(
+      APIResponseHelper.success(groups)
+    );
+  } catch (error) {
+    console.error('获取群聊列表失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('获取群聊列表失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 创建群聊配置 - members 为 [{agentId, priority?}]，按数组顺序发言
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { members = [], ...input } = await request.json();
+    const group = await chatGroupManager.create(user.userId, input, chatGroupManager.parseMembers(members));
+
+    return NextResponse.json(
+      APIResponseHelper.success(group, '群聊创建成功'),
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ChatGroupError) {
+      return NextResponse.json(
+        APIResponseHelper.error(error.message),
+        { status: error.status }
+      );
+    }
+
+    console.error('创建群聊失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('创建群聊失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
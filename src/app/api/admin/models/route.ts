@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db';
 import { APIResponseHelper } from '@/types/api'
+import llmService from '@/lib/llm-service';
+import LLMConfigManager from '@/lib/llm-config';
+import { LOCAL_PROVIDERS, LLMProvider } from '@/types/llm';
 
 export const runtime = 'nodejs';
 
@@ -212,7 +215,7 @@ export async function PATCH(request: NextRequest) {
 
     // 检查提供商是否存在
     const provider = await prisma.$queryRaw`
-      SELECT id, name, code FROM "LLMProvider" WHERE id = ${providerId}
+      SELECT id, name, code, "baseUrl", "apiKey", adapter, "extraHeaders" FROM "LLMProvider" WHERE id = ${providerId}
     ` as any[];
 
     if (provider.length === 0) {
@@ -225,8 +228,24 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    // 预设的常用模型配置
-    const presetModels = getPresetModels(provider[0].code);
+    // 预设的常用模型配置；本地运行时和自定义提供商直接从接口发现可用的模型
+    let presetModels: ReturnType<typeof getPresetModels>;
+    if (LOCAL_PROVIDERS.includes(provider[0].code as LLMProvider) || provider[0].adapter === 'custom') {
+      try {
+        presetModels = await discoverModels(provider[0]);
+      } catch (discoverError) {
+        return NextResponse.json(
+          { 
+            success: false,
+            error: '无法获取提供商的模型列表',
+            details: discoverError instanceof Error ? discoverError.message : '未知错误'
+          },
+          { status: 502 }
+        );
+      }
+    } else {
+      presetModels = getPresetModels(provider[0].code);
+    }
     
     const createdModels = [];
     
@@ -281,6 +300,25 @@ export async function PATCH(request: NextRequest) {
   }
 }
 
+// 从本地运行时（Ollama /api/tags、llama.cpp /v1/models）或自定义提供商（/models）发现模型
+async function discoverModels(provider: { code: string; adapter: string | null; baseUrl: string; apiKey: string; extraHeaders: unknown }) {
+  const connection = LLMConfigManager.buildProviderConnection(provider);
+  const modelCodes = await llmService.getAvailableModels(
+    connection.provider,
+    connection.apiKey,
+    connection.baseUrl,
+    connection.extraHeaders
+  );
+
+  return modelCodes.map(code => ({
+    name: code,
+    code,
+    contextLength: 8192,
+    maxTokens: 2048,
+    capabilities: ['chat']
+  }));
+}
+
 // 预设模型配置
 function getPresetModels(providerCode: string) {
   const modelConfigs: Record<string, any[]> = {
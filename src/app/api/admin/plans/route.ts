@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import planQuotas from '@/lib/plan-quotas';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 获取所有套餐
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const plans = await planQuotas.listPlans();
+
+    return NextResponse.json(APIResponseHelper.success(plans));
+
+  } catch (error) {
+    console.error('获取套餐列表失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('获取套餐列表失败', error instanceof Error ? error.message : 'API error'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import promptTemplates, { PromptTemplateError } from '@/lib/prompt-templates';
+import { PromptVersionError } from '@/lib/prompt-versions';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 获取单个提示词模板 - 其他管理员的私有模板返回 404
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const template = await promptTemplates.get(user.userId, id);
+    if (!template) {
+      return NextResponse.json(
+        APIResponseHelper.error('提示词模板不存在'),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      APIResponseHelper.success(template)
+    );
+  } catch (error) {
+    console.error('获取提示词模板失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('获取提示词模板失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 更新提示词模板 - 只更新传入的字段，只有创建者可以修改
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const template = await promptTemplates.update(user.userId, id, await request.json());
+
+    return NextResponse.json(
+      APIResponseHelper.success(template, '提示词模板已更新')
+    );
+  } catch (error) {
+    if (error instanceof PromptTemplateError || error instanceof PromptVersionError) {
+      return NextResponse.json(
+        APIResponseHelper.error(error.message),
+        { status: error.status }
+      );
+    }
+
+    console.error('更新提示词模板失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('更新提示词模板失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 删除提示词模板，同时从挂载它的智能体上移除；只有创建者可以删除
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    await promptTemplates.delete(user.userId, id);
+
+    return NextResponse.json(
+      APIResponseHelper.success({ id }, '提示词模板已删除')
+    );
+  } catch (error) {
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json(
+        APIResponseHelper.error(error.message),
+        { status: error.status }
+      );
+    }
+
+    console.error('删除提示词模板失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('删除提示词模板失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import promptTemplates from '@/lib/prompt-templates';
+import promptVersions, { PromptVersionError } from '@/lib/prompt-versions';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 对比提示词模板的两个版本 - ?from=旧版本号&to=新版本号，返回并排显示的逐行差异
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    if (!await promptTemplates.get(user.userId, id)) {
+      return NextResponse.json(
+        APIResponseHelper.error('提示词模板不存在'),
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = Number(searchParams.get('from'));
+    const to = Number(searchParams.get('to'));
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < 1) {
+      return NextResponse.json(
+        APIResponseHelper.error('from 和 to 必须是版本号'),
+        { status: 400 }
+      );
+    }
+
+    const diff = await promptVersions.diff({ type: 'template', id }, from, to);
+
+    return NextResponse.json(
+      APIResponseHelper.success(diff)
+    );
+  } catch (error) {
+    if (error instanceof PromptVersionError) {
+      return NextResponse.json(
+        APIResponseHelper.error(error.message),
+        { status: error.status }
+      );
+    }
+
+    console.error('对比提示词模板版本失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('对比提示词模板版本失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
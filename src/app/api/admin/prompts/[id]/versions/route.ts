@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import promptTemplates from '@/lib/prompt-templates';
+import promptVersions from '@/lib/prompt-versions';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 获取提示词模板的全部版本，最新的在前
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    if (!await promptTemplates.get(user.userId, id)) {
+      return NextResponse.json(
+        APIResponseHelper.error('提示词模板不存在'),
+        { status: 404 }
+      );
+    }
+
+    const versions = await promptVersions.list({ type: 'template', id });
+
+    return NextResponse.json(
+      APIResponseHelper.success(versions)
+    );
+  } catch (error) {
+    console.error('获取提示词模板版本失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('获取提示词模板版本失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
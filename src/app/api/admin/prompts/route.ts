@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import promptTemplates, { PromptTemplateError, PromptVisibility } from '@/lib/prompt-templates';
+import { PromptVersionError } from '@/lib/prompt-versions';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 获取提示词模板 - 支持 category、tag、search、visibility（all | public | private）筛选，
+ * metadata.tags 为可用于筛选的全部标签
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const [templates, tags] = await Promise.all([
+      promptTemplates.list(user.userId, {
+        category: searchParams.get('category') || undefined,
+        tag: searchParams.get('tag') || undefined,
+        search: searchParams.get('search') || undefined,
+        visibility: (searchParams.get('visibility') as PromptVisibility) || undefined
+      }),
+      promptTemplates.listTags(user.userId)
+    ]);
+
+    return NextResponse.json(
+      APIResponseHelper.success(templates, undefined, { total: templates.length, tags })
+    );
+  } catch (error) {
+    console.error('获取提示词模板失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('获取提示词模板失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 创建提示词模板
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const template = await promptTemplates.create(user.userId, await request.json());
+
+    return NextResponse.json(
+      APIResponseHelper.success(template, '提示词模板创建成功'),
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof PromptTemplateError || error instanceof PromptVersionError) {
+      return NextResponse.json(
+        APIResponseHelper.error(error.message),
+        { status: error.status }
+      );
+    }
+
+    console.error('创建提示词模板失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('创建提示词模板失败', error instanceof Error ? error.message : '未知错误'),
+      { status: 500 }
+    );
+  }
+}
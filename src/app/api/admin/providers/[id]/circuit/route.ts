@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import prisma from '@/lib/db';
+import providerCircuitBreaker from '@/lib/provider-circuit-breaker';
+import { APIResponseHelper } from '@/types/api'
+
+/**
+ * 获取提供商的熔断状态
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const provider = await prisma.lLMProvider.findUnique({
+      where: { id },
+      select: { code: true }
+    });
+
+    if (!provider) {
+      return NextResponse.json(
+        APIResponseHelper.error('提供商不存在'),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+        APIResponseHelper.success(providerCircuitBreaker.getSnapshot(provider.code))
+      );
+  } catch (error) {
+    console.error('获取熔断状态失败:', error);
+    return NextResponse.json(
+        APIResponseHelper.error('获取熔断状态失败', error instanceof Error ? error.message : '未知错误'),
+        { status: 500 }
+      );
+  }
+}
+
+/**
+ * 重置提供商的熔断状态，立即恢复调用
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const provider = await prisma.lLMProvider.findUnique({
+      where: { id },
+      select: { code: true }
+    });
+
+    if (!provider) {
+      return NextResponse.json(
+        APIResponseHelper.error('提供商不存在'),
+        { status: 404 }
+      );
+    }
+
+    providerCircuitBreaker.reset(provider.code);
+
+    return NextResponse.json(
+        APIResponseHelper.success(providerCircuitBreaker.getSnapshot(provider.code), '熔断状态已重置')
+      );
+  } catch (error) {
+    console.error('重置熔断状态失败:', error);
+    return NextResponse.json(
+        APIResponseHelper.error('重置熔断状态失败', error instanceof Error ? error.message : '未知错误'),
+        { status: 500 }
+      );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import prisma from '@/lib/db';
 import { APIResponseHelper } from '@/types/api'
+import LLMConfigManager from '@/lib/llm-config';
 
 export const runtime = 'nodejs';
 
@@ -61,6 +63,12 @@ export async function GET(
         name: provider.name,
         code: provider.code,
         baseUrl: provider.baseUrl,
+        adapter: provider.adapter,
+        extraHeaders: provider.extraHeaders,
+        chatPath: provider.chatPath,
+        requestsPerMinute: provider.requestsPerMinute,
+        tokensPerMinute: provider.tokensPerMinute,
+        maxConcurrent: provider.maxConcurrent,
         isActive: provider.isActive,
         createdAt: provider.createdAt,
         updatedAt: provider.updatedAt,
@@ -98,6 +106,12 @@ export async function PUT(
       code,
       baseUrl,
       apiKey,
+      adapter,
+      extraHeaders,
+      chatPath,
+      requestsPerMinute,
+      tokensPerMinute,
+      maxConcurrent,
       isActive = true
     } = body;
 
@@ -113,6 +127,19 @@ export async function PUT(
       );
     }
 
+    const optionsError = LLMConfigManager.validateProviderOptions({ code, adapter, extraHeaders, chatPath })
+      || LLMConfigManager.validateRateLimits({ requestsPerMinute, tokensPerMinute, maxConcurrent });
+    if (optionsError) {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: '提供商配置无效',
+          details: optionsError
+        },
+        { status: 400 }
+      );
+    }
+
     // 检查提供商是否存在
     const existingProvider = await prisma.lLMProvider.findUnique({
       where: { id }
@@ -154,6 +181,12 @@ export async function PUT(
       name,
       code,
       baseUrl,
+      adapter: adapter || null,
+      extraHeaders: extraHeaders || Prisma.JsonNull,
+      chatPath: chatPath || null,
+      requestsPerMinute: requestsPerMinute ?? null,
+      tokensPerMinute: tokensPerMinute ?? null,
+      maxConcurrent: maxConcurrent ?? null,
       isActive
     };
 
@@ -201,6 +234,12 @@ export async function PUT(
         name: provider.name,
         code: provider.code,
         baseUrl: provider.baseUrl,
+        adapter: provider.adapter,
+        extraHeaders: provider.extraHeaders,
+        chatPath: provider.chatPath,
+        requestsPerMinute: provider.requestsPerMinute,
+        tokensPerMinute: provider.tokensPerMinute,
+        maxConcurrent: provider.maxConcurrent,
         isActive: provider.isActive,
         createdAt: provider.createdAt,
         updatedAt: provider.updatedAt,
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
 import prisma from '@/lib/db';
 import { APIResponseHelper } from '@/types/api'
+import LLMConfigManager from '@/lib/llm-config';
+import providerCircuitBreaker from '@/lib/provider-circuit-breaker';
 
 /**
  * 获取所有LLM提供商
@@ -45,7 +47,8 @@ export async function GET(request: NextRequest) {
         ...model,
         agentCount: model._count.agents
       })),
-      agentCount: provider.models.reduce((sum, model) => sum + model._count.agents, 0)
+      agentCount: provider.models.reduce((sum, model) => sum + model._count.agents, 0),
+      circuit: providerCircuitBreaker.getSnapshot(provider.code)
     }));
 
     return NextResponse.json({
@@ -75,16 +78,29 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, code, baseUrl, apiKey, isActive } = body;
+    const {
+      name, code, baseUrl, apiKey, isActive, adapter, extraHeaders, chatPath,
+      requestsPerMinute, tokensPerMinute, maxConcurrent
+    } = body;
 
-    // 验证必需字段
-    if (!name || !code || !baseUrl || !apiKey) {
+    // 验证必需字段（本地运行时和自定义提供商不需要API密钥）
+    const requiresApiKey = !LLMConfigManager.isApiKeyOptional({ code, adapter });
+    if (!name || !code || !baseUrl || (requiresApiKey && !apiKey)) {
       return NextResponse.json(
         { success: false, error: '所有字段都是必需的' },
         { status: 400 }
       );
     }
 
+    const optionsError = LLMConfigManager.validateProviderOptions({ code, adapter, extraHeaders, chatPath })
+      || LLMConfigManager.validateRateLimits({ requestsPerMinute, tokensPerMinute, maxConcurrent });
+    if (optionsError) {
+      return NextResponse.json(
+        { success: false, error: optionsError },
+        { status: 400 }
+      );
+    }
+
     // 检查代码是否已存在
     const existingProvider = await prisma.lLMProvider.findUnique({
       where: { code }
@@ -103,7 +119,13 @@ export async function POST(request: NextRequest) {
         name,
         code,
         baseUrl,
-        apiKey,
+        apiKey: apiKey || '',
+        adapter: adapter || null,
+        extraHeaders: extraHeaders || undefined,
+        chatPath: chatPath || null,
+        requestsPerMinute: requestsPerMinute ?? null,
+        tokensPerMinute: tokensPerMinute ?? null,
+        maxConcurrent: maxConcurrent ?? null,
         isActive: isActive ?? true,
         createdBy: user.userId
       }
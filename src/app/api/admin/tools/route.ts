@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import toolRegistry from '@/lib/tool-registry';
+import { APIResponseHelper } from '@/types/api'
+
+/**
+ * 获取可供智能体启用的工具列表
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      APIResponseHelper.success(toolRegistry.list())
+    );
+  } catch (error) {
+    console.error('获取工具列表失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('获取工具列表失败', error instanceof Error ? error.message : 'API error'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import prisma from '@/lib/db';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 修改用户套餐
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { plan } = await request.json();
+
+    if (!plan || typeof plan !== 'string') {
+      return NextResponse.json(
+        APIResponseHelper.error('缺少套餐代码'),
+        { status: 400 }
+      );
+    }
+
+    const planDefinition = await prisma.plan.findUnique({ where: { code: plan } });
+    if (!planDefinition) {
+      return NextResponse.json(
+        APIResponseHelper.error(`套餐不存在: ${plan}`),
+        { status: 400 }
+      );
+    }
+
+    const existingUser = await prisma.user.findUnique({ where: { id } });
+    if (!existingUser) {
+      return NextResponse.json(
+        APIResponseHelper.error('用户不存在'),
+        { status: 404 }
+      );
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id },
+      data: { plan },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        plan: true,
+        createdAt: true
+      }
+    });
+
+    console.log(`📊 用户 ${updatedUser.email} 的套餐调整为 ${plan}`);
+
+    return NextResponse.json(
+      APIResponseHelper.success(updatedUser, '套餐已更新')
+    );
+
+  } catch (error) {
+    console.error('修改用户套餐失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('修改用户套餐失败', error instanceof Error ? error.message : 'API error'),
+      { status: 500 }
+    );
+  }
+}
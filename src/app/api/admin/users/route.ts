@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import prisma from '@/lib/db';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 获取用户列表（含套餐）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const users = await prisma.user.findMany({
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        plan: true,
+        createdAt: true,
+        _count: {
+          select: { conversations: true }
+        }
+      }
+    });
+
+    return NextResponse.json(
+      APIResponseHelper.success(users.map(({ _count, ...item }) => ({
+        ...item,
+        conversationCount: _count.conversations
+      })))
+    );
+
+  } catch (error) {
+    console.error('获取用户列表失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('获取用户列表失败', error instanceof Error ? error.message : 'API error'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import prisma from '@/lib/db';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+const AGENT_FIELDS = {
+  id: true,
+  name: true,
+  roleTag: true,
+  avatar: true,
+  color: true,
+  description: true
+} as const;
+
+/**
+ * 获取对话中可以 @ 的智能体
+ * 群聊为群成员，其他对话为所有启用的智能体（与智能编排器的参与范围一致）
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user) {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id: conversationId } = await params;
+
+    const conversation = await prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        userId: user.userId,
+      },
+      include: {
+        group: {
+          include: {
+            members: {
+              include: {
+                agent: { select: AGENT_FIELDS }
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (!conversation) {
+      return NextResponse.json(
+        APIResponseHelper.error('Conversation not found', 'API error'),
+        { status: 404 }
+      );
+    }
+
+    const agents = conversation.group
+      ? conversation.group.members.map(member => member.agent)
+      : await prisma.agent.findMany({
+          where: { enabled: true },
+          orderBy: { order: 'asc' },
+          select: AGENT_FIELDS
+        });
+
+    return NextResponse.json(APIResponseHelper.success(agents));
+
+  } catch (error) {
+    console.error('获取对话智能体失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('获取对话智能体失败', error instanceof Error ? error.message : 'API error'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import prisma from '@/lib/db';
+import imageAttachments from '@/lib/image-attachments';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 获取图片附件内容
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user) {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id: conversationId, attachmentId } = await params;
+
+    // 验证用户是否拥有这个对话
+    const conversation = await prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        userId: user.userId,
+      },
+    });
+
+    if (!conversation) {
+      return NextResponse.json(
+        APIResponseHelper.error('Conversation not found', 'API error'),
+        { status: 404 }
+      );
+    }
+
+    const image = await imageAttachments.getImage(conversationId, attachmentId);
+    if (!image) {
+      return NextResponse.json(
+        APIResponseHelper.error('图片不存在'),
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(image.data), {
+      headers: {
+        'Content-Type': image.mimeType,
+        'Content-Length': String(image.data.length),
+        'Cache-Control': 'private, max-age=86400',
+      },
+    });
+
+  } catch (error) {
+    console.error('获取图片失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('获取图片失败', error instanceof Error ? error.message : 'API error'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import prisma from '@/lib/db';
+import imageAttachments from '@/lib/image-attachments';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 上传图片附件
+ * multipart/form-data，字段名 file；返回的附件ID在发送消息时通过 attachments 参数带上
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user) {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id: conversationId } = await params;
+
+    // 验证用户是否拥有这个对话
+    const conversation = await prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        userId: user.userId,
+      },
+    });
+
+    if (!conversation) {
+      return NextResponse.json(
+        APIResponseHelper.error('Conversation not found', 'API error'),
+        { status: 404 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        APIResponseHelper.error('缺少图片文件'),
+        { status: 400 }
+      );
+    }
+
+    const validationError = imageAttachments.validate(file);
+    if (validationError) {
+      return NextResponse.json(
+        APIResponseHelper.error(validationError),
+        { status: 400 }
+      );
+    }
+
+    const attachment = await imageAttachments.save(conversationId, file);
+
+    return NextResponse.json(
+      APIResponseHelper.success(attachment, '图片上传成功')
+    );
+
+  } catch (error) {
+    console.error('上传图片失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('上传图片失败', error instanceof Error ? error.message : 'API error'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import prisma from '@/lib/db';
+import conversationBranches from '@/lib/conversation-branches';
+import { APIResponseHelper } from '@/types/api';
+
+/**
+ * 切换对话的当前分支
+ * 返回切换后的时间线，与 GET /messages 的结构一致
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user) {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id: conversationId } = await params;
+    const { branchId } = await request.json();
+
+    if (!branchId || typeof branchId !== 'string') {
+      return NextResponse.json(
+        APIResponseHelper.error('缺少分支ID'),
+        { status: 400 }
+      );
+    }
+
+    // 验证用户是否拥有这个对话
+    const conversation = await prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        userId: user.userId,
+      },
+    });
+
+    if (!conversation) {
+      return NextResponse.json(
+        APIResponseHelper.error('Conversation not found', 'API error'),
+        { status: 404 }
+      );
+    }
+
+    const switched = await conversationBranches.switchTo(conversationId, branchId);
+    if (!switched) {
+      return NextResponse.json(
+        APIResponseHelper.error('分支不存在'),
+        { status: 404 }
+      );
+    }
+
+    const messages = await conversationBranches.getTimelineWithVariants(conversationId);
+
+    return NextResponse.json(
+      APIResponseHelper.success(messages, '已切换分支')
+    );
+
+  } catch (error) {
+    console.error('切换分支失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('切换分支失败', error instanceof Error ? error.message : 'API error'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import prisma from '@/lib/db';
+import conversationBudget from '@/lib/conversation-budget';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 验证用户是否拥有这个对话
+ */
+async function findOwnedConversation(request: NextRequest, conversationId: string) {
+  const user = await verifyAuth(request);
+  if (!user) {
+    return { error: NextResponse.json(APIResponseHelper.error('Unauthorized', 'API error'), { status: 401 }) };
+  }
+
+  const conversation = await prisma.conversation.findFirst({
+    where: {
+      id: conversationId,
+      userId: user.userId,
+    },
+  });
+
+  if (!conversation) {
+    return { error: NextResponse.json(APIResponseHelper.error('Conversation not found', 'API error'), { status: 404 }) };
+  }
+
+  return { conversation };
+}
+
+/**
+ * 获取对话预算状态
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: conversationId } = await params;
+
+    const { error } = await findOwnedConversation(request, conversationId);
+    if (error) return error;
+
+    const status = await conversationBudget.getStatus(conversationId);
+
+    return NextResponse.json(APIResponseHelper.success(status));
+
+  } catch (error) {
+    console.error('获取对话预算失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('获取对话预算失败', error instanceof Error ? error.message : 'API error'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 充值或修改对话预算
+ * body: { topUpCents } 在当前预算上追加，或 { budgetCents } 直接设置新的预算上限（单位：美分）
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: conversationId } = await params;
+
+    const { conversation, error } = await findOwnedConversation(request, conversationId);
+    if (error) return error;
+
+    const { topUpCents, budgetCents } = await request.json();
+
+    if ((topUpCents === undefined) === (budgetCents === undefined)) {
+      return NextResponse.json(
+        APIResponseHelper.error('请提供 topUpCents 或 budgetCents 其中之一'),
+        { status: 400 }
+      );
+    }
+
+    if (topUpCents !== undefined) {
+      const topUpError = conversationBudget.validateBudgetCents(topUpCents);
+      if (topUpError) {
+        return NextResponse.json(APIResponseHelper.error(topUpError), { status: 400 });
+      }
+    }
+
+    const newBudgetCents = topUpCents !== undefined ? conversation.budgetCents + topUpCents : budgetCents;
+    const validationError = conversationBudget.validateBudgetCents(newBudgetCents);
+    if (validationError) {
+      return NextResponse.json(APIResponseHelper.error(validationError), { status: 400 });
+    }
+
+    const status = await conversationBudget.setBudget(conversationId, newBudgetCents);
+
+    return NextResponse.json(APIResponseHelper.success(status, '预算已更新'));
+
+  } catch (error) {
+    console.error('更新对话预算失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('更新对话预算失败', error instanceof Error ? error.message : 'API error'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import prisma from '@/lib/db';
+import generationRegistry from '@/lib/generation-registry';
+import { APIResponseHelper } from '@/types/api';
+
+/**
+ * 停止生成
+ * 中止该对话当前所有正在进行的模型调用（经典、灵活和智能编排器均适用），
+ * 已经保存的消息保留，未完成的回复丢弃
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user) {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id: conversationId } = await params;
+
+    // 验证用户是否拥有这个对话
+    const conversation = await prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        userId: user.userId,
+      },
+    });
+
+    if (!conversation) {
+      return NextResponse.json(
+        APIResponseHelper.error('Conversation not found', 'API error'),
+        { status: 404 }
+      );
+    }
+
+    const cancelled = generationRegistry.cancel(conversationId);
+
+    return NextResponse.json(
+      APIResponseHelper.success({ conversationId, cancelled }, cancelled > 0 ? '已停止生成' : '当前没有正在进行的生成')
+    );
+
+  } catch (error) {
+    console.error('停止生成失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('停止生成失败', error instanceof Error ? error.message : 'API error'),
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db';
 import Orchestrator from '@/lib/orchestrator';
+import conversationBranches from '@/lib/conversation-branches';
+import conversationBudget from '@/lib/conversation-budget';
+import planQuotas from '@/lib/plan-quotas';
 import { APIResponseHelper } from '@/types/api'
 
 export const runtime = 'nodejs';
@@ -35,15 +38,31 @@ export async function POST(
       );
     }
 
+    // 检查用户的套餐额度
+    const quota = await planQuotas.check(conversation.userId);
+    if (!quota.allowed) {
+      return NextResponse.json(
+        APIResponseHelper.error(quota.message, quota.exceeded, 'QUOTA_EXCEEDED'),
+        { status: 429 }
+      );
+    }
+
+    // 预算已用完时不再处理新消息
+    const budget = await conversationBudget.check(conversationId);
+    if (!budget.allowed) {
+      return NextResponse.json(
+        APIResponseHelper.error('对话预算已用完，请提高预算后再试', undefined, 'BUDGET_EXCEEDED'),
+        { status: 402 }
+      );
+    }
+
     console.log('💬 收到聊天消息:', { conversationId, text: text.slice(0, 100) });
 
     // 1. 保存用户消息到数据库
-    const userMessage = await prisma.message.create({
-      data: {
-        convId: conversationId,
-        role: 'user',
-        content: text,
-      },
+    const userMessage = await conversationBranches.append({
+      convId: conversationId,
+      role: 'user',
+      content: text,
     });
 
     console.log('✅ 用户消息已保存:', userMessage.id);
@@ -51,7 +70,9 @@ export async function POST(
     // 2. 运行AI编排，获取所有AI回复
     const aiMessages = await Orchestrator.runChatOrchestration(
       conversationId,
-      text
+      text,
+      request.signal,
+      quota.limits
     );
 
     console.log('🤖 AI编排完成，生成', aiMessages.length, '条回复');
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import prisma from '@/lib/db';
+import Orchestrator from '@/lib/orchestrator';
+import { createConversationStream } from '@/lib/conversation-stream';
+
+export const runtime = 'nodejs';
+
+/**
+ * 继续聊天API (Server-Sent Events)
+ * 用户不发言，AI们接着最近的聊天记录继续讨论，直到达到续聊的停止条件
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { id: conversationId } = await params;
+
+    // 验证用户是否拥有这个对话
+    const conversation = await prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        userId: user.userId,
+      },
+    });
+
+    if (!conversation) {
+      return new NextResponse('Conversation not found', { status: 404 });
+    }
+
+    return createConversationStream(request, {
+      conversationId,
+      userId: conversation.userId,
+      label: '继续聊天API',
+      failureType: 'group_chat_failed',
+      run: async (onEvent, signal, planLimits) => {
+        console.log(`🔁 [继续聊天API] 开始: ${conversationId}`);
+        await Orchestrator.continueGroupChat(conversationId, onEvent, signal, planLimits);
+      },
+    });
+
+  } catch (error) {
+    console.error('API error:', error);
+    return new NextResponse(
+      JSON.stringify({
+        error: '继续聊天时出错',
+        details: error instanceof Error ? error.message : '未知错误'
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
 import prisma from '@/lib/db';
+import conversationBranches from '@/lib/conversation-branches';
 import { APIResponseHelper } from '@/types/api'
 
 export async function GET(
@@ -10,10 +11,8 @@ export async function GET(
   try {
     const { id } = await params;
 
-    const messages = await prisma.message.findMany({
-      where: { convId: id },
-      orderBy: { createdAt: 'asc' },
-    });
+    // 当前分支的时间线，有其他分支可以切换的消息附带 variants
+    const messages = await conversationBranches.getTimelineWithVariants(id);
 
     return NextResponse.json(
         APIResponseHelper.success(messages)
@@ -67,14 +66,12 @@ export async function POST(
     }
 
     // 保存用户消息到数据库
-    const userMessage = await prisma.message.create({
-      data: {
-        convId: conversationId,
-        role: role,
-        content: content,
-        tokens: 0, // 用户消息不计算token
-        costCents: 0, // 用户消息不产生费用
-      },
+    const userMessage = await conversationBranches.append({
+      convId: conversationId,
+      role: role,
+      content: content,
+      tokens: 0, // 用户消息不计算token
+      costCents: 0, // 用户消息不产生费用
     });
 
     console.log(`💾 用户消息已保存 [${conversationId}]:`, userMessage.id);
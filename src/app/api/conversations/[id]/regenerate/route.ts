@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import prisma from '@/lib/db';
+import intelligentOrchestrator, { RegenerateScope } from '@/lib/intelligent-orchestrator';
+import { createConversationStream } from '@/lib/conversation-stream';
+
+export const runtime = 'nodejs';
+
+const REGENERATE_SCOPES: RegenerateScope[] = ['agent', 'round'];
+
+/**
+ * 重新生成API (Server-Sent Events)
+ * scope=agent 只重新生成 messageId 这条AI回复，scope=round 重新生成它所在的整轮回复；
+ * 新回复放在新分支上，原来的回复保留，可以在聊天页切换
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { id: conversationId } = await params;
+    const { searchParams } = new URL(request.url);
+    const messageId = searchParams.get('messageId') || '';
+    const scope = (searchParams.get('scope') || 'agent') as RegenerateScope;
+
+    if (!messageId) {
+      return new NextResponse('Missing messageId parameter', { status: 400 });
+    }
+
+    if (!REGENERATE_SCOPES.includes(scope)) {
+      return new NextResponse(`Invalid scope (${REGENERATE_SCOPES.join(' | ')})`, { status: 400 });
+    }
+
+    // 验证用户是否拥有这个对话
+    const conversation = await prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        userId: user.userId,
+      },
+    });
+
+    if (!conversation) {
+      return new NextResponse('Conversation not found', { status: 404 });
+    }
+
+    return createConversationStream(request, {
+      conversationId,
+      userId: conversation.userId,
+      label: '重新生成API',
+      failureType: 'orchestration_failed',
+      run: async (onEvent, signal, planLimits) => {
+        console.log(`🔄 [重新生成API] 开始: ${conversationId} ${scope} ${messageId}`);
+        await intelligentOrchestrator.regenerate(conversationId, messageId, scope, onEvent, signal, planLimits);
+      },
+    });
+
+  } catch (error) {
+    console.error('API error:', error);
+    return new NextResponse(
+      JSON.stringify({
+        error: '重新生成时出错',
+        details: error instanceof Error ? error.message : '未知错误'
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}
@@ -1,90 +1,94 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
 import prisma from '@/lib/db';
 import intelligentOrchestrator from '@/lib/intelligent-orchestrator';
+import { MAX_IMAGES_PER_MESSAGE } from '@/lib/image-attachments';
+import { createConversationStream } from '@/lib/conversation-stream';
 import { APIResponseHelper } from '@/types/api'
 
 export const runtime = 'nodejs';
 
 /**
  * 流式对话API (Server-Sent Events)
- * 使用新的智能Agent总线系统，支持真正智能的群聊体验
+ * 使用新的智能Agent总线系统，支持真正智能的群聊体验；带 editOf 时编辑这条用户消息后在新分支上重新发送
  */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const user = await verifyAuth(request);
+    if (!user) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
     const { id: conversationId } = await params;
     const { searchParams } = new URL(request.url);
-    const userMessage = searchParams.get('message');
+    const userMessage = searchParams.get('message') || '';
+    // 先通过附件接口上传的图片ID，逗号分隔
+    const attachmentIds = (searchParams.get('attachments') || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean);
+    // 用户 @ 了智能体时，是否只让被 @ 的智能体回复
+    const mentionsOnly = searchParams.get('mentionsOnly') === '1';
+    // 被编辑的用户消息ID
+    const editOf = searchParams.get('editOf');
 
-    if (!userMessage) {
+    if (!userMessage && attachmentIds.length === 0) {
       return new NextResponse('Missing message parameter', { status: 400 });
     }
 
-    // 验证对话是否存在
-    const conversation = await prisma.conversation.findUnique({
-      where: { id: conversationId },
+    if (attachmentIds.length > MAX_IMAGES_PER_MESSAGE) {
+      return new NextResponse(`Too many attachments (max ${MAX_IMAGES_PER_MESSAGE})`, { status: 400 });
+    }
+
+    // 验证用户是否拥有这个对话
+    const conversation = await prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        userId: user.userId,
+      },
     });
 
     if (!conversation) {
       return new NextResponse('Conversation not found', { status: 404 });
     }
 
-    // 创建可读流
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          console.log(`🎯 [流式API] 开始处理消息: ${userMessage.substring(0, 50)}...`);
+    return createConversationStream(request, {
+      conversationId,
+      userId: conversation.userId,
+      label: '流式API',
+      failureType: 'orchestration_failed',
+      run: async (onEvent, signal, planLimits) => {
+        console.log(`🎯 [流式API] 开始处理消息: ${userMessage.substring(0, 50)}...`);
 
-          // 运行智能编排器
+        // 运行智能编排器
+        if (editOf) {
+          await intelligentOrchestrator.editAndResend(
+            conversationId,
+            editOf,
+            userMessage,
+            onEvent,
+            signal,
+            attachmentIds,
+            planLimits,
+            mentionsOnly
+          );
+        } else {
           await intelligentOrchestrator.runIntelligentOrchestration(
             conversationId,
             userMessage,
-            (event: any) => {
-              try {
-                console.log(`📡 [流式API] 发送事件: ${event.type}`, event.agent || '');
-
-                // 统一的事件处理 - 智能编排器发送的事件已经标准化
-                const eventData = {
-                  ...event,
-                  timestamp: event.timestamp || new Date()
-                };
-
-                controller.enqueue(`data: ${JSON.stringify(eventData)}\n\n`);
-
-              } catch (error) {
-                console.error('❌ [流式API] 发送事件失败:', error);
-              }
-            }
+            onEvent,
+            signal,
+            attachmentIds,
+            planLimits,
+            mentionsOnly
           );
-
-          console.log(`✅ [流式API] 处理完成: ${conversationId}`);
-
-        } catch (error) {
-          console.error('❌ [流式API] 处理失败:', error);
-          controller.enqueue(`data: ${JSON.stringify({
-            type: 'orchestration_failed',
-            error: error instanceof Error ? error.message : 'Unknown error',
-            timestamp: new Date(),
-          })}\n\n`);
-        } finally {
-          controller.close();
         }
       },
     });
 
-    // 返回SSE响应
-    return new NextResponse(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Cache-Control',
-      },
-    });
-
   } catch (error) {
     console.error('API error:', error);
     return new NextResponse(
@@ -16,6 +16,22 @@ export async function GET(request: NextRequest) {
 
     const conversations = await prisma.conversation.findMany({
       where: { userId },
+      include: {
+        group: {
+          select: {
+            id: true,
+            name: true,
+            members: {
+              select: {
+                agent: {
+                  select: { id: true, name: true, color: true, avatar: true, description: true, roleTag: true }
+                }
+              },
+              orderBy: { order: 'asc' }
+            }
+          }
+        }
+      },
       orderBy: { createdAt: 'desc' },
     });
 
@@ -33,7 +49,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const { title, mode, selectedAgents } = await request.json();
+    const { title, mode, selectedAgents, groupId } = await request.json();
     
     if (!title || !mode) {
       return NextResponse.json(
@@ -52,12 +68,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 关联群聊配置时以群聊成员作为参与的智能体，停用的群聊不能再用来创建对话
+    if (groupId) {
+      const group = await prisma.chatGroup.findUnique({
+        where: { id: groupId },
+        select: { isActive: true }
+      });
+
+      if (!group || !group.isActive) {
+        return NextResponse.json(
+          APIResponseHelper.error('群聊不存在或已停用', 'API error'),
+          { status: 400 }
+        );
+      }
+    }
+
     const conversation = await prisma.conversation.create({
       data: {
         userId,
         title,
         mode,
         selectedAgents: selectedAgents || [], // 保存用户选择的智能体
+        groupId: groupId || null,
       },
     });
 
@@ -67,6 +99,7 @@ export async function POST(request: NextRequest) {
       title: conversation.title,
       mode: conversation.mode,
       selectedAgents: conversation.selectedAgents,
+      groupId: conversation.groupId,
     })
       );
   } catch (error) {
@@ -18,9 +18,8 @@ export async function GET() {
     console.error('获取系统健康状态失败:', error);
     
     return NextResponse.json(
-        APIResponseHelper.success({ error: '获取系统健康状态失败', details: error instanceof Error ? error.message : String(error)
-      ) },
-      { status: 500 }
-    );
+        APIResponseHelper.error('获取系统健康状态失败', error instanceof Error ? error.message : String(error)),
+        { status: 500 }
+      );
   }
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import userMemory from '@/lib/user-memory';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 删除一条记忆
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user) {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const removed = await userMemory.remove(user.userId, id);
+    if (!removed) {
+      return NextResponse.json(
+        APIResponseHelper.error('Memory not found', 'API error'),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(APIResponseHelper.success({ id }, '记忆已删除'));
+
+  } catch (error) {
+    console.error('删除记忆失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('删除记忆失败', error instanceof Error ? error.message : 'API error'),
+      { status: 500 }
+    );
+  }
+}
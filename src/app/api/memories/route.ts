@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import userMemory from '@/lib/user-memory';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 获取智能体们记得的关于当前用户的事
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user) {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const memories = await userMemory.list(user.userId);
+
+    return NextResponse.json(APIResponseHelper.success(memories));
+
+  } catch (error) {
+    console.error('获取记忆失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('获取记忆失败', error instanceof Error ? error.message : 'API error'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 清空记忆 - 带 agentId 参数时只清空该智能体的记忆
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user) {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const agentId = new URL(request.url).searchParams.get('agentId') || undefined;
+    const count = await userMemory.clear(user.userId, agentId);
+
+    return NextResponse.json(APIResponseHelper.success({ count }, `已删除 ${count} 条记忆`));
+
+  } catch (error) {
+    console.error('清空记忆失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('清空记忆失败', error instanceof Error ? error.message : 'API error'),
+      { status: 500 }
+    );
+  }
+}
@@ -51,14 +51,14 @@ export async function POST(request: NextRequest) {
           id: 'test-agent-1',
           name: '测试助手',
           roleTag: 'EMPATHY',
-          systemPrompt: '你是一个友善的测试助手，总是给予积极的回应。',
+          prompt: '你是一个友善的测试助手，总是给予积极的回应。',
           color: '#3B82F6'
         },
         {
           id: 'test-agent-2', 
           name: '实用顾问',
           roleTag: 'PRACTICAL',
-          systemPrompt: '你是一个实用的顾问，专门提供有用的建议和解决方案。',
+          prompt: '你是一个实用的顾问，专门提供有用的建议和解决方案。',
           color: '#10B981'
         }
       ]
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/auth';
+import planQuotas from '@/lib/plan-quotas';
+import { APIResponseHelper } from '@/types/api';
+
+export const runtime = 'nodejs';
+
+/**
+ * 获取当前用户的套餐和用量
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request);
+    if (!user) {
+      return NextResponse.json(
+        APIResponseHelper.error('Unauthorized', 'API error'),
+        { status: 401 }
+      );
+    }
+
+    const summary = await planQuotas.getUsage(user.userId);
+
+    return NextResponse.json(APIResponseHelper.success(summary));
+
+  } catch (error) {
+    console.error('获取用量失败:', error);
+    return NextResponse.json(
+      APIResponseHelper.error('获取用量失败', error instanceof Error ? error.message : 'API error'),
+      { status: 500 }
+    );
+  }
+}
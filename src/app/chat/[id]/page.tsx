@@ -1,12 +1,14 @@
 'use client';
 
-import { use, useState, useEffect, useRef } from 'react';
+import { use, useState, useEffect, useRef, useCallback } from 'react';
+import Image from 'next/image';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, MoreVertical, Send, Mic, FileText, Camera, MapPin, Menu } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ArrowLeft, MoreVertical, Send, Mic, FileText, Camera, MapPin, Menu, Square, ImagePlus, X, Loader2, Wallet, Gauge, AtSign, MessagesSquare, RefreshCw, RotateCcw, Pencil, ChevronLeft, ChevronRight } from 'lucide-react';
 import { AuthLayout } from '@/components/layout/AuthLayout';
 
 // 使用 lucide-react 图标组件
@@ -17,21 +19,153 @@ interface Message {
   content: string;
   timestamp: Date;
   agent?: string;
+  images?: string[]; // 用户消息附带的图片地址
+  citations?: Citation[]; // AI回复引用的知识库片段
+  variants?: BranchVariants; // 这个位置可以切换的其他分支
+}
+
+// 与服务端 BranchVariants 保持一致
+interface BranchVariants {
+  branchIds: string[];
+  current: number;
+}
+
+// GET /messages 返回的消息
+interface StoredMessage {
+  id: string;
+  role: 'user' | 'ai';
+  content: string;
+  step: string | null;
+  attachments: string[];
+  citations: Citation[] | null;
+  variants?: BranchVariants;
+  createdAt: string;
+}
+
+// 与服务端 KnowledgeCitation 保持一致
+interface Citation {
+  index: number;
+  documentId: string;
+  title: string;
+  content: string;
+  score: number;
+}
+
+interface PendingImage {
+  id: string;
+  url: string;
+  name: string;
+}
+
+// 与服务端 MAX_IMAGES_PER_MESSAGE 保持一致
+const MAX_IMAGES_PER_MESSAGE = 4;
+
+interface BudgetStatus {
+  budgetCents: number;
+  spentMicroCents: number;
+  remainingMicroCents: number;
+  level: 'normal' | 'low' | 'critical' | 'exceeded';
+}
+
+// 与服务端 MICRO_CENTS_PER_CENT 保持一致
+const MICRO_CENTS_PER_CENT = 1000000;
+
+// 快捷充值金额（美分）
+const TOP_UP_OPTIONS = [100, 500];
+
+function formatUSD(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+// 套餐额度和用量，与 /api/usage 返回结构一致
+interface UsageSummary {
+  plan: {
+    code: string;
+    name: string;
+    dailyMessages: number | null;
+    monthlyTokens: number | null;
+    monthlyCostCents: number | null;
+  };
+  usage: {
+    dailyMessages: number;
+    monthlyTokens: number;
+    monthlyCostCents: number;
+  };
+}
+
+// 任一额度用到80%以上时高亮提示
+const QUOTA_WARNING_RATIO = 0.8;
+
+function isNearQuota(summary: UsageSummary): boolean {
+  const { plan, usage } = summary;
+  const quotas: Array<[number, number | null]> = [
+    [usage.dailyMessages, plan.dailyMessages],
+    [usage.monthlyTokens, plan.monthlyTokens],
+    [usage.monthlyCostCents, plan.monthlyCostCents]
+  ];
+  return quotas.some(([used, limit]) => limit !== null && used >= limit * QUOTA_WARNING_RATIO);
 }
 
 interface StreamChunk {
-  type: 'user_message' | 'agent_start' | 'chunk' | 'agent_complete' | 'agent_error' | 'conversation_complete' | 'error';
+  type: 'user_message' | 'agent_start' | 'chunk' | 'agent_complete' | 'agent_error' | 'llm_failover' | 'tool_call' | 'tool_result' | 'budget_exceeded' | 'quota_exceeded' | 'conversation_complete' | 'orchestration_completed' | 'orchestration_cancelled' | 'orchestration_failed' | 'group_chat_completed' | 'group_chat_cancelled' | 'group_chat_failed' | 'continuation_stopped' | 'error';
   id?: string;
   content?: string;
   agent?: string;
-  text?: string;
+  streamId?: string; // 流式回复的ID，多个AI同时输出时区分各自的回复
   messageId?: string;
   usage?: any;
   error?: string;
-  fullContent?: string; // Add fullContent for completed messages
+  fromModel?: string; // llm_failover: 失败的模型
+  toModel?: string; // llm_failover: 切换到的备用模型
+  reason?: string;
+  tool?: string; // tool_call/tool_result: 工具名称
+  success?: boolean;
+  budgetCents?: number; // budget_exceeded: 预算上限（美分）
+  spentCents?: number; // budget_exceeded: 已花费（美分）
+  quota?: string; // quota_exceeded: 超出的额度类型
+  rounds?: number; // continuation_stopped: 进行的轮数
+  messages?: number; // continuation_stopped: AI发言的消息数
+  citations?: Citation[]; // agent_complete: 回复引用的知识库片段
   timestamp: Date;
 }
 
+interface StreamingMessage {
+  id: string;
+  content: string;
+  agent: string;
+}
+
+interface MentionableAgent {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// 输入框光标前正在输入的 @ 提及
+const MENTION_QUERY_PATTERN = /[@＠]([^\s@＠]*)$/;
+const MAX_MENTION_SUGGESTIONS = 6;
+
+function hasMention(text: string, agents: MentionableAgent[]): boolean {
+  return agents.some(agent => text.includes(`@${agent.name}`) || text.includes(`＠${agent.name}`));
+}
+
+// 继续聊天停下的原因
+// 本地临时消息（乐观添加、错误提示）的ID前缀，这些消息不能重新生成或编辑
+const LOCAL_MESSAGE_PATTERN = /^(temp-user|completed|error|quota)-/;
+
+const CONTINUATION_STOP_NOTES: Record<string, string> = {
+  max_rounds: '已经聊了好几轮啦',
+  max_messages: '这次聊的消息够多啦',
+  idle: '大家暂时没有新的话题了',
+  budget: '对话预算不足，先聊到这里',
+  cancelled: '已停止'
+};
+
+// 没有 streamId 的回复（非流式生成）按AI名称区分
+function getStreamKey(data: StreamChunk): string {
+  return data.streamId || `streaming-${data.agent}`;
+}
+
 // Typing indicator component - 微信风格 shadcn颜色
 function TypingIndicator() {
   return (
@@ -50,11 +184,29 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [currentAgent, setCurrentAgent] = useState<string | null>(null);
-  const [streamingMessage, setStreamingMessage] = useState<{ id: string; content: string; agent: string } | null>(null);
+  const [streamingMessages, setStreamingMessages] = useState<StreamingMessage[]>([]);
+  const [pendingImages, setPendingImages] = useState<PendingImage[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  const [customBudget, setCustomBudget] = useState('');
+  const [isUpdatingBudget, setIsUpdatingBudget] = useState(false);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [agents, setAgents] = useState<MentionableAgent[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const [mentionsOnly, setMentionsOnly] = useState(false);
+  const [continuationNote, setContinuationNote] = useState<string | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
   const eventSourceRef = useRef<EventSource | null>(null);
 
+  // 正在输出的AI，可能有多个同时输出
+  const currentAgent = streamingMessages.length > 0
+    ? Array.from(new Set(streamingMessages.map(msg => msg.agent))).join('、')
+    : null;
+
   // Auto scroll to bottom when new messages arrive
   useEffect(() => {
     if (scrollAreaRef.current) {
@@ -63,7 +215,7 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
         scrollContainer.scrollTop = scrollContainer.scrollHeight;
       }
     }
-  }, [messages, streamingMessage]);
+  }, [messages, streamingMessages]);
 
   // Cleanup EventSource on unmount
   useEffect(() => {
@@ -74,17 +226,387 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
     };
   }, []);
 
+  const toMessage = useCallback((msg: StoredMessage): Message => ({
+    id: msg.id,
+    role: msg.role,
+    content: msg.content,
+    timestamp: new Date(msg.createdAt),
+    agent: msg.step || undefined,
+    images: msg.attachments.map(id => `/api/conversations/${conversationId}/attachments/${id}`),
+    citations: msg.citations || undefined,
+    variants: msg.variants
+  }), [conversationId]);
+
+  // 加载当前分支的时间线
+  const loadMessages = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/messages`);
+      const result = await response.json();
+      if (result.success) {
+        setMessages(result.data.map(toMessage));
+      }
+    } catch (error) {
+      console.error('获取消息失败:', error);
+    }
+  }, [conversationId, toMessage]);
+
+  useEffect(() => {
+    loadMessages();
+  }, [loadMessages]);
+
+  const loadBudget = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/budget`);
+      const result = await response.json();
+      if (result.success) {
+        setBudget(result.data);
+      }
+    } catch (error) {
+      console.error('获取对话预算失败:', error);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    loadBudget();
+  }, [loadBudget]);
+
+  const loadUsage = useCallback(async () => {
+    try {
+      const response = await fetch('/api/usage');
+      const result = await response.json();
+      if (result.success) {
+        setUsage(result.data);
+      }
+    } catch (error) {
+      console.error('获取套餐用量失败:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  // 加载可以 @ 的智能体
+  useEffect(() => {
+    const loadAgents = async () => {
+      try {
+        const response = await fetch(`/api/conversations/${conversationId}/agents`);
+        const result = await response.json();
+        if (result.success) {
+          setAgents(result.data);
+        }
+      } catch (error) {
+        console.error('获取对话智能体失败:', error);
+      }
+    };
+
+    loadAgents();
+  }, [conversationId]);
+
+  const mentionSuggestions = mentionQuery === null
+    ? []
+    : agents
+        .filter(agent => agent.name.toLowerCase().includes(mentionQuery.toLowerCase()))
+        .slice(0, MAX_MENTION_SUGGESTIONS);
+  const inputHasMention = hasMention(input, agents);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    const caret = e.target.selectionStart ?? value.length;
+    const match = value.slice(0, caret).match(MENTION_QUERY_PATTERN);
+
+    setInput(value);
+    setMentionQuery(match ? match[1] : null);
+    setMentionIndex(0);
+  };
+
+  // 用选中的智能体替换光标前正在输入的 @ 提及
+  const selectMention = (agent: MentionableAgent) => {
+    const element = inputRef.current;
+    const caret = element?.selectionStart ?? input.length;
+    const before = input.slice(0, caret).replace(MENTION_QUERY_PATTERN, `@${agent.name} `);
+    const nextInput = before + input.slice(caret);
+
+    setInput(nextInput);
+    setMentionQuery(null);
+
+    requestAnimationFrame(() => {
+      element?.focus();
+      element?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (mentionSuggestions.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setMentionIndex(prev => (prev + 1) % mentionSuggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setMentionIndex(prev => (prev - 1 + mentionSuggestions.length) % mentionSuggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        selectMention(mentionSuggestions[Math.min(mentionIndex, mentionSuggestions.length - 1)]);
+        break;
+      case 'Escape':
+        setMentionQuery(null);
+        break;
+    }
+  };
+
+  // 充值（在当前预算上追加）或直接设置新的预算上限，单位美分
+  const updateBudget = async (body: { topUpCents: number } | { budgetCents: number }) => {
+    setIsUpdatingBudget(true);
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/budget`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        alert(`预算更新失败: ${result.error}`);
+        return;
+      }
+
+      setBudget(result.data);
+      setCustomBudget('');
+    } catch (error) {
+      console.error('预算更新失败:', error);
+      alert('预算更新失败，请重试');
+    } finally {
+      setIsUpdatingBudget(false);
+    }
+  };
+
+  const handleSetBudget = () => {
+    const cents = Math.round(parseFloat(customBudget) * 100);
+    if (!Number.isFinite(cents) || cents <= 0) {
+      alert('请输入有效的预算金额');
+      return;
+    }
+    updateBudget({ budgetCents: cents });
+  };
+
+  // 选择图片后立即上传，发送消息时只带上附件ID
+  const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    if (pendingImages.length + files.length > MAX_IMAGES_PER_MESSAGE) {
+      alert(`每条消息最多发送 ${MAX_IMAGES_PER_MESSAGE} 张图片`);
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      for (const file of files) {
+        const formData = new FormData();
+        formData.append('file', file);
+
+        const response = await fetch(`/api/conversations/${conversationId}/attachments`, {
+          method: 'POST',
+          body: formData
+        });
+        const result = await response.json();
+
+        if (!result.success) {
+          alert(`图片上传失败: ${result.error}`);
+          continue;
+        }
+
+        setPendingImages(prev => [...prev, { id: result.data.id, url: result.data.url, name: result.data.name }]);
+      }
+    } catch (error) {
+      console.error('图片上传失败:', error);
+      alert('图片上传失败，请重试');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // 打开SSE流并处理服务端事件，userMessage 为乐观添加的用户消息内容（继续聊天时没有）
+  const openStream = (url: string, userMessage?: string) => {
+    setContinuationNote(null);
+    const eventSource = new EventSource(url);
+    eventSourceRef.current = eventSource;
+
+    eventSource.onmessage = (event) => {
+      try {
+        const data: StreamChunk = JSON.parse(event.data);
+        console.log('📨 收到流式数据:', data);
+
+        switch (data.type) {
+          case 'user_message':
+            // Replace temporary user message with real one from database
+            setMessages(prev => prev.map(msg =>
+              userMessage !== undefined && msg.id.startsWith('temp-user-') && msg.content === userMessage
+                ? { ...msg, id: data.id || msg.id, timestamp: new Date(data.timestamp) }
+                : msg
+            ));
+            break;
+
+          case 'agent_start':
+            setStreamingMessages(prev => [...prev, {
+              id: getStreamKey(data),
+              content: '',
+              agent: data.agent || '未知'
+            }]);
+            break;
+
+          case 'chunk':
+            // 多个AI同时输出时，数据块按 streamId 追加到各自的回复
+            setStreamingMessages(prev => prev.map(msg =>
+              msg.id === getStreamKey(data)
+                ? { ...msg, content: msg.content + (data.content || '') }
+                : msg
+            ));
+            break;
+
+          case 'agent_complete':
+            // content 是回复的完整内容，以它为准替换流式输出的内容
+            if (data.content && data.agent) {
+              const completedMessage: Message = {
+                id: data.messageId || `completed-${data.agent}-${Date.now()}`,
+                role: 'ai',
+                content: data.content,
+                timestamp: new Date(),
+                agent: data.agent,
+                citations: data.citations
+              };
+              setMessages(prev => [...prev, completedMessage]);
+            }
+            setStreamingMessages(prev => prev.filter(msg => msg.id !== getStreamKey(data)));
+            loadBudget();
+            loadUsage();
+            break;
+
+          case 'agent_error':
+            setMessages(prev => [...prev, {
+              id: `error-${Date.now()}`,
+              role: 'ai',
+              content: `抱歉，${data.agent} 处理时出现错误: ${data.error}`,
+              timestamp: new Date(),
+              agent: data.agent || '系统'
+            }]);
+            setStreamingMessages(prev => prev.filter(msg => msg.id !== getStreamKey(data)));
+            break;
+
+          case 'llm_failover':
+            console.warn(`🔀 ${data.agent} 的模型 ${data.fromModel} 不可用(${data.reason})，已切换到 ${data.toModel}`);
+            break;
+
+          case 'tool_call':
+            console.log(`🧰 ${data.agent} 正在调用工具 ${data.tool}`);
+            break;
+
+          case 'tool_result':
+            console.log(`🧰 ${data.agent} 的工具 ${data.tool} ${data.success ? '执行完成' : '执行失败'}`);
+            break;
+
+          case 'budget_exceeded':
+            // 预算用完后服务端不会再调用AI，显示充值提示
+            setBudget(prev => prev && {
+              ...prev,
+              budgetCents: data.budgetCents ?? prev.budgetCents,
+              spentMicroCents: (data.spentCents ?? 0) * MICRO_CENTS_PER_CENT,
+              remainingMicroCents: 0,
+              level: 'exceeded'
+            });
+            setIsLoading(false);
+            setStreamingMessages([]);
+            eventSource.close();
+            break;
+
+          case 'quota_exceeded':
+            // 套餐额度用完，消息没有发送给AI
+            setMessages(prev => [...prev, {
+              id: `quota-${Date.now()}`,
+              role: 'ai',
+              content: data.error || '套餐额度已用完',
+              timestamp: new Date(),
+              agent: '系统'
+            }]);
+            setIsLoading(false);
+            setStreamingMessages([]);
+            loadUsage();
+            eventSource.close();
+            break;
+
+          case 'continuation_stopped':
+            // 群聊里AI们停下来的原因，用户可以点"继续聊"让大家接着聊
+            setContinuationNote(CONTINUATION_STOP_NOTES[data.reason || ''] || null);
+            break;
+
+          case 'conversation_complete':
+          case 'orchestration_completed':
+          case 'orchestration_cancelled':
+          case 'group_chat_completed':
+          case 'group_chat_cancelled':
+            setIsLoading(false);
+            setStreamingMessages([]);
+            eventSource.close();
+            // 换成服务端保存的时间线，带上消息ID和可以切换的分支
+            loadMessages();
+            break;
+
+          case 'error':
+          case 'orchestration_failed':
+          case 'group_chat_failed':
+            console.error('流式错误:', data.error);
+            setMessages(prev => [...prev, {
+              id: `error-${Date.now()}`,
+              role: 'ai',
+              content: `处理消息时出现错误: ${data.error}`,
+              timestamp: new Date()
+            }]);
+            setIsLoading(false);
+            setStreamingMessages([]);
+            eventSource.close();
+            break;
+        }
+      } catch (parseError) {
+        console.error('解析流式数据错误:', parseError);
+      }
+    };
+
+    eventSource.onerror = (error) => {
+      console.error('EventSource error:', error);
+      setMessages(prev => [...prev, {
+        id: `error-${Date.now()}`,
+        role: 'ai',
+        content: '连接断开，请重试。',
+        timestamp: new Date()
+      }]);
+      setIsLoading(false);
+      setStreamingMessages([]);
+      eventSource.close();
+    };
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
+    if ((!input.trim() && pendingImages.length === 0) || isLoading || isUploading || budget?.level === 'exceeded') return;
 
     const userMessage = input.trim();
+    const images = pendingImages;
+    const onlyMentioned = mentionsOnly && hasMention(userMessage, agents);
+    const edited = editingMessage;
     setInput('');
+    setMentionQuery(null);
+    setPendingImages([]);
+    setEditingMessage(null);
     setIsLoading(true);
 
     // Clear any existing streaming message
-    setStreamingMessage(null);
-    setCurrentAgent(null);
+    setStreamingMessages([]);
 
     // Optimistically add user message with temporary ID
     const tempId = `temp-user-${Date.now()}`;
@@ -92,123 +614,27 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
       id: tempId,
       role: 'user',
       content: userMessage,
-      timestamp: new Date()
+      timestamp: new Date(),
+      images: images.map(image => image.url)
     };
 
-    setMessages(prev => [...prev, userMessageObj]);
+    // 编辑重发时，新消息替换被编辑的消息及之后的内容（原来的内容保留在原分支）
+    setMessages(prev => {
+      const editedIndex = edited ? prev.findIndex(msg => msg.id === edited.id) : -1;
+      return [...(editedIndex >= 0 ? prev.slice(0, editedIndex) : prev), userMessageObj];
+    });
 
     try {
       console.log('📤 开始流式对话...');
 
       // Create EventSource for streaming
-      const eventSource = new EventSource(
-        `/api/conversations/${conversationId}/stream?message=${encodeURIComponent(userMessage)}`
+      const attachments = images.length > 0
+        ? `&attachments=${encodeURIComponent(images.map(image => image.id).join(','))}`
+        : '';
+      openStream(
+        `/api/conversations/${conversationId}/stream?message=${encodeURIComponent(userMessage)}${attachments}${onlyMentioned ? '&mentionsOnly=1' : ''}${edited ? `&editOf=${encodeURIComponent(edited.id)}` : ''}`,
+        userMessage
       );
-
-      eventSourceRef.current = eventSource;
-
-      eventSource.onmessage = (event) => {
-        try {
-          const data: StreamChunk = JSON.parse(event.data);
-          console.log('📨 收到流式数据:', data);
-
-          switch (data.type) {
-            case 'user_message':
-              // Replace temporary user message with real one from database
-              setMessages(prev => prev.map(msg =>
-                msg.id.startsWith('temp-user-') && msg.content === userMessage
-                  ? { ...msg, id: data.id || msg.id, timestamp: new Date(data.timestamp) }
-                  : msg
-              ));
-              break;
-
-            case 'agent_start':
-              setCurrentAgent(data.agent || null);
-              setStreamingMessage({
-                id: `streaming-${data.agent}-${Date.now()}`,
-                content: '',
-                agent: data.agent || '未知'
-              });
-              break;
-
-            case 'chunk':
-              setStreamingMessage(prev => {
-                if (!prev) return null;
-                return {
-                  ...prev,
-                  content: prev.content + (data.text || '')
-                };
-              });
-              break;
-
-            case 'agent_complete':
-              // Add completed message to messages using fullContent from data
-              if (data.fullContent && data.agent) {
-                const completedMessage: Message = {
-                  id: data.messageId || `completed-${data.agent}-${Date.now()}`,
-                  role: 'ai',
-                  content: data.fullContent,
-                  timestamp: new Date(),
-                  agent: data.agent
-                };
-                setMessages(prev => [...prev, completedMessage]);
-              }
-              setStreamingMessage(null);
-              setCurrentAgent(null);
-              break;
-
-            case 'agent_error':
-              setMessages(prev => [...prev, {
-                id: `error-${Date.now()}`,
-                role: 'ai',
-                content: `抱歉，${data.agent} 处理时出现错误: ${data.error}`,
-                timestamp: new Date(),
-                agent: data.agent || '系统'
-              }]);
-              setStreamingMessage(null);
-              setCurrentAgent(null);
-              break;
-
-            case 'conversation_complete':
-              setIsLoading(false);
-              setCurrentAgent(null);
-              setStreamingMessage(null);
-              eventSource.close();
-              break;
-
-            case 'error':
-              console.error('流式错误:', data.error);
-              setMessages(prev => [...prev, {
-                id: `error-${Date.now()}`,
-                role: 'ai',
-                content: `处理消息时出现错误: ${data.error}`,
-                timestamp: new Date()
-              }]);
-              setIsLoading(false);
-              setCurrentAgent(null);
-              setStreamingMessage(null);
-              eventSource.close();
-              break;
-          }
-        } catch (parseError) {
-          console.error('解析流式数据错误:', parseError);
-        }
-      };
-
-      eventSource.onerror = (error) => {
-        console.error('EventSource error:', error);
-        setMessages(prev => [...prev, {
-          id: `error-${Date.now()}`,
-          role: 'ai',
-          content: '连接断开，请重试。',
-          timestamp: new Date()
-        }]);
-        setIsLoading(false);
-        setCurrentAgent(null);
-        setStreamingMessage(null);
-        eventSource.close();
-      };
-
     } catch (error) {
       console.error('Error starting stream:', error);
       setMessages(prev => [...prev, {
@@ -218,11 +644,96 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
         timestamp: new Date()
       }]);
       setIsLoading(false);
-      setCurrentAgent(null);
-      setStreamingMessage(null);
+      setStreamingMessages([]);
     }
   };
 
+  // 继续聊天：用户不发言，AI们接着刚才的话题聊下去
+  const handleContinue = () => {
+    if (isLoading || budget?.level === 'exceeded') return;
+
+    setIsLoading(true);
+    setStreamingMessages([]);
+
+    try {
+      console.log('🔁 继续聊天...');
+      openStream(`/api/conversations/${conversationId}/continue`);
+    } catch (error) {
+      console.error('Error starting stream:', error);
+      setIsLoading(false);
+    }
+  };
+
+  // 重新生成：agent 只重新生成这条回复，round 重新生成这一轮的全部回复；原来的回复保留在原分支
+  const handleRegenerate = (message: Message, scope: 'agent' | 'round') => {
+    if (isLoading || budget?.level === 'exceeded') return;
+
+    const index = messages.findIndex(msg => msg.id === message.id);
+    const roundIndex = messages.slice(0, index + 1).map(msg => msg.role).lastIndexOf('user');
+    setMessages(prev => prev.slice(0, scope === 'agent' ? index : roundIndex + 1));
+    setIsLoading(true);
+    setStreamingMessages([]);
+
+    try {
+      console.log(`🔄 重新生成 (${scope})...`);
+      openStream(`/api/conversations/${conversationId}/regenerate?messageId=${encodeURIComponent(message.id)}&scope=${scope}`);
+    } catch (error) {
+      console.error('Error starting stream:', error);
+      setIsLoading(false);
+    }
+  };
+
+  // 编辑消息：内容放回输入框，发送时从这条消息开始走新的分支
+  const handleEdit = (message: Message) => {
+    setEditingMessage(message);
+    setInput(message.content);
+    requestAnimationFrame(() => inputRef.current?.focus());
+  };
+
+  const cancelEdit = () => {
+    setEditingMessage(null);
+    setInput('');
+  };
+
+  // 切换到同一位置的另一个分支
+  const handleSwitchBranch = async (branchId: string) => {
+    if (isLoading) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/branches`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ branchId })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        alert(`切换失败: ${result.error}`);
+        return;
+      }
+
+      setMessages(result.data.map(toMessage));
+      setContinuationNote(null);
+    } catch (error) {
+      console.error('切换分支失败:', error);
+      alert('切换失败，请重试');
+    }
+  };
+
+  // 停止生成：通知服务端中止模型调用，并关闭当前流
+  const handleStop = async () => {
+    try {
+      await fetch(`/api/conversations/${conversationId}/cancel`, { method: 'POST' });
+    } catch (error) {
+      console.error('停止生成失败:', error);
+    }
+
+    // 关闭连接本身也会让服务端中止生成，取消接口失败时同样有效
+    eventSourceRef.current?.close();
+    setIsLoading(false);
+    setStreamingMessages([]);
+  };
+
   return (
     <AuthLayout>
     <div className="min-h-screen bg-background/50 flex items-center justify-center p-4">
@@ -239,6 +750,23 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
                 {currentAgent} 正在输入...
               </span>
             )}
+            {budget && !currentAgent && (
+              <span className={`text-xs flex items-center gap-1 ${
+                budget.level === 'normal' ? 'text-muted-foreground' : 'text-destructive'
+              }`}>
+                <Wallet className="h-3 w-3" />
+                {formatUSD(budget.spentMicroCents / MICRO_CENTS_PER_CENT)} / {formatUSD(budget.budgetCents)}
+              </span>
+            )}
+            {usage && !currentAgent && (
+              <span className={`text-xs flex items-center gap-1 ${
+                isNearQuota(usage) ? 'text-destructive' : 'text-muted-foreground'
+              }`}>
+                <Gauge className="h-3 w-3" />
+                {usage.plan.name} · 今日 {usage.usage.dailyMessages}/{usage.plan.dailyMessages ?? '不限'} 条
+                {' · '}本月 {formatUSD(usage.usage.monthlyCostCents)}/{usage.plan.monthlyCostCents !== null ? formatUSD(usage.plan.monthlyCostCents) : '不限'}
+              </span>
+            )}
           </div>
           <button className="p-1 text-muted-foreground hover:text-foreground">
             <MoreVertical className="h-5 w-5" />
@@ -280,7 +808,39 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
                       : 'left-0 border-r-[8px] border-r-muted border-t-[8px] border-t-transparent border-b-[8px] border-b-transparent'
                   }`}></div>
 
-                  <p className="text-sm whitespace-pre-wrap leading-relaxed">{message.content}</p>
+                  {message.images && message.images.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-1">
+                      {message.images.map(url => (
+                        <Image
+                          key={url}
+                          src={url}
+                          alt="图片"
+                          width={160}
+                          height={160}
+                          unoptimized
+                          className="max-h-40 w-auto rounded-md object-cover"
+                        />
+                      ))}
+                    </div>
+                  )}
+
+                  {message.content && (
+                    <p className="text-sm whitespace-pre-wrap leading-relaxed">{message.content}</p>
+                  )}
+
+                  {/* 知识库出处 */}
+                  {message.citations && message.citations.length > 0 && (
+                    <div className="mt-2 pt-2 border-t border-border/60 space-y-1">
+                      {message.citations.map(citation => (
+                        <details key={`${citation.documentId}-${citation.index}`} className="text-xs text-muted-foreground">
+                          <summary className="cursor-pointer hover:text-foreground">
+                            [{citation.index}] 《{citation.title}》
+                          </summary>
+                          <p className="mt-1 pl-4 whitespace-pre-wrap line-clamp-6">{citation.content}</p>
+                        </details>
+                      ))}
+                    </div>
+                  )}
 
                   {/* 时间和代理标识 */}
                   <div className={`mt-1 flex items-center justify-between ${
@@ -301,14 +861,76 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
                       </span>
                     )}
                   </div>
+
+                  {/* 分支切换、重新生成和编辑 */}
+                  {(message.variants || (!isLoading && !LOCAL_MESSAGE_PATTERN.test(message.id))) && (
+                    <div className={`mt-1 flex items-center gap-1 text-xs ${
+                      message.role === 'user' ? 'flex-row-reverse text-primary-foreground/70' : 'text-muted-foreground'
+                    }`}>
+                      {message.variants && (
+                        <span className="flex items-center">
+                          <button
+                            type="button"
+                            title="上一个版本"
+                            disabled={isLoading || message.variants.current <= 0}
+                            onClick={() => message.variants && handleSwitchBranch(message.variants.branchIds[message.variants.current - 1])}
+                            className="p-0.5 hover:opacity-70 disabled:opacity-30"
+                          >
+                            <ChevronLeft className="h-3 w-3" />
+                          </button>
+                          {message.variants.current + 1}/{message.variants.branchIds.length}
+                          <button
+                            type="button"
+                            title="下一个版本"
+                            disabled={isLoading || message.variants.current >= message.variants.branchIds.length - 1}
+                            onClick={() => message.variants && handleSwitchBranch(message.variants.branchIds[message.variants.current + 1])}
+                            className="p-0.5 hover:opacity-70 disabled:opacity-30"
+                          >
+                            <ChevronRight className="h-3 w-3" />
+                          </button>
+                        </span>
+                      )}
+                      {!isLoading && !LOCAL_MESSAGE_PATTERN.test(message.id) && (message.role === 'ai' ? (
+                        <>
+                          <button
+                            type="button"
+                            title="重新生成这条回复"
+                            disabled={budget?.level === 'exceeded'}
+                            onClick={() => handleRegenerate(message, 'agent')}
+                            className="p-0.5 hover:opacity-70 disabled:opacity-30"
+                          >
+                            <RefreshCw className="h-3 w-3" />
+                          </button>
+                          <button
+                            type="button"
+                            title="这一轮全部重新回复"
+                            disabled={budget?.level === 'exceeded'}
+                            onClick={() => handleRegenerate(message, 'round')}
+                            className="p-0.5 hover:opacity-70 disabled:opacity-30"
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          type="button"
+                          title="编辑后重新发送"
+                          onClick={() => handleEdit(message)}
+                          className="p-0.5 hover:opacity-70"
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
           ))}
 
           {/* 流式消息 - 微信风格 */}
-          {streamingMessage && (
-            <div className="flex justify-start animate-in fade-in-0 slide-in-from-bottom-2 duration-500">
+          {streamingMessages.map(streamingMessage => (
+            <div key={streamingMessage.id} className="flex justify-start animate-in fade-in-0 slide-in-from-bottom-2 duration-500">
               <div className="flex items-end space-x-2 max-w-[85%]">
                 <Avatar className="h-8 w-8 mb-1 animate-in zoom-in-50 duration-300">
                   <div className="h-full w-full rounded-full bg-muted flex items-center justify-center text-xs">
@@ -327,10 +949,10 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
                 </div>
               </div>
             </div>
-          )}
+          ))}
 
           {/* 加载指示器 - 微信风格 */}
-          {isLoading && !streamingMessage && (
+          {isLoading && streamingMessages.length === 0 && (
             <div className="flex justify-start">
               <div className="flex items-end space-x-2 max-w-[85%]">
                 <Avatar className="h-8 w-8 mb-1">
@@ -350,12 +972,176 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
 
       {/* 微信风格输入框 - shadcn颜色 */}
       <div className="bg-muted/30 border-t border-border px-3 py-2">
+        {/* 预算用完提示 */}
+        {budget?.level === 'exceeded' && (
+          <Alert variant="destructive" className="mb-2">
+            <Wallet />
+            <AlertTitle>本对话的预算已用完</AlertTitle>
+            <AlertDescription>
+              <p>
+                已花费 {formatUSD(budget.spentMicroCents / MICRO_CENTS_PER_CENT)}，预算上限 {formatUSD(budget.budgetCents)}。充值或提高上限后可以继续聊天。
+              </p>
+              <div className="flex flex-wrap items-center gap-2 mt-2">
+                {TOP_UP_OPTIONS.map(cents => (
+                  <Button
+                    key={cents}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={isUpdatingBudget}
+                    onClick={() => updateBudget({ topUpCents: cents })}
+                  >
+                    +{formatUSD(cents)}
+                  </Button>
+                ))}
+                <Input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={customBudget}
+                  onChange={(e) => setCustomBudget(e.target.value)}
+                  placeholder="新上限（美元）"
+                  className="h-8 w-32 text-sm"
+                />
+                <Button
+                  type="button"
+                  size="sm"
+                  disabled={isUpdatingBudget || !customBudget}
+                  onClick={handleSetBudget}
+                >
+                  设置上限
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* 待发送的图片 */}
+        {(pendingImages.length > 0 || isUploading) && (
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            {pendingImages.map(image => (
+              <div key={image.id} className="relative">
+                <Image
+                  src={image.url}
+                  alt={image.name}
+                  width={56}
+                  height={56}
+                  unoptimized
+                  className="h-14 w-14 rounded-md object-cover border border-border"
+                />
+                <button
+                  type="button"
+                  onClick={() => setPendingImages(prev => prev.filter(item => item.id !== image.id))}
+                  className="absolute -top-1 -right-1 rounded-full bg-background border border-border p-0.5 text-muted-foreground hover:text-foreground"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+            {isUploading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </div>
+        )}
+
+        {/* 继续聊：AI们停下来后可以让大家接着聊 */}
+        {!isLoading && messages.some(msg => msg.role === 'ai') && (
+          <div className="flex items-center gap-2 mb-2">
+            <button
+              type="button"
+              onClick={handleContinue}
+              disabled={budget?.level === 'exceeded'}
+              className="flex items-center gap-1 rounded-full border border-border px-2 py-0.5 text-xs text-muted-foreground transition-colors hover:text-foreground disabled:opacity-50"
+            >
+              <MessagesSquare className="h-3 w-3" />
+              继续聊
+            </button>
+            {continuationNote && (
+              <span className="text-xs text-muted-foreground">{continuationNote}</span>
+            )}
+          </div>
+        )}
+
+        {/* 正在编辑的消息 */}
+        {editingMessage && (
+          <div className="flex items-center gap-2 mb-2 text-xs text-muted-foreground">
+            <Pencil className="h-3 w-3" />
+            <span className="truncate">正在编辑：{editingMessage.content}</span>
+            <button type="button" onClick={cancelEdit} className="shrink-0 hover:text-foreground">
+              取消
+            </button>
+          </div>
+        )}
+
+        {/* 点名时可以只让被 @ 的朋友回复 */}
+        {inputHasMention && (
+          <div className="flex items-center mb-2">
+            <button
+              type="button"
+              onClick={() => setMentionsOnly(prev => !prev)}
+              className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors ${
+                mentionsOnly
+                  ? 'border-primary bg-primary text-primary-foreground'
+                  : 'border-border text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              <AtSign className="h-3 w-3" />
+              只让被@的朋友回复
+            </button>
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="flex items-end space-x-2">
+          {/* 图片上传 */}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/png,image/jpeg,image/webp,image/gif"
+            multiple
+            className="hidden"
+            onChange={handleImageSelect}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading || isUploading || pendingImages.length >= MAX_IMAGES_PER_MESSAGE}
+            className="p-2 text-muted-foreground hover:text-foreground disabled:opacity-50"
+          >
+            <ImagePlus className="h-5 w-5" />
+          </button>
           <div className="flex-1 relative">
+            {/* @ 提及自动补全 */}
+            {mentionSuggestions.length > 0 && (
+              <div className="absolute bottom-full left-0 mb-2 w-56 rounded-md border border-border bg-popover py-1 shadow-md z-10">
+                {mentionSuggestions.map((agent, index) => (
+                  <button
+                    key={agent.id}
+                    type="button"
+                    onMouseDown={(e) => {
+                      // 阻止输入框失去焦点，保留光标位置
+                      e.preventDefault();
+                      selectMention(agent);
+                    }}
+                    className={`flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm ${
+                      index === mentionIndex ? 'bg-muted' : 'hover:bg-muted/60'
+                    }`}
+                  >
+                    <span
+                      className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full text-[10px] text-white"
+                      style={{ backgroundColor: agent.color }}
+                    >
+                      {agent.name.slice(0, 1)}
+                    </span>
+                    <span className="truncate">{agent.name}</span>
+                  </button>
+                ))}
+              </div>
+            )}
             <Input
+              ref={inputRef}
               value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder="输入消息..."
+              onChange={handleInputChange}
+              onKeyDown={handleInputKeyDown}
+              onBlur={() => setMentionQuery(null)}
+              placeholder="输入消息，@ 可以点名朋友..."
               disabled={isLoading}
               className="bg-background border-border rounded-full px-3 py-2 pr-10 text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
             />
@@ -367,23 +1153,33 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
               <Mic className="h-4 w-4" />
             </button>
           </div>
-          <Button
-            type="submit"
-            disabled={!input.trim() || isLoading}
-            className="rounded-full px-4 py-2 text-sm font-medium transition-colors"
-            size="sm"
-          >
-            {isLoading ? (
+          {isLoading ? (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleStop}
+              className="rounded-full px-4 py-2 text-sm font-medium transition-colors"
+              size="sm"
+            >
               <div className="flex items-center space-x-1">
                 <TypingIndicator />
+                <Square className="h-3 w-3 fill-current" />
+                <span>停止</span>
               </div>
-            ) : (
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              disabled={(!input.trim() && pendingImages.length === 0) || isUploading || budget?.level === 'exceeded'}
+              className="rounded-full px-4 py-2 text-sm font-medium transition-colors"
+              size="sm"
+            >
               <div className="flex items-center space-x-1">
                 <span>发送</span>
                 <Send className="h-4 w-4" />
               </div>
-            )}
-          </Button>
+            </Button>
+          )}
         </form>
 
         {/* 工具栏 - 暂时隐藏，开发完成后放开 */}
@@ -10,7 +10,7 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Card, CardContent } from '@/components/ui/card';
-import { Plus, MessageCircle, Users, Search, ArrowLeft, ArrowRight, MoreVertical, Send, Mic, FileText, Camera, MapPin, Menu, ChevronRight, X, Settings, LogOut, User, Trash2, Activity, TestTube } from 'lucide-react';
+import { Plus, MessageCircle, Users, Search, ArrowLeft, ArrowRight, MoreVertical, Send, Mic, FileText, Camera, MapPin, Menu, ChevronRight, X, Settings, LogOut, User, Trash2, Activity, TestTube, Brain } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { AuthLayout } from '@/components/layout/AuthLayout';
 import { APIClient, APIResponseHelper } from '@/types/api';
@@ -648,6 +648,10 @@ export default function ChatPage() {
                         <User className="mr-2 h-4 w-4" />
                         <span>个人资料</span>
                       </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => router.push('/memories')}>
+                        <Brain className="mr-2 h-4 w-4" />
+                        <span>朋友们记得的事</span>
+                      </DropdownMenuItem>
                       <DropdownMenuItem onClick={() => router.push('/admin')}>
                         <Settings className="mr-2 h-4 w-4" />
                         <span>设置</span>
@@ -696,6 +700,10 @@ export default function ChatPage() {
                       <User className="mr-2 h-4 w-4" />
                       <span>个人资料</span>
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => router.push('/memories')}>
+                      <Brain className="mr-2 h-4 w-4" />
+                      <span>朋友们记得的事</span>
+                    </DropdownMenuItem>
                     <DropdownMenuItem onClick={() => router.push('/admin')}>
                       <Settings className="mr-2 h-4 w-4" />
                       <span>设置</span>
@@ -0,0 +1,193 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Brain, Trash2 } from 'lucide-react';
+import { AuthLayout } from '@/components/layout/AuthLayout';
+import { APIClient, APIResponseHelper } from '@/types/api';
+
+interface Memory {
+  id: string;
+  category: string;
+  content: string;
+  createdAt: string;
+  agent: {
+    id: string;
+    name: string;
+    avatar: string | null;
+    color: string;
+  };
+}
+
+interface AgentMemories {
+  agent: Memory['agent'];
+  memories: Memory[];
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  preference: '喜好',
+  event: '经历',
+  relationship: '身边的人',
+  fact: '关于你'
+};
+
+// 按智能体分组，保持记忆的时间顺序
+function groupByAgent(memories: Memory[]): AgentMemories[] {
+  const groups = new Map<string, AgentMemories>();
+  for (const memory of memories) {
+    const group = groups.get(memory.agent.id) || { agent: memory.agent, memories: [] };
+    group.memories.push(memory);
+    groups.set(memory.agent.id, group);
+  }
+  return Array.from(groups.values());
+}
+
+export default function MemoriesPage() {
+  const router = useRouter();
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadMemories();
+  }, []);
+
+  const loadMemories = async () => {
+    try {
+      setIsLoading(true);
+      const result = await APIClient.get<Memory[]>('/api/memories');
+      if (APIResponseHelper.isSuccess(result)) {
+        setMemories(result.data);
+      } else {
+        console.error('加载记忆失败:', result.error);
+      }
+    } catch (error) {
+      console.error('加载记忆失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (memory: Memory) => {
+    setDeletingId(memory.id);
+    try {
+      const result = await APIClient.delete(`/api/memories/${memory.id}`);
+      if (APIResponseHelper.isSuccess(result)) {
+        setMemories(prev => prev.filter(item => item.id !== memory.id));
+      } else {
+        alert(`删除失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('删除记忆失败:', error);
+      alert('删除失败，请重试');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleClearAgent = async (group: AgentMemories) => {
+    if (!confirm(`确定让 ${group.agent.name} 忘掉关于你的全部 ${group.memories.length} 件事吗？`)) return;
+
+    try {
+      const result = await APIClient.delete(`/api/memories?agentId=${encodeURIComponent(group.agent.id)}`);
+      if (APIResponseHelper.isSuccess(result)) {
+        setMemories(prev => prev.filter(item => item.agent.id !== group.agent.id));
+      } else {
+        alert(`删除失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('清空记忆失败:', error);
+      alert('删除失败，请重试');
+    }
+  };
+
+  const groups = groupByAgent(memories);
+
+  return (
+    <AuthLayout>
+      <div className="min-h-screen bg-background/50 p-4">
+        <div className="max-w-3xl mx-auto space-y-6">
+          {/* Header */}
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => router.push('/chat')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">朋友们记得的事</h1>
+              <p className="text-sm text-muted-foreground">
+                聊天时AI朋友们会记住关于你的事，随时可以让他们忘掉
+              </p>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : groups.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                <Brain className="h-10 w-10 mx-auto mb-3 opacity-50" />
+                <p>朋友们还没有记住关于你的事</p>
+                <p className="text-sm mt-1">多聊聊你的喜好和生活吧</p>
+              </CardContent>
+            </Card>
+          ) : (
+            groups.map(group => (
+              <Card key={group.agent.id}>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <div className="flex items-center gap-3">
+                    <div
+                      className="h-9 w-9 rounded-full flex items-center justify-center text-white font-medium"
+                      style={{ backgroundColor: group.agent.color }}
+                    >
+                      {group.agent.name.slice(0, 1)}
+                    </div>
+                    <div>
+                      <CardTitle className="text-base">{group.agent.name}</CardTitle>
+                      <CardDescription>记得 {group.memories.length} 件事</CardDescription>
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => handleClearAgent(group)}>
+                    全部忘掉
+                  </Button>
+                </CardHeader>
+                <CardContent>
+                  <ul className="divide-y divide-border">
+                    {group.memories.map(memory => (
+                      <li key={memory.id} className="flex items-center justify-between gap-3 py-2">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <Badge variant="secondary" className="shrink-0">
+                            {CATEGORY_LABELS[memory.category] || memory.category}
+                          </Badge>
+                          <span className="text-sm">{memory.content}</span>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <span className="text-xs text-muted-foreground">
+                            {new Date(memory.createdAt).toLocaleDateString()}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                            disabled={deletingId === memory.id}
+                            onClick={() => handleDelete(memory)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+    </AuthLayout>
+  );
+}
@@ -109,6 +109,8 @@ interface LiveMetrics {
   averageResponseTime: number;
   cacheHitRate: number;
   errorRate: number;
+  queuedLLMCalls: number;
+  providerQueues: Array<{ key: string; queued: number; active: number }>;
   lastUpdate: Date;
 }
 
@@ -256,7 +258,7 @@ export function DiagnosticDashboard() {
         </div>
 
         {/* 实时指标概览 */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
           <MetricCard
             title="活跃对话"
             value={liveMetrics?.activeConversations ?? 0}
@@ -281,6 +283,12 @@ export function DiagnosticDashboard() {
             icon={<Zap className="h-5 w-5" />}
             trend="positive"
           />
+          <MetricCard
+            title="LLM排队"
+            value={liveMetrics?.queuedLLMCalls ?? 0}
+            icon={<Clock className="h-5 w-5" />}
+            trend={(liveMetrics?.queuedLLMCalls ?? 0) > 0 ? 'negative' : 'stable'}
+          />
         </div>
 
         {/* 系统健康状态 */}
@@ -35,6 +35,7 @@ const breadcrumbMap: Record<AdminPage, string> = {
   providers: '提供商管理',
   prompts: '提示词管理',
   groups: '群聊管理',
+  users: '用户套餐',
   conversations: '对话管理',
   monitoring: '系统监控',
   settings: '系统设置'
@@ -26,12 +26,16 @@ const SceneAnalyzersManager = dynamic(() => import('@/components/admin/SceneAnal
   ssr: false,
   loading: () => <div className="p-6 text-center">加载中...</div>
 });
+const UsersPage = dynamic(() => import('@/app/admin/users/page'), { 
+  ssr: false,
+  loading: () => <div className="p-6 text-center">加载中...</div>
+});
 
 interface AdminLayoutProps {
   children?: React.ReactNode;
 }
 
-export type AdminPage = 'dashboard' | 'agents' | 'providers' | 'scene-analyzers' | 'prompts' | 'groups' | 'conversations' | 'monitoring' | 'settings';
+export type AdminPage = 'dashboard' | 'agents' | 'providers' | 'scene-analyzers' | 'prompts' | 'groups' | 'users' | 'conversations' | 'monitoring' | 'settings';
 
 export function AdminLayout({ children }: AdminLayoutProps) {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
@@ -71,6 +75,8 @@ export function AdminLayout({ children }: AdminLayoutProps) {
             </div>
           </div>
         );
+      case 'users':
+        return <UsersPage />;
       case 'conversations':
         return (
           <div className="p-6 flex flex-col items-center justify-center min-h-[400px]">
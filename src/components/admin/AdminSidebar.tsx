@@ -14,7 +14,8 @@ import {
   MessageSquare,
   ChevronLeft,
   Activity,
-  Brain
+  Brain,
+  Users
 } from 'lucide-react';
 import { AdminPage } from './AdminLayout';
 
@@ -62,6 +63,12 @@ const navigationItems = [
     icon: UsersRound,
     description: '智能体群聊配置'
   },
+  {
+    title: '用户',
+    key: 'users' as AdminPage,
+    icon: Users,
+    description: '用户套餐管理'
+  },
   {
     title: '对话',
     key: 'conversations' as AdminPage,
@@ -0,0 +1,261 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookOpen, Upload, Trash2, Loader2, RefreshCw } from 'lucide-react';
+import { APIClient, APIResponseHelper } from '@/types/api';
+
+type KnowledgeFormat = 'markdown' | 'text' | 'pdf';
+
+interface KnowledgeDocument {
+  id: string;
+  title: string;
+  format: KnowledgeFormat;
+  chunkCount: number;
+  createdAt: string;
+}
+
+interface AgentKnowledgeDialogProps {
+  agent: { id: string; name: string } | null;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<KnowledgeFormat, string> = {
+  markdown: 'Markdown',
+  text: '纯文本',
+  pdf: 'PDF文本'
+};
+
+// 与服务端 MAX_DOCUMENT_LENGTH 保持一致
+const MAX_DOCUMENT_LENGTH = 200000;
+
+const EMPTY_FORM = { title: '', format: 'markdown' as KnowledgeFormat, content: '' };
+
+export default function AgentKnowledgeDialog({ agent, onClose }: AgentKnowledgeDialogProps) {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isReindexing, setIsReindexing] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadDocuments = useCallback(async () => {
+    if (!agent) return;
+
+    try {
+      setIsLoading(true);
+      const result = await APIClient.get<KnowledgeDocument[]>(`/api/admin/agents/${agent.id}/knowledge`);
+      if (APIResponseHelper.isSuccess(result)) {
+        setDocuments(result.data);
+      } else {
+        console.error('加载知识库失败:', result.error);
+      }
+    } catch (error) {
+      console.error('加载知识库失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [agent]);
+
+  useEffect(() => {
+    setForm(EMPTY_FORM);
+    setDocuments([]);
+    loadDocuments();
+  }, [loadDocuments]);
+
+  // 读取本地的 .md/.txt 文件，PDF 需要先用其他工具提取文本再粘贴
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setForm({
+        title: file.name.replace(/\.[^.]+$/, ''),
+        format: /\.(md|markdown)$/i.test(file.name) ? 'markdown' : 'text',
+        content: String(reader.result || '')
+      });
+    };
+    reader.readAsText(file);
+  };
+
+  const handleSubmit = async () => {
+    if (!agent || !form.title.trim() || !form.content.trim()) return;
+
+    if (form.content.length > MAX_DOCUMENT_LENGTH) {
+      alert(`文档过长，最多 ${MAX_DOCUMENT_LENGTH} 个字符`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await APIClient.post<KnowledgeDocument>(`/api/admin/agents/${agent.id}/knowledge`, form);
+      if (APIResponseHelper.isSuccess(result)) {
+        setDocuments(prev => [result.data, ...prev]);
+        setForm(EMPTY_FORM);
+      } else {
+        alert(`添加失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('添加知识库文档失败:', error);
+      alert('添加失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (document: KnowledgeDocument) => {
+    if (!agent || !confirm(`确定从知识库删除《${document.title}》吗？`)) return;
+
+    try {
+      const result = await APIClient.delete(`/api/admin/agents/${agent.id}/knowledge/${document.id}`);
+      if (APIResponseHelper.isSuccess(result)) {
+        setDocuments(prev => prev.filter(item => item.id !== document.id));
+      } else {
+        alert(`删除失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('删除知识库文档失败:', error);
+      alert('删除失败，请重试');
+    }
+  };
+
+  const handleReindex = async () => {
+    if (!agent) return;
+
+    setIsReindexing(true);
+    try {
+      const result = await APIClient.post(`/api/admin/agents/${agent.id}/knowledge/reindex`);
+      if (APIResponseHelper.isSuccess(result)) {
+        await loadDocuments();
+      } else {
+        alert(`重新索引失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('重新索引知识库失败:', error);
+      alert('重新索引失败，请重试');
+    } finally {
+      setIsReindexing(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!agent} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            {agent?.name} 的知识库
+          </DialogTitle>
+          <DialogDescription>
+            回复时会检索与用户消息相关的片段作为参考，并在聊天气泡下方标注出处
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* 添加文档 */}
+          <div className="space-y-3 rounded-lg border p-4">
+            <div className="flex items-center justify-between">
+              <Label>添加文档</Label>
+              <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-1" />
+                选择 .md / .txt 文件
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".md,.markdown,.txt,text/markdown,text/plain"
+                className="hidden"
+                onChange={handleFileSelect}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="文档标题"
+                value={form.title}
+                onChange={e => setForm(prev => ({ ...prev, title: e.target.value }))}
+              />
+              <Select
+                value={form.format}
+                onValueChange={value => setForm(prev => ({ ...prev, format: value as KnowledgeFormat }))}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FORMAT_LABELS) as KnowledgeFormat[]).map(format => (
+                    <SelectItem key={format} value={format}>{FORMAT_LABELS[format]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Textarea
+              rows={8}
+              placeholder={form.format === 'pdf' ? '粘贴从PDF中提取的文本' : '粘贴文档内容，或选择本地文件'}
+              value={form.content}
+              onChange={e => setForm(prev => ({ ...prev, content: e.target.value }))}
+            />
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-500">
+                {form.content.length} / {MAX_DOCUMENT_LENGTH} 字符
+              </span>
+              <Button
+                type="button"
+                size="sm"
+                disabled={isSubmitting || !form.title.trim() || !form.content.trim()}
+                onClick={handleSubmit}
+              >
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                加入知识库
+              </Button>
+            </div>
+          </div>
+
+          {/* 文档列表 */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>已有文档</Label>
+              {documents.length > 0 && (
+                <Button type="button" variant="ghost" size="sm" disabled={isReindexing} onClick={handleReindex}>
+                  <RefreshCw className={`h-4 w-4 mr-1 ${isReindexing ? 'animate-spin' : ''}`} />
+                  重新索引
+                </Button>
+              )}
+            </div>
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+              </div>
+            ) : documents.length === 0 ? (
+              <p className="py-6 text-center text-sm text-gray-500">还没有文档</p>
+            ) : (
+              <ul className="divide-y rounded-lg border">
+                {documents.map(document => (
+                  <li key={document.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge variant="secondary" className="shrink-0">{FORMAT_LABELS[document.format] || document.format}</Badge>
+                      <span className="text-sm truncate">{document.title}</span>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <span className="text-xs text-gray-500">{document.chunkCount} 个片段</span>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(document)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,269 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileText, Plus, Trash2, Loader2, ArrowUp, ArrowDown, Eye } from 'lucide-react';
+import { APIClient, APIResponseHelper } from '@/types/api';
+
+interface PromptSummary {
+  id: string;
+  name: string;
+  category: string;
+  description?: string | null;
+  tags: string[];
+  isPublic: boolean;
+}
+
+interface AgentPrompt {
+  id: string;
+  promptId: string;
+  order: number;
+  isActive: boolean;
+  prompt: PromptSummary;
+}
+
+interface PromptPreview {
+  systemPrompt: string;
+  variables: Record<string, string>;
+  unresolved: string[];
+}
+
+interface AgentPromptsDialogProps {
+  agent: { id: string; name: string } | null;
+  onClose: () => void;
+}
+
+export default function AgentPromptsDialog({ agent, onClose }: AgentPromptsDialogProps) {
+  const [attached, setAttached] = useState<AgentPrompt[]>([]);
+  const [templates, setTemplates] = useState<PromptSummary[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [previewConversationId, setPreviewConversationId] = useState('');
+  const [preview, setPreview] = useState<PromptPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const loadData = useCallback(async () => {
+    if (!agent) return;
+
+    try {
+      setIsLoading(true);
+      const [attachedResult, templatesResult] = await Promise.all([
+        APIClient.get<AgentPrompt[]>(`/api/admin/agents/${agent.id}/prompts`),
+        APIClient.get<PromptSummary[]>('/api/admin/prompts')
+      ]);
+
+      if (APIResponseHelper.isSuccess(attachedResult)) {
+        setAttached(attachedResult.data);
+      } else {
+        console.error('加载智能体提示词模板失败:', attachedResult.error);
+      }
+      if (APIResponseHelper.isSuccess(templatesResult)) {
+        setTemplates(templatesResult.data);
+      } else {
+        console.error('加载提示词模板失败:', templatesResult.error);
+      }
+    } catch (error) {
+      console.error('加载提示词模板失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [agent]);
+
+  useEffect(() => {
+    setSelectedId('');
+    setAttached([]);
+    setPreview(null);
+    loadData();
+  }, [loadData]);
+
+  const available = templates.filter(template => !attached.some(item => item.promptId === template.id));
+
+  const handleAttach = async () => {
+    if (!agent || !selectedId) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await APIClient.post<AgentPrompt[]>(`/api/admin/agents/${agent.id}/prompts`, { promptId: selectedId });
+      if (APIResponseHelper.isSuccess(result)) {
+        setAttached(result.data);
+        setSelectedId('');
+      } else {
+        alert(`挂载失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('挂载提示词模板失败:', error);
+      alert('挂载失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDetach = async (item: AgentPrompt) => {
+    if (!agent || !confirm(`确定移除模板「${item.prompt.name}」吗？`)) return;
+
+    try {
+      const result = await APIClient.delete<AgentPrompt[]>(`/api/admin/agents/${agent.id}/prompts/${item.promptId}`);
+      if (APIResponseHelper.isSuccess(result)) {
+        setAttached(result.data);
+      } else {
+        alert(`移除失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('移除提示词模板失败:', error);
+      alert('移除失败，请重试');
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    if (!agent) return;
+
+    const promptIds = attached.map(item => item.promptId);
+    const target = index + direction;
+    [promptIds[index], promptIds[target]] = [promptIds[target], promptIds[index]];
+
+    try {
+      const result = await APIClient.put<AgentPrompt[]>(`/api/admin/agents/${agent.id}/prompts`, { promptIds });
+      if (APIResponseHelper.isSuccess(result)) {
+        setAttached(result.data);
+      } else {
+        alert(`调整顺序失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('调整模板顺序失败:', error);
+      alert('调整顺序失败，请重试');
+    }
+  };
+
+  // 预览组装后的系统提示词，填写对话ID时按该对话替换用户名、群聊名
+  const handlePreview = async () => {
+    if (!agent) return;
+
+    const params = new URLSearchParams();
+    if (previewConversationId.trim()) params.set('conversationId', previewConversationId.trim());
+
+    setIsPreviewing(true);
+    try {
+      const result = await APIClient.get<PromptPreview>(`/api/admin/agents/${agent.id}/prompt-preview?${params.toString()}`);
+      if (APIResponseHelper.isSuccess(result)) {
+        setPreview(result.data);
+      } else {
+        alert(`预览失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('预览系统提示词失败:', error);
+      alert('预览失败，请重试');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!agent} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            {agent?.name} 的提示词模板
+          </DialogTitle>
+          <DialogDescription>
+            挂载的模板按列表顺序接在智能体提示词之后，一起组成回复时的系统提示词
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* 挂载模板 */}
+          <div className="flex gap-2">
+            <Select value={selectedId} onValueChange={setSelectedId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder={available.length > 0 ? '选择要挂载的模板' : '没有可挂载的模板'} />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map(template => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}{template.isPublic ? '' : '（私有）'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="button" disabled={isSubmitting || !selectedId} onClick={handleAttach}>
+              {isSubmitting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+              挂载
+            </Button>
+          </div>
+
+          {/* 已挂载的模板 */}
+          <div className="space-y-2">
+            <Label>已挂载</Label>
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+              </div>
+            ) : attached.length === 0 ? (
+              <p className="py-6 text-center text-sm text-gray-500">还没有挂载模板</p>
+            ) : (
+              <ul className="divide-y rounded-lg border">
+                {attached.map((item, index) => (
+                  <li key={item.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="text-xs text-gray-500 w-4 shrink-0">{item.order}</span>
+                      <Badge variant="secondary" className="shrink-0">{item.prompt.category}</Badge>
+                      <span className="text-sm truncate">{item.prompt.name}</span>
+                    </div>
+                    <div className="flex items-center shrink-0">
+                      <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => handleMove(index, -1)}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" disabled={index === attached.length - 1} onClick={() => handleMove(index, 1)}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDetach(item)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* 预览最终的系统提示词 */}
+          <div className="space-y-2">
+            <Label>系统提示词预览</Label>
+            <div className="flex gap-2">
+              <Input
+                placeholder="对话ID（可选）"
+                value={previewConversationId}
+                onChange={e => setPreviewConversationId(e.target.value)}
+              />
+              <Button type="button" variant="outline" disabled={isPreviewing} onClick={handlePreview}>
+                {isPreviewing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Eye className="h-4 w-4 mr-1" />}
+                预览
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              {'可用变量：{{userName}} {{timeOfDay}} {{groupName}} {{sceneType}} {{agentName}}'}
+            </p>
+            {preview && (
+              <>
+                <pre className="max-h-64 overflow-y-auto whitespace-pre-wrap rounded-lg border bg-gray-50 p-3 text-xs font-mono">
+                  {preview.systemPrompt}
+                </pre>
+                {preview.unresolved.length > 0 && (
+                  <p className="text-xs text-amber-600">
+                    未替换的变量：{preview.unresolved.join('、')}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
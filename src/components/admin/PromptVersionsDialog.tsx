@@ -0,0 +1,244 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { APIClient, APIResponseHelper } from '@/types/api';
+
+interface PromptVersion {
+  id: string;
+  version: number;
+  content: string;
+  note: string | null;
+  createdAt: string;
+  author: { id: string; name: string | null; email: string } | null;
+}
+
+interface DiffRow {
+  type: 'same' | 'added' | 'removed' | 'changed';
+  left: string | null;
+  leftLine: number | null;
+  right: string | null;
+  rightLine: number | null;
+}
+
+export interface PromptVersionsTarget {
+  type: 'agent' | 'template';
+  id: string;
+  name: string;
+}
+
+interface PromptVersionsDialogProps {
+  target: PromptVersionsTarget | null;
+  onClose: () => void;
+  onRolledBack?: () => void; // 回滚后刷新外部列表
+}
+
+const LEFT_STYLES: Record<DiffRow['type'], string> = {
+  same: '',
+  added: 'bg-gray-50',
+  removed: 'bg-red-50 text-red-800',
+  changed: 'bg-red-50 text-red-800'
+};
+
+const RIGHT_STYLES: Record<DiffRow['type'], string> = {
+  same: '',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-gray-50',
+  changed: 'bg-green-50 text-green-800'
+};
+
+export default function PromptVersionsDialog({ target, onClose, onRolledBack }: PromptVersionsDialogProps) {
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [fromVersion, setFromVersion] = useState('');
+  const [toVersion, setToVersion] = useState('');
+  const [rows, setRows] = useState<DiffRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDiffing, setIsDiffing] = useState(false);
+  const [rollingBack, setRollingBack] = useState<number | null>(null);
+
+  const baseUrl = target
+    ? target.type === 'agent'
+      ? `/api/admin/agents/${target.id}/prompt-versions`
+      : `/api/admin/prompts/${target.id}/versions`
+    : '';
+
+  const loadVersions = useCallback(async () => {
+    if (!baseUrl) return;
+
+    try {
+      setIsLoading(true);
+      const result = await APIClient.get<PromptVersion[]>(baseUrl);
+      if (APIResponseHelper.isSuccess(result)) {
+        setVersions(result.data);
+        // 默认对比最新的两个版本
+        setToVersion(result.data[0] ? String(result.data[0].version) : '');
+        setFromVersion(String((result.data[1] || result.data[0])?.version ?? ''));
+      } else {
+        console.error('加载提示词版本失败:', result.error);
+      }
+    } catch (error) {
+      console.error('加载提示词版本失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    setVersions([]);
+    setRows([]);
+    loadVersions();
+  }, [loadVersions]);
+
+  useEffect(() => {
+    if (!baseUrl || !fromVersion || !toVersion) return;
+
+    const loadDiff = async () => {
+      try {
+        setIsDiffing(true);
+        const result = await APIClient.get<{ rows: DiffRow[] }>(`${baseUrl}/diff?from=${fromVersion}&to=${toVersion}`);
+        if (APIResponseHelper.isSuccess(result)) {
+          setRows(result.data.rows);
+        } else {
+          console.error('对比提示词版本失败:', result.error);
+        }
+      } catch (error) {
+        console.error('对比提示词版本失败:', error);
+      } finally {
+        setIsDiffing(false);
+      }
+    };
+
+    loadDiff();
+  }, [baseUrl, fromVersion, toVersion]);
+
+  const handleRollback = async (version: PromptVersion) => {
+    if (!confirm(`确定把内容回滚到版本 ${version.version} 吗？回滚会记录为一个新版本。`)) return;
+
+    setRollingBack(version.version);
+    try {
+      const result = await APIClient.post(`${baseUrl}/${version.version}/rollback`, {
+        note: `回滚到版本 ${version.version}`
+      });
+      if (APIResponseHelper.isSuccess(result)) {
+        await loadVersions();
+        onRolledBack?.();
+      } else {
+        alert(`回滚失败: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('回滚提示词失败:', error);
+      alert('回滚失败，请重试');
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  const renderVersionSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(version => (
+          <SelectItem key={version.id} value={String(version.version)}>
+            版本 {version.version}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={!!target} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {target?.name} 的提示词版本
+          </DialogTitle>
+          <DialogDescription>
+            每次修改提示词都会保存一个版本，可以对比任意两个版本的差异并回滚
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-500">还没有版本记录</p>
+        ) : (
+          <div className="space-y-4">
+            {/* 版本列表 */}
+            <ul className="max-h-56 overflow-y-auto divide-y rounded-lg border">
+              {versions.map((version, index) => (
+                <li key={version.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant={index === 0 ? 'default' : 'secondary'} className="shrink-0">
+                      v{version.version}
+                    </Badge>
+                    <span className="text-sm truncate">{version.note || '未填写修改说明'}</span>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="text-xs text-gray-500">
+                      {version.author ? version.author.name || version.author.email : '未知作者'} · {new Date(version.createdAt).toLocaleString()}
+                    </span>
+                    {index === 0 ? (
+                      <span className="text-xs text-gray-500 w-16 text-center">当前</span>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-16"
+                        disabled={rollingBack !== null}
+                        onClick={() => handleRollback(version)}
+                      >
+                        {rollingBack === version.version
+                          ? <Loader2 className="h-4 w-4 animate-spin" />
+                          : <><RotateCcw className="h-4 w-4 mr-1" />回滚</>}
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {/* 并排对比 */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label>对比</Label>
+                {renderVersionSelect(fromVersion, setFromVersion)}
+                <span className="text-sm text-gray-500">→</span>
+                {renderVersionSelect(toVersion, setToVersion)}
+                {isDiffing && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+              </div>
+              <div className="max-h-[45vh] overflow-y-auto rounded-lg border">
+                <table className="w-full table-fixed text-xs font-mono">
+                  <tbody>
+                    {rows.map((row, index) => (
+                      <tr key={index} className="align-top">
+                        <td className="w-10 select-none px-2 text-right text-gray-400">{row.leftLine ?? ''}</td>
+                        <td className={`whitespace-pre-wrap break-words px-2 border-r ${LEFT_STYLES[row.type]}`}>
+                          {row.left ?? ''}
+                        </td>
+                        <td className="w-10 select-none px-2 text-right text-gray-400">{row.rightLine ?? ''}</td>
+                        <td className={`whitespace-pre-wrap break-words px-2 ${RIGHT_STYLES[row.type]}`}>
+                          {row.right ?? ''}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
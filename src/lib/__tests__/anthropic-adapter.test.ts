@@ -0,0 +1,214 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import AnthropicAdapter from '../adapters/anthropic-adapter';
+import { LLMConfig, LLMMessage, LLMStreamChunk } from '@/types/llm';
+import { StreamInterruptedError } from '../adapters/base-adapter';
+import { FakeLLMServer, FakeResponse, startFakeLLMServer } from './helpers/fake-llm-server';
+
+const MESSAGES: LLMMessage[] = [
+  { role: 'system', content: '你是小暖' },
+  { role: 'user', content: '你好' }
+];
+
+describe('AnthropicAdapter', () => {
+  const adapter = new AnthropicAdapter();
+  let server: FakeLLMServer;
+  let respond: () => FakeResponse;
+
+  const config = (): LLMConfig => ({
+    provider: 'anthropic',
+    apiKey: 'test-key',
+    baseUrl: server.baseUrl,
+    model: 'claude-test',
+    temperature: 0.5,
+    maxTokens: 300,
+    retryAttempts: 1
+  });
+
+  before(async () => {
+    server = await startFakeLLMServer(() => respond());
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+
+  describe('chat', () => {
+    it('发送 Messages API 请求，system 消息提到顶层', async () => {
+      respond = () => ({
+        json: { model: 'claude-test', content: [{ type: 'text', text: '你好呀' }], stop_reason: 'end_turn', usage: { input_tokens: 5, output_tokens: 3 } }
+      });
+
+      await adapter.chat(config(), MESSAGES);
+
+      const [request] = server.requests;
+      assert.equal(request.path, '/messages');
+      assert.equal(request.headers['x-api-key'], 'test-key');
+      assert.equal(request.headers['anthropic-version'], '2023-06-01');
+      assert.deepEqual(request.body, {
+        model: 'claude-test',
+        messages: [{ role: 'user', content: '你好' }],
+        system: '你是小暖',
+        temperature: 0.5,
+        max_tokens: 300,
+        stream: false
+      });
+    });
+
+    it('只拼接文本内容块，用量包含缓存的输入token', async () => {
+      respond = () => ({
+        json: {
+          model: 'claude-test',
+          content: [
+            { type: 'text', text: '第一段' },
+            { type: 'tool_use', id: 'toolu_1', name: 'search', input: {} },
+            { type: 'text', text: '第二段' }
+          ],
+          stop_reason: 'end_turn',
+          usage: { input_tokens: 10, output_tokens: 4, cache_creation_input_tokens: 2, cache_read_input_tokens: 6 }
+        }
+      });
+
+      const response = await adapter.chat(config(), MESSAGES);
+
+      assert.equal(response.content, '第一段第二段');
+      assert.equal(response.model, 'claude-test');
+      assert.deepEqual(response.usage, { promptTokens: 18, completionTokens: 4, totalTokens: 22, cachedTokens: 6 });
+    });
+
+    for (const [stopReason, finishReason] of [
+      ['end_turn', 'stop'],
+      ['stop_sequence', 'stop'],
+      ['tool_use', 'stop'],
+      ['max_tokens', 'length'],
+      ['refusal', 'safety']
+    ]) {
+      it(`stop_reason ${stopReason} 映射为 ${finishReason}`, async () => {
+        respond = () => ({
+          json: { model: 'claude-test', content: [{ type: 'text', text: '...' }], stop_reason: stopReason, usage: {} }
+        });
+
+        const response = await adapter.chat(config(), MESSAGES);
+
+        assert.equal(response.finishReason, finishReason);
+      });
+    }
+
+    it('接口返回错误时抛出带状态码的错误', async () => {
+      respond = () => ({ status: 529, json: { type: 'error', error: { type: 'overloaded_error' } } });
+
+      await assert.rejects(adapter.chat(config(), MESSAGES), /Anthropic API Error: 529/);
+    });
+
+    for (const status of [400, 401, 403, 404]) {
+      it(`HTTP ${status} 不重试`, async () => {
+        respond = () => ({ status, json: { type: 'error', error: { type: 'invalid_request_error' } } });
+
+        await assert.rejects(adapter.chat({ ...config(), retryAttempts: 3 }, MESSAGES), new RegExp(`Anthropic API Error: ${status}`));
+        assert.equal(server.requests.length, 1);
+      });
+    }
+  });
+
+  describe('streamChat', () => {
+    const streamEvents = (stopReason: string) => ({
+      sse: [
+        { event: 'message_start', data: { type: 'message_start', message: { model: 'claude-test', usage: { input_tokens: 12, output_tokens: 1, cache_read_input_tokens: 3 } } } },
+        { event: 'content_block_start', data: { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } } },
+        { event: 'ping', data: { type: 'ping' } },
+        { event: 'content_block_delta', data: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '今天' } } },
+        { event: 'content_block_delta', data: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '天气不错' } } },
+        { event: 'content_block_stop', data: { type: 'content_block_stop', index: 0 } },
+        { event: 'message_delta', data: { type: 'message_delta', delta: { stop_reason: stopReason }, usage: { output_tokens: 7 } } },
+        { event: 'message_stop', data: { type: 'message_stop' } }
+      ]
+    });
+
+    it('逐个转发文本增量，最后一个数据块带上用量', async () => {
+      respond = () => streamEvents('end_turn');
+      const chunks: LLMStreamChunk[] = [];
+
+      const response = await adapter.streamChat(config(), MESSAGES, chunk => chunks.push(chunk));
+
+      assert.equal(server.requests[0].body?.stream, true);
+      assert.deepEqual(chunks.filter(chunk => !chunk.isComplete).map(chunk => chunk.content), ['今天', '天气不错']);
+
+      const last = chunks[chunks.length - 1];
+      assert.equal(last.isComplete, true);
+      assert.deepEqual(last.usage, { promptTokens: 15, completionTokens: 7, totalTokens: 22, cachedTokens: 3 });
+
+      assert.equal(response.content, '今天天气不错');
+      assert.equal(response.model, 'claude-test');
+      assert.deepEqual(response.usage, last.usage);
+      assert.equal(response.finishReason, 'stop');
+    });
+
+    it('message_delta 的 stop_reason 映射为 finishReason', async () => {
+      respond = () => streamEvents('max_tokens');
+
+      const response = await adapter.streamChat(config(), MESSAGES, () => {});
+
+      assert.equal(response.finishReason, 'length');
+    });
+
+    it('流中的 error 事件抛出错误', async () => {
+      respond = () => ({
+        sse: [
+          { event: 'message_start', data: { type: 'message_start', message: { model: 'claude-test', usage: { input_tokens: 1 } } } },
+          { event: 'error', data: { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } } }
+        ]
+      });
+
+      await assert.rejects(
+        adapter.streamChat(config(), MESSAGES, () => {}),
+        /Anthropic Stream Error: overloaded_error - Overloaded/
+      );
+    });
+
+    it('已经输出部分内容后出错时不重试，避免重复输出', async () => {
+      respond = () => ({
+        sse: [
+          ...streamEvents('end_turn').sse.slice(0, 4),
+          { event: 'error', data: { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } } }
+        ]
+      });
+      const chunks: LLMStreamChunk[] = [];
+
+      await assert.rejects(
+        adapter.streamChat({ ...config(), retryAttempts: 3 }, MESSAGES, chunk => chunks.push(chunk)),
+        (error: Error) => error instanceof StreamInterruptedError && /overloaded_error - Overloaded/.test(error.message)
+      );
+      assert.equal(server.requests.length, 1);
+      assert.deepEqual(chunks.map(chunk => chunk.content), ['今天']);
+    });
+
+    it('还没有输出内容时出错照常重试', async () => {
+      let attempts = 0;
+      respond = () => ++attempts === 1
+        ? { sse: [{ event: 'error', data: { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } } }] }
+        : streamEvents('end_turn');
+
+      const response = await adapter.streamChat({ ...config(), retryAttempts: 2 }, MESSAGES, () => {});
+
+      assert.equal(server.requests.length, 2);
+      assert.equal(response.content, '今天天气不错');
+    });
+  });
+
+  describe('getAvailableModels', () => {
+    it('用传入的API密钥请求模型列表', async () => {
+      respond = () => ({ json: { data: [{ id: 'claude-a' }, { id: 'claude-b' }], has_more: false } });
+
+      const models = await adapter.getAvailableModels('list-key', server.baseUrl);
+
+      assert.deepEqual(models, ['claude-a', 'claude-b']);
+      assert.equal(server.requests[0].method, 'GET');
+      assert.equal(server.requests[0].path, '/models?limit=1000');
+      assert.equal(server.requests[0].headers['x-api-key'], 'list-key');
+    });
+  });
+});
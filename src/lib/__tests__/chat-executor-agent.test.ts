@@ -0,0 +1,251 @@
+import { resetPrisma, stubPrisma } from './helpers/fake-prisma';
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChatExecutionInput, ChatExecutorAgent } from '../agents/chat-executor-agent';
+import { SceneAnalysisResult } from '../agents/scene-analyzer-agent';
+import CreativeAgent from '../agents/creative-agent';
+import AnalystAgent from '../agents/analyst-agent';
+import QualityAssessorAgent from '../agents/quality-assessor-agent';
+import agentBus, { ChatbotResponse, GroupChatStreamEvent } from '../intelligent-agent-bus';
+import { LLMImagePart } from '@/types/llm';
+import { MICRO_CENTS_PER_CENT } from '../cost-ledger';
+import { FakeLLMServer, startFakeLLMServer } from './helpers/fake-llm-server';
+
+const AGENT = { id: 'agent-1', name: '小暖', roleTag: 'warm', prompt: '你是小暖' };
+
+const IMAGE: LLMImagePart = { type: 'image', mimeType: 'image/png', data: 'aGVsbG8=', name: 'cat.png' };
+
+describe('ChatExecutorAgent', () => {
+  const executor = new ChatExecutorAgent();
+  let server: FakeLLMServer;
+
+  /**
+   * 智能体在数据库中配置的模型，提供商走 OpenAI 兼容接口，请求发到本地的假模型服务
+   */
+  const provider = () => ({ code: 'test-provider', adapter: 'custom', apiKey: 'test-key', baseUrl: server.baseUrl });
+
+  const stubAgentModel = (capabilities: string[], pricing: unknown = null, fallbackModelIds: string[] = []) => {
+    stubPrisma('agent.findFirst', () => ({
+      ...AGENT,
+      modelId: 'model-1',
+      temperature: 0.7,
+      maxTokens: 500,
+      fallbackModelIds,
+      model: { id: 'model-1', code: 'agent-model', capabilities, pricing, contextLength: 8000, provider: provider() }
+    }));
+  };
+
+  /**
+   * 主模型较贵，备用模型 model-2 便宜
+   */
+  const stubCheaperFallback = () => {
+    stubAgentModel(['chat'], { input: 10, output: 30 }, ['model-2']);
+    stubPrisma('lLMModel.findMany', () => [
+      { id: 'model-2', code: 'cheap-model', capabilities: ['chat'], pricing: { input: 0.5, output: 1.5 }, contextLength: 8000, provider: provider() }
+    ]);
+  };
+
+  // 会话预算 $10，已花费 spentCents 美分
+  const stubSpent = (spentCents: number) => {
+    stubPrisma('costLedgerEntry.aggregate', () => ({ _sum: { costMicroCents: BigInt(spentCents * MICRO_CENTS_PER_CENT) } }));
+  };
+
+  const buildInput = (request: Partial<ChatExecutionInput['request']> = {}): ChatExecutionInput => ({
+    request: {
+      conversationId: 'conv-1',
+      userMessage: '看看这张图',
+      conversationHistory: [],
+      availableAgents: [AGENT],
+      ...request
+    },
+    analysisResult: {
+      sceneType: 'casual_chat',
+      emotion: 'neutral',
+      topics: [],
+      participationPlan: [{ agentName: AGENT.roleTag }]
+    } as unknown as SceneAnalysisResult,
+    availableAgents: [AGENT]
+  });
+
+  const execute = async (images?: LLMImagePart[]): Promise<ChatbotResponse[]> => {
+    const result = await executor.execute(buildInput({ images }));
+    assert.equal(result.success, true);
+    return result.data.responses;
+  };
+
+  const userContent = () => {
+    const messages = server.requests[0].body?.messages as Array<{ role: string; content: unknown }>;
+    return messages.find(message => message.role === 'user')?.content;
+  };
+
+  before(async () => {
+    // 执行过程的日志很多，测试时不输出
+    for (const method of ['log', 'warn', 'error'] as const) {
+      mock.method(console, method, () => {});
+    }
+
+    server = await startFakeLLMServer(request => ({
+      json: {
+        model: request.body?.model,
+        choices: [{ message: { role: 'assistant', content: '好可爱的猫' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 20, completion_tokens: 6, total_tokens: 26 }
+      }
+    }));
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    await server.close();
+  });
+
+  beforeEach(() => {
+    resetPrisma();
+    server.requests.length = 0;
+    stubPrisma('conversation.findUnique', () => ({
+      budgetCents: 1000,
+      title: '闲聊',
+      user: { name: '小明', email: 'ming@example.com' },
+      group: null
+    }));
+  });
+
+  describe('图片消息', () => {
+    it('智能体的模型支持图片时，图片随消息发给该模型', async () => {
+      stubAgentModel(['chat', 'vision']);
+
+      const [response] = await execute([IMAGE]);
+
+      assert.equal(response.content, '好可爱的猫');
+      assert.equal(server.requests[0].body?.model, 'agent-model');
+      const content = userContent() as Array<Record<string, unknown>>;
+      assert.ok(Array.isArray(content));
+      assert.deepEqual(content[1], { type: 'image_url', image_url: { url: 'data:image/png;base64,aGVsbG8=' } });
+    });
+
+    it('智能体的模型不支持图片时，图片转为文字描述', async () => {
+      stubAgentModel(['chat']);
+
+      await execute([IMAGE]);
+
+      assert.equal(server.requests[0].body?.model, 'agent-model');
+      const content = userContent();
+      assert.equal(typeof content, 'string');
+      assert.match(content as string, /\[用户发送了一张图片 cat\.png（image\/png，1KB），当前模型无法查看图片内容\]/);
+    });
+  });
+
+  describe('会话预算', () => {
+    it('预算充足时使用智能体的主模型', async () => {
+      stubCheaperFallback();
+      stubSpent(100);
+
+      await execute();
+
+      assert.deepEqual(server.requests.map(request => request.body?.model), ['agent-model']);
+      assert.equal(server.requests[0].body?.max_tokens, 500);
+    });
+
+    it('预算不足时改用更便宜的备用模型，并缩短回复', async () => {
+      stubCheaperFallback();
+      stubSpent(800);
+
+      const [response] = await execute();
+
+      assert.equal(response.content, '好可爱的猫');
+      assert.deepEqual(server.requests.map(request => request.body?.model), ['cheap-model']);
+      assert.equal(server.requests[0].body?.max_tokens, 400);
+    });
+
+    it('预算用完时不调用模型', async () => {
+      stubCheaperFallback();
+      stubSpent(1000);
+
+      assert.deepEqual(await execute(), []);
+      assert.equal(server.requests.length, 0);
+    });
+  });
+
+  describe('套餐限制', () => {
+    it('套餐不允许智能体的任何模型时不调用模型，发送 quota_exceeded 并结束本轮', async () => {
+      stubCheaperFallback();
+      const events: GroupChatStreamEvent[] = [];
+
+      const result = await executor.execute(buildInput({
+        planLimits: { allowedModels: ['other-model'] },
+        onStream: event => events.push(event)
+      }));
+
+      assert.equal(result.success, false);
+      assert.equal(server.requests.length, 0);
+      const [event] = events;
+      assert.equal(events.length, 1);
+      assert.ok(event.type === 'quota_exceeded');
+      assert.equal(event.agent, '小暖');
+      assert.equal(event.error, '当前套餐不能使用模型 agent-model');
+    });
+
+    it('只去掉套餐不允许的模型，用允许的备用模型回复', async () => {
+      stubCheaperFallback();
+
+      const result = await executor.execute(buildInput({ planLimits: { allowedModels: ['cheap-model'] } }));
+
+      assert.equal(result.success, true);
+      assert.deepEqual(server.requests.map(request => request.body?.model), ['cheap-model']);
+    });
+  });
+
+  describe('专业化Agent', () => {
+    before(() => {
+      agentBus.registerAgent(new CreativeAgent());
+      agentBus.registerAgent(new AnalystAgent());
+      agentBus.registerAgent(new QualityAssessorAgent());
+    });
+
+    after(() => {
+      for (const id of ['creative-agent', 'analyst-agent', 'quality-assessor']) {
+        agentBus.unregisterAgent(id);
+      }
+    });
+
+    it('代替聊天机器人回复时使用套餐允许的模型，回复带上用量和成本', async () => {
+      stubCheaperFallback();
+
+      const result = await executor.execute(buildInput({
+        userMessage: '帮我想个周末活动的创意',
+        planLimits: { allowedModels: ['cheap-model'] }
+      }));
+
+      const [response] = result.data.responses as ChatbotResponse[];
+      assert.equal(response.agentName, '创意大师');
+      assert.deepEqual(server.requests.map(request => request.body?.model), ['cheap-model']);
+      assert.deepEqual(response.usage, { promptTokens: 20, completionTokens: 6, totalTokens: 26 });
+      assert.equal(response.cost?.model, 'cheap-model');
+      assert.ok((response.cost?.microCents ?? 0) > 0);
+    });
+
+    it('质量评估的调用记入会话成本', async () => {
+      stubCheaperFallback();
+      const entries: Array<Record<string, unknown>> = [];
+      stubPrisma('costLedgerEntry.create', args => {
+        entries.push(args.data as Record<string, unknown>);
+        return args.data;
+      });
+
+      const result = await executor.execute(buildInput({ userMessage: '帮我分析一下这个创意' }));
+
+      assert.deepEqual(result.data.responses.map((response: ChatbotResponse) => response.agentName), ['创意大师', '数据分析师']);
+      assert.equal(server.requests.length, 3);
+      assert.deepEqual(entries.map(entry => [entry.source, entry.convId, entry.model]), [['quality_assessor', 'conv-1', 'agent-model']]);
+    });
+
+    it('请求已取消时不调用模型', async () => {
+      stubCheaperFallback();
+      const controller = new AbortController();
+      controller.abort();
+
+      await executor.execute(buildInput({ userMessage: '帮我想个创意', signal: controller.signal }));
+
+      assert.equal(server.requests.length, 0);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { resetPrisma, stubPrisma } from './helpers/fake-prisma';
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Message } from '@prisma/client';
+import conversationBranches from '../conversation-branches';
+
+const CONVERSATION_ID = 'conv-1';
+
+interface ConversationRow {
+  activeBranchId: string;
+  activeLeafId: string | null;
+  summary: string | null;
+  summarizedUntil: Date | null;
+}
+
+describe('ConversationBranches', () => {
+  let conversation: ConversationRow;
+  let messages: Message[];
+
+  /**
+   * 在当前分支追加一条消息，content 同时作为消息 id，方便断言时间线
+   */
+  const append = async (content: string) => {
+    await conversationBranches.append({ id: content, convId: CONVERSATION_ID, role: content.startsWith('u') ? 'user' : 'ai', content });
+  };
+
+  const timeline = async () => (await conversationBranches.getTimeline(CONVERSATION_ID)).map(message => message.content);
+
+  const variantsOf = async (messageId: string) => {
+    const rows = await conversationBranches.getTimelineWithVariants(CONVERSATION_ID);
+    return rows.find(message => message.id === messageId)?.variants;
+  };
+
+  const branchOf = (messageId: string) => messages.find(message => message.id === messageId)!.branchId;
+
+  before(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  beforeEach(async () => {
+    resetPrisma();
+    conversation = { activeBranchId: 'main', activeLeafId: null, summary: null, summarizedUntil: null };
+    messages = [];
+
+    // 对话和消息保存在内存里，消息按追加顺序依次晚1秒创建
+    stubPrisma('conversation.findUnique', () => ({ ...conversation }));
+    stubPrisma('conversation.update', args => Object.assign(conversation, args.data));
+    stubPrisma('message.findMany', () => [...messages]);
+    stubPrisma('message.create', args => {
+      const data = args.data as Message;
+      const message = {
+        ...data,
+        parentId: data.parentId ?? null,
+        createdAt: new Date(Date.UTC(2026, 0, 1) + messages.length * 1000)
+      };
+      messages.push(message);
+      return message;
+    });
+
+    for (const content of ['u1', 'a1', 'u2', 'a2']) {
+      await append(content);
+    }
+  });
+
+  describe('时间线', () => {
+    it('没有分叉时是主分支的全部消息', async () => {
+      assert.deepEqual(await timeline(), ['u1', 'a1', 'u2', 'a2']);
+      assert.equal(await variantsOf('a2'), undefined);
+    });
+
+    it('从分支中间分叉后，时间线是父分支截至分叉点的消息加上新分支的消息', async () => {
+      await conversationBranches.fork(CONVERSATION_ID, 'a1');
+      await append('u2-edited');
+      await append('a2-edited');
+
+      assert.deepEqual(await timeline(), ['u1', 'a1', 'u2-edited', 'a2-edited']);
+      assert.equal(messages.find(message => message.id === 'u2-edited')?.parentId, 'a1');
+    });
+
+    it('新分支还没有消息时，时间线截至分叉点', async () => {
+      await conversationBranches.fork(CONVERSATION_ID, 'u2');
+
+      assert.deepEqual(await timeline(), ['u1', 'a1', 'u2']);
+    });
+
+    it('从对话开头分叉时只有新分支的消息', async () => {
+      await conversationBranches.fork(CONVERSATION_ID, null);
+      await append('u1-edited');
+
+      assert.deepEqual(await timeline(), ['u1-edited']);
+    });
+
+    it('从子分支再分叉时，逐层拼上各个父分支截至分叉点的消息', async () => {
+      await conversationBranches.fork(CONVERSATION_ID, 'u2');
+      await append('a2-regenerated');
+      await append('u3');
+      await append('a3');
+
+      await conversationBranches.fork(CONVERSATION_ID, 'u3');
+      await append('a3-regenerated');
+
+      assert.deepEqual(await timeline(), ['u1', 'a1', 'u2', 'a2-regenerated', 'u3', 'a3-regenerated']);
+    });
+
+    it('在子分支上从父分支的消息之后分叉时，不包含子分支的消息', async () => {
+      await conversationBranches.fork(CONVERSATION_ID, 'u2');
+      await append('a2-regenerated');
+
+      await conversationBranches.fork(CONVERSATION_ID, 'a1');
+      await append('u2-edited');
+
+      assert.deepEqual(await timeline(), ['u1', 'a1', 'u2-edited']);
+    });
+  });
+
+  describe('可切换的分支', () => {
+    it('重新生成的位置列出原回复和新回复所在的分支，按创建顺序排列', async () => {
+      await conversationBranches.fork(CONVERSATION_ID, 'u2');
+      await append('a2-regenerated');
+
+      assert.deepEqual(await variantsOf('a2-regenerated'), { branchIds: ['main', branchOf('a2-regenerated')], current: 1 });
+      assert.equal(await variantsOf('u2'), undefined);
+    });
+
+    it('同一位置分叉多次时列出全部分支', async () => {
+      const branchIds = ['main'];
+      for (const content of ['a2-second', 'a2-third']) {
+        await conversationBranches.fork(CONVERSATION_ID, 'u2');
+        await append(content);
+        branchIds.push(branchOf(content));
+      }
+
+      assert.deepEqual(await variantsOf('a2-third'), { branchIds, current: 2 });
+    });
+
+    it('编辑重发的位置列出原消息和新消息的分支，之前的位置不带 variants', async () => {
+      await conversationBranches.fork(CONVERSATION_ID, 'a1');
+      await append('u2-edited');
+
+      const variants = await variantsOf('u2-edited');
+      assert.deepEqual(variants?.branchIds, ['main', branchOf('u2-edited')]);
+      assert.equal(await variantsOf('a1'), undefined);
+    });
+  });
+
+  describe('switchTo', () => {
+    it('切换回原分支后时间线恢复为原来的消息，新消息接在原分支最后', async () => {
+      await conversationBranches.fork(CONVERSATION_ID, 'u2');
+      await append('a2-regenerated');
+
+      assert.equal(await conversationBranches.switchTo(CONVERSATION_ID, 'main'), true);
+
+      assert.deepEqual(await timeline(), ['u1', 'a1', 'u2', 'a2']);
+      assert.deepEqual(await variantsOf('a2'), { branchIds: ['main', branchOf('a2-regenerated')], current: 0 });
+      assert.equal(conversation.activeLeafId, 'a2');
+    });
+
+    it('切换到子分支时包含父分支截至分叉点的消息', async () => {
+      await conversationBranches.fork(CONVERSATION_ID, 'u2');
+      await append('a2-regenerated');
+      const regenerated = branchOf('a2-regenerated');
+      await conversationBranches.switchTo(CONVERSATION_ID, 'main');
+
+      await conversationBranches.switchTo(CONVERSATION_ID, regenerated);
+
+      assert.deepEqual(await timeline(), ['u1', 'a1', 'u2', 'a2-regenerated']);
+    });
+
+    it('分支不存在时不切换', async () => {
+      assert.equal(await conversationBranches.switchTo(CONVERSATION_ID, 'branch-missing'), false);
+      assert.equal(conversation.activeBranchId, 'main');
+    });
+
+    it('摘要覆盖了目标时间线上没有的消息时清空摘要', async () => {
+      await conversationBranches.fork(CONVERSATION_ID, 'a1');
+      await append('u2-edited');
+      await conversationBranches.switchTo(CONVERSATION_ID, 'main');
+      conversation.summary = '之前的摘要';
+      conversation.summarizedUntil = messages.find(message => message.id === 'u2')!.createdAt;
+
+      await conversationBranches.switchTo(CONVERSATION_ID, branchOf('u2-edited'));
+
+      assert.equal(conversation.summary, null);
+      assert.equal(conversation.summarizedUntil, null);
+    });
+
+    it('摘要只覆盖到两条时间线共同的消息时保留摘要', async () => {
+      await conversationBranches.fork(CONVERSATION_ID, 'a1');
+      await append('u2-edited');
+      await conversationBranches.switchTo(CONVERSATION_ID, 'main');
+      conversation.summary = '之前的摘要';
+      conversation.summarizedUntil = messages.find(message => message.id === 'a1')!.createdAt;
+
+      await conversationBranches.switchTo(CONVERSATION_ID, branchOf('u2-edited'));
+
+      assert.equal(conversation.summary, '之前的摘要');
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { resetPrisma, stubPrisma } from './helpers/fake-prisma';
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import conversationBudget from '../conversation-budget';
+import { MICRO_CENTS_PER_CENT } from '../cost-ledger';
+
+/**
+ * 会话预算 budgetCents 美分，账本合计已花费 spentCents 美分（Prisma 按 BigInt 返回合计）
+ */
+function stubConversation(budgetCents: number, spentCents: number) {
+  stubPrisma('conversation.findUnique', () => ({ budgetCents }));
+  stubPrisma('costLedgerEntry.aggregate', () => ({
+    _sum: { costMicroCents: BigInt(spentCents) * BigInt(MICRO_CENTS_PER_CENT) }
+  }));
+}
+
+describe('ConversationBudget', () => {
+  afterEach(() => {
+    resetPrisma();
+  });
+
+  describe('getStatus', () => {
+    it('已花费超过 int4 能表示的金额时照常计算剩余预算', async () => {
+      stubConversation(100000, 5000);
+
+      const status = await conversationBudget.getStatus('conv-1');
+
+      assert.equal(status.spentMicroCents, 5000 * MICRO_CENTS_PER_CENT);
+      assert.equal(status.remainingMicroCents, 95000 * MICRO_CENTS_PER_CENT);
+      assert.equal(status.level, 'normal');
+    });
+
+    for (const [spentCents, level] of [
+      [0, 'normal'],
+      [75000, 'low'],
+      [95000, 'critical'],
+      [100000, 'exceeded']
+    ] as const) {
+      it(`$1000 的预算花费 $${spentCents / 100} 时为 ${level}`, async () => {
+        stubConversation(100000, spentCents);
+
+        const status = await conversationBudget.getStatus('conv-1');
+
+        assert.equal(status.level, level);
+      });
+    }
+
+    it('账本没有记录时已花费为0', async () => {
+      stubPrisma('conversation.findUnique', () => ({ budgetCents: 1000 }));
+
+      const status = await conversationBudget.getStatus('conv-1');
+
+      assert.equal(status.spentMicroCents, 0);
+      assert.equal(status.level, 'normal');
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import './helpers/fake-prisma';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import llmService from '../llm-service';
+import { FakeLLMServer, startFakeLLMServer } from './helpers/fake-llm-server';
+
+describe('CustomOpenAIAdapter', () => {
+  let server: FakeLLMServer;
+
+  before(async () => {
+    server = await startFakeLLMServer(() => ({
+      json: { data: [{ id: 'qwen-test' }, { id: 'llama-test' }] }
+    }));
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+
+  describe('getAvailableModels', () => {
+    it('获取模型列表时带上提供商配置的额外请求头', async () => {
+      const models = await llmService.getAvailableModels('custom', 'test-key', `${server.baseUrl}/`, { 'X-Gateway-Token': 'gateway-secret' });
+
+      assert.deepEqual(models, ['qwen-test', 'llama-test']);
+      const [request] = server.requests;
+      assert.equal(request.path, '/models');
+      assert.equal(request.headers['authorization'], 'Bearer test-key');
+      assert.equal(request.headers['x-gateway-token'], 'gateway-secret');
+    });
+
+    it('没有配置 API 密钥时不发送 Authorization', async () => {
+      await llmService.getAvailableModels('custom', '', server.baseUrl);
+
+      assert.equal(server.requests[0].headers['authorization'], undefined);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import GoogleAdapter from '../adapters/google-adapter';
+import { LLMConfig, LLMMessage, LLMStreamChunk } from '@/types/llm';
+import { FakeLLMServer, FakeResponse, startFakeLLMServer } from './helpers/fake-llm-server';
+
+const MESSAGES: LLMMessage[] = [
+  { role: 'system', content: '你是小暖' },
+  { role: 'user', content: '你好' },
+  { role: 'assistant', content: '你好呀' },
+  { role: 'user', content: '今天天气怎么样' },
+  { role: 'user', content: [{ type: 'text', text: '看看这张图' }, { type: 'image', mimeType: 'image/png', data: 'aGVsbG8=' }] }
+];
+
+const USAGE = { promptTokenCount: 12, candidatesTokenCount: 5, totalTokenCount: 17 };
+
+describe('GoogleAdapter', () => {
+  const adapter = new GoogleAdapter();
+  let server: FakeLLMServer;
+  let respond: () => FakeResponse;
+
+  const config = (): LLMConfig => ({
+    provider: 'google',
+    apiKey: 'test-key',
+    baseUrl: server.baseUrl,
+    model: 'gemini-test',
+    temperature: 0.5,
+    maxTokens: 300,
+    retryAttempts: 1
+  });
+
+  // 只有一个候选回复的 generateContent 响应
+  const candidate = (text: string, finishReason?: string) => ({
+    candidates: [{ content: { parts: [{ text }] }, ...(finishReason ? { finishReason } : {}) }],
+    usageMetadata: USAGE
+  });
+
+  before(async () => {
+    mock.method(console, 'warn', () => {});
+    server = await startFakeLLMServer(() => respond());
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+
+  describe('chat', () => {
+    it('system 消息转为 systemInstruction，assistant 转为 model，连续的同角色消息合并', async () => {
+      respond = () => ({ json: candidate('晴天', 'STOP') });
+
+      await adapter.chat(config(), MESSAGES);
+
+      const [request] = server.requests;
+      assert.equal(request.path, '/models/gemini-test:generateContent');
+      assert.equal(request.headers['x-goog-api-key'], 'test-key');
+      assert.deepEqual(request.body, {
+        contents: [
+          { role: 'user', parts: [{ text: '你好' }] },
+          { role: 'model', parts: [{ text: '你好呀' }] },
+          {
+            role: 'user',
+            parts: [
+              { text: '今天天气怎么样' },
+              { text: '看看这张图' },
+              { inlineData: { mimeType: 'image/png', data: 'aGVsbG8=' } }
+            ]
+          }
+        ],
+        systemInstruction: { parts: [{ text: '你是小暖' }] },
+        generationConfig: { temperature: 0.5, maxOutputTokens: 300 }
+      });
+    });
+
+    it('返回文本、用量和完成原因', async () => {
+      respond = () => ({ json: { ...candidate('晴天', 'MAX_TOKENS'), modelVersion: 'gemini-test-001' } });
+
+      const response = await adapter.chat(config(), MESSAGES);
+
+      assert.deepEqual(response, {
+        content: '晴天',
+        usage: { promptTokens: 12, completionTokens: 5, totalTokens: 17 },
+        model: 'gemini-test-001',
+        finishReason: 'length'
+      });
+    });
+
+    for (const finishReason of ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY']) {
+      it(`候选回复因 ${finishReason} 结束时完成原因为 safety`, async () => {
+        respond = () => ({ json: candidate('', finishReason) });
+
+        const response = await adapter.chat(config(), MESSAGES);
+
+        assert.equal(response.finishReason, 'safety');
+      });
+    }
+
+    it('提示词被拦截、没有候选回复时完成原因为 safety', async () => {
+      respond = () => ({ json: { promptFeedback: { blockReason: 'SAFETY' }, usageMetadata: USAGE } });
+
+      const response = await adapter.chat(config(), MESSAGES);
+
+      assert.equal(response.content, '');
+      assert.equal(response.finishReason, 'safety');
+    });
+
+    it('未知的完成原因为 error', async () => {
+      respond = () => ({ json: candidate('晴', 'MALFORMED_FUNCTION_CALL') });
+
+      const response = await adapter.chat(config(), MESSAGES);
+
+      assert.equal(response.finishReason, 'error');
+    });
+  });
+
+  describe('streamChat', () => {
+    it('逐段输出文本，安全拦截的完成原因保留到最后', async () => {
+      respond = () => ({
+        sse: [
+          { data: candidate('今天') },
+          { data: candidate('天气') },
+          { data: { ...candidate('', 'SAFETY'), modelVersion: 'gemini-test-001' } }
+        ]
+      });
+      const chunks: LLMStreamChunk[] = [];
+
+      const response = await adapter.streamChat(config(), MESSAGES, chunk => chunks.push(chunk));
+
+      assert.equal(server.requests[0].path, '/models/gemini-test:streamGenerateContent?alt=sse');
+      assert.deepEqual(chunks.filter(chunk => !chunk.isComplete).map(chunk => chunk.content), ['今天', '天气']);
+      assert.equal(response.content, '今天天气');
+      assert.equal(response.model, 'gemini-test-001');
+      assert.equal(response.finishReason, 'safety');
+    });
+  });
+
+  describe('getAvailableModels', () => {
+    it('从配置的 baseUrl 分页获取，只保留支持内容生成的模型', async () => {
+      respond = () => server.requests.length === 1
+        ? {
+          json: {
+            models: [
+              { name: 'models/gemini-test', supportedGenerationMethods: ['generateContent', 'countTokens'] },
+              { name: 'models/embedding-test', supportedGenerationMethods: ['embedContent'] }
+            ],
+            nextPageToken: 'page-2'
+          }
+        }
+        : { json: { models: [{ name: 'models/gemini-test-pro', supportedGenerationMethods: ['generateContent'] }] } };
+
+      const models = await adapter.getAvailableModels('test-key', server.baseUrl);
+
+      assert.deepEqual(models, ['gemini-test', 'gemini-test-pro']);
+      assert.deepEqual(server.requests.map(request => request.path), ['/models?pageSize=100', '/models?pageSize=100&pageToken=page-2']);
+      assert.equal(server.requests[0].headers['x-goog-api-key'], 'test-key');
+    });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * 测试用的时钟 - 时间只在调用 advance 时前进，到期的定时器按时间顺序执行
+ */
+
+import { RateLimiterClock } from '../../provider-rate-limiter';
+
+interface FakeTimer {
+  id: number;
+  at: number;
+  callback: () => void;
+}
+
+export class FakeClock implements RateLimiterClock {
+  private time = 0;
+  private nextId = 1;
+  private timers: FakeTimer[] = [];
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    const timer = { id: this.nextId++, at: this.time + ms, callback };
+    this.timers.push(timer);
+    return timer.id;
+  }
+
+  clearTimeout(id: unknown): void {
+    this.timers = this.timers.filter(timer => timer.id !== id);
+  }
+
+  /**
+   * 时间前进 ms 毫秒，执行期间到期的定时器
+   */
+  advance(ms: number): void {
+    const target = this.time + ms;
+
+    for (;;) {
+      const due = this.timers
+        .filter(timer => timer.at <= target)
+        .sort((a, b) => a.at - b.at || a.id - b.id)[0];
+      if (!due) break;
+
+      this.timers = this.timers.filter(timer => timer !== due);
+      this.time = due.at;
+      due.callback();
+    }
+
+    this.time = target;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * 测试用的模型接口 - 本地 HTTP 服务，记录收到的请求，按测试给出的处理函数返回 JSON 或 SSE
+ */
+
+import { createServer, IncomingHttpHeaders } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+export interface FakeRequest {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: Record<string, unknown> | null;
+}
+
+// sse 的每一项是一个事件，data 不是字符串时按 JSON 发送
+export type FakeResponse =
+  | { status?: number; json: unknown }
+  | { status?: number; sse: Array<{ event?: string; data: unknown }> };
+
+export interface FakeLLMServer {
+  baseUrl: string;
+  requests: FakeRequest[];
+  close(): Promise<void>;
+}
+
+export async function startFakeLLMServer(handler: (request: FakeRequest) => FakeResponse): Promise<FakeLLMServer> {
+  const requests: FakeRequest[] = [];
+
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const request: FakeRequest = {
+        method: req.method || 'GET',
+        path: req.url || '/',
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : null
+      };
+      requests.push(request);
+
+      const response = handler(request);
+      if ('json' in response) {
+        res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response.json));
+        return;
+      }
+
+      res.writeHead(response.status ?? 200, { 'Content-Type': 'text/event-stream' });
+      for (const { event, data } of response.sse) {
+        res.write(`${event ? `event: ${event}\n` : ''}data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+      }
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => error ? reject(error) : resolve());
+      // fetch 会保持连接，不主动断开时 close 要等到连接超时
+      server.closeAllConnections();
+    })
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * 测试用的 Prisma 替身 - 导入时放到 globalThis.prisma，db.ts 直接使用它，测试不需要数据库。
+ * 必须在被测模块之前导入；用 stubPrisma('agent.findFirst', ...) 指定查询结果，没有指定的查询返回空结果
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+export type QueryHandler = (args: Record<string, unknown>) => unknown;
+
+const handlers = new Map<string, QueryHandler>();
+
+// 没有指定结果时各类查询的返回值，其余查询返回 null
+const EMPTY_RESULTS: Record<string, () => unknown> = {
+  findMany: () => [],
+  groupBy: () => [],
+  count: () => 0,
+  aggregate: () => ({ _sum: {}, _max: {}, _min: {}, _avg: {}, _count: {} }),
+  createMany: () => ({ count: 0 }),
+  updateMany: () => ({ count: 0 }),
+  deleteMany: () => ({ count: 0 })
+};
+
+function createDelegate(model: string) {
+  return new Proxy({}, {
+    get: (_, method) => {
+      if (typeof method !== 'string' || method === 'then') return undefined;
+
+      return async (args: Record<string, unknown> = {}) => {
+        const handler = handlers.get(`${model}.${method}`);
+        return handler ? handler(args) : EMPTY_RESULTS[method]?.() ?? null;
+      };
+    }
+  });
+}
+
+const fakePrisma = new Proxy({}, {
+  get: (_, property) => {
+    if (typeof property !== 'string' || property === 'then') return undefined;
+
+    if (property === '$transaction') {
+      return async (operations: unknown) => typeof operations === 'function'
+        ? operations(fakePrisma)
+        : Promise.all(operations as Promise<unknown>[]);
+    }
+
+    return createDelegate(property);
+  }
+}) as PrismaClient;
+
+globalThis.prisma = fakePrisma;
+
+/**
+ * 指定查询的结果，query 为 "模型.方法"，如 knowledgeChunk.findMany
+ */
+export function stubPrisma(query: string, handler: QueryHandler): void {
+  handlers.set(query, handler);
+}
+
+/**
+ * 清除所有指定的结果
+ */
+export function resetPrisma(): void {
+  handlers.clear();
+}
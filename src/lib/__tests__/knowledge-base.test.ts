@@ -0,0 +1,204 @@
+import { resetPrisma, stubPrisma } from './helpers/fake-prisma';
+import { afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import knowledgeBase, { KnowledgeCitation } from '../knowledge-base';
+import { LocalEmbeddingProvider } from '../embeddings';
+
+const DOCUMENTS = [
+  { documentId: 'doc-return', title: '退货政策', content: '购买后七天内可以无理由退货，退货运费由买家承担。' },
+  { documentId: 'doc-exchange', title: '换货说明', content: '换货时寄回商品的运费由买家承担，寄出的运费由商家承担。' },
+  { documentId: 'doc-points', title: '会员积分', content: '会员每消费一元积一分，积分可以在下次购物时抵扣现金。' },
+  { documentId: 'doc-hours', title: '营业时间', content: '门店营业时间为每天上午九点到晚上十点，节假日照常营业。' },
+  { documentId: 'doc-english', title: 'Changelog', content: 'zzz qqq xxv version bump' }
+];
+
+const QUERY = '七天无理由退货的运费谁承担？';
+
+/**
+ * 用本地向量生成知识库切片，检索时由 knowledgeChunk.findMany 返回
+ */
+async function stubChunks(): Promise<Array<Record<string, unknown>>> {
+  const embeddings = await new LocalEmbeddingProvider().embed(DOCUMENTS.map(document => document.content));
+  const queries: Array<Record<string, unknown>> = [];
+
+  stubPrisma('knowledgeChunk.findMany', args => {
+    queries.push(args);
+    return DOCUMENTS.map((document, i) => ({
+      documentId: document.documentId,
+      content: document.content,
+      embedding: embeddings[i],
+      document: { title: document.title }
+    }));
+  });
+
+  return queries;
+}
+
+describe('KnowledgeBase', () => {
+  before(() => {
+    process.env.EMBEDDING_PROVIDER = 'local';
+  });
+
+  afterEach(() => {
+    resetPrisma();
+  });
+
+  describe('chunk', () => {
+    it('短段落合并为一个切片', () => {
+      assert.deepEqual(knowledgeBase.chunk('第一段\n\n第二段\r\n\r\n第三段', 'text'), ['第一段\n\n第二段\n\n第三段']);
+    });
+
+    it('合并后超过切片长度时另起一个切片', () => {
+      const chunks = knowledgeBase.chunk(`${'甲'.repeat(300)}\n\n${'乙'.repeat(300)}`, 'text');
+
+      assert.deepEqual(chunks, ['甲'.repeat(300), '乙'.repeat(300)]);
+    });
+
+    it('超长段落按固定长度切分，相邻切片重叠50个字符', () => {
+      const paragraph = Array.from({ length: 1200 }, (_, i) => String(i % 10)).join('');
+
+      const chunks = knowledgeBase.chunk(paragraph, 'text');
+
+      assert.deepEqual(chunks.map(chunk => chunk.length), [500, 500, 300]);
+      assert.equal(chunks[0].slice(-50), chunks[1].slice(0, 50));
+      assert.equal(chunks[1].slice(-50), chunks[2].slice(0, 50));
+      assert.equal(chunks[2], paragraph.slice(900));
+    });
+
+    it('Markdown 切片带上所在章节的标题', () => {
+      const content = `# 退货政策\n\n${'甲'.repeat(300)}\n\n${'乙'.repeat(300)}\n\n## 运费\n\n运费由买家承担。`;
+
+      const chunks = knowledgeBase.chunk(content, 'markdown');
+
+      assert.deepEqual(chunks, [
+        `# 退货政策\n\n${'甲'.repeat(300)}`,
+        `# 退货政策\n${'乙'.repeat(300)}`,
+        '## 运费\n\n运费由买家承担。'
+      ]);
+    });
+
+    it('PDF 文本合并段落内的硬换行和断词连字符，换页符作为段落分隔', () => {
+      const chunks = knowledgeBase.chunk('Knowledge is power-\nful.\nSecond line\f第一页\n的内容', 'pdf');
+
+      assert.deepEqual(chunks, ['Knowledge is powerful. Second line\n\n第一页的内容']);
+    });
+
+    it('没有内容时没有切片', () => {
+      assert.deepEqual(knowledgeBase.chunk(' \n\n \n', 'markdown'), []);
+    });
+  });
+
+  describe('addDocument', () => {
+    it('切片用本地向量化后随文档一起保存', async () => {
+      let data: Record<string, unknown> | undefined;
+      stubPrisma('knowledgeDocument.create', args => {
+        data = args.data as Record<string, unknown>;
+        return { id: 'doc-1', ...data };
+      });
+
+      const document = await knowledgeBase.addDocument('agent-1', {
+        title: '退货政策',
+        format: 'text',
+        content: `${'甲'.repeat(300)}\n\n${'乙'.repeat(300)}`
+      });
+
+      const chunks = (data?.chunks as { create: Array<Record<string, unknown>> }).create;
+      const [expected] = await new LocalEmbeddingProvider().embed(['甲'.repeat(300)]);
+      assert.equal(document.chunkCount, 2);
+      assert.deepEqual(chunks.map(chunk => chunk.index), [0, 1]);
+      assert.ok(chunks.every(chunk => chunk.agentId === 'agent-1' && chunk.embeddingModel === 'local-hash-256'));
+      assert.deepEqual(chunks[0].embedding, expected);
+    });
+
+    it('没有可以索引的内容时报错', async () => {
+      await assert.rejects(knowledgeBase.addDocument('agent-1', { title: '空', format: 'text', content: '\n\n' }), /没有可以索引的内容/);
+    });
+  });
+
+  describe('search', () => {
+    it('只检索该智能体当前向量实现的切片', async () => {
+      const queries = await stubChunks();
+
+      await knowledgeBase.search('agent-1', QUERY);
+
+      assert.deepEqual(queries[0].where, { agentId: 'agent-1', embeddingModel: 'local-hash-256' });
+    });
+
+    it('按相似度从高到低返回片段并编号，相似度过低的片段不返回', async () => {
+      await stubChunks();
+
+      const results = await knowledgeBase.search('agent-1', QUERY, 10);
+
+      assert.deepEqual(results.map(result => [result.index, result.documentId, result.title]), [
+        [1, 'doc-return', '退货政策'],
+        [2, 'doc-exchange', '换货说明']
+      ]);
+      assert.ok(results[0].score > results[1].score);
+      assert.ok(results[1].score >= 0.2);
+    });
+
+    it('最多返回 top-k 个片段', async () => {
+      await stubChunks();
+
+      const results = await knowledgeBase.search('agent-1', QUERY, 1);
+
+      assert.deepEqual(results.map(result => result.documentId), ['doc-return']);
+    });
+
+    it('相同的查询得到相同的结果', async () => {
+      await stubChunks();
+
+      const first = await knowledgeBase.search('agent-1', QUERY);
+      const second = await knowledgeBase.search('agent-1', QUERY);
+
+      assert.deepEqual(first, second);
+    });
+  });
+
+  describe('buildPromptContext', () => {
+    it('检索到的片段按编号放进参考资料', async () => {
+      await stubChunks();
+
+      const context = await knowledgeBase.buildPromptContext('agent-1', QUERY);
+
+      assert.ok(context);
+      assert.deepEqual(context.citations.map(citation => citation.documentId), ['doc-return', 'doc-exchange']);
+      assert.ok(context.prompt.startsWith(
+        '【参考资料】\n[1]《退货政策》\n购买后七天内可以无理由退货，退货运费由买家承担。\n\n'
+        + '[2]《换货说明》\n换货时寄回商品的运费由买家承担，寄出的运费由商家承担。\n\n'
+      ));
+      assert.match(context.prompt, /用 \[1\]、\[2\] 这样的编号标注出处/);
+    });
+
+    it('没有知识库、没有智能体或消息为空时不加参考资料', async () => {
+      assert.equal(await knowledgeBase.buildPromptContext('agent-1', QUERY), null);
+
+      await stubChunks();
+      assert.equal(await knowledgeBase.buildPromptContext(undefined, QUERY), null);
+      assert.equal(await knowledgeBase.buildPromptContext('agent-1', '   '), null);
+    });
+
+    it('检索失败时不影响回复', async () => {
+      stubPrisma('knowledgeChunk.findMany', () => {
+        throw new Error('connection refused');
+      });
+
+      assert.equal(await knowledgeBase.buildPromptContext('agent-1', QUERY), null);
+    });
+  });
+
+  describe('getCitedPassages', () => {
+    const citations: KnowledgeCitation[] = [
+      { index: 1, documentId: 'doc-return', title: '退货政策', content: '...', score: 0.8 },
+      { index: 2, documentId: 'doc-points', title: '会员积分', content: '...', score: 0.5 }
+    ];
+
+    it('只保留回复中标注了编号的片段', () => {
+      assert.deepEqual(knowledgeBase.getCitedPassages('运费由买家承担 [2]。', citations), [citations[1]]);
+    });
+
+    it('回复没有标注编号时返回全部片段', () => {
+      assert.deepEqual(knowledgeBase.getCitedPassages('运费由买家承担。', citations), citations);
+    });
+  });
+});
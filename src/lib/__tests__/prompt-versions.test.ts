@@ -0,0 +1,148 @@
+import { resetPrisma, stubPrisma } from './helpers/fake-prisma';
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import promptVersions, { PromptVersionError } from '../prompt-versions';
+
+const TARGET = { type: 'agent', id: 'agent-1' } as const;
+
+// Prisma 的唯一约束冲突
+const uniqueViolation = () => Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+
+describe('PromptVersions', () => {
+  before(() => {
+    for (const method of ['log', 'warn'] as const) {
+      mock.method(console, method, () => {});
+    }
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  afterEach(() => {
+    resetPrisma();
+  });
+
+  describe('diffLines', () => {
+    // 每行简写为 类型:旧行号:新行号
+    const summarize = (before: string, after: string) =>
+      promptVersions.diffLines(before, after).map(row => `${row.type}:${row.leftLine ?? '-'}:${row.rightLine ?? '-'}`);
+
+    it('相同的开头和结尾按行号对齐为相同行', () => {
+      assert.deepEqual(summarize('a\nb\nc\nd', 'a\nb\nx\nc\nd'), ['same:1:1', 'same:2:2', 'added:-:3', 'same:3:4', 'same:4:5']);
+    });
+
+    it('内容完全相同时全部为相同行', () => {
+      assert.deepEqual(summarize('a\nb', 'a\nb'), ['same:1:1', 'same:2:2']);
+    });
+
+    it('相邻的删除和新增配成修改行，多出的部分为删除或新增', () => {
+      const rows = promptVersions.diffLines('开头\n旧1\n旧2\n旧3\n结尾', '开头\n新1\n新2\n结尾');
+
+      assert.deepEqual(rows.slice(1, 4), [
+        { type: 'changed', left: '旧1', leftLine: 2, right: '新1', rightLine: 2 },
+        { type: 'changed', left: '旧2', leftLine: 3, right: '新2', rightLine: 3 },
+        { type: 'removed', left: '旧3', leftLine: 4, right: null, rightLine: null }
+      ]);
+    });
+
+    it('中间相同的行把前后的修改分开', () => {
+      assert.deepEqual(
+        summarize('a\nb\nsame\nc\nd', 'a\nB\nsame\nC\nd'),
+        ['same:1:1', 'changed:2:2', 'same:3:3', 'changed:4:4', 'same:5:5']
+      );
+    });
+
+    it('规模超过上限时中间部分整体显示为删除和新增', () => {
+      const before = Array.from({ length: 1001 }, (_, i) => `old ${i}`);
+      const after = Array.from({ length: 1001 }, (_, i) => (i % 2 === 0 ? `new ${i}` : `old ${i}`));
+
+      const rows = promptVersions.diffLines(['头', ...before, '尾'].join('\n'), ['头', ...after, '尾'].join('\n'));
+
+      // 逐行对比时奇数行会被识别为相同行；超过上限后中间的 1001 行全部配成修改行
+      assert.equal(rows.length, 1003);
+      assert.deepEqual(rows[0], { type: 'same', left: '头', leftLine: 1, right: '头', rightLine: 1 });
+      assert.ok(rows.slice(1, 1002).every(row => row.type === 'changed' && row.leftLine === row.rightLine));
+      assert.equal(rows[1002].type, 'same');
+    });
+  });
+
+  describe('rollback', () => {
+    // 当前内容为 current，已有版本1（v1）和版本2（current）
+    const stubHistory = (current: string) => {
+      const versions = [
+        { version: 1, content: 'v1' },
+        { version: 2, content: current }
+      ];
+      stubPrisma('agent.findUnique', () => ({ prompt: current }));
+      stubPrisma('promptVersion.findFirst', args => {
+        const where = args.where as { version?: number };
+        return where.version !== undefined
+          ? versions.find(item => item.version === where.version) ?? null
+          : versions[versions.length - 1];
+      });
+      return versions;
+    };
+
+    it('版本号冲突时整个事务重试，内容和版本一起保存', async () => {
+      const versions = stubHistory('v2');
+      const writes: string[] = [];
+      stubPrisma('agent.update', args => {
+        writes.push((args.data as { prompt: string }).prompt);
+        return {};
+      });
+      let conflicts = 1;
+      stubPrisma('promptVersion.create', args => {
+        if (conflicts-- > 0) throw uniqueViolation();
+        const created = args.data as { version: number; content: string };
+        versions.push(created);
+        return created;
+      });
+
+      const latest = await promptVersions.rollback(TARGET, 1, 'user-1');
+
+      assert.deepEqual(writes, ['v1', 'v1']);
+      assert.equal(latest.version, 3);
+      assert.equal(latest.content, 'v1');
+    });
+
+    it('多次冲突后返回 409', async () => {
+      stubHistory('v2');
+      let attempts = 0;
+      stubPrisma('promptVersion.create', () => {
+        attempts++;
+        throw uniqueViolation();
+      });
+
+      await assert.rejects(
+        promptVersions.rollback(TARGET, 1, 'user-1'),
+        (error: unknown) => error instanceof PromptVersionError && error.status === 409
+      );
+      assert.equal(attempts, 3);
+    });
+
+    it('其他错误不重试', async () => {
+      stubHistory('v2');
+      let attempts = 0;
+      stubPrisma('promptVersion.create', () => {
+        attempts++;
+        throw new Error('connection lost');
+      });
+
+      await assert.rejects(promptVersions.rollback(TARGET, 1, 'user-1'), /connection lost/);
+      assert.equal(attempts, 1);
+    });
+
+    it('当前内容已经与目标版本相同时不修改', async () => {
+      stubHistory('v1');
+      let updated = false;
+      stubPrisma('agent.update', () => {
+        updated = true;
+        return {};
+      });
+
+      await assert.rejects(promptVersions.rollback(TARGET, 1, 'user-1'), { message: '当前内容已经与这个版本相同' });
+      assert.equal(updated, false);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircuitOpenError, ProviderCircuitBreaker } from '../provider-circuit-breaker';
+import { FakeClock } from './helpers/fake-clock';
+
+// 默认连续失败5次熔断，冷却60秒
+const THRESHOLD = 5;
+const COOLDOWN_MS = 60000;
+
+describe('ProviderCircuitBreaker', () => {
+  let clock: FakeClock;
+  let breaker: ProviderCircuitBreaker;
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) {
+      breaker.recordFailure('openai', 'OpenAI API Error: 503 - Service Unavailable');
+    }
+  };
+
+  const isOpen = (error: unknown) => error instanceof CircuitOpenError && error.key === 'openai';
+
+  before(() => {
+    for (const method of ['log', 'warn'] as const) {
+      mock.method(console, method, () => {});
+    }
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    clock.advance(1000);
+    breaker = new ProviderCircuitBreaker(() => clock.now());
+  });
+
+  it('连续失败未达到阈值时保持关闭，成功后清零失败计数', () => {
+    fail(THRESHOLD - 1);
+    breaker.assertAvailable('openai');
+
+    breaker.recordSuccess('openai');
+    fail(THRESHOLD - 1);
+
+    breaker.assertAvailable('openai');
+    assert.equal(breaker.getSnapshot('openai').consecutiveFailures, THRESHOLD - 1);
+  });
+
+  it('连续失败达到阈值时熔断，冷却期内拒绝调用', () => {
+    fail(THRESHOLD);
+
+    const snapshot = breaker.getSnapshot('openai');
+    assert.equal(snapshot.state, 'open');
+    assert.equal(snapshot.totalTrips, 1);
+    assert.equal(snapshot.retryAt?.getTime(), 1000 + COOLDOWN_MS);
+    assert.equal(snapshot.lastError, 'OpenAI API Error: 503 - Service Unavailable');
+
+    clock.advance(COOLDOWN_MS - 1);
+    assert.throws(() => breaker.assertAvailable('openai'), isOpen);
+  });
+
+  it('冷却结束后进入半开状态，只放行一个探测请求', () => {
+    fail(THRESHOLD);
+    clock.advance(COOLDOWN_MS);
+
+    breaker.assertAvailable('openai');
+    assert.equal(breaker.getSnapshot('openai').state, 'half_open');
+    assert.throws(() => breaker.assertAvailable('openai'), isOpen);
+  });
+
+  it('探测成功后恢复关闭', () => {
+    fail(THRESHOLD);
+    clock.advance(COOLDOWN_MS);
+    breaker.assertAvailable('openai');
+
+    breaker.recordSuccess('openai');
+
+    const snapshot = breaker.getSnapshot('openai');
+    assert.equal(snapshot.state, 'closed');
+    assert.equal(snapshot.consecutiveFailures, 0);
+    assert.equal(snapshot.retryAt, null);
+    breaker.assertAvailable('openai');
+  });
+
+  it('探测失败时重新熔断，冷却从失败时开始计算', () => {
+    fail(THRESHOLD);
+    clock.advance(COOLDOWN_MS);
+    breaker.assertAvailable('openai');
+
+    clock.advance(500);
+    fail(1);
+
+    const snapshot = breaker.getSnapshot('openai');
+    assert.equal(snapshot.state, 'open');
+    assert.equal(snapshot.totalTrips, 2);
+    assert.equal(snapshot.retryAt?.getTime(), clock.now() + COOLDOWN_MS);
+    assert.throws(() => breaker.assertAvailable('openai'), isOpen);
+  });
+
+  it('探测请求取消后释放名额，可以再放行一个探测请求', () => {
+    fail(THRESHOLD);
+    clock.advance(COOLDOWN_MS);
+    breaker.assertAvailable('openai');
+
+    breaker.releaseProbe('openai');
+
+    breaker.assertAvailable('openai');
+    assert.equal(breaker.getSnapshot('openai').state, 'half_open');
+  });
+
+  it('重置后恢复关闭', () => {
+    fail(THRESHOLD);
+
+    breaker.reset('openai');
+
+    breaker.assertAvailable('openai');
+    assert.equal(breaker.getSnapshot('openai').state, 'closed');
+  });
+});
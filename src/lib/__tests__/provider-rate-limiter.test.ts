@@ -0,0 +1,195 @@
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProviderRateLimiter, RateLimitLease } from '../provider-rate-limiter';
+import { LLMRateLimit } from '@/types/llm';
+import { FakeClock } from './helpers/fake-clock';
+
+// 等待已放行调用的 Promise 回调执行完
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ProviderRateLimiter', () => {
+  let clock: FakeClock;
+  let limiter: ProviderRateLimiter;
+
+  /**
+   * 发起一次调用，记录拿到许可的顺序
+   */
+  const track = (rateLimit: LLMRateLimit, tokens: number, order: string[], name: string, signal?: AbortSignal) => {
+    const call = { lease: null as RateLimitLease | null, error: null as unknown };
+    limiter.acquire(rateLimit, tokens, signal).then(
+      lease => {
+        call.lease = lease;
+        order.push(name);
+      },
+      error => {
+        call.error = error;
+      }
+    );
+    return call;
+  };
+
+  const stats = () => limiter.getQueueStats()[0];
+
+  before(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    limiter = new ProviderRateLimiter(clock);
+  });
+
+  it('没有配置限制时立即放行，不记录状态', async () => {
+    await limiter.acquire({ key: 'openai' }, 1000);
+
+    assert.deepEqual(limiter.getQueueStats(), []);
+  });
+
+  describe('令牌桶', () => {
+    it('每分钟请求数用完后，按补充速度等到攒够一个令牌再放行', async () => {
+      const rateLimit = { key: 'openai', requestsPerMinute: 2 };
+      const order: string[] = [];
+
+      track(rateLimit, 0, order, 'a');
+      track(rateLimit, 0, order, 'b');
+      track(rateLimit, 0, order, 'c');
+      await flush();
+      assert.deepEqual(order, ['a', 'b']);
+
+      // 每分钟补充2个，攒够1个需要30秒
+      clock.advance(29999);
+      await flush();
+      assert.deepEqual(order, ['a', 'b']);
+
+      clock.advance(1);
+      await flush();
+      assert.deepEqual(order, ['a', 'b', 'c']);
+    });
+
+    it('令牌按经过的时间补充，不超过容量', async () => {
+      const rateLimit = { key: 'openai', tokensPerMinute: 1000 };
+
+      await limiter.acquire(rateLimit, 800);
+      assert.equal(stats().availableTokens, 200);
+
+      clock.advance(6000);
+      assert.equal(stats().availableTokens, 300);
+
+      clock.advance(10 * 60000);
+      assert.equal(stats().availableTokens, 1000);
+    });
+
+    it('预估值超过桶容量时按容量扣减，不会一直等待', async () => {
+      const rateLimit = { key: 'openai', tokensPerMinute: 1000 };
+
+      await limiter.acquire(rateLimit, 5000);
+
+      assert.equal(stats().availableTokens, 0);
+    });
+  });
+
+  describe('许可释放', () => {
+    it('达到并发上限时排队，释放后放行下一个', async () => {
+      const rateLimit = { key: 'openai', maxConcurrent: 1 };
+      const order: string[] = [];
+
+      const first = track(rateLimit, 0, order, 'a');
+      track(rateLimit, 0, order, 'b');
+      await flush();
+      assert.deepEqual(order, ['a']);
+      assert.equal(stats().queued, 1);
+
+      first.lease!.release();
+      await flush();
+      assert.deepEqual(order, ['a', 'b']);
+      assert.equal(stats().active, 1);
+    });
+
+    it('重复释放只归还一次并发槽位', async () => {
+      const rateLimit = { key: 'openai', maxConcurrent: 2 };
+
+      const lease = await limiter.acquire(rateLimit, 0);
+      await limiter.acquire(rateLimit, 0);
+      lease.release();
+      lease.release();
+
+      assert.equal(stats().active, 1);
+    });
+
+    it('释放时按实际用量校正预估的扣减', async () => {
+      const rateLimit = { key: 'openai', tokensPerMinute: 1000 };
+
+      const overestimated = await limiter.acquire(rateLimit, 500);
+      overestimated.release(100);
+      assert.equal(stats().availableTokens, 900);
+
+      const underestimated = await limiter.acquire(rateLimit, 100);
+      underestimated.release(600);
+      assert.equal(stats().availableTokens, 300);
+    });
+  });
+
+  describe('排队顺序', () => {
+    it('按先进先出的顺序放行', async () => {
+      const rateLimit = { key: 'openai', maxConcurrent: 1 };
+      const order: string[] = [];
+
+      const calls = ['a', 'b', 'c', 'd'].map(name => track(rateLimit, 0, order, name));
+      for (const call of calls) {
+        await flush();
+        call.lease!.release();
+      }
+      await flush();
+
+      assert.deepEqual(order, ['a', 'b', 'c', 'd']);
+    });
+
+    it('队首的令牌不够时，后面需要较少令牌的调用也继续等待', async () => {
+      const rateLimit = { key: 'openai', tokensPerMinute: 1000 };
+      const order: string[] = [];
+
+      track(rateLimit, 800, order, 'a');
+      track(rateLimit, 500, order, 'b');
+      track(rateLimit, 100, order, 'c');
+      await flush();
+      assert.deepEqual(order, ['a']);
+
+      // 攒够 b 需要的 500 个令牌要18秒
+      clock.advance(17999);
+      await flush();
+      assert.deepEqual(order, ['a']);
+
+      clock.advance(1);
+      await flush();
+      assert.deepEqual(order, ['a', 'b']);
+
+      clock.advance(6000);
+      await flush();
+      assert.deepEqual(order, ['a', 'b', 'c']);
+    });
+
+    it('排队中取消的调用移出队列，后面的调用照常放行', async () => {
+      const rateLimit = { key: 'openai', maxConcurrent: 1 };
+      const order: string[] = [];
+      const controller = new AbortController();
+
+      const first = track(rateLimit, 0, order, 'a');
+      const cancelled = track(rateLimit, 0, order, 'b', controller.signal);
+      track(rateLimit, 0, order, 'c');
+      await flush();
+
+      controller.abort(new Error('cancelled'));
+      await flush();
+      assert.equal((cancelled.error as Error).message, 'cancelled');
+      assert.equal(stats().queued, 1);
+
+      first.lease!.release();
+      await flush();
+      assert.deepEqual(order, ['a', 'c']);
+    });
+  });
+});
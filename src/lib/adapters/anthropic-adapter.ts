@@ -1,6 +1,40 @@
 import { LLMConfig, LLMMessage, LLMResponse, LLMStreamChunk, LLMProvider } from '@/types/llm';
-import { BaseLLMAdapter } from './base-adapter';
+import { BaseLLMAdapter, getMessageText, isAbortError, StreamInterruptedError } from './base-adapter';
 
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+}
+
+// 请求中的内容块：文本或 base64 图片
+type AnthropicInputBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicInputBlock[];
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { model?: string; usage?: AnthropicUsage };
+  delta?: { type?: string; text?: string; stop_reason?: string };
+  usage?: AnthropicUsage;
+  error?: { type?: string; message?: string };
+}
+
+/**
+ * Anthropic Messages API 适配器
+ * 文档: https://docs.anthropic.com/en/api/messages
+ */
 export default class AnthropicAdapter extends BaseLLMAdapter {
   provider: LLMProvider = 'anthropic';
 
@@ -17,21 +51,299 @@ export default class AnthropicAdapter extends BaseLLMAdapter {
     messages: LLMMessage[],
     onChunk: (chunk: LLMStreamChunk) => void
   ): Promise<LLMResponse> {
-    // TODO: 实现Anthropic流式API调用
-    throw new Error('Anthropic streaming not implemented yet');
+    const url = `${config.baseUrl || 'https://api.anthropic.com/v1'}/messages`;
+    const requestBody = this.buildRequestBody(config, messages, true);
+
+    return this.withRetry(async () => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: this.buildHeaders(config),
+        body: JSON.stringify(requestBody),
+        signal: config.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Anthropic API Error: ${response.status} - ${await response.text()}`);
+      }
+
+      let emitted = false;
+      try {
+        return await this.processStream(response, chunk => {
+          emitted = true;
+          onChunk(chunk);
+        });
+      } catch (error) {
+        // 已经输出了部分内容时重试会重复这部分内容
+        if (emitted && !isAbortError(error)) {
+          throw new StreamInterruptedError(error instanceof Error ? error.message : String(error));
+        }
+        throw error;
+      }
+    }, config.retryAttempts || 3);
   }
 
   async chat(config: LLMConfig, messages: LLMMessage[]): Promise<LLMResponse> {
-    // TODO: 实现Anthropic API调用
-    throw new Error('Anthropic chat not implemented yet');
+    const url = `${config.baseUrl || 'https://api.anthropic.com/v1'}/messages`;
+    const requestBody = this.buildRequestBody(config, messages, false);
+
+    return this.withRetry(async () => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: this.buildHeaders(config),
+        body: JSON.stringify(requestBody),
+        signal: config.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Anthropic API Error: ${response.status} - ${await response.text()}`);
+      }
+
+      const data = await response.json();
+
+      // content 是内容块数组，只拼接文本块
+      const content = ((data.content || []) as AnthropicContentBlock[])
+        .filter(block => block.type === 'text')
+        .map(block => block.text || '')
+        .join('');
+
+      return {
+        content,
+        usage: this.parseUsage(data.usage),
+        model: data.model,
+        finishReason: this.mapStopReason(data.stop_reason)
+      };
+    }, config.retryAttempts || 3);
+  }
+
+  /**
+   * 获取可用模型 - GET /models 返回该API密钥可以使用的模型
+   */
+  async getAvailableModels(apiKey: string, baseUrl?: string): Promise<string[]> {
+    const response = await fetch(`${baseUrl || 'https://api.anthropic.com/v1'}/models?limit=1000`, {
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API Error: ${response.status} - ${await response.text()}`);
+    }
+
+    const data: { data?: Array<{ id: string }> } = await response.json();
+    return (data.data || []).map(model => model.id);
+  }
+
+  /**
+   * 构建请求体 - system 消息需要提取到顶层 system 字段
+   */
+  private buildRequestBody(config: LLMConfig, messages: LLMMessage[], stream: boolean) {
+    const systemPrompt = messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => getMessageText(msg.content))
+      .join('\n\n');
+
+    return {
+      model: config.model,
+      messages: this.formatMessages(messages),
+      ...(systemPrompt ? { system: systemPrompt } : {}),
+      temperature: config.temperature ?? 0.7,
+      max_tokens: config.maxTokens || 2000,
+      stream,
+    };
+  }
+
+  /**
+   * 格式化消息 - Anthropic 要求 user/assistant 交替出现且以 user 开头
+   */
+  protected formatMessages(messages: LLMMessage[]): AnthropicMessage[] {
+    const formatted: AnthropicMessage[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') continue;
+
+      // 工具结果按用户消息传入（该适配器不发起工具调用）
+      const role = msg.role === 'assistant' ? 'assistant' : 'user';
+      const last = formatted[formatted.length - 1];
+      const content = this.formatContent(msg.content);
+      if (last && last.role === role) {
+        // 合并连续的同角色消息
+        last.content = typeof last.content === 'string' && typeof content === 'string'
+          ? `${last.content}\n\n${content}`
+          : [...this.toBlocks(last.content), ...this.toBlocks(content)];
+      } else {
+        formatted.push({ role, content });
+      }
+    }
+
+    if (formatted.length === 0 || formatted[0].role !== 'user') {
+      formatted.unshift({ role: 'user', content: '(对话开始)' });
+    }
+
+    return formatted;
   }
 
-  async getAvailableModels(apiKey: string): Promise<string[]> {
-    // Anthropic的模型是固定的，不需要API调用
-    return [
-      'claude-3-5-sonnet-20241022',
-      'claude-3-haiku-20240307',
-      'claude-3-opus-20240229'
-    ];
+  /**
+   * 格式化消息内容 - 图片转为 base64 image 内容块
+   */
+  protected formatContent(content: LLMMessage['content']): string | AnthropicInputBlock[] {
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    return content.map((part): AnthropicInputBlock => part.type === 'text'
+      ? { type: 'text', text: part.text }
+      : { type: 'image', source: { type: 'base64', media_type: part.mimeType, data: part.data } }
+    );
+  }
+
+  private toBlocks(content: string | AnthropicInputBlock[]): AnthropicInputBlock[] {
+    return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+  }
+
+  /**
+   * 解析使用量信息 - Anthropic 使用 input_tokens/output_tokens
+   */
+  protected parseUsage(usage: AnthropicUsage | undefined): LLMResponse['usage'] {
+    const promptTokens = (usage?.input_tokens || 0)
+      + (usage?.cache_creation_input_tokens || 0)
+      + (usage?.cache_read_input_tokens || 0);
+    const completionTokens = usage?.output_tokens || 0;
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      ...(usage?.cache_read_input_tokens ? { cachedTokens: usage.cache_read_input_tokens } : {})
+    };
+  }
+
+  /**
+   * stop_reason 映射到统一的 finishReason
+   */
+  private mapStopReason(stopReason: string | null | undefined): LLMResponse['finishReason'] {
+    switch (stopReason) {
+      case 'max_tokens':
+        return 'length';
+      case 'end_turn':
+      case 'stop_sequence':
+      case 'tool_use':
+      case 'pause_turn':
+        return 'stop';
+      case 'refusal':
+        return 'safety';
+      default:
+        return 'stop';
+    }
+  }
+
+  /**
+   * 处理 SSE 流
+   * 事件顺序: message_start → content_block_start → content_block_delta* → content_block_stop → message_delta → message_stop
+   */
+  private async processStream(
+    response: Response,
+    onChunk: (chunk: LLMStreamChunk) => void
+  ): Promise<LLMResponse> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('No response body');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let model = '';
+    let finishReason: LLMResponse['finishReason'] = 'stop';
+    let inputUsage: AnthropicUsage = {};
+    let outputTokens = 0;
+    let completed = false;
+
+    const handleEvent = (parsed: AnthropicStreamEvent) => {
+      switch (parsed.type) {
+        case 'message_start':
+          model = parsed.message?.model || model;
+          inputUsage = parsed.message?.usage || {};
+          outputTokens = parsed.message?.usage?.output_tokens || 0;
+          break;
+
+        case 'content_block_delta':
+          if (parsed.delta?.type === 'text_delta' && parsed.delta.text) {
+            content += parsed.delta.text;
+            onChunk({
+              content: parsed.delta.text,
+              isComplete: false
+            });
+          }
+          break;
+
+        case 'message_delta':
+          if (parsed.delta?.stop_reason) {
+            finishReason = this.mapStopReason(parsed.delta.stop_reason);
+          }
+          if (parsed.usage?.output_tokens !== undefined) {
+            outputTokens = parsed.usage.output_tokens;
+          }
+          break;
+
+        case 'message_stop':
+          completed = true;
+          onChunk({
+            content: '',
+            isComplete: true,
+            usage: this.parseUsage({ ...inputUsage, output_tokens: outputTokens })
+          });
+          break;
+
+        case 'error':
+          throw new Error(`Anthropic Stream Error: ${parsed.error?.type} - ${parsed.error?.message}`);
+      }
+    };
+
+    try {
+      while (!completed) {
+        const { done, value } = await reader.read();
+
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        // 最后一行可能不完整，留到下一次读取
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data:')) continue;
+
+          const data = line.slice(5).trim();
+          let parsed: AnthropicStreamEvent;
+          try {
+            parsed = JSON.parse(data);
+          } catch {
+            if (process.env.NODE_ENV === 'development') {
+              console.warn('⚠️ 解析Anthropic流式数据失败:', data.slice(0, 100));
+            }
+            continue;
+          }
+
+          handleEvent(parsed);
+          if (completed) break;
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    const usage = this.parseUsage({ ...inputUsage, output_tokens: outputTokens });
+
+    if (!completed) {
+      onChunk({ content: '', isComplete: true, usage });
+    }
+
+    return {
+      content,
+      usage,
+      model,
+      finishReason
+    };
   }
 }
@@ -1,10 +1,94 @@
-import { LLMConfig, LLMMessage, LLMResponse, LLMStreamChunk, LLMProviderAdapter, LLMProvider } from '@/types/llm';
+import {
+  LLMConfig,
+  LLMMessage,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMProviderAdapter,
+  LLMProvider,
+  LLMToolCall,
+  LLMToolCallDelta,
+  LLMImagePart
+} from '@/types/llm';
+
+// OpenAI 兼容接口中的工具调用格式（流式增量中各字段都可能缺省）
+export interface OpenAIToolCallPayload {
+  index?: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+/**
+ * 判断是否为请求被取消（fetch 在 signal 中止时抛出 AbortError）
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+// 重试也不会成功的HTTP状态码：请求格式、API密钥、权限或模型不存在
+const NON_RETRYABLE_STATUSES = [400, 401, 403, 404];
+
+/**
+ * 流式输出已经交给 onChunk 一部分后出错 - 重试会重复输出这部分内容，因此不重试，交给 LLMService 故障转移
+ */
+export class StreamInterruptedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StreamInterruptedError';
+  }
+}
+
+/**
+ * 判断错误是否值得重试 - 适配器统一抛出 "XXX API Error: <status> - ..." 格式的错误
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isAbortError(error) || error instanceof StreamInterruptedError) {
+    return false;
+  }
+
+  const status = error instanceof Error ? error.message.match(/API Error: (\d{3})\b/)?.[1] : undefined;
+  return !status || !NON_RETRYABLE_STATUSES.includes(Number(status));
+}
+
+/**
+ * 图片的文字描述 - 模型不支持图片输入时代替图片发送
+ */
+export function describeImage(image: LLMImagePart): string {
+  const sizeKB = Math.max(1, Math.round((image.data.length * 3) / 4 / 1024));
+  return `[用户发送了一张图片${image.name ? ` ${image.name}` : ''}（${image.mimeType}，${sizeKB}KB），当前模型无法查看图片内容]`;
+}
+
+/**
+ * 获取消息的纯文本内容，图片片段转为文字描述
+ */
+export function getMessageText(content: LLMMessage['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content
+    .map(part => part.type === 'text' ? part.text : describeImage(part))
+    .join('\n');
+}
+
+/**
+ * 将多模态消息降级为纯文本消息 - 用于不支持图片输入的模型
+ */
+export function toTextOnlyMessages(messages: LLMMessage[]): LLMMessage[] {
+  return messages.map(msg =>
+    typeof msg.content === 'string' ? msg : { ...msg, content: getMessageText(msg.content) }
+  );
+}
 
 /**
  * 基础适配器类，提供通用功能
  */
 export abstract class BaseLLMAdapter implements LLMProviderAdapter {
   abstract provider: LLMProvider;
+  supportsTools = false;
 
   /**
    * 流式聊天 - 子类必须实现
@@ -23,7 +107,7 @@ export abstract class BaseLLMAdapter implements LLMProviderAdapter {
   /**
    * 获取可用模型 - 子类必须实现
    */
-  abstract getAvailableModels(apiKey: string): Promise<string[]>;
+  abstract getAvailableModels(apiKey: string, baseUrl?: string, extraHeaders?: Record<string, string>): Promise<string[]>;
 
   /**
    * 验证配置 - 基础实现，子类可以重写
@@ -84,7 +168,8 @@ export abstract class BaseLLMAdapter implements LLMProviderAdapter {
       } catch (error) {
         lastError = error as Error;
         
-        if (attempt === maxRetries) {
+        // 用户取消的请求、客户端错误和已经输出部分内容的流不再重试
+        if (!isRetryableError(error) || attempt === maxRetries) {
           break;
         }
 
@@ -97,23 +182,117 @@ export abstract class BaseLLMAdapter implements LLMProviderAdapter {
   }
 
   /**
-   * 格式化消息 - 通用方法，子类可以重写
+   * 格式化消息 - 通用方法（OpenAI 格式，包含工具调用和工具结果），子类可以重写
    */
   protected formatMessages(messages: LLMMessage[]): any[] {
     return messages.map(msg => ({
       role: msg.role,
-      content: msg.content
+      content: this.formatContent(msg.content),
+      ...(msg.toolCalls?.length ? {
+        tool_calls: msg.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments }
+        }))
+      } : {}),
+      ...(msg.toolCallId ? { tool_call_id: msg.toolCallId } : {})
+    }));
+  }
+
+  /**
+   * 格式化消息内容 - 多模态内容转为 OpenAI 的 text/image_url 片段，图片以 data URL 内联
+   */
+  protected formatContent(content: LLMMessage['content']): string | Array<Record<string, unknown>> {
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    return content.map(part => part.type === 'text'
+      ? { type: 'text', text: part.text }
+      : { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } }
+    );
+  }
+
+  /**
+   * 构建工具参数 - OpenAI 兼容格式，没有配置工具时不传
+   */
+  protected buildToolParams(config: LLMConfig): Record<string, unknown> {
+    if (!config.tools?.length) {
+      return {};
+    }
+
+    return {
+      tools: config.tools.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters
+        }
+      })),
+      tool_choice: config.toolChoice || 'auto'
+    };
+  }
+
+  /**
+   * 解析非流式响应中的工具调用
+   */
+  protected parseToolCalls(toolCalls: OpenAIToolCallPayload[] | undefined): LLMToolCall[] | undefined {
+    if (!toolCalls?.length) {
+      return undefined;
+    }
+
+    return toolCalls.map((call, index) => ({
+      id: call.id || `call_${index}`,
+      name: call.function?.name || '',
+      arguments: call.function?.arguments || '{}'
     }));
   }
 
+  /**
+   * 合并流式工具调用增量 - 第一个增量带 id 和 name，后续增量只追加 arguments
+   */
+  protected mergeToolCallDeltas(target: LLMToolCall[], deltas: OpenAIToolCallPayload[]): LLMToolCallDelta[] {
+    return deltas.map((delta, position) => {
+      const index = delta.index ?? position;
+      const call = target[index] || (target[index] = { id: '', name: '', arguments: '' });
+
+      if (delta.id) call.id = delta.id;
+      if (delta.function?.name) call.name = delta.function.name;
+      if (delta.function?.arguments) call.arguments += delta.function.arguments;
+
+      return {
+        index,
+        id: delta.id,
+        name: delta.function?.name,
+        arguments: delta.function?.arguments
+      };
+    });
+  }
+
+  /**
+   * 流式结束后整理工具调用 - 去掉空位并补全缺失的 id
+   */
+  protected finalizeToolCalls(toolCalls: LLMToolCall[]): LLMToolCall[] | undefined {
+    const calls = toolCalls
+      .filter(call => call && call.name)
+      .map((call, index) => ({ ...call, id: call.id || `call_${index}`, arguments: call.arguments || '{}' }));
+
+    return calls.length > 0 ? calls : undefined;
+  }
+
   /**
    * 解析使用量信息 - 通用方法，子类可以重写
    */
-  protected parseUsage(usage: any): { promptTokens: number; completionTokens: number; totalTokens: number } {
+  protected parseUsage(usage: any): LLMResponse['usage'] {
+    // 缓存命中：OpenAI 为 prompt_tokens_details.cached_tokens，DeepSeek 为 prompt_cache_hit_tokens
+    const cachedTokens = usage?.prompt_tokens_details?.cached_tokens ?? usage?.prompt_cache_hit_tokens;
+
     return {
       promptTokens: usage?.prompt_tokens || 0,
       completionTokens: usage?.completion_tokens || 0,
-      totalTokens: usage?.total_tokens || 0
+      totalTokens: usage?.total_tokens || 0,
+      ...(cachedTokens ? { cachedTokens } : {})
     };
   }
 }
@@ -0,0 +1,72 @@
+import { LLMConfig, LLMProvider } from '@/types/llm';
+import OpenAIAdapter from './openai-adapter';
+
+/**
+ * 通用 OpenAI 兼容适配器
+ * 用于 vLLM、OneAPI、SiliconFlow 等兼容 /chat/completions 的服务，
+ * 基础URL、额外请求头和接口路径全部来自数据库中的提供商配置
+ */
+export default class CustomOpenAIAdapter extends OpenAIAdapter {
+  provider: LLMProvider = 'custom';
+
+  /**
+   * 验证配置 - 自定义提供商没有默认地址，必须配置 baseUrl；API密钥可选
+   */
+  validateConfig(config: LLMConfig): boolean {
+    if (!config.baseUrl) {
+      console.error('Base URL is required for custom provider');
+      return false;
+    }
+
+    if (!config.model) {
+      console.error('Model is required for custom provider');
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * 获取可用模型 - 大多数兼容服务都实现了 GET /models，网关要求的额外请求头同样要带上
+   */
+  async getAvailableModels(apiKey: string, baseUrl?: string, extraHeaders?: Record<string, string>): Promise<string[]> {
+    if (!baseUrl) {
+      return [];
+    }
+
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/models`, {
+      headers: {
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        ...(extraHeaders || {}),
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Custom API Error: ${response.status}`);
+    }
+
+    const data: { data?: Array<{ id: string }> } = await response.json();
+    return (data.data || []).map(model => model.id);
+  }
+
+  /**
+   * 构建聊天接口地址 - 支持按提供商覆盖路径，如 /v1/chat/completions 或 /openai/chat
+   */
+  protected buildChatUrl(config: LLMConfig): string {
+    const baseUrl = (config.baseUrl || '').replace(/\/+$/, '');
+    const chatPath = config.chatPath || '/chat/completions';
+
+    return `${baseUrl}${chatPath.startsWith('/') ? chatPath : `/${chatPath}`}`;
+  }
+
+  /**
+   * 构建请求头 - 合并提供商配置的额外请求头
+   */
+  protected buildHeaders(config: LLMConfig): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+      ...(config.extraHeaders || {}),
+    };
+  }
+}
@@ -1,8 +1,9 @@
-import { LLMConfig, LLMMessage, LLMResponse, LLMStreamChunk, LLMProvider } from '@/types/llm';
+import { LLMConfig, LLMMessage, LLMResponse, LLMStreamChunk, LLMProvider, LLMToolCall } from '@/types/llm';
 import { BaseLLMAdapter } from './base-adapter';
 
 export default class DeepSeekAdapter extends BaseLLMAdapter {
   provider: LLMProvider = 'deepseek';
+  supportsTools = true;
 
   async streamChat(
     config: LLMConfig,
@@ -17,6 +18,7 @@ export default class DeepSeekAdapter extends BaseLLMAdapter {
       temperature: config.temperature || 0.7,
       max_tokens: config.maxTokens || 2000,
       stream: true,
+      ...this.buildToolParams(config),
     };
 
     return this.withRetry(async () => {
@@ -24,6 +26,7 @@ export default class DeepSeekAdapter extends BaseLLMAdapter {
         method: 'POST',
         headers: this.buildHeaders(config),
         body: JSON.stringify(requestBody),
+        signal: config.signal,
       });
 
       if (!response.ok) {
@@ -43,6 +46,7 @@ export default class DeepSeekAdapter extends BaseLLMAdapter {
       temperature: config.temperature || 0.7,
       max_tokens: config.maxTokens || 2000,
       stream: false,
+      ...this.buildToolParams(config),
     };
 
     return this.withRetry(async () => {
@@ -50,6 +54,7 @@ export default class DeepSeekAdapter extends BaseLLMAdapter {
         method: 'POST',
         headers: this.buildHeaders(config),
         body: JSON.stringify(requestBody),
+        signal: config.signal,
       });
 
       if (!response.ok) {
@@ -59,10 +64,11 @@ export default class DeepSeekAdapter extends BaseLLMAdapter {
       const data = await response.json();
       
       return {
-        content: data.choices[0].message.content,
+        content: data.choices[0].message.content || '',
         usage: this.parseUsage(data.usage),
         model: data.model,
-        finishReason: data.choices[0].finish_reason || 'stop'
+        finishReason: data.choices[0].finish_reason || 'stop',
+        toolCalls: this.parseToolCalls(data.choices[0].message.tool_calls)
       };
     }, config.retryAttempts || 3);
   }
@@ -95,9 +101,11 @@ export default class DeepSeekAdapter extends BaseLLMAdapter {
 
     const decoder = new TextDecoder();
     let content = '';
-    let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let usage: LLMResponse['usage'] = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
     let model = '';
-    let finishReason: 'stop' | 'length' | 'error' = 'stop';
+    let finishReason: LLMResponse['finishReason'] = 'stop';
+    const toolCalls: LLMToolCall[] = [];
+    let buffer = '';
 
     try {
       while (true) {
@@ -105,8 +113,11 @@ export default class DeepSeekAdapter extends BaseLLMAdapter {
         
         if (done) break;
 
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n').filter(line => line.trim() !== '');
+        // 工具调用参数是分片的JSON，不完整的行留到下一次读取
+        buffer += decoder.decode(value, { stream: true });
+        const parts = buffer.split('\n');
+        buffer = parts.pop() || '';
+        const lines = parts.filter(line => line.trim() !== '');
 
         for (const line of lines) {
           if (line.startsWith('data: ')) {
@@ -129,6 +140,14 @@ export default class DeepSeekAdapter extends BaseLLMAdapter {
                 });
               }
 
+              if (delta?.tool_calls) {
+                onChunk({
+                  content: '',
+                  isComplete: false,
+                  toolCalls: this.mergeToolCallDeltas(toolCalls, delta.tool_calls)
+                });
+              }
+
               if (parsed.model) {
                 model = parsed.model;
               }
@@ -154,7 +173,8 @@ export default class DeepSeekAdapter extends BaseLLMAdapter {
       content,
       usage,
       model,
-      finishReason
+      finishReason,
+      toolCalls: this.finalizeToolCalls(toolCalls)
     };
   }
 }
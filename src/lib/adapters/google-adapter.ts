@@ -1,24 +1,320 @@
 import { LLMConfig, LLMMessage, LLMResponse, LLMStreamChunk, LLMProvider } from '@/types/llm';
-import { BaseLLMAdapter } from './base-adapter';
+import { BaseLLMAdapter, getMessageText } from './base-adapter';
 
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+// 请求中的片段：文本或内联 base64 图片
+type GeminiPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+  cachedContentTokenCount?: number;
+}
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> };
+    finishReason?: string;
+  }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: GeminiUsageMetadata;
+  modelVersion?: string;
+}
+
+interface GeminiModelInfo {
+  name: string;
+  supportedGenerationMethods?: string[];
+}
+
+/**
+ * Google Gemini 适配器
+ * 文档: https://ai.google.dev/api/generate-content
+ */
 export default class GoogleAdapter extends BaseLLMAdapter {
   provider: LLMProvider = 'google';
 
+  protected buildHeaders(config: LLMConfig): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': config.apiKey,
+    };
+  }
+
   async streamChat(
     config: LLMConfig,
     messages: LLMMessage[],
     onChunk: (chunk: LLMStreamChunk) => void
   ): Promise<LLMResponse> {
-    // TODO: 实现Google Gemini流式API调用
-    throw new Error('Google streaming not implemented yet');
+    const url = `${config.baseUrl || DEFAULT_BASE_URL}/models/${config.model}:streamGenerateContent?alt=sse`;
+    const requestBody = this.buildRequestBody(config, messages);
+
+    return this.withRetry(async () => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: this.buildHeaders(config),
+        body: JSON.stringify(requestBody),
+        signal: config.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Google API Error: ${response.status} - ${await response.text()}`);
+      }
+
+      return this.processStream(response, config.model, onChunk);
+    }, config.retryAttempts || 3);
   }
 
   async chat(config: LLMConfig, messages: LLMMessage[]): Promise<LLMResponse> {
-    // TODO: 实现Google Gemini API调用
-    throw new Error('Google chat not implemented yet');
+    const url = `${config.baseUrl || DEFAULT_BASE_URL}/models/${config.model}:generateContent`;
+    const requestBody = this.buildRequestBody(config, messages);
+
+    return this.withRetry(async () => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: this.buildHeaders(config),
+        body: JSON.stringify(requestBody),
+        signal: config.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Google API Error: ${response.status} - ${await response.text()}`);
+      }
+
+      const data: GeminiResponse = await response.json();
+
+      return {
+        content: this.extractText(data),
+        usage: this.parseUsage(data.usageMetadata),
+        model: data.modelVersion || config.model,
+        finishReason: this.resolveFinishReason(data) || 'stop'
+      };
+    }, config.retryAttempts || 3);
+  }
+
+  /**
+   * 获取可用模型 - 配置了 baseUrl（代理或网关）时同样从 baseUrl 获取
+   */
+  async getAvailableModels(apiKey: string, baseUrl?: string): Promise<string[]> {
+    const models: string[] = [];
+    let pageToken: string | undefined;
+
+    // 模型列表是分页返回的
+    do {
+      const url = `${baseUrl || DEFAULT_BASE_URL}/models?pageSize=100${pageToken ? `&pageToken=${pageToken}` : ''}`;
+      const response = await fetch(url, {
+        headers: {
+          'x-goog-api-key': apiKey,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Google API Error: ${response.status}`);
+      }
+
+      const data: { models?: GeminiModelInfo[]; nextPageToken?: string } = await response.json();
+
+      for (const model of data.models || []) {
+        // 只保留支持内容生成的模型，去掉 "models/" 前缀
+        if (model.supportedGenerationMethods?.includes('generateContent')) {
+          models.push(model.name.replace(/^models\//, ''));
+        }
+      }
+
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+
+    return models;
+  }
+
+  /**
+   * 构建请求体 - system 消息转为 systemInstruction，assistant 角色转为 model
+   */
+  private buildRequestBody(config: LLMConfig, messages: LLMMessage[]) {
+    const systemPrompt = messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => getMessageText(msg.content))
+      .join('\n\n');
+
+    return {
+      contents: this.formatMessages(messages),
+      ...(systemPrompt ? { systemInstruction: { parts: [{ text: systemPrompt }] } } : {}),
+      generationConfig: {
+        temperature: config.temperature ?? 0.7,
+        maxOutputTokens: config.maxTokens || 2000,
+      },
+    };
+  }
+
+  /**
+   * 格式化消息 - Gemini 使用 user/model 角色和 parts 数组
+   */
+  protected formatMessages(messages: LLMMessage[]): GeminiContent[] {
+    const contents: GeminiContent[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') continue;
+
+      const role = msg.role === 'assistant' ? 'model' : 'user';
+      const parts: GeminiPart[] = typeof msg.content === 'string'
+        ? [{ text: msg.content }]
+        : msg.content.map(part => part.type === 'text'
+          ? { text: part.text }
+          : { inlineData: { mimeType: part.mimeType, data: part.data } }
+        );
+
+      const last = contents[contents.length - 1];
+      if (last && last.role === role) {
+        // 合并连续的同角色消息
+        last.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    }
+
+    return contents;
+  }
+
+  /**
+   * 解析使用量信息 - Gemini 使用 usageMetadata
+   */
+  protected parseUsage(usage: GeminiUsageMetadata | undefined): LLMResponse['usage'] {
+    const promptTokens = usage?.promptTokenCount || 0;
+    const completionTokens = usage?.candidatesTokenCount || 0;
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: usage?.totalTokenCount || promptTokens + completionTokens,
+      ...(usage?.cachedContentTokenCount ? { cachedTokens: usage.cachedContentTokenCount } : {})
+    };
+  }
+
+  /**
+   * 提取候选回复中的文本
+   */
+  private extractText(data: GeminiResponse): string {
+    return (data.candidates?.[0]?.content?.parts || [])
+      .map(part => part.text || '')
+      .join('');
+  }
+
+  /**
+   * 解析完成原因 - 提示词被拦截时没有 candidates，只有 promptFeedback.blockReason
+   */
+  private resolveFinishReason(data: GeminiResponse): LLMResponse['finishReason'] | null {
+    if (data.promptFeedback?.blockReason) {
+      return 'safety';
+    }
+
+    switch (data.candidates?.[0]?.finishReason) {
+      case undefined:
+      case 'FINISH_REASON_UNSPECIFIED':
+        return null;
+      case 'STOP':
+        return 'stop';
+      case 'MAX_TOKENS':
+        return 'length';
+      case 'SAFETY':
+      case 'RECITATION':
+      case 'BLOCKLIST':
+      case 'PROHIBITED_CONTENT':
+      case 'SPII':
+      case 'IMAGE_SAFETY':
+        return 'safety';
+      default:
+        return 'error';
+    }
   }
 
-  async getAvailableModels(apiKey: string): Promise<string[]> {
-    return ['gemini-1.5-pro', 'gemini-1.5-flash'];
+  /**
+   * 处理 SSE 流 - 每个 data 行都是一个完整的 GenerateContentResponse
+   */
+  private async processStream(
+    response: Response,
+    requestedModel: string,
+    onChunk: (chunk: LLMStreamChunk) => void
+  ): Promise<LLMResponse> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('No response body');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let usage: LLMResponse['usage'] = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let model = requestedModel;
+    let finishReason: LLMResponse['finishReason'] = 'stop';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        // 最后一行可能不完整，留到下一次读取
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data:')) continue;
+
+          const data = line.slice(5).trim();
+          let parsed: GeminiResponse;
+          try {
+            parsed = JSON.parse(data);
+          } catch {
+            if (process.env.NODE_ENV === 'development') {
+              console.warn('⚠️ 解析Gemini流式数据失败:', data.slice(0, 100));
+            }
+            continue;
+          }
+
+          const text = this.extractText(parsed);
+          if (text) {
+            content += text;
+            onChunk({
+              content: text,
+              isComplete: false
+            });
+          }
+
+          if (parsed.modelVersion) {
+            model = parsed.modelVersion;
+          }
+
+          if (parsed.usageMetadata) {
+            usage = this.parseUsage(parsed.usageMetadata);
+          }
+
+          const reason = this.resolveFinishReason(parsed);
+          if (reason) {
+            finishReason = reason;
+            if (reason === 'safety') {
+              console.warn(`🛡️ [GoogleAdapter] 响应被安全策略拦截: ${parsed.promptFeedback?.blockReason || parsed.candidates?.[0]?.finishReason}`);
+            }
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    onChunk({ content: '', isComplete: true, usage });
+
+    return {
+      content,
+      usage,
+      model,
+      finishReason
+    };
   }
 }
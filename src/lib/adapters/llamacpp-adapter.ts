@@ -0,0 +1,77 @@
+import { LLMConfig, LLMMessage, LLMResponse, LLMStreamChunk, LLMProvider } from '@/types/llm';
+import OpenAIAdapter from './openai-adapter';
+
+const DEFAULT_BASE_URL = 'http://localhost:8080/v1';
+
+/**
+ * llama.cpp server 适配器
+ * llama-server 提供 OpenAI 兼容的 /v1/chat/completions 接口，直接复用 OpenAI 的实现
+ */
+export default class LlamaCppAdapter extends OpenAIAdapter {
+  provider: LLMProvider = 'llamacpp';
+
+  async streamChat(
+    config: LLMConfig,
+    messages: LLMMessage[],
+    onChunk: (chunk: LLMStreamChunk) => void
+  ): Promise<LLMResponse> {
+    return super.streamChat(
+      { ...config, baseUrl: this.resolveBaseUrl(config.baseUrl) },
+      messages,
+      onChunk
+    );
+  }
+
+  async chat(config: LLMConfig, messages: LLMMessage[]): Promise<LLMResponse> {
+    return super.chat(
+      { ...config, baseUrl: this.resolveBaseUrl(config.baseUrl) },
+      messages
+    );
+  }
+
+  /**
+   * 验证配置 - 本地运行时不需要API密钥
+   */
+  validateConfig(config: LLMConfig): boolean {
+    if (!config.model) {
+      console.error(`Model is required for ${this.provider}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * 获取已加载的模型 - GET /v1/models
+   */
+  async getAvailableModels(apiKey: string, baseUrl?: string): Promise<string[]> {
+    const response = await fetch(`${this.resolveBaseUrl(baseUrl)}/models`, {
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+    });
+
+    if (!response.ok) {
+      throw new Error(`llama.cpp API Error: ${response.status}`);
+    }
+
+    const data: { data?: Array<{ id: string }> } = await response.json();
+    return (data.data || []).map(model => model.id);
+  }
+
+  /**
+   * 构建请求头 - 只有启动时配置了 --api-key 才需要 Authorization
+   */
+  protected buildHeaders(config: LLMConfig): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+    };
+  }
+
+  /**
+   * 管理员可能只填写 http://host:8080，补全 /v1 前缀
+   */
+  private resolveBaseUrl(baseUrl?: string): string {
+    const url = (baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    return url.endsWith('/v1') ? url : `${url}/v1`;
+  }
+}
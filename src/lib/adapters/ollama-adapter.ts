@@ -0,0 +1,251 @@
+import { LLMConfig, LLMMessage, LLMResponse, LLMStreamChunk, LLMProvider } from '@/types/llm';
+import { BaseLLMAdapter } from './base-adapter';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+
+interface OllamaChatResponse {
+  model?: string;
+  message?: { role: string; content: string };
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/**
+ * Ollama 本地运行时适配器
+ * 使用原生 /api/chat 接口，流式响应为 NDJSON（每行一个JSON对象）
+ * 文档: https://github.com/ollama/ollama/blob/main/docs/api.md
+ */
+export default class OllamaAdapter extends BaseLLMAdapter {
+  provider: LLMProvider = 'ollama';
+
+  /**
+   * 验证配置 - 本地运行时不需要API密钥
+   */
+  validateConfig(config: LLMConfig): boolean {
+    if (!config.model) {
+      console.error(`Model is required for ${this.provider}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * 构建请求头 - 只有配置了密钥（如前置反向代理鉴权）时才带上 Authorization
+   */
+  protected buildHeaders(config: LLMConfig): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+    };
+  }
+
+  async streamChat(
+    config: LLMConfig,
+    messages: LLMMessage[],
+    onChunk: (chunk: LLMStreamChunk) => void
+  ): Promise<LLMResponse> {
+    const url = `${this.resolveBaseUrl(config.baseUrl)}/api/chat`;
+    const requestBody = this.buildRequestBody(config, messages, true);
+
+    return this.withRetry(async () => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: this.buildHeaders(config),
+        body: JSON.stringify(requestBody),
+        signal: config.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ollama API Error: ${response.status} - ${await response.text()}`);
+      }
+
+      return this.processStream(response, config.model, onChunk);
+    }, config.retryAttempts || 3);
+  }
+
+  async chat(config: LLMConfig, messages: LLMMessage[]): Promise<LLMResponse> {
+    const url = `${this.resolveBaseUrl(config.baseUrl)}/api/chat`;
+    const requestBody = this.buildRequestBody(config, messages, false);
+
+    return this.withRetry(async () => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: this.buildHeaders(config),
+        body: JSON.stringify(requestBody),
+        signal: config.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ollama API Error: ${response.status} - ${await response.text()}`);
+      }
+
+      const data: OllamaChatResponse = await response.json();
+
+      return {
+        content: data.message?.content || '',
+        usage: this.parseUsage(data),
+        model: data.model || config.model,
+        finishReason: this.mapDoneReason(data.done_reason)
+      };
+    }, config.retryAttempts || 3);
+  }
+
+  /**
+   * 获取本地已拉取的模型 - GET /api/tags
+   */
+  async getAvailableModels(apiKey: string, baseUrl?: string): Promise<string[]> {
+    const response = await fetch(`${this.resolveBaseUrl(baseUrl)}/api/tags`, {
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama API Error: ${response.status}`);
+    }
+
+    const data: { models?: Array<{ name: string }> } = await response.json();
+    return (data.models || []).map(model => model.name);
+  }
+
+  /**
+   * 兼容管理员填写的 OpenAI 兼容地址（http://host:11434/v1）
+   */
+  private resolveBaseUrl(baseUrl?: string): string {
+    return (baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '').replace(/\/(v1|api)$/, '');
+  }
+
+  private buildRequestBody(config: LLMConfig, messages: LLMMessage[], stream: boolean) {
+    return {
+      model: config.model,
+      messages: this.formatMessages(messages),
+      stream,
+      options: {
+        temperature: config.temperature ?? 0.7,
+        num_predict: config.maxTokens || 2000,
+      },
+    };
+  }
+
+  /**
+   * 格式化消息 - Ollama 原生接口的图片放在消息的 images 数组中（base64）
+   */
+  protected formatMessages(messages: LLMMessage[]): Array<{ role: string; content: string; images?: string[] }> {
+    return messages.map(msg => {
+      if (typeof msg.content === 'string') {
+        return { role: msg.role, content: msg.content };
+      }
+
+      const images = msg.content.flatMap(part => part.type === 'image' ? [part.data] : []);
+      return {
+        role: msg.role,
+        content: msg.content.flatMap(part => part.type === 'text' ? [part.text] : []).join('\n'),
+        ...(images.length > 0 ? { images } : {})
+      };
+    });
+  }
+
+  /**
+   * 解析使用量信息 - Ollama 在最后一个对象中返回 prompt_eval_count/eval_count
+   */
+  protected parseUsage(data: OllamaChatResponse): { promptTokens: number; completionTokens: number; totalTokens: number } {
+    const promptTokens = data.prompt_eval_count || 0;
+    const completionTokens = data.eval_count || 0;
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens
+    };
+  }
+
+  private mapDoneReason(doneReason: string | undefined): LLMResponse['finishReason'] {
+    return doneReason === 'length' ? 'length' : 'stop';
+  }
+
+  /**
+   * 处理 NDJSON 流 - 最后一个对象 done=true，带有使用量统计
+   */
+  private async processStream(
+    response: Response,
+    requestedModel: string,
+    onChunk: (chunk: LLMStreamChunk) => void
+  ): Promise<LLMResponse> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('No response body');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let model = requestedModel;
+    let finishReason: LLMResponse['finishReason'] = 'stop';
+
+    const handleLine = (line: string) => {
+      if (!line.trim()) return;
+
+      let parsed: OllamaChatResponse;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        if (process.env.NODE_ENV === 'development') {
+          console.warn('⚠️ 解析Ollama流式数据失败:', line.slice(0, 100));
+        }
+        return;
+      }
+
+      if (parsed.error) {
+        throw new Error(`Ollama Stream Error: ${parsed.error}`);
+      }
+
+      if (parsed.message?.content) {
+        content += parsed.message.content;
+        onChunk({
+          content: parsed.message.content,
+          isComplete: false
+        });
+      }
+
+      if (parsed.model) {
+        model = parsed.model;
+      }
+
+      if (parsed.done) {
+        usage = this.parseUsage(parsed);
+        finishReason = this.mapDoneReason(parsed.done_reason);
+      }
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        // 最后一行可能不完整，留到下一次读取
+        buffer = lines.pop() || '';
+
+        lines.forEach(handleLine);
+      }
+
+      handleLine(buffer + decoder.decode());
+    } finally {
+      reader.releaseLock();
+    }
+
+    onChunk({ content: '', isComplete: true, usage });
+
+    return {
+      content,
+      usage,
+      model,
+      finishReason
+    };
+  }
+}
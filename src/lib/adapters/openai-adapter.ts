@@ -1,15 +1,16 @@
-import { LLMConfig, LLMMessage, LLMResponse, LLMStreamChunk, LLMProvider } from '@/types/llm';
+import { LLMConfig, LLMMessage, LLMResponse, LLMStreamChunk, LLMProvider, LLMToolCall } from '@/types/llm';
 import { BaseLLMAdapter } from './base-adapter';
 
 export default class OpenAIAdapter extends BaseLLMAdapter {
   provider: LLMProvider = 'openai';
+  supportsTools = true;
 
   async streamChat(
     config: LLMConfig,
     messages: LLMMessage[],
     onChunk: (chunk: LLMStreamChunk) => void
   ): Promise<LLMResponse> {
-    const url = `${config.baseUrl || 'https://api.openai.com/v1'}/chat/completions`;
+    const url = this.buildChatUrl(config);
     
     const requestBody = {
       model: config.model,
@@ -17,6 +18,7 @@ export default class OpenAIAdapter extends BaseLLMAdapter {
       temperature: config.temperature || 0.7,
       max_tokens: config.maxTokens || 2000,
       stream: true,
+      ...this.buildToolParams(config),
     };
 
     return this.withRetry(async () => {
@@ -36,6 +38,7 @@ export default class OpenAIAdapter extends BaseLLMAdapter {
         method: 'POST',
         headers: this.buildHeaders(config),
         body: JSON.stringify(requestBody),
+        signal: config.signal,
       });
 
       const responseTime = Date.now() - startTime;
@@ -63,7 +66,7 @@ export default class OpenAIAdapter extends BaseLLMAdapter {
   }
 
   async chat(config: LLMConfig, messages: LLMMessage[]): Promise<LLMResponse> {
-    const url = `${config.baseUrl || 'https://api.openai.com/v1'}/chat/completions`;
+    const url = this.buildChatUrl(config);
     
     const requestBody = {
       model: config.model,
@@ -71,6 +74,7 @@ export default class OpenAIAdapter extends BaseLLMAdapter {
       temperature: config.temperature || 0.7,
       max_tokens: config.maxTokens || 2000,
       stream: false,
+      ...this.buildToolParams(config),
     };
 
     return this.withRetry(async () => {
@@ -90,6 +94,7 @@ export default class OpenAIAdapter extends BaseLLMAdapter {
         method: 'POST',
         headers: this.buildHeaders(config),
         body: JSON.stringify(requestBody),
+        signal: config.signal,
       });
 
       const responseTime = Date.now() - startTime;
@@ -120,14 +125,22 @@ export default class OpenAIAdapter extends BaseLLMAdapter {
       }
       
       return {
-        content: data.choices[0].message.content,
+        content: data.choices[0].message.content || '',
         usage: this.parseUsage(data.usage),
         model: data.model,
-        finishReason: data.choices[0].finish_reason || 'stop'
+        finishReason: data.choices[0].finish_reason || 'stop',
+        toolCalls: this.parseToolCalls(data.choices[0].message.tool_calls)
       };
     }, config.retryAttempts || 3);
   }
 
+  /**
+   * 构建聊天接口地址 - 子类可以重写以支持自定义路径
+   */
+  protected buildChatUrl(config: LLMConfig): string {
+    return `${config.baseUrl || 'https://api.openai.com/v1'}/chat/completions`;
+  }
+
   async getAvailableModels(apiKey: string): Promise<string[]> {
     const url = 'https://api.openai.com/v1/models';
     
@@ -158,9 +171,11 @@ export default class OpenAIAdapter extends BaseLLMAdapter {
 
     const decoder = new TextDecoder();
     let content = '';
-    let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let usage: LLMResponse['usage'] = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
     let model = '';
-    let finishReason: 'stop' | 'length' | 'error' = 'stop';
+    let finishReason: LLMResponse['finishReason'] = 'stop';
+    const toolCalls: LLMToolCall[] = [];
+    let buffer = '';
     let chunkCount = 0;
     const startTime = Date.now();
 
@@ -170,8 +185,11 @@ export default class OpenAIAdapter extends BaseLLMAdapter {
         
         if (done) break;
 
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n').filter(line => line.trim() !== '');
+        // 工具调用参数是分片的JSON，不完整的行留到下一次读取
+        buffer += decoder.decode(value, { stream: true });
+        const parts = buffer.split('\n');
+        buffer = parts.pop() || '';
+        const lines = parts.filter(line => line.trim() !== '');
 
         for (const line of lines) {
           if (line.startsWith('data: ')) {
@@ -213,6 +231,14 @@ export default class OpenAIAdapter extends BaseLLMAdapter {
                 });
               }
 
+              if (delta?.tool_calls) {
+                onChunk({
+                  content: '',
+                  isComplete: false,
+                  toolCalls: this.mergeToolCallDeltas(toolCalls, delta.tool_calls)
+                });
+              }
+
               if (parsed.model) {
                 model = parsed.model;
               }
@@ -243,7 +269,8 @@ export default class OpenAIAdapter extends BaseLLMAdapter {
       content,
       usage,
       model,
-      finishReason
+      finishReason,
+      toolCalls: this.finalizeToolCalls(toolCalls)
     };
   }
 }
@@ -1,5 +1,7 @@
 import { LLMConfig, LLMProvider } from '@/types/llm';
 import LLMConfigManager from './llm-config';
+import promptComposer, { PromptContext } from './prompt-composer';
+import { PromptVersionStamp } from './prompt-versions';
 import prisma from './db';
 
 export interface AgentDefinition {
@@ -9,6 +11,8 @@ export interface AgentDefinition {
   temperature: number;
   maxTokens: number;
   order: number;
+  tools: string[]; // 启用的工具名称
+  promptVersions?: PromptVersionStamp; // systemPrompt 各段的版本号，保存回复时记录
 }
 
 export interface FlowDefinition {
@@ -24,9 +28,10 @@ export interface FlowDefinition {
  */
 export class AgentConfigManager {
   /**
-   * 获取Agent配置 (从数据库)
+   * 获取Agent配置 (从数据库)，systemPrompt 由智能体提示词和挂载的模板组装而成，
+   * 传入对话时替换其中的用户名、群聊名等变量
    */
-  static async getAgentConfig(roleTag: string): Promise<{
+  static async getAgentConfig(roleTag: string, context?: PromptContext): Promise<{
     agent: AgentDefinition;
     llmConfig: LLMConfig;
   }> {
@@ -43,13 +48,16 @@ export class AgentConfigManager {
     }
 
     // 构建AgentDefinition
+    const { systemPrompt, versions } = await promptComposer.compose(dbAgent, context);
     const agent: AgentDefinition = {
       roleTag: dbAgent.roleTag,
       name: dbAgent.name,
-      systemPrompt: dbAgent.prompt,
+      systemPrompt,
       temperature: dbAgent.temperature,
       maxTokens: dbAgent.maxTokens,
       order: dbAgent.order,
+      tools: dbAgent.tools,
+      promptVersions: versions,
     };
 
     // 获取LLM配置
@@ -59,7 +67,7 @@ export class AgentConfigManager {
       provider: llmConfig.provider,
       model: llmConfig.model,
       hasApiKey: !!llmConfig.apiKey,
-      baseURL: llmConfig.baseURL
+      baseUrl: llmConfig.baseUrl
     });
 
     return {
@@ -103,6 +111,7 @@ export class AgentConfigManager {
       temperature: agent.temperature,
       maxTokens: agent.maxTokens,
       order: agent.order,
+      tools: agent.tools,
     }));
   }
 
@@ -0,0 +1,72 @@
+/**
+ * 📣 @提及
+ *
+ * 解析消息中的 @智能体名称：用户点名的智能体优先回复，也可以只让被点名的智能体回复；
+ * 智能体在回复中点名群里的其他成员时，发言权交给被点名的成员
+ */
+
+// ============= 类型定义 =============
+
+export interface MentionableAgent {
+  name: string;
+}
+
+// 一条用户消息引发的接力发言上限，避免智能体之间互相点名停不下来
+export const MAX_HANDOFFS = 3;
+
+// 同时支持半角和全角的 @
+const MENTION_MARKERS = ['@', '＠'];
+
+// ============= 提及主类 =============
+
+export class AgentMentions {
+  /**
+   * 解析消息中提及的智能体，按首次出现的顺序返回，不重复
+   * 中文名称后面通常不加空格，按名称从长到短匹配，避免"小明"误匹配"小明明"
+   */
+  parse<T extends MentionableAgent>(text: string, agents: T[]): T[] {
+    const candidates = [...agents]
+      .filter(agent => agent.name)
+      .sort((a, b) => b.name.length - a.name.length);
+    const lowerText = text.toLowerCase();
+    const mentioned: T[] = [];
+
+    for (let i = 0; i < lowerText.length; i++) {
+      if (!MENTION_MARKERS.includes(lowerText[i])) continue;
+
+      const agent = candidates.find(candidate => lowerText.startsWith(candidate.name.toLowerCase(), i + 1));
+      if (agent && !mentioned.includes(agent)) {
+        mentioned.push(agent);
+      }
+    }
+
+    return mentioned;
+  }
+
+  /**
+   * 把被点名的智能体排在最前面；exclusive 为 true 时只保留被点名的智能体
+   */
+  prioritize<T>(agents: T[], mentioned: T[], exclusive: boolean = false): T[] {
+    if (mentioned.length === 0) {
+      return agents;
+    }
+
+    if (exclusive) {
+      return mentioned;
+    }
+
+    return [...mentioned, ...agents.filter(agent => !mentioned.includes(agent))];
+  }
+
+  /**
+   * 找出智能体回复中点名接话的成员 - 只取第一个被点名的其他成员，点名自己不算
+   */
+  findHandoff<T extends MentionableAgent>(reply: string, speakerName: string, agents: T[]): T | null {
+    const target = this.parse(reply, agents).find(agent => agent.name !== speakerName);
+    return target || null;
+  }
+}
+
+// 导出默认实例
+const agentMentions = new AgentMentions();
+export default agentMentions;
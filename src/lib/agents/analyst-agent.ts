@@ -6,14 +6,19 @@
  */
 
 import { BaseAgent, AgentResult, ChatbotResponse } from '../intelligent-agent-bus';
+import { BudgetPolicy } from '../conversation-budget';
+import { PlanLimits } from '../plan-quotas';
 
 export interface AnalystInput {
   request: {
     conversationId: string;
     userMessage: string;
     conversationHistory: any[];
+    signal?: AbortSignal;
+    planLimits?: PlanLimits;
   };
   analysisResult: any;
+  budgetPolicy?: BudgetPolicy; // 代替聊天机器人回复时本次调用的预算降级策略
   analysisType?: 'data' | 'logic' | 'trend' | 'problem' | 'decision';
 }
 
@@ -34,11 +39,19 @@ export class AnalystAgent extends BaseAgent {
       const analysisType = input.analysisType || this.detectAnalysisType(input.request.userMessage);
       const analysisPrompt = this.buildAnalysisPrompt(input, analysisType);
       
-      const response = await this.callLLM(analysisPrompt);
+      // 回复代替聊天机器人保存，同样遵守套餐和预算限制，用量和成本随回复记账
+      const response = await this.callLLMWithinLimits(analysisPrompt, {
+        signal: input.request.signal,
+        planLimits: input.request.planLimits,
+        budgetPolicy: input.budgetPolicy
+      });
       
       const result: ChatbotResponse = {
         agentName: '数据分析师',
-        content: response,
+        content: response.content,
+        usage: response.usage,
+        cost: response.cost,
+        failovers: response.failovers,
         timestamp: new Date(),
         confidence: 0.9
       };
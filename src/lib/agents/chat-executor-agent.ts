@@ -5,16 +5,37 @@
  * 实现真正的群聊互动体验
  */
 
-import { BaseAgent, AgentResult, ChatbotResponse } from '../intelligent-agent-bus';
+import { BaseAgent, AgentResult, ChatbotResponse, GroupChatStreamEvent } from '../intelligent-agent-bus';
 import { SceneAnalysisResult } from './scene-analyzer-agent';
 import agentBus from '../intelligent-agent-bus';
+import conversationBudget, { BudgetPolicy } from '../conversation-budget';
+import planQuotas, { PlanLimits, PlanModelNotAllowedError } from '../plan-quotas';
+import agentMentions, { MAX_HANDOFFS, MentionableAgent } from '../agent-mentions';
+import userMemory from '../user-memory';
+import knowledgeBase, { KnowledgeContext } from '../knowledge-base';
+import conversationSummarizer from '../conversation-summary';
+import participationPolicy from '../participation-policy';
+import promptComposer from '../prompt-composer';
+import { PromptVersionStamp } from '../prompt-versions';
+import { ChatGroupMode } from '../chat-groups';
+import Orchestrator from '../orchestrator';
+import { LLMFailover, LLMImagePart, LLMResponse, LLMStreamChunk } from '@/types/llm';
+import { ToolExecutionResult } from '../tool-registry';
 
 export interface ChatExecutionInput {
   request: {
     conversationId: string;
+    userId?: string;
     userMessage: string;
     conversationHistory: any[];
+    conversationSummary?: string;
     availableAgents: any[];
+    signal?: AbortSignal;
+    images?: LLMImagePart[];
+    planLimits?: PlanLimits;
+    mentionsOnly?: boolean; // 用户 @ 了智能体时只让被 @ 的智能体回复
+    groupMode?: ChatGroupMode; // 群聊的调度模式，没有群聊时按 smart 处理
+    onStream?: (event: GroupChatStreamEvent) => void;
   };
   analysisResult: SceneAnalysisResult;
   availableAgents: any[];
@@ -41,14 +62,18 @@ export class ChatExecutorAgent extends BaseAgent {
 
       console.log(`💬 [对话执行Agent] 开始执行群聊，场景: ${input.analysisResult.sceneType}`);
 
-      // 第一步：智能选择参与的聊天机器人
-      const selectedAgents = await this.selectParticipatingAgents(input);
+      // 第一步：按群聊的调度模式选择参与的聊天机器人，用户 @ 的排在最前
+      const mode = participationPolicy.getMode(input.request.groupMode);
+      const mentionedAgents = agentMentions.parse(input.request.userMessage, input.availableAgents);
+      const selectedAgents = await this.selectParticipatingAgents(input, mentionedAgents, mode);
       
       // 第二步：确定互动模式
-      const interactionPattern = this.determineInteractionPattern(input.analysisResult, selectedAgents);
+      const interactionPattern = mentionedAgents.length > 0
+        ? 'mention_response'
+        : this.determineInteractionPattern(input.analysisResult, selectedAgents, mode);
       
       // 第三步：执行群聊对话
-      const responses = await this.executeGroupChat(input, selectedAgents, interactionPattern);
+      const responses = await this.executeGroupChat(input, selectedAgents, interactionPattern, mentionedAgents, mode);
       
       // 第四步：评估质量
       const quality = this.evaluateResponseQuality(responses, input);
@@ -71,16 +96,40 @@ export class ChatExecutorAgent extends BaseAgent {
   }
 
   /**
-   * 智能选择参与的聊天机器人
+   * 选择参与的聊天机器人 - 用户 @ 的智能体必定参与且排在最前；
+   * fixed 模式全部成员按发言顺序参与，natural 模式按优先级抽取，smart 模式按场景分析和匹配分数挑选
    */
-  private async selectParticipatingAgents(input: ChatExecutionInput): Promise<any[]> {
+  private async selectParticipatingAgents(
+    input: ChatExecutionInput,
+    mentionedAgents: MentionableAgent[] = [],
+    mode: ChatGroupMode = 'smart'
+  ): Promise<any[]> {
     const { analysisResult, availableAgents } = input;
+
+    if (mentionedAgents.length > 0 && input.request.mentionsOnly) {
+      console.log(`📣 [对话执行Agent] 只让被点名的AI回复: ${mentionedAgents.map(a => a.name).join(', ')}`);
+      return mentionedAgents;
+    }
+
+    // 根据场景类型限制参与数量，被点名的智能体不受限制
+    const maxAgents = Math.max(this.getMaxAgentsForScene(analysisResult.sceneType), mentionedAgents.length);
+
+    if (mode === 'fixed') {
+      console.log(`🎯 [对话执行Agent] 固定顺序发言: ${availableAgents.map(a => a.name).join(', ')}`);
+      return agentMentions.prioritize(availableAgents, mentionedAgents);
+    }
+
+    if (mode === 'natural') {
+      const drawnAgents = agentMentions.prioritize(participationPolicy.drawSpeakers(availableAgents), mentionedAgents).slice(0, maxAgents);
+      console.log(`🎲 [对话执行Agent] 按优先级抽中发言AI: ${drawnAgents.map(a => a.name).join(', ')}`);
+      return drawnAgents;
+    }
     
-    // 首先使用场景分析的建议
-    let selectedAgents = availableAgents.filter(agent => 
+    // 首先使用场景分析的建议，优先级高的成员排在前面
+    let selectedAgents = participationPolicy.sortByPriority(availableAgents.filter(agent => 
       analysisResult.participationPlan?.some(suggestion => suggestion.agentName === agent.roleTag) ||
       analysisResult.participationPlan?.some(suggestion => suggestion.agentName === agent.name)
-    );
+    ));
 
     // 如果建议的Agent不够，使用智能匹配
     if (selectedAgents.length === 0) {
@@ -92,9 +141,7 @@ export class ChatExecutorAgent extends BaseAgent {
       selectedAgents = availableAgents.slice(0, 1);
     }
 
-    // 根据场景类型限制参与数量
-    const maxAgents = this.getMaxAgentsForScene(analysisResult.sceneType);
-    selectedAgents = selectedAgents.slice(0, maxAgents);
+    selectedAgents = agentMentions.prioritize(selectedAgents, mentionedAgents).slice(0, maxAgents);
 
     console.log(`🎯 [对话执行Agent] 选中参与AI: ${selectedAgents.map(a => a.name).join(', ')}`);
     
@@ -122,6 +169,9 @@ export class ChatExecutorAgent extends BaseAgent {
       // 基于情感匹配
       score += this.calculateEmotionMatch(agent.roleTag, analysisResult.emotion);
 
+      // 群聊成员的优先级
+      score *= participationPolicy.getScoreFactor(agent);
+
       agentScores.push({ agent, score });
     }
 
@@ -189,12 +239,20 @@ export class ChatExecutorAgent extends BaseAgent {
   /**
    * 确定互动模式
    */
-  private determineInteractionPattern(analysis: SceneAnalysisResult, selectedAgents: any[]): string {
+  private determineInteractionPattern(analysis: SceneAnalysisResult, selectedAgents: any[], mode: ChatGroupMode = 'smart'): string {
     // 单个Agent：直接回复
     if (selectedAgents.length === 1) {
       return 'single_response';
     }
 
+    // 固定顺序和随机发言的群聊：选中的成员按选择顺序依次发言
+    if (mode === 'fixed') {
+      return 'fixed_order';
+    }
+    if (mode === 'natural') {
+      return 'random_turns';
+    }
+
     // 多个Agent：根据场景决定
     switch (analysis.sceneType) {
       case 'emotional_support':
@@ -216,27 +274,48 @@ export class ChatExecutorAgent extends BaseAgent {
   private async executeGroupChat(
     input: ChatExecutionInput, 
     selectedAgents: any[], 
-    interactionPattern: string
+    interactionPattern: string,
+    mentionedAgents: MentionableAgent[] = [],
+    mode: ChatGroupMode = 'smart'
   ): Promise<ChatbotResponse[]> {
     const responses: ChatbotResponse[] = [];
 
-    // 首先尝试调用专业化Agent
-    const specializedResponses = await this.trySpecializedAgents(input);
-    responses.push(...specializedResponses);
+    // 检查会话预算：预算用完时不再调用任何AI
+    const budgetPolicy = await conversationBudget.checkBeforeCall(input.request.conversationId);
+    if (!budgetPolicy) {
+      return responses;
+    }
+
+    // 首先尝试调用专业化Agent（预算不足降级、用户点名了群成员或群聊指定了发言方式时跳过）
+    if (budgetPolicy.maxAgents === undefined && mentionedAgents.length === 0 && mode === 'smart') {
+      const specializedResponses = await this.trySpecializedAgents(input, budgetPolicy);
+      responses.push(...specializedResponses);
+    }
 
     // 如果没有专业Agent回复，或者需要更多回复，使用常规Agent
     if (responses.length === 0) {
       switch (interactionPattern) {
         case 'single_response':
-          const singleResponse = await this.executeSingleAgentResponse(input, selectedAgents[0]);
+          const singleResponse = await this.executeSingleAgentResponse(input, selectedAgents[0], budgetPolicy);
           if (singleResponse) responses.push(singleResponse);
           break;
 
+        case 'mention_response':
+          const mentionResponses = await this.executeMentionResponse(input, selectedAgents, mentionedAgents);
+          responses.push(...mentionResponses);
+          break;
+
         case 'sequential_support':
           const sequentialResponses = await this.executeSequentialSupport(input, selectedAgents);
           responses.push(...sequentialResponses);
           break;
 
+        case 'fixed_order':
+        case 'random_turns':
+          const orderedResponses = await this.executeOrderedConversation(input, selectedAgents);
+          responses.push(...orderedResponses);
+          break;
+
         case 'natural_conversation':
         default:
           const conversationResponses = await this.executeNaturalConversation(input, selectedAgents);
@@ -245,24 +324,122 @@ export class ChatExecutorAgent extends BaseAgent {
       }
     }
 
+    // 回复中点名了其他成员时，由被点名的成员接话
+    if (responses.length > 0) {
+      const handoffResponses = await this.executeHandoffs(input, responses);
+      responses.push(...handoffResponses);
+    }
+
+    return responses;
+  }
+
+  /**
+   * 执行点名回复模式 - 按顺序发言，被点名的智能体在前
+   */
+  private async executeMentionResponse(
+    input: ChatExecutionInput,
+    agents: MentionableAgent[],
+    mentionedAgents: MentionableAgent[]
+  ): Promise<ChatbotResponse[]> {
+    const responses: ChatbotResponse[] = [];
+    let conversationContext = `用户: ${input.request.userMessage}\n`;
+
+    for (const [index, agent] of agents.entries()) {
+      if (input.request.signal?.aborted) break;
+
+      // 每次调用前检查预算，预算不足时减少发言的AI
+      const budgetPolicy = await conversationBudget.checkBeforeCall(input.request.conversationId, index);
+      if (!budgetPolicy) break;
+
+      const roleInstruction = mentionedAgents.includes(agent)
+        ? '用户在群里 @ 了你，请直接回应用户的话。'
+        : '用户点名了其他朋友，你可以简短补充，不要抢话。';
+
+      try {
+        const prompt = await this.buildDynamicPrompt(agent, input, roleInstruction, conversationContext);
+        const chatResponse = await this.callAgentLLM(agent, prompt, input, budgetPolicy, 0.85);
+
+        responses.push(chatResponse);
+        conversationContext += `${agent.name}: ${chatResponse.content}\n`;
+        
+      } catch (error) {
+        if (error instanceof PlanModelNotAllowedError) throw error;
+        console.error(`Agent ${agent.name} 回复失败:`, error);
+      }
+    }
+
     return responses;
   }
 
   /**
-   * 尝试调用专业化Agent
+   * 执行接力发言 - 最后一条回复 @ 了其他成员时，被点名的成员接着回复，最多接力 MAX_HANDOFFS 次
    */
-  private async trySpecializedAgents(input: ChatExecutionInput): Promise<ChatbotResponse[]> {
+  private async executeHandoffs(input: ChatExecutionInput, previousResponses: ChatbotResponse[]): Promise<ChatbotResponse[]> {
     const responses: ChatbotResponse[] = [];
+    let conversationContext = `用户: ${input.request.userMessage}\n`
+      + previousResponses.map(response => `${response.agentName}: ${response.content}\n`).join('');
+    let lastResponse = previousResponses[previousResponses.length - 1];
+
+    while (responses.length < MAX_HANDOFFS) {
+      if (input.request.signal?.aborted) break;
+
+      const agent = agentMentions.findHandoff(lastResponse.content, lastResponse.agentName, input.availableAgents);
+      if (!agent) break;
+
+      const budgetPolicy = await conversationBudget.checkBeforeCall(
+        input.request.conversationId,
+        previousResponses.length + responses.length
+      );
+      if (!budgetPolicy) break;
+
+      console.log(`📣 [对话执行Agent] ${lastResponse.agentName} 点名 ${agent.name} 接话`);
+
+      try {
+        const roleInstruction = `${lastResponse.agentName} 在群里 @ 了你，请接着回应。`;
+        const prompt = await this.buildDynamicPrompt(agent, input, roleInstruction, conversationContext);
+        const chatResponse = await this.callAgentLLM(agent, prompt, input, budgetPolicy, 0.75);
+
+        responses.push(chatResponse);
+        conversationContext += `${agent.name}: ${chatResponse.content}\n`;
+        lastResponse = chatResponse;
+
+      } catch (error) {
+        if (error instanceof PlanModelNotAllowedError) throw error;
+        console.error(`Agent ${agent.name} 接话失败:`, error);
+        break;
+      }
+    }
+
+    return responses;
+  }
+
+  /**
+   * 尝试调用专业化Agent - 和聊天机器人一样，每次调用前检查会话预算，按套餐和预算限制选用模型，可以取消
+   */
+  private async trySpecializedAgents(input: ChatExecutionInput, budgetPolicy: BudgetPolicy): Promise<ChatbotResponse[]> {
+    const responses: ChatbotResponse[] = [];
+    const { conversationId, signal, planLimits } = input.request;
     const sceneType = input.analysisResult.sceneType;
     const userMessage = input.request.userMessage.toLowerCase();
 
+    // 第一次调用使用本轮开始时的预算策略，之后每次调用前重新检查
+    let policy: BudgetPolicy | null = budgetPolicy;
+    const nextPolicy = async (): Promise<BudgetPolicy | null> => {
+      if (signal?.aborted) return null;
+      if (responses.length > 0) {
+        policy = await conversationBudget.checkBeforeCall(conversationId, responses.length);
+      }
+      return policy;
+    };
+
     try {
       // 根据场景类型决定调用哪个专业Agent
       if (sceneType === 'creative_brainstorm' || userMessage.includes('创意') || userMessage.includes('点子') || userMessage.includes('想法')) {
         console.log('🎨 调用创意Agent');
         const creativeAgents = agentBus.discoverAgents(['creative_thinking']);
-        if (creativeAgents.length > 0) {
-          const result = await creativeAgents[0].execute(input);
+        const creativePolicy = creativeAgents.length > 0 ? await nextPolicy() : null;
+        if (creativePolicy) {
+          const result = await creativeAgents[0].execute({ ...input, budgetPolicy: creativePolicy });
           if (result.success && result.data) {
             responses.push(result.data);
           }
@@ -272,8 +449,9 @@ export class ChatExecutorAgent extends BaseAgent {
       if (sceneType === 'problem_solving' || userMessage.includes('分析') || userMessage.includes('为什么') || userMessage.includes('原因')) {
         console.log('📊 调用分析师Agent');
         const analystAgents = agentBus.discoverAgents(['data_analysis']);
-        if (analystAgents.length > 0) {
-          const result = await analystAgents[0].execute(input);
+        const analystPolicy = analystAgents.length > 0 ? await nextPolicy() : null;
+        if (analystPolicy) {
+          const result = await analystAgents[0].execute({ ...input, budgetPolicy: analystPolicy });
           if (result.success && result.data) {
             responses.push(result.data);
           }
@@ -281,14 +459,17 @@ export class ChatExecutorAgent extends BaseAgent {
       }
 
       // 如果有多个回复，可以调用质量评估Agent
-      if (responses.length > 1) {
+      const assessmentPolicy = responses.length > 1 ? await nextPolicy() : null;
+      if (assessmentPolicy) {
         console.log('🎯 调用质量评估Agent');
         const qualityAgents = agentBus.discoverAgents(['quality_assessment']);
         if (qualityAgents.length > 0) {
           const assessmentInput = {
             originalMessage: input.request.userMessage,
             agentResponses: responses,
-            sceneAnalysis: input.analysisResult
+            sceneAnalysis: input.analysisResult,
+            conversationId,
+            limits: { signal, planLimits, budgetPolicy: assessmentPolicy }
           };
           const result = await qualityAgents[0].execute(assessmentInput);
           if (result.success) {
@@ -307,18 +488,16 @@ export class ChatExecutorAgent extends BaseAgent {
   /**
    * 执行单个Agent回复
    */
-  private async executeSingleAgentResponse(input: ChatExecutionInput, agent: any): Promise<ChatbotResponse | null> {
+  private async executeSingleAgentResponse(
+    input: ChatExecutionInput,
+    agent: any,
+    budgetPolicy: BudgetPolicy
+  ): Promise<ChatbotResponse | null> {
     try {
       const prompt = await this.buildDynamicPrompt(agent, input, '你是群聊中的唯一回复者，请直接自然地回应用户。');
-      const response = await this.callAgentLLM(agent, prompt);
-      
-      return {
-        agentName: agent.name,
-        content: response,
-        timestamp: new Date(),
-        confidence: 0.8
-      };
+      return await this.callAgentLLM(agent, prompt, input, budgetPolicy, 0.8);
     } catch (error) {
+      if (error instanceof PlanModelNotAllowedError) throw error;
       console.error(`Agent ${agent.name} 回复失败:`, error);
       return null;
     }
@@ -332,6 +511,12 @@ export class ChatExecutorAgent extends BaseAgent {
     let conversationContext = `用户: ${input.request.userMessage}\n`;
 
     for (let i = 0; i < agents.length; i++) {
+      if (input.request.signal?.aborted) break;
+
+      // 每次调用前检查预算，预算不足时减少发言的AI
+      const budgetPolicy = await conversationBudget.checkBeforeCall(input.request.conversationId, i);
+      if (!budgetPolicy) break;
+
       const agent = agents[i];
       const isFirst = i === 0;
       const isLast = i === agents.length - 1;
@@ -347,22 +532,13 @@ export class ChatExecutorAgent extends BaseAgent {
 
       try {
         const prompt = await this.buildDynamicPrompt(agent, input, roleInstruction, conversationContext);
-        const response = await this.callAgentLLM(agent, prompt);
-        
-        const chatResponse: ChatbotResponse = {
-          agentName: agent.name,
-          content: response,
-          timestamp: new Date(),
-          confidence: 0.8
-        };
+        const chatResponse = await this.callAgentLLM(agent, prompt, input, budgetPolicy, 0.8);
 
         responses.push(chatResponse);
-        conversationContext += `${agent.name}: ${response}\n`;
-
-        // 短暂延迟，模拟真实打字时间
-        await new Promise(resolve => setTimeout(resolve, 500));
+        conversationContext += `${agent.name}: ${chatResponse.content}\n`;
         
       } catch (error) {
+        if (error instanceof PlanModelNotAllowedError) throw error;
         console.error(`Agent ${agent.name} 回复失败:`, error);
       }
     }
@@ -374,10 +550,8 @@ export class ChatExecutorAgent extends BaseAgent {
    * 执行自然对话模式
    */
   private async executeNaturalConversation(input: ChatExecutionInput, agents: any[]): Promise<ChatbotResponse[]> {
-    const responses: ChatbotResponse[] = [];
-    
-    // 随机打乱Agent顺序，增加自然性
-    const shuffledAgents = [...agents].sort(() => Math.random() - 0.5);
+    // 按优先级加权打乱Agent顺序，增加自然性
+    const shuffledAgents = participationPolicy.weightedShuffle(agents);
     
     // 决定参与的Agent数量（随机性）
     const participatingCount = Math.min(
@@ -385,30 +559,33 @@ export class ChatExecutorAgent extends BaseAgent {
       3 // 最多3个
     );
     
-    const participatingAgents = shuffledAgents.slice(0, participatingCount);
+    return this.executeOrderedConversation(input, shuffledAgents.slice(0, participatingCount));
+  }
+
+  /**
+   * 按给定顺序依次发言，每个Agent都能看到前面的回复
+   */
+  private async executeOrderedConversation(input: ChatExecutionInput, agents: MentionableAgent[]): Promise<ChatbotResponse[]> {
+    const responses: ChatbotResponse[] = [];
     let conversationContext = `用户: ${input.request.userMessage}\n`;
 
-    for (const agent of participatingAgents) {
+    for (const [index, agent] of agents.entries()) {
+      if (input.request.signal?.aborted) break;
+
+      // 每次调用前检查预算，预算不足时减少发言的AI
+      const budgetPolicy = await conversationBudget.checkBeforeCall(input.request.conversationId, index);
+      if (!budgetPolicy) break;
+
       try {
         const roleInstruction = '请作为群聊中的朋友，自然地参与对话。可以简短回应，也可以补充观点。';
         const prompt = await this.buildDynamicPrompt(agent, input, roleInstruction, conversationContext);
-        const response = await this.callAgentLLM(agent, prompt);
-        
-        const chatResponse: ChatbotResponse = {
-          agentName: agent.name,
-          content: response,
-          timestamp: new Date(),
-          confidence: 0.75
-        };
+        const chatResponse = await this.callAgentLLM(agent, prompt, input, budgetPolicy, 0.75);
 
         responses.push(chatResponse);
-        conversationContext += `${agent.name}: ${response}\n`;
-
-        // 随机延迟
-        const delay = Math.random() * 1000 + 300; // 0.3-1.3秒
-        await new Promise(resolve => setTimeout(resolve, delay));
+        conversationContext += `${agent.name}: ${chatResponse.content}\n`;
         
       } catch (error) {
+        if (error instanceof PlanModelNotAllowedError) throw error;
         console.error(`Agent ${agent.name} 回复失败:`, error);
       }
     }
@@ -417,7 +594,7 @@ export class ChatExecutorAgent extends BaseAgent {
   }
 
   /**
-   * 构建动态提示词
+   * 构建动态提示词 - 智能体的系统提示词由 callAgentLLM 组装后放在最前面
    */
   private async buildDynamicPrompt(
     agent: any, 
@@ -425,15 +602,26 @@ export class ChatExecutorAgent extends BaseAgent {
     roleInstruction: string,
     conversationContext?: string
   ): Promise<string> {
-    const basePrompt = agent.prompt || `你是${agent.name}，一个友善的AI助手。`;
-    
     const contextInfo = conversationContext || `用户: ${input.request.userMessage}`;
     
     const sceneContext = this.buildSceneContext(input.analysisResult);
-    
-    return `${basePrompt}
 
-${sceneContext}
+    const memberNames = input.availableAgents.map(member => member.name).filter(Boolean);
+    const memberContext = memberNames.length > 1
+      ? `\n\n【群成员】\n${memberNames.join('、')}。想请某位朋友接话时，可以用 @名字 点名。`
+      : '';
+
+    const memories = await userMemory.buildPromptContext(input.request.userId, agent.id, input.request.userMessage);
+    const memoryContext = memories ? `\n\n${memories}` : '';
+
+    // 之前的聊天：较早消息的摘要 + 最近的消息
+    const history = conversationSummarizer.format({
+      summary: input.request.conversationSummary || null,
+      recentMessages: input.request.conversationHistory
+    });
+    const historyContext = history ? `\n\n${history}` : '';
+    
+    return `${sceneContext}${memberContext}${memoryContext}${historyContext}
 
 ${roleInstruction}
 
@@ -463,23 +651,101 @@ ${contextInfo}
   }
 
   /**
-   * 调用Agent的LLM
+   * 调用Agent的LLM - 返回包含用量、成本的回复；按套餐限制和预算降级策略调整模型配置。
+   * 请求设置了 onStream 时流式调用，模型输出实时转发，回复完成（包括兜底回复）后发送 agent_complete。
+   * 智能体有知识库时检索与用户消息相关的片段放进提示词，回复附带引用的片段；启用了工具时由模型按需调用工具
    */
-  private async callAgentLLM(agent: any, prompt: string): Promise<string> {
+  private async callAgentLLM(
+    agent: any,
+    prompt: string,
+    input: ChatExecutionInput,
+    budgetPolicy: BudgetPolicy,
+    confidence: number
+  ): Promise<ChatbotResponse> {
+    const { signal, images, planLimits, onStream } = input.request;
+    const streamId = `stream-${Date.now()}-${Math.random().toString(36).substring(2)}`;
+    let reply: Pick<ChatbotResponse, 'content' | 'usage' | 'cost' | 'failovers' | 'toolRuns'>;
+    let knowledge: KnowledgeContext | null = null;
+    let promptVersions: PromptVersionStamp | undefined;
+
     try {
-      // 构建带有Agent个性的完整提示词
-      const systemPrompt = agent.prompt || `你是${agent.name}，一个友善的AI助手。`;
-      const fullPrompt = `${systemPrompt}\n\n${prompt}`;
+      // 构建带有Agent个性的完整提示词：智能体提示词 + 挂载的模板，替换其中的变量
+      const { systemPrompt, versions } = await promptComposer.compose(agent, {
+        conversationId: input.request.conversationId,
+        sceneType: input.analysisResult.sceneType
+      });
+      promptVersions = versions;
+      knowledge = await knowledgeBase.buildPromptContext(agent.id, input.request.userMessage, signal);
+      const fullPrompt = knowledge
+        ? `${systemPrompt}\n\n${knowledge.prompt}\n\n${prompt}`
+        : `${systemPrompt}\n\n${prompt}`;
+
+      // 使用智能体自己配置的模型（含备用模型）调用
+      const allowedConfig = planQuotas.restrictModels(await this.getLLMConfig(agent.roleTag), planLimits);
+      const llmConfig = conversationBudget.applyPolicy(allowedConfig, budgetPolicy);
+      const options = {
+        onFailover: (failover: LLMFailover) => onStream?.({ type: 'llm_failover', streamId, agent: agent.name, failover })
+      };
 
-      // 使用默认LLM配置调用
-      const response = await this.callLLM(fullPrompt);
-      return response;
+      let response: LLMResponse & { toolRuns?: ToolExecutionResult[] };
+      onStream?.({ type: 'agent_start', streamId, agent: agent.name });
+      const onChunk = (chunk: LLMStreamChunk) => {
+        if (chunk.content) {
+          onStream?.({ type: 'chunk', streamId, agent: agent.name, content: chunk.content });
+        }
+      };
+
+      if (agent.tools?.length) {
+        // 启用了工具的智能体走工具调用循环，工具调用和结果同样实时转发
+        response = await Orchestrator.streamChatWithTools(
+          { ...llmConfig, signal },
+          this.buildMessages(fullPrompt, images),
+          agent.tools,
+          { conversationId: input.request.conversationId, agentId: agent.roleTag, agentName: agent.name, signal },
+          onChunk,
+          (event) => onStream?.({ type: 'tool', streamId, event }),
+          options
+        );
+      } else if (onStream) {
+        response = await this.streamLLMWithUsage(fullPrompt, llmConfig, onChunk, signal, images, options);
+      } else {
+        response = await this.callLLMWithUsage(fullPrompt, llmConfig, signal, images, options);
+      }
+      reply = {
+        content: response.content,
+        usage: response.usage,
+        cost: response.cost,
+        failovers: response.failovers,
+        toolRuns: response.toolRuns
+      };
       
     } catch (error) {
+      // 取消的请求和套餐不允许的模型不生成兜底回复；套餐不允许时告知前端，由调用方结束本轮
+      if (error instanceof PlanModelNotAllowedError) {
+        onStream?.({ type: 'quota_exceeded', streamId, agent: agent.name, error: error.message });
+      }
+      if (signal?.aborted || error instanceof PlanModelNotAllowedError) {
+        throw error;
+      }
+
       console.error(`调用Agent ${agent.name} LLM失败:`, error);
-      // 返回一个友好的错误回复
-      return `抱歉，我现在有点忙，稍后再聊吧~ 😊`;
+      // 返回一个友好的错误回复，已经输出的部分内容由它替换
+      reply = { content: `抱歉，我现在有点忙，稍后再聊吧~ 😊` };
+      knowledge = null;
+      promptVersions = undefined;
     }
+
+    const chatResponse: ChatbotResponse = {
+      agentName: agent.name,
+      ...reply,
+      timestamp: new Date(),
+      confidence,
+      ...(knowledge ? { citations: knowledgeBase.getCitedPassages(reply.content, knowledge.citations) } : {}),
+      ...(promptVersions ? { promptVersions } : {})
+    };
+
+    onStream?.({ type: 'agent_complete', streamId, response: chatResponse });
+    return chatResponse;
   }
 
   /**
@@ -6,14 +6,19 @@
  */
 
 import { BaseAgent, AgentResult, ChatbotResponse } from '../intelligent-agent-bus';
+import { BudgetPolicy } from '../conversation-budget';
+import { PlanLimits } from '../plan-quotas';
 
 export interface CreativeInput {
   request: {
     conversationId: string;
     userMessage: string;
     conversationHistory: any[];
+    signal?: AbortSignal;
+    planLimits?: PlanLimits;
   };
   analysisResult: any;
+  budgetPolicy?: BudgetPolicy; // 代替聊天机器人回复时本次调用的预算降级策略
   creativeFocus?: 'brainstorm' | 'storytelling' | 'problem_solving' | 'artistic';
 }
 
@@ -34,11 +39,19 @@ export class CreativeAgent extends BaseAgent {
       const creativeFocus = input.creativeFocus || this.detectCreativeFocus(input.request.userMessage);
       const creativePrompt = this.buildCreativePrompt(input, creativeFocus);
       
-      const response = await this.callLLM(creativePrompt);
+      // 创意回复和聊天机器人的回复一样计费，使用套餐允许的模型
+      const response = await this.callLLMWithinLimits(creativePrompt, {
+        signal: input.request.signal,
+        planLimits: input.request.planLimits,
+        budgetPolicy: input.budgetPolicy
+      });
       
       const result: ChatbotResponse = {
         agentName: '创意大师',
-        content: response,
+        content: response.content,
+        usage: response.usage,
+        cost: response.cost,
+        failovers: response.failovers,
         timestamp: new Date(),
         confidence: 0.85
       };
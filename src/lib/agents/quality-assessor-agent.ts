@@ -5,13 +5,16 @@
  * 提供改进建议和质量分数
  */
 
-import { BaseAgent, AgentResult, ChatbotResponse } from '../intelligent-agent-bus';
+import { BaseAgent, AgentResult, AgentCallLimits, ChatbotResponse } from '../intelligent-agent-bus';
+import costLedger from '../cost-ledger';
 
 export interface QualityAssessmentInput {
   originalMessage: string;
   agentResponses: ChatbotResponse[];
   sceneAnalysis: any;
   expectedOutcome?: string;
+  conversationId?: string; // 评估调用的成本计入该会话
+  limits?: AgentCallLimits;
 }
 
 export interface QualityAssessmentResult {
@@ -41,10 +44,11 @@ export class QualityAssessorAgent extends BaseAgent {
 
       // 构建评估提示词
       const assessmentPrompt = this.buildAssessmentPrompt(input);
-      const response = await this.callLLM(assessmentPrompt);
+      const response = await this.callLLMWithinLimits(assessmentPrompt, input.limits || {});
+      await costLedger.record({ source: 'quality_assessor', conversationId: input.conversationId, response });
       
       // 解析评估结果
-      const assessmentResult = this.parseAssessmentResult(response, input);
+      const assessmentResult = this.parseAssessmentResult(response.content, input);
       
       console.log(`✅ [质量评估Agent] 评估完成，总分: ${assessmentResult.overallScore}`);
       
@@ -0,0 +1,418 @@
+/**
+ * 👥 群聊配置
+ *
+ * ChatGroup 是后台预设的智能体组合，ChatGroupMember 记录成员的发言顺序（order，从1开始连续编号）和优先级（1-10）。
+ * 对话通过 Conversation.groupId 关联群聊配置后，编排器以群聊成员作为参与的智能体，续聊按群聊的停止条件进行
+ */
+
+import { ChatGroup, Prisma } from '@prisma/client';
+import prisma from './db';
+
+// ============= 类型定义 =============
+
+export type ChatGroupMode = 'smart' | 'natural' | 'fixed';
+
+export const CHAT_GROUP_MODES: ChatGroupMode[] = ['smart', 'natural', 'fixed'];
+
+export interface ChatGroupInput {
+  name?: unknown;
+  description?: unknown;
+  mode?: unknown;
+  isActive?: unknown;
+  maxRounds?: unknown;
+  maxMessages?: unknown;
+  idleSimilarity?: unknown;
+}
+
+export interface ChatGroupMemberInput {
+  agentId: string;
+  priority?: number;
+}
+
+// 后台展示用的群聊，成员按发言顺序排列
+export interface ChatGroupView {
+  id: string;
+  name: string;
+  description: string | null;
+  mode: string;
+  isActive: boolean;
+  maxRounds: number;
+  maxMessages: number;
+  idleSimilarity: number;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  conversationCount: number;
+  members: Array<{
+    id: string;
+    agentId: string;
+    agentName: string;
+    agentCode: string;
+    agentColor: string;
+    order: number;
+    priority: number;
+  }>;
+}
+
+/**
+ * 群聊配置的校验或操作失败，status 为接口应返回的状态码
+ */
+export class ChatGroupError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'ChatGroupError';
+  }
+}
+
+export const DEFAULT_MEMBER_PRIORITY = 5;
+
+// 字段取值范围
+const MAX_NAME_LENGTH = 50;
+const PRIORITY_RANGE = { min: 1, max: 10 };
+const MAX_ROUNDS_RANGE = { min: 1, max: 20 };
+const MAX_MESSAGES_RANGE = { min: 1, max: 50 };
+
+const GROUP_INCLUDE = {
+  members: {
+    include: {
+      agent: { select: { id: true, name: true, roleTag: true, color: true } }
+    },
+    orderBy: { order: 'asc' }
+  },
+  _count: { select: { conversations: true } }
+} satisfies Prisma.ChatGroupInclude;
+
+type ChatGroupWithMembers = Prisma.ChatGroupGetPayload<{ include: typeof GROUP_INCLUDE }>;
+
+// ============= 群聊配置主类 =============
+
+export class ChatGroupManager {
+  /**
+   * 所有群聊配置，最新创建的在前
+   */
+  async list(): Promise<ChatGroupView[]> {
+    const groups = await prisma.chatGroup.findMany({
+      include: GROUP_INCLUDE,
+      orderBy: { createdAt: 'desc' }
+    });
+    return groups.map(group => this.toView(group));
+  }
+
+  /**
+   * 单个群聊配置，不存在时返回 null
+   */
+  async get(groupId: string): Promise<ChatGroupView | null> {
+    const group = await prisma.chatGroup.findUnique({
+      where: { id: groupId },
+      include: GROUP_INCLUDE
+    });
+    return group ? this.toView(group) : null;
+  }
+
+  /**
+   * 创建群聊配置，成员按传入顺序发言
+   */
+  async create(userId: string, input: ChatGroupInput, members: ChatGroupMemberInput[]): Promise<ChatGroupView> {
+    const data = this.parseInput(input, true);
+    await this.validateMembers(members);
+
+    const group = await prisma.chatGroup.create({
+      data: {
+        ...data,
+        name: data.name!,
+        createdBy: userId,
+        members: {
+          create: members.map((member, index) => ({
+            agentId: member.agentId,
+            order: index + 1,
+            priority: member.priority ?? DEFAULT_MEMBER_PRIORITY
+          }))
+        }
+      },
+      include: GROUP_INCLUDE
+    });
+
+    console.log(`👥 [ChatGroupManager] 创建群聊 ${group.name}，${members.length} 个成员`);
+    return this.toView(group);
+  }
+
+  /**
+   * 更新群聊配置 - 只更新传入的字段；传入 members 时整体替换成员，已有成员未指定优先级时保留原优先级
+   */
+  async update(groupId: string, input: ChatGroupInput, members?: ChatGroupMemberInput[]): Promise<ChatGroupView> {
+    const data = this.parseInput(input, false);
+    const existing = await this.requireGroup(groupId);
+
+    if (members) {
+      await this.validateMembers(members);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.chatGroup.update({ where: { id: groupId }, data });
+
+      if (members) {
+        const priorities = new Map(existing.members.map(member => [member.agentId, member.priority]));
+        await tx.chatGroupMember.deleteMany({ where: { groupId } });
+        await tx.chatGroupMember.createMany({
+          data: members.map((member, index) => ({
+            groupId,
+            agentId: member.agentId,
+            order: index + 1,
+            priority: member.priority ?? priorities.get(member.agentId) ?? DEFAULT_MEMBER_PRIORITY
+          }))
+        });
+      }
+    });
+
+    return this.getView(groupId);
+  }
+
+  /**
+   * 删除群聊配置 - 还有对话使用时拒绝删除，可以改为停用
+   */
+  async delete(groupId: string): Promise<void> {
+    const group = await this.requireGroup(groupId);
+    if (group._count.conversations > 0) {
+      throw new ChatGroupError(`还有 ${group._count.conversations} 个对话使用这个群聊，可以先停用`, 409);
+    }
+
+    await prisma.chatGroup.delete({ where: { id: groupId } });
+    console.log(`👥 [ChatGroupManager] 删除群聊 ${group.name}`);
+  }
+
+  /**
+   * 添加成员，排在最后发言
+   */
+  async addMember(groupId: string, member: ChatGroupMemberInput): Promise<ChatGroupView> {
+    const group = await this.requireGroup(groupId);
+    await this.validateMembers([member]);
+
+    if (group.members.some(existing => existing.agentId === member.agentId)) {
+      throw new ChatGroupError('该智能体已经是群聊成员', 409);
+    }
+
+    await prisma.chatGroupMember.create({
+      data: {
+        groupId,
+        agentId: member.agentId,
+        order: group.members.length + 1,
+        priority: member.priority ?? DEFAULT_MEMBER_PRIORITY
+      }
+    });
+
+    return this.getView(groupId);
+  }
+
+  /**
+   * 修改成员的优先级
+   */
+  async updateMember(groupId: string, memberId: string, priority: unknown): Promise<ChatGroupView> {
+    const group = await this.requireGroup(groupId);
+    if (!group.members.some(member => member.id === memberId)) {
+      throw new ChatGroupError('群聊成员不存在', 404);
+    }
+
+    await prisma.chatGroupMember.update({
+      where: { id: memberId },
+      data: { priority: this.parseInteger(priority, '优先级', PRIORITY_RANGE) }
+    });
+
+    return this.getView(groupId);
+  }
+
+  /**
+   * 移除成员，之后的成员依次前移
+   */
+  async removeMember(groupId: string, memberId: string): Promise<ChatGroupView> {
+    const group = await this.requireGroup(groupId);
+    const remaining = group.members.filter(member => member.id !== memberId);
+    if (remaining.length === group.members.length) {
+      throw new ChatGroupError('群聊成员不存在', 404);
+    }
+
+    await prisma.$transaction([
+      prisma.chatGroupMember.delete({ where: { id: memberId } }),
+      ...this.renumber(remaining.map(member => member.id))
+    ]);
+
+    return this.getView(groupId);
+  }
+
+  /**
+   * 调整发言顺序 - memberIds 必须恰好包含群聊的全部成员
+   */
+  async reorderMembers(groupId: string, memberIds: unknown): Promise<ChatGroupView> {
+    const group = await this.requireGroup(groupId);
+    const current = new Set(group.members.map(member => member.id));
+
+    if (
+      !Array.isArray(memberIds) ||
+      memberIds.length !== current.size ||
+      new Set(memberIds).size !== memberIds.length ||
+      !memberIds.every(id => current.has(id))
+    ) {
+      throw new ChatGroupError('发言顺序必须包含群聊的全部成员且不能重复');
+    }
+
+    await prisma.$transaction(this.renumber(memberIds as string[]));
+    return this.getView(groupId);
+  }
+
+  /**
+   * 校验请求里的成员列表：[{agentId, priority?}] 或 agentId 数组
+   */
+  parseMembers(value: unknown): ChatGroupMemberInput[] {
+    if (!Array.isArray(value)) {
+      throw new ChatGroupError('成员列表格式不正确');
+    }
+
+    return value.map(item => {
+      const member = typeof item === 'string' ? { agentId: item } : item;
+      if (!member || typeof member.agentId !== 'string' || !member.agentId) {
+        throw new ChatGroupError('成员缺少 agentId');
+      }
+
+      return {
+        agentId: member.agentId,
+        priority: member.priority === undefined ? undefined : this.parseInteger(member.priority, '优先级', PRIORITY_RANGE)
+      };
+    });
+  }
+
+  // ============= 私有方法 =============
+
+  private async requireGroup(groupId: string): Promise<ChatGroupWithMembers> {
+    const group = await prisma.chatGroup.findUnique({
+      where: { id: groupId },
+      include: GROUP_INCLUDE
+    });
+
+    if (!group) {
+      throw new ChatGroupError('群聊不存在', 404);
+    }
+    return group;
+  }
+
+  private async getView(groupId: string): Promise<ChatGroupView> {
+    return this.toView(await this.requireGroup(groupId));
+  }
+
+  /**
+   * 成员的智能体必须存在且不重复
+   */
+  private async validateMembers(members: ChatGroupMemberInput[]): Promise<void> {
+    const agentIds = members.map(member => member.agentId);
+    if (new Set(agentIds).size !== agentIds.length) {
+      throw new ChatGroupError('同一个智能体不能重复加入群聊');
+    }
+
+    if (agentIds.length === 0) {
+      return;
+    }
+
+    const agents = await prisma.agent.findMany({
+      where: { id: { in: agentIds } },
+      select: { id: true }
+    });
+
+    if (agents.length !== agentIds.length) {
+      const found = new Set(agents.map(agent => agent.id));
+      throw new ChatGroupError(`智能体不存在: ${agentIds.filter(id => !found.has(id)).join(', ')}`);
+    }
+  }
+
+  /**
+   * 校验群聊字段，未传入的字段不出现在结果里；创建时必须有名称
+   */
+  private parseInput(input: ChatGroupInput, requireName: boolean) {
+    const data: Partial<Pick<ChatGroup, 'name' | 'description' | 'mode' | 'isActive' | 'maxRounds' | 'maxMessages' | 'idleSimilarity'>> = {};
+
+    if (input.name !== undefined || requireName) {
+      if (typeof input.name !== 'string' || !input.name.trim()) {
+        throw new ChatGroupError('群聊名称不能为空');
+      }
+      if (input.name.trim().length > MAX_NAME_LENGTH) {
+        throw new ChatGroupError(`群聊名称最多 ${MAX_NAME_LENGTH} 个字符`);
+      }
+      data.name = input.name.trim();
+    }
+
+    if (input.description !== undefined) {
+      if (input.description !== null && typeof input.description !== 'string') {
+        throw new ChatGroupError('群聊描述格式不正确');
+      }
+      data.description = input.description?.trim() || null;
+    }
+
+    if (input.mode !== undefined) {
+      if (!CHAT_GROUP_MODES.includes(input.mode as ChatGroupMode)) {
+        throw new ChatGroupError(`不支持的对话模式: ${input.mode}，支持: ${CHAT_GROUP_MODES.join(', ')}`);
+      }
+      data.mode = input.mode as ChatGroupMode;
+    }
+
+    if (input.isActive !== undefined) {
+      if (typeof input.isActive !== 'boolean') {
+        throw new ChatGroupError('isActive 必须是布尔值');
+      }
+      data.isActive = input.isActive;
+    }
+
+    if (input.maxRounds !== undefined) {
+      data.maxRounds = this.parseInteger(input.maxRounds, '续聊最多轮数', MAX_ROUNDS_RANGE);
+    }
+
+    if (input.maxMessages !== undefined) {
+      data.maxMessages = this.parseInteger(input.maxMessages, '续聊最多消息数', MAX_MESSAGES_RANGE);
+    }
+
+    if (input.idleSimilarity !== undefined) {
+      const value = Number(input.idleSimilarity);
+      if (!Number.isFinite(value) || value <= 0 || value > 1) {
+        throw new ChatGroupError('相似度阈值必须在 0 到 1 之间');
+      }
+      data.idleSimilarity = value;
+    }
+
+    return data;
+  }
+
+  private parseInteger(value: unknown, label: string, range: { min: number; max: number }): number {
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < range.min || number > range.max) {
+      throw new ChatGroupError(`${label}必须是 ${range.min}-${range.max} 之间的整数`);
+    }
+    return number;
+  }
+
+  /**
+   * 按给定顺序把成员的 order 重新编号为 1..n
+   */
+  private renumber(memberIds: string[]) {
+    return memberIds.map((id, index) => prisma.chatGroupMember.update({
+      where: { id },
+      data: { order: index + 1 }
+    }));
+  }
+
+  private toView(group: ChatGroupWithMembers): ChatGroupView {
+    const { members, _count, ...rest } = group;
+    return {
+      ...rest,
+      conversationCount: _count.conversations,
+      members: members.map(member => ({
+        id: member.id,
+        agentId: member.agentId,
+        agentName: member.agent.name,
+        agentCode: member.agent.roleTag,
+        agentColor: member.agent.color,
+        order: member.order,
+        priority: member.priority
+      }))
+    };
+  }
+}
+
+// 导出默认实例
+const chatGroupManager = new ChatGroupManager();
+export default chatGroupManager;
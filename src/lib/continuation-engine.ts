@@ -0,0 +1,175 @@
+/**
+ * 🔁 续聊引擎
+ *
+ * 决定AI之间继续聊天时每一轮由谁发言、什么时候停下：
+ * 每轮的发言成员按群聊的调度模式决定（见 participation-policy），达到群聊配置的最大轮数、最大消息数，
+ * 或者一整轮都没有新内容（回复与之前的发言过于相似）时停止
+ */
+
+import { ChatGroup } from '@prisma/client';
+import { ChatGroupMode } from './chat-groups';
+import participationPolicy, { DEFAULT_GROUP_MODE, GroupParticipant } from './participation-policy';
+
+// ============= 类型定义 =============
+
+export type ContinuationSettings = Pick<ChatGroup, 'maxRounds' | 'maxMessages' | 'idleSimilarity'>;
+
+export type ContinuationStopReason = 'max_rounds' | 'max_messages' | 'idle' | 'budget' | 'cancelled';
+
+export interface ContinuationStoppedEvent {
+  type: 'continuation_stopped';
+  reason: ContinuationStopReason;
+  rounds: number;
+  messages: number;
+}
+
+// 与 ChatGroup 字段的默认值一致，没有群聊配置的对话使用
+export const DEFAULT_CONTINUATION_SETTINGS: ContinuationSettings = {
+  maxRounds: 3,
+  maxMessages: 8,
+  idleSimilarity: 0.6
+};
+
+// 相似度比较时忽略的字符：空白、标点和常见表情
+const IGNORED_CHARS = /[\s!-\/:-@[-`{-~\u2000-\u206f\u2600-\u27bf\u3000-\u303f\uff00-\uff0f\uff1a-\uff20\uff3b-\uff40\uff5b-\uff65\ud800-\udfff]/g;
+
+// ============= 续聊引擎主类 =============
+
+export class ContinuationEngine {
+  /**
+   * 获取群聊的续聊配置
+   */
+  getSettings(group?: Partial<ContinuationSettings> | null): ContinuationSettings {
+    return {
+      maxRounds: group?.maxRounds ?? DEFAULT_CONTINUATION_SETTINGS.maxRounds,
+      maxMessages: group?.maxMessages ?? DEFAULT_CONTINUATION_SETTINGS.maxMessages,
+      idleSimilarity: group?.idleSimilarity ?? DEFAULT_CONTINUATION_SETTINGS.idleSimilarity
+    };
+  }
+
+  /**
+   * 本轮发言的成员 - 按群聊的调度模式排列：smart 按发言顺序轮流，第 round 轮从第 round 个成员开场；
+   * fixed 每轮都按发言顺序；natural 按优先级随机抽取发言的成员。
+   * forcedAgents（被点名的成员）排在最前，exclusive 为 true 时只有它们发言；已经没有新内容的成员不再发言
+   */
+  planRound<T extends GroupParticipant>(
+    agents: T[],
+    round: number,
+    forcedAgents: T[] = [],
+    exclusive: boolean = false,
+    idleAgents: Set<T> = new Set(),
+    mode: ChatGroupMode = DEFAULT_GROUP_MODE,
+    random: () => number = Math.random
+  ): T[] {
+    if (exclusive) {
+      return forcedAgents;
+    }
+
+    const candidates = agents.filter(agent => !forcedAgents.includes(agent) && !idleAgents.has(agent));
+    let ordered: T[];
+
+    switch (mode) {
+      case 'fixed':
+        ordered = candidates;
+        break;
+      case 'natural':
+        ordered = candidates.length > 0 ? participationPolicy.drawSpeakers(candidates, random) : [];
+        break;
+      default: {
+        const offset = agents.length > 0 ? (round - 1) % agents.length : 0;
+        const rotated = [...agents.slice(offset), ...agents.slice(0, offset)];
+        ordered = rotated.filter(agent => candidates.includes(agent));
+      }
+    }
+
+    return [...forcedAgents, ...ordered];
+  }
+
+  /**
+   * 检查是否还能继续，返回停止原因；可以继续时返回 null
+   */
+  shouldStop(settings: ContinuationSettings, completedRounds: number, messageCount: number): ContinuationStopReason | null {
+    if (messageCount >= settings.maxMessages) {
+      return 'max_messages';
+    }
+
+    if (completedRounds >= settings.maxRounds) {
+      return 'max_rounds';
+    }
+
+    return null;
+  }
+
+  /**
+   * 回复是否没有新内容 - 与之前任意一条发言的相似度达到阈值
+   */
+  isIdle(reply: string, previousTurns: string[], settings: ContinuationSettings): boolean {
+    if (!this.normalize(reply)) {
+      return true;
+    }
+
+    return previousTurns.some(turn => this.similarity(reply, turn) >= settings.idleSimilarity);
+  }
+
+  /**
+   * 两段文本的相似度（0-1）- 字符二元组的 Dice 系数，中文不需要分词
+   */
+  similarity(a: string, b: string): number {
+    const bigramsA = this.getBigrams(a);
+    const bigramsB = this.getBigrams(b);
+    const total = this.countBigrams(bigramsA) + this.countBigrams(bigramsB);
+
+    if (total === 0) {
+      return 0;
+    }
+
+    let overlap = 0;
+    for (const [bigram, count] of bigramsA) {
+      overlap += Math.min(count, bigramsB.get(bigram) || 0);
+    }
+
+    return (2 * overlap) / total;
+  }
+
+  /**
+   * 构建 continuation_stopped 事件
+   */
+  toStoppedEvent(reason: ContinuationStopReason, rounds: number, messages: number): ContinuationStoppedEvent {
+    return { type: 'continuation_stopped', reason, rounds, messages };
+  }
+
+  // ============= 私有方法 =============
+
+  private normalize(text: string): string {
+    return text.toLowerCase().replace(IGNORED_CHARS, '');
+  }
+
+  private getBigrams(text: string): Map<string, number> {
+    const chars = Array.from(this.normalize(text));
+    const bigrams = new Map<string, number>();
+
+    // 只有一个字符时按单字比较
+    if (chars.length === 1) {
+      bigrams.set(chars[0], 1);
+    }
+
+    for (let i = 0; i < chars.length - 1; i++) {
+      const bigram = chars[i] + chars[i + 1];
+      bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+
+    return bigrams;
+  }
+
+  private countBigrams(bigrams: Map<string, number>): number {
+    let count = 0;
+    for (const value of bigrams.values()) {
+      count += value;
+    }
+    return count;
+  }
+}
+
+// 导出默认实例
+const continuationEngine = new ContinuationEngine();
+export default continuationEngine;
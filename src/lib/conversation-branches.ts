@@ -0,0 +1,297 @@
+/**
+ * 🌿 对话分支
+ *
+ * 消息只追加、不修改。重新生成回复、编辑后重新发送都会从某条消息之后开出新分支，原来的时间线保留下来，随时可以切换回去。
+ * Message.branchId 标记消息所在的分支，parentId 是时间线上的前一条消息，分支第一条消息的 parentId 就是分叉点
+ * （为空表示从对话开头分叉）。分支的时间线 = 父分支截至分叉点的消息 + 本分支的消息。
+ * Conversation.activeBranchId 是当前显示和继续聊天的分支，activeLeafId 是新消息要接在后面的那条消息
+ */
+
+import { Message, Prisma } from '@prisma/client';
+import prisma from './db';
+
+// ============= 类型定义 =============
+
+// 时间线上某个位置可以切换的几个分支，按创建顺序排列
+export interface BranchVariants {
+  branchIds: string[];
+  current: number; // 当前显示的是第几个（从0开始）
+}
+
+export type TimelineMessage = Message & { variants?: BranchVariants };
+
+export interface BranchFork {
+  branchId: string;
+  previousBranchId: string; // 分叉前的分支，新分支没有产生消息时切换回去
+}
+
+export interface TimelinePosition {
+  message: Message;
+  previous: Message | null; // 时间线上的前一条消息
+  roundMessage: Message | null; // 这条消息所在轮次的用户消息
+}
+
+// 分支嵌套的最大层数，防止异常数据造成死循环
+const MAX_BRANCH_DEPTH = 200;
+
+// ============= 分支主类 =============
+
+export class ConversationBranches {
+  /**
+   * 追加一条消息到当前分支 - 所有消息都通过这里保存，才能接到正确的时间线上
+   */
+  async append(data: Prisma.MessageUncheckedCreateInput): Promise<Message> {
+    return prisma.$transaction(async (tx) => {
+      const conversation = await tx.conversation.findUnique({
+        where: { id: data.convId },
+        select: { activeBranchId: true, activeLeafId: true }
+      });
+
+      if (!conversation) {
+        throw new Error('Conversation not found');
+      }
+
+      let parentId = conversation.activeLeafId;
+      if (!parentId) {
+        // 分支功能之前的对话没有记录最后一条消息
+        const last = await tx.message.findFirst({
+          where: { convId: data.convId, branchId: conversation.activeBranchId },
+          orderBy: { createdAt: 'desc' },
+          select: { id: true }
+        });
+        parentId = last?.id ?? null;
+      }
+
+      const message = await tx.message.create({
+        data: { ...data, branchId: conversation.activeBranchId, parentId }
+      });
+
+      await tx.conversation.update({
+        where: { id: data.convId },
+        data: { activeLeafId: message.id }
+      });
+
+      return message;
+    });
+  }
+
+  /**
+   * 当前分支（或指定分支）的时间线，按时间正序
+   */
+  async getTimeline(conversationId: string, branchId?: string): Promise<Message[]> {
+    const { conversation, messages } = await this.load(conversationId);
+    return this.resolve(messages, branchId ?? conversation.activeBranchId, conversation.activeLeafId);
+  }
+
+  /**
+   * 当前分支的时间线，有其他分支可以切换的位置附带 variants
+   */
+  async getTimelineWithVariants(conversationId: string): Promise<TimelineMessage[]> {
+    const { conversation, messages } = await this.load(conversationId);
+    const timeline = this.resolve(messages, conversation.activeBranchId, conversation.activeLeafId);
+    const firstMessages = this.getFirstMessages(messages);
+
+    return timeline.map((message, i) => {
+      const previous = i > 0 ? timeline[i - 1] : null;
+      const options: Message[] = [];
+
+      // 前一条消息所在分支在它之后的消息
+      if (previous) {
+        const next = messages.find(msg => msg.branchId === previous.branchId && msg.createdAt > previous.createdAt);
+        if (next) options.push(next);
+      }
+
+      // 从前一条消息之后分出去的分支
+      for (const first of firstMessages.values()) {
+        if (first.parentId === (previous?.id ?? null) && !options.includes(first)) {
+          options.push(first);
+        }
+      }
+
+      if (options.length < 2) {
+        return message;
+      }
+
+      options.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      return {
+        ...message,
+        variants: {
+          branchIds: options.map(option => option.branchId),
+          current: options.findIndex(option => option.branchId === message.branchId)
+        }
+      };
+    });
+  }
+
+  /**
+   * 在当前时间线上定位消息，不在当前时间线上时返回 null
+   */
+  async findInTimeline(conversationId: string, messageId: string): Promise<TimelinePosition | null> {
+    const timeline = await this.getTimeline(conversationId);
+    const index = timeline.findIndex(msg => msg.id === messageId);
+    if (index < 0) {
+      return null;
+    }
+
+    const roundMessage = timeline.slice(0, index + 1).reverse().find(msg => msg.role === 'user') || null;
+    return {
+      message: timeline[index],
+      previous: index > 0 ? timeline[index - 1] : null,
+      roundMessage
+    };
+  }
+
+  /**
+   * 从当前时间线的某条消息之后开出新分支并切换过去（afterMessageId 为 null 时从对话开头分叉）。
+   * 新分支的消息在之后追加时产生；摘要覆盖了分叉点之后的消息时清空摘要
+   */
+  async fork(conversationId: string, afterMessageId: string | null): Promise<BranchFork> {
+    const { conversation, messages } = await this.load(conversationId);
+    const forkPoint = afterMessageId ? messages.find(msg => msg.id === afterMessageId) : null;
+    if (afterMessageId && !forkPoint) {
+      throw new Error('分叉的消息不存在');
+    }
+
+    const branchId = `branch-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+    await prisma.conversation.update({
+      where: { id: conversationId },
+      data: {
+        activeBranchId: branchId,
+        activeLeafId: afterMessageId,
+        ...this.staleSummaryReset(conversation.summarizedUntil, forkPoint || null)
+      }
+    });
+
+    console.log(`🌿 [ConversationBranches] 对话 ${conversationId} 在 ${afterMessageId || '开头'} 之后开出分支 ${branchId}`);
+    return { branchId, previousBranchId: conversation.activeBranchId };
+  }
+
+  /**
+   * 新分支没有产生任何消息（生成失败或被取消）时切换回分叉前的分支，返回是否切换
+   */
+  async abandonIfEmpty(conversationId: string, fork: BranchFork): Promise<boolean> {
+    const hasMessages = await prisma.message.findFirst({
+      where: { convId: conversationId, branchId: fork.branchId },
+      select: { id: true }
+    });
+
+    if (hasMessages) {
+      return false;
+    }
+
+    const previousLeaf = await prisma.message.findFirst({
+      where: { convId: conversationId, branchId: fork.previousBranchId },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true }
+    });
+
+    // 只在还停留在这个空分支上时切换，期间用户已经切换过分支时不动
+    const result = await prisma.conversation.updateMany({
+      where: { id: conversationId, activeBranchId: fork.branchId },
+      data: { activeBranchId: fork.previousBranchId, activeLeafId: previousLeaf?.id ?? null }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * 切换到已有的分支，分支不存在时返回 false
+   */
+  async switchTo(conversationId: string, branchId: string): Promise<boolean> {
+    const { conversation, messages } = await this.load(conversationId);
+    const branchMessages = messages.filter(msg => msg.branchId === branchId);
+    if (branchMessages.length === 0) {
+      return false;
+    }
+
+    // 两条时间线共同的最后一条消息，摘要不能超过它
+    const current = this.resolve(messages, conversation.activeBranchId, conversation.activeLeafId);
+    const target = this.resolve(messages, branchId, null);
+    let common: Message | null = null;
+    for (let i = 0; i < Math.min(current.length, target.length) && current[i].id === target[i].id; i++) {
+      common = current[i];
+    }
+
+    await prisma.conversation.update({
+      where: { id: conversationId },
+      data: {
+        activeBranchId: branchId,
+        activeLeafId: branchMessages[branchMessages.length - 1].id,
+        ...this.staleSummaryReset(conversation.summarizedUntil, common)
+      }
+    });
+
+    console.log(`🌿 [ConversationBranches] 对话 ${conversationId} 切换到分支 ${branchId}`);
+    return true;
+  }
+
+  // ============= 私有方法 =============
+
+  private async load(conversationId: string) {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: { activeBranchId: true, activeLeafId: true, summarizedUntil: true }
+    });
+
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+
+    const messages = await prisma.message.findMany({
+      where: { convId: conversationId },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return { conversation, messages };
+  }
+
+  /**
+   * 拼出分支的时间线：从分支本身往上找分叉点，每一层取父分支截至分叉点的消息。
+   * 还没有消息的新分支以 pendingForkId（Conversation.activeLeafId）为分叉点
+   */
+  private resolve(messages: Message[], branchId: string, pendingForkId: string | null): Message[] {
+    const segments: Message[][] = [];
+    let branch: string | null = branchId;
+    let forkPoint: Message | null = null;
+
+    for (let depth = 0; branch && depth < MAX_BRANCH_DEPTH; depth++) {
+      const own: Message[] = messages.filter(msg => msg.branchId === branch);
+      segments.unshift(forkPoint ? own.slice(0, own.indexOf(forkPoint) + 1) : own);
+
+      const parentId: string | null = own.length > 0
+        ? own[0].parentId
+        : (branch === branchId ? pendingForkId : null);
+      forkPoint = parentId ? messages.find(msg => msg.id === parentId) || null : null;
+      branch = forkPoint ? forkPoint.branchId : null;
+    }
+
+    return segments.flat();
+  }
+
+  /**
+   * 每个分支的第一条消息
+   */
+  private getFirstMessages(messages: Message[]): Map<string, Message> {
+    const firstMessages = new Map<string, Message>();
+    for (const msg of messages) {
+      if (!firstMessages.has(msg.branchId)) {
+        firstMessages.set(msg.branchId, msg);
+      }
+    }
+    return firstMessages;
+  }
+
+  /**
+   * 摘要覆盖到了新时间线上没有的消息时清空摘要，下次构建提示词时按新时间线重新摘要
+   */
+  private staleSummaryReset(summarizedUntil: Date | null, common: Message | null) {
+    if (!summarizedUntil || (common && summarizedUntil <= common.createdAt)) {
+      return {};
+    }
+    return { summary: null, summarizedUntil: null };
+  }
+}
+
+// 导出默认实例
+const conversationBranches = new ConversationBranches();
+export default conversationBranches;
@@ -0,0 +1,229 @@
+/**
+ * 💳 会话预算
+ *
+ * Conversation.budgetCents 是会话的花费上限，已花费金额以成本账本为准。
+ * 编排器每次调用智能体前检查预算：余额不足时逐级降级（减少发言的智能体、
+ * 改用更便宜的备用模型、缩短回复），用完后停止调用并发送 budget_exceeded 事件
+ */
+
+import { LLMConfig } from '@/types/llm';
+import costLedger, { calculateCostMicroCents, MICRO_CENTS_PER_CENT } from './cost-ledger';
+import prisma from './db';
+
+// ============= 类型定义 =============
+
+export type BudgetLevel = 'normal' | 'low' | 'critical' | 'exceeded';
+
+export interface BudgetStatus {
+  conversationId: string;
+  budgetCents: number;
+  spentMicroCents: number;
+  remainingMicroCents: number;
+  level: BudgetLevel;
+}
+
+export interface BudgetPolicy {
+  maxAgents?: number; // 本轮最多发言的智能体数
+  maxTokens?: number; // 单次回复的 maxTokens 上限
+  preferCheapestModel: boolean; // 在主模型和备用模型中选用最便宜的
+}
+
+export type BudgetCheck =
+  | { allowed: true; status: BudgetStatus; policy: BudgetPolicy }
+  | { allowed: false; status: BudgetStatus; reason: 'exceeded' | 'agent_limit' };
+
+export type BudgetExceededEvent = {
+  type: 'budget_exceeded';
+  conversationId: string;
+  budgetCents: number;
+  spentCents: number;
+};
+
+// 剩余预算占比低于阈值时进入对应的降级等级
+const LOW_BUDGET_RATIO = 0.3;
+const CRITICAL_BUDGET_RATIO = 0.1;
+
+const BUDGET_POLICIES: Record<Exclude<BudgetLevel, 'exceeded'>, BudgetPolicy> = {
+  normal: { preferCheapestModel: false },
+  low: { maxAgents: 2, maxTokens: 400, preferCheapestModel: true },
+  critical: { maxAgents: 1, maxTokens: 150, preferCheapestModel: true }
+};
+
+export const MAX_BUDGET_CENTS = 100000; // 单个会话最多 $1000
+
+// ============= 预算主类 =============
+
+export class ConversationBudget {
+  /**
+   * 获取会话当前的预算状态
+   */
+  async getStatus(conversationId: string): Promise<BudgetStatus> {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: { budgetCents: true }
+    });
+
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+
+    const spentMicroCents = await costLedger.getConversationCost(conversationId);
+    return this.buildStatus(conversationId, conversation.budgetCents, spentMicroCents);
+  }
+
+  /**
+   * 调用智能体前检查预算
+   * @param agentsCalled 本轮已经调用过的智能体数，超过降级策略允许的数量时不再调用
+   */
+  async check(conversationId: string, agentsCalled: number = 0): Promise<BudgetCheck> {
+    const status = await this.getStatus(conversationId);
+
+    if (status.level === 'exceeded') {
+      console.warn(`💳 [ConversationBudget] 会话 ${conversationId} 预算已用完 (${this.formatUSD(status.spentMicroCents)} / $${(status.budgetCents / 100).toFixed(2)})`);
+      return { allowed: false, status, reason: 'exceeded' };
+    }
+
+    const policy = BUDGET_POLICIES[status.level];
+    if (policy.maxAgents !== undefined && agentsCalled >= policy.maxAgents) {
+      console.log(`💳 [ConversationBudget] 会话 ${conversationId} 预算不足，本轮只保留 ${policy.maxAgents} 个智能体发言`);
+      return { allowed: false, status, reason: 'agent_limit' };
+    }
+
+    return { allowed: true, status, policy };
+  }
+
+  /**
+   * 编排器调用智能体前的预算检查 - 返回本次调用的降级策略；不能再调用时返回 null，
+   * 预算用完时通过 onEvent 发送 budget_exceeded 事件
+   */
+  async checkBeforeCall(
+    conversationId: string,
+    agentsCalled: number = 0,
+    onEvent?: (event: BudgetExceededEvent) => void
+  ): Promise<BudgetPolicy | null> {
+    const budget = await this.check(conversationId, agentsCalled);
+    if (budget.allowed) {
+      return budget.policy;
+    }
+
+    if (budget.reason === 'exceeded') {
+      onEvent?.(this.toExceededEvent(budget.status));
+    }
+    return null;
+  }
+
+  /**
+   * 按降级策略调整模型配置 - 换用最便宜的模型（其余模型仍作为备用），并限制 maxTokens
+   */
+  applyPolicy(config: LLMConfig, policy: BudgetPolicy): LLMConfig {
+    let result = config;
+
+    if (policy.preferCheapestModel && config.fallbacks?.length) {
+      const { fallbacks, ...primary } = config;
+      const chain: LLMConfig[] = [primary, ...fallbacks];
+      const cheapest = chain.reduce((best, candidate) =>
+        this.getUnitCost(candidate) < this.getUnitCost(best) ? candidate : best
+      );
+
+      if (cheapest !== primary) {
+        console.log(`💳 [ConversationBudget] 预算不足，改用更便宜的模型 ${cheapest.provider}/${cheapest.model}`);
+        result = {
+          ...cheapest,
+          signal: config.signal,
+          fallbacks: chain.filter(candidate => candidate !== cheapest)
+        };
+      }
+    }
+
+    if (policy.maxTokens !== undefined) {
+      const maxTokens = policy.maxTokens;
+      const clamp = (candidate: LLMConfig): LLMConfig => ({
+        ...candidate,
+        maxTokens: Math.min(candidate.maxTokens ?? maxTokens, maxTokens)
+      });
+      result = { ...clamp(result), fallbacks: result.fallbacks?.map(clamp) };
+    }
+
+    return result;
+  }
+
+  /**
+   * 修改预算上限，返回修改后的状态
+   */
+  async setBudget(conversationId: string, budgetCents: number): Promise<BudgetStatus> {
+    const conversation = await prisma.conversation.update({
+      where: { id: conversationId },
+      data: { budgetCents },
+      select: { budgetCents: true }
+    });
+
+    console.log(`💳 [ConversationBudget] 会话 ${conversationId} 预算调整为 $${(budgetCents / 100).toFixed(2)}`);
+
+    const spentMicroCents = await costLedger.getConversationCost(conversationId);
+    return this.buildStatus(conversationId, conversation.budgetCents, spentMicroCents);
+  }
+
+  /**
+   * 验证预算金额（美分），返回错误信息；合法时返回 null
+   */
+  validateBudgetCents(value: unknown): string | null {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+      return '预算金额必须是正整数（美分）';
+    }
+
+    if (value > MAX_BUDGET_CENTS) {
+      return `预算不能超过 $${MAX_BUDGET_CENTS / 100}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * 构建 budget_exceeded 事件
+   */
+  toExceededEvent(status: BudgetStatus): BudgetExceededEvent {
+    return {
+      type: 'budget_exceeded',
+      conversationId: status.conversationId,
+      budgetCents: status.budgetCents,
+      spentCents: status.spentMicroCents / MICRO_CENTS_PER_CENT
+    };
+  }
+
+  // ============= 私有方法 =============
+
+  private buildStatus(conversationId: string, budgetCents: number, spentMicroCents: number): BudgetStatus {
+    const budgetMicroCents = budgetCents * MICRO_CENTS_PER_CENT;
+    const remainingMicroCents = Math.max(budgetMicroCents - spentMicroCents, 0);
+    const remainingRatio = budgetMicroCents > 0 ? remainingMicroCents / budgetMicroCents : 0;
+
+    let level: BudgetLevel = 'normal';
+    if (remainingMicroCents <= 0) {
+      level = 'exceeded';
+    } else if (remainingRatio < CRITICAL_BUDGET_RATIO) {
+      level = 'critical';
+    } else if (remainingRatio < LOW_BUDGET_RATIO) {
+      level = 'low';
+    }
+
+    return { conversationId, budgetCents, spentMicroCents, remainingMicroCents, level };
+  }
+
+  /**
+   * 模型的参考单价（1000输入 + 1000输出token），未配置价格的模型视为最贵
+   */
+  private getUnitCost(config: LLMConfig): number {
+    if (!config.pricing) {
+      return Infinity;
+    }
+    return calculateCostMicroCents({ promptTokens: 1000, completionTokens: 1000, totalTokens: 2000 }, config.pricing);
+  }
+
+  private formatUSD(microCents: number): string {
+    return `$${(microCents / MICRO_CENTS_PER_CENT / 100).toFixed(4)}`;
+  }
+}
+
+// 导出默认实例
+const conversationBudget = new ConversationBudget();
+export default conversationBudget;
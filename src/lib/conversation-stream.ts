@@ -0,0 +1,102 @@
+/**
+ * 📡 对话的 SSE 响应
+ *
+ * 发消息（stream）、重新生成（regenerate）、继续聊天（continue）接口共用：检查用户的套餐额度，
+ * 把编排器的事件逐条写成 SSE，客户端断开时中止生成，处理失败时发送失败事件
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import planQuotas, { PlanLimits } from './plan-quotas';
+
+// ============= 类型定义 =============
+
+export type ConversationEvent = Record<string, unknown>;
+
+export interface ConversationStreamOptions {
+  conversationId: string;
+  userId: string; // 对话所属的用户，按该用户的套餐检查额度
+  label: string; // 日志中的接口名称，如 流式API
+  failureType: string; // 处理失败时发送的事件类型
+  run: (onEvent: (event: ConversationEvent) => void, signal: AbortSignal, planLimits: PlanLimits) => Promise<void>;
+}
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+};
+
+// ============= SSE 响应 =============
+
+/**
+ * 创建对话的 SSE 响应 - 额度用完时只发送一条 quota_exceeded 事件（EventSource 读不到错误响应的内容），
+ * 否则由 run 生成事件，事件没有时间戳时补上
+ */
+export async function createConversationStream(
+  request: NextRequest,
+  { conversationId, userId, label, failureType, run }: ConversationStreamOptions
+): Promise<NextResponse> {
+  const quota = await planQuotas.check(userId);
+  if (!quota.allowed) {
+    const event = { ...planQuotas.toExceededEvent(quota.exceeded, quota.message), timestamp: new Date() };
+    return new NextResponse(formatEvent(event), { headers: SSE_HEADERS });
+  }
+
+  // 客户端断开连接（关闭页面、EventSource.close）时中止生成
+  const disconnect = new AbortController();
+  request.signal.addEventListener('abort', () => disconnect.abort(), { once: true });
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const onEvent = (event: ConversationEvent) => {
+        try {
+          // 模型输出的数据块数量很多，不逐条记录
+          if (event.type !== 'chunk') {
+            console.log(`📡 [${label}] 发送事件: ${event.type}`, event.agent || '');
+          }
+
+          controller.enqueue(formatEvent({ ...event, timestamp: event.timestamp || new Date() }));
+
+        } catch (error) {
+          console.error(`❌ [${label}] 发送事件失败:`, error);
+        }
+      };
+
+      try {
+        await run(onEvent, disconnect.signal, quota.limits);
+        console.log(`✅ [${label}] 处理完成: ${conversationId}`);
+
+      } catch (error) {
+        console.error(`❌ [${label}] 处理失败:`, error);
+        if (!disconnect.signal.aborted) {
+          controller.enqueue(formatEvent({
+            type: failureType,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            timestamp: new Date(),
+          }));
+        }
+      } finally {
+        // 客户端断开后流已被取消，不能再关闭
+        if (!disconnect.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      console.log(`🔌 [${label}] 客户端已断开: ${conversationId}`);
+      disconnect.abort();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      ...SSE_HEADERS,
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Cache-Control',
+    },
+  });
+}
+
+function formatEvent(event: ConversationEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
@@ -0,0 +1,231 @@
+/**
+ * 📝 对话摘要
+ *
+ * 长对话的历史不能整段拼进提示词。未摘要的消息估算超过模型上下文长度（LLMModel.contextLength）的一半时，
+ * 把较早的消息连同已有摘要压缩成新的摘要存到 Conversation.summary，summarizedUntil 记录摘要覆盖到的位置；
+ * 构建提示词时使用"摘要 + 最近的消息"。历史只取当前分支的时间线
+ */
+
+import { LLMConfig, LLMMessage } from '@/types/llm';
+import llmService from './llm-service';
+import LLMConfigManager from './llm-config';
+import costLedger from './cost-ledger';
+import conversationBranches from './conversation-branches';
+import prisma from './db';
+
+// ============= 类型定义 =============
+
+export interface HistoryMessage {
+  id?: string;
+  role: string;
+  content: string;
+  step?: string | null; // AI消息为智能体名称
+  attachments?: string[];
+  createdAt: Date;
+}
+
+export interface ConversationContext {
+  summary: string | null;
+  recentMessages: HistoryMessage[];
+}
+
+// 模型没有配置上下文长度时使用（与后台新建模型的默认值一致）
+const DEFAULT_CONTEXT_LENGTH = 4000;
+
+// 未摘要的历史超过上下文长度的这个比例时开始摘要
+const SUMMARY_TRIGGER_RATIO = 0.5;
+
+// 摘要后原样保留的最近消息占上下文长度的比例
+const RECENT_RATIO = 0.25;
+
+// 至少原样保留的最近消息数
+const MIN_RECENT_MESSAGES = 4;
+
+// 一次摘要调用输入的历史占上下文长度的比例，更早的历史很长时分多次摘要
+const SUMMARY_INPUT_RATIO = 0.5;
+
+// 单次请求最多摘要的次数，剩余的历史留给之后的请求
+const MAX_SUMMARY_PASSES = 3;
+
+const SUMMARY_MAX_TOKENS = 600;
+
+const SUMMARY_PROMPT = `你负责为一个用户和多位AI朋友的群聊写摘要。根据已有摘要和新的聊天记录，写出更新后的完整摘要：
+- 保留用户透露的重要信息、讨论过的话题和得出的结论、还没解决的问题
+- 简要记录各位AI朋友的主要观点，标明是谁说的
+- 删掉寒暄和重复的内容
+用中文写成一段，不超过400字，只输出摘要本身。`;
+
+// ============= 摘要主类 =============
+
+export class ConversationSummarizer {
+  /**
+   * 获取构建提示词用的历史 - 未摘要的历史过长时先更新摘要
+   * llmConfig 用于确定上下文长度和摘要使用的模型，未传入时使用默认配置
+   */
+  async getContext(conversationId: string, llmConfig?: LLMConfig): Promise<ConversationContext> {
+    const config = llmConfig || await LLMConfigManager.getConfig();
+    const contextLength = config.contextLength || DEFAULT_CONTEXT_LENGTH;
+
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: { summary: true, summarizedUntil: true }
+    });
+
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+
+    let summary = conversation.summary;
+    let summarizedUntil = conversation.summarizedUntil;
+    let messages: HistoryMessage[] = (await conversationBranches.getTimeline(conversationId))
+      .filter(msg => !summarizedUntil || msg.createdAt > summarizedUntil);
+
+    if (this.estimateMessagesTokens(messages) + this.estimateTokens(summary || '') <= contextLength * SUMMARY_TRIGGER_RATIO) {
+      return { summary, recentMessages: messages };
+    }
+
+    const recentCount = this.countRecentMessages(messages, contextLength * RECENT_RATIO);
+    let older = messages.slice(0, messages.length - recentCount);
+    messages = messages.slice(messages.length - recentCount);
+
+    try {
+      for (let pass = 0; pass < MAX_SUMMARY_PASSES && older.length > 0; pass++) {
+        const chunk = this.takeChunk(older, contextLength * SUMMARY_INPUT_RATIO);
+        summary = await this.summarize(conversationId, summary, chunk, config);
+        summarizedUntil = chunk[chunk.length - 1].createdAt;
+        older = older.slice(chunk.length);
+      }
+
+      // 只在摘要位置没被并发的请求更新过时保存
+      await prisma.conversation.updateMany({
+        where: { id: conversationId, summarizedUntil: conversation.summarizedUntil },
+        data: { summary, summarizedUntil }
+      });
+
+      console.log(`📝 [ConversationSummarizer] 对话 ${conversationId} 的摘要已更新，保留最近 ${messages.length} 条消息`);
+    } catch (error) {
+      // 摘要失败时丢弃较早的历史，不影响本次回复
+      console.error('❌ [ConversationSummarizer] 更新摘要失败:', error);
+    }
+
+    if (older.length > 0) {
+      console.warn(`⚠️ [ConversationSummarizer] 还有 ${older.length} 条较早的消息未摘要，本次不放进提示词`);
+    }
+
+    return { summary, recentMessages: messages };
+  }
+
+  /**
+   * 构建提示词用的历史文本 - 当前消息已经保存时传入 currentMessage，避免重复出现在历史里
+   */
+  async buildPromptHistory(conversationId: string, currentMessage?: string, llmConfig?: LLMConfig): Promise<string> {
+    const context = await this.getContext(conversationId, llmConfig);
+    const last = context.recentMessages[context.recentMessages.length - 1];
+    const recentMessages = last && last.role === 'user' && last.content === currentMessage
+      ? context.recentMessages.slice(0, -1)
+      : context.recentMessages;
+
+    return this.format({ summary: context.summary, recentMessages });
+  }
+
+  /**
+   * 历史文本：摘要在前，最近的消息在后，没有历史时为空字符串
+   */
+  format(context: ConversationContext): string {
+    const sections: string[] = [];
+
+    if (context.summary) {
+      sections.push(`【之前聊天的摘要】\n${context.summary}`);
+    }
+
+    if (context.recentMessages.length > 0) {
+      sections.push(`【最近的聊天】\n${context.recentMessages.map(msg => this.formatMessage(msg)).join('\n')}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * 估算文本的token数 - 中日韩字符按每字1个，其他字符按每4个1个
+   */
+  estimateTokens(text: string): number {
+    const cjk = (text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g) || []).length;
+    return cjk + Math.ceil((text.length - cjk) / 4);
+  }
+
+  // ============= 私有方法 =============
+
+  private formatMessage(msg: HistoryMessage): string {
+    // 历史中的图片只保留文字标记
+    const images = msg.attachments?.length ? ` [图片×${msg.attachments.length}]` : '';
+    return `${msg.role === 'user' ? '用户' : msg.step || 'AI'}: ${msg.content}${images}`;
+  }
+
+  private estimateMessagesTokens(messages: HistoryMessage[]): number {
+    return messages.reduce((total, msg) => total + this.estimateTokens(this.formatMessage(msg)), 0);
+  }
+
+  /**
+   * 从最新的消息往前数，在预算内原样保留的消息数（至少 MIN_RECENT_MESSAGES 条）
+   */
+  private countRecentMessages(messages: HistoryMessage[], budget: number): number {
+    let tokens = 0;
+    let count = 0;
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+      tokens += this.estimateTokens(this.formatMessage(messages[i]));
+      if (tokens > budget && count >= MIN_RECENT_MESSAGES) break;
+      count++;
+    }
+
+    return count;
+  }
+
+  /**
+   * 取出一次摘要调用的消息（至少一条）
+   */
+  private takeChunk(messages: HistoryMessage[], budget: number): HistoryMessage[] {
+    let tokens = 0;
+    let count = 0;
+
+    for (const msg of messages) {
+      tokens += this.estimateTokens(this.formatMessage(msg));
+      if (tokens > budget && count > 0) break;
+      count++;
+    }
+
+    return messages.slice(0, count);
+  }
+
+  private async summarize(
+    conversationId: string,
+    previousSummary: string | null,
+    messages: HistoryMessage[],
+    llmConfig: LLMConfig
+  ): Promise<string> {
+    const prompt: LLMMessage[] = [
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: `【已有摘要】\n${previousSummary || '无'}\n\n【新的聊天记录】\n${messages.map(msg => this.formatMessage(msg)).join('\n')}`
+      }
+    ];
+
+    const response = await llmService.chat(
+      { ...llmConfig, tools: undefined, temperature: 0.3, maxTokens: SUMMARY_MAX_TOKENS },
+      prompt
+    );
+    await costLedger.record({ source: 'conversation_summary', conversationId, response });
+
+    const summary = response.content.trim();
+    if (!summary) {
+      throw new Error('摘要结果为空');
+    }
+
+    return summary;
+  }
+}
+
+// 导出默认实例
+const conversationSummarizer = new ConversationSummarizer();
+export default conversationSummarizer;
@@ -0,0 +1,142 @@
+/**
+ * 💰 成本账本
+ *
+ * 按 LLMModel.pricing 为每次模型调用计价（输入、缓存命中的输入、输出分别计价），
+ * 金额统一换算为美元微分（1美分 = 1,000,000 微分）后记入 CostLedgerEntry；
+ * 消息回复的成本同时写入 Message.costMicroCents / costCents
+ */
+
+import { LLMModelPricing, LLMResponse } from '@/types/llm';
+import prisma from './db';
+
+// ============= 类型定义 =============
+
+export type CostSource = 'message' | 'scene_analyzer' | 'memory_extractor' | 'conversation_summary' | 'quality_assessor';
+
+export interface CostRecord {
+  source: CostSource;
+  conversationId?: string;
+  messageId?: string;
+  response: Pick<LLMResponse, 'usage' | 'cost'>;
+}
+
+export const MICRO_CENTS_PER_CENT = 1000000;
+
+// 人民币价格换算为美元的汇率
+const CNY_PER_USD = parseFloat(process.env.CNY_PER_USD || '7.2');
+
+// ============= 计价 =============
+
+/**
+ * 解析 LLMModel.pricing，缺少输入或输出价格时视为未配置价格
+ */
+export function parseModelPricing(raw: unknown): LLMModelPricing | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+
+  const pricing = raw as Record<string, unknown>;
+  if (typeof pricing.input !== 'number' || typeof pricing.output !== 'number') {
+    return undefined;
+  }
+
+  return {
+    input: pricing.input,
+    output: pricing.output,
+    ...(typeof pricing.cachedInput === 'number' ? { cachedInput: pricing.cachedInput } : {}),
+    currency: pricing.currency === 'CNY' ? 'CNY' : 'USD'
+  };
+}
+
+/**
+ * 计算一次调用的成本（美元微分），模型未配置价格时为 0
+ * 价格单位为每百万token，token数 × 单价 × 100 即为微分
+ */
+export function calculateCostMicroCents(usage: LLMResponse['usage'], pricing?: LLMModelPricing): number {
+  if (!pricing) {
+    return 0;
+  }
+
+  const cachedTokens = Math.min(usage.cachedTokens || 0, usage.promptTokens);
+  const uncachedTokens = usage.promptTokens - cachedTokens;
+
+  const amount = uncachedTokens * pricing.input
+    + cachedTokens * (pricing.cachedInput ?? pricing.input)
+    + usage.completionTokens * pricing.output;
+
+  const microCents = amount * 100;
+  return Math.round(pricing.currency === 'CNY' ? microCents / CNY_PER_USD : microCents);
+}
+
+/**
+ * 账本金额的合计是 BigInt（int4 只能表示约 $21），转为 number；2^53 微分（约 9000 万美元）以内没有精度损失
+ */
+export function toMicroCents(sum: bigint | number | null | undefined): number {
+  return Number(sum ?? 0);
+}
+
+// ============= 账本主类 =============
+
+export class CostLedger {
+  /**
+   * 消息的成本字段，创建 Message 时展开
+   */
+  messageCost(response: Pick<LLMResponse, 'cost'>): { costMicroCents: number; costCents: number } {
+    const costMicroCents = response.cost?.microCents || 0;
+    return {
+      costMicroCents,
+      costCents: Math.round(costMicroCents / MICRO_CENTS_PER_CENT)
+    };
+  }
+
+  /**
+   * 记一笔账 - 写入失败只记录日志，不影响对话
+   */
+  async record(entry: CostRecord): Promise<void> {
+    const { response } = entry;
+
+    if (!response.cost) {
+      console.warn(`⚠️ [CostLedger] ${entry.source} 调用缺少计价信息，跳过记账`);
+      return;
+    }
+
+    try {
+      await prisma.costLedgerEntry.create({
+        data: {
+          convId: entry.conversationId,
+          messageId: entry.messageId,
+          source: entry.source,
+          provider: response.cost.providerKey,
+          model: response.cost.model,
+          promptTokens: response.usage.promptTokens,
+          cachedTokens: response.usage.cachedTokens || 0,
+          completionTokens: response.usage.completionTokens,
+          costMicroCents: response.cost.microCents,
+          pricing: response.cost.pricing
+        }
+      });
+
+      if (!response.cost.pricing) {
+        console.warn(`⚠️ [CostLedger] 模型 ${response.cost.providerKey}/${response.cost.model} 未配置价格，按0计价`);
+      }
+    } catch (error) {
+      console.error('❌ [CostLedger] 记账失败:', error);
+    }
+  }
+
+  /**
+   * 会话累计成本（美元微分），包含消息回复和分析器调用
+   */
+  async getConversationCost(conversationId: string): Promise<number> {
+    const result = await prisma.costLedgerEntry.aggregate({
+      where: { convId: conversationId },
+      _sum: { costMicroCents: true }
+    });
+
+    return toMicroCents(result._sum.costMicroCents);
+  }
+}
+
+// 导出默认实例
+const costLedger = new CostLedger();
+export default costLedger;
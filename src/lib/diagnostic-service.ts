@@ -9,6 +9,8 @@ import intelligentScheduler from './intelligent-scheduler';
 import messageRouter from './message-router';
 import resultAggregator from './result-aggregator';
 import aiEmotionAnalyzer from './ai-emotion-analyzer';
+import providerRateLimiter, { ProviderQueueStats } from './provider-rate-limiter';
+import providerCircuitBreaker from './provider-circuit-breaker';
 import { AgentResult } from './intelligent-agent-bus';
 import { SceneAnalysisResult } from './agents/scene-analyzer-agent';
 
@@ -93,6 +95,8 @@ export interface LiveMetrics {
   averageResponseTime: number;
   cacheHitRate: number;
   errorRate: number;
+  queuedLLMCalls: number; // 因限流排队等待的LLM调用总数
+  providerQueues: ProviderQueueStats[];
   lastUpdate: Date;
 }
 
@@ -116,6 +120,8 @@ export class DiagnosticService {
       averageResponseTime: 0,
       cacheHitRate: 0,
       errorRate: 0,
+      queuedLLMCalls: 0,
+      providerQueues: [],
       lastUpdate: new Date()
     };
 
@@ -373,12 +379,14 @@ export class DiagnosticService {
     const schedulerStatus = intelligentScheduler.getSchedulerStatus();
     const routingStats = messageRouter.getRoutingStats();
     const analysisStats = aiEmotionAnalyzer.getAnalysisStats();
+    const circuitBreakers = providerCircuitBreaker.getSnapshots();
 
     const components = {
       agentBus: agentBusStatus,
       scheduler: schedulerStatus,
       routing: routingStats,
       analysis: analysisStats,
+      circuitBreakers,
       memory: process.memoryUsage()
     };
 
@@ -396,6 +404,12 @@ export class DiagnosticService {
       recommendations.push('消息路由成功率较低，检查路由规则配置');
     }
 
+    const openCircuits = circuitBreakers.filter(breaker => breaker.state !== 'closed');
+    if (openCircuits.length > 0) {
+      overall = overall === 'critical' ? 'critical' : 'warning';
+      recommendations.push(`提供商熔断中: ${openCircuits.map(breaker => breaker.key).join('、')}，检查服务状态或在管理后台重置`);
+    }
+
     if (components.memory.heapUsed > 500 * 1024 * 1024) { // 500MB
       overall = overall === 'critical' ? 'critical' : 'warning';
       recommendations.push('内存使用量较高，考虑优化或重启');
@@ -460,6 +474,8 @@ export class DiagnosticService {
         recentDiagnostics.reduce((sum, d) => sum + d.executionPhase.totalExecutionTime, 0) / recentDiagnostics.length : 0,
       cacheHitRate: 0, // 从缓存统计获取
       errorRate: this.calculateErrorRate(),
+      queuedLLMCalls: providerRateLimiter.getTotalQueued(),
+      providerQueues: providerRateLimiter.getQueueStats(),
       lastUpdate: new Date()
     };
   }
@@ -7,6 +7,8 @@
 
 import prisma from './db';
 import llmService from './llm-service';
+import LLMConfigManager from './llm-config';
+import costLedger, { parseModelPricing } from './cost-ledger';
 import { LLMConfig, LLMMessage } from '@/types/llm';
 import { 
   SceneAnalysisResult, 
@@ -18,6 +20,7 @@ import {
 } from './agents/scene-analyzer-agent';
 
 export interface SceneAnalysisInput {
+  conversationId?: string; // 用于把分析器调用计入会话成本
   message: string;
   history: any[];
   availableAgents: any[];
@@ -85,12 +88,12 @@ class DynamicSceneAnalyzer {
    */
   private buildLLMConfig(analyzer: any): LLMConfig {
     return {
-      provider: analyzer.provider.code as any,
+      ...LLMConfigManager.buildProviderConnection(analyzer.provider),
       model: analyzer.model.code,
-      apiKey: analyzer.provider.apiKey,
-      baseUrl: analyzer.provider.baseUrl,
       temperature: analyzer.temperature,
-      maxTokens: analyzer.maxTokens
+      maxTokens: analyzer.maxTokens,
+      vision: analyzer.model.capabilities?.includes('vision'),
+      pricing: parseModelPricing(analyzer.model.pricing)
     };
   }
 
@@ -436,6 +439,7 @@ ${context ? JSON.stringify(context, null, 2) : '暂无额外上下文'}
       
       // 调用LLM进行分析
       const response = await llmService.chat(llmConfig, messages);
+      await costLedger.record({ source: 'scene_analyzer', conversationId: input.conversationId, response });
       
       const processingTime = Date.now() - startTime;
       console.log(`✅ [场景分析器] 分析完成，耗时: ${processingTime}ms`);
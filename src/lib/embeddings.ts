@@ -0,0 +1,182 @@
+/**
+ * 🧮 文本向量
+ *
+ * 知识库用的向量化服务，按 EMBEDDING_PROVIDER 环境变量选择实现：
+ * - local（默认）：本地确定性的特征哈希向量，不调用外部接口，相同文本总是得到相同向量，适合开发和测试
+ * - openai：OpenAI 兼容的 /embeddings 接口，连接信息取自 EMBEDDING_PROVIDER_CODE 对应的 LLMProvider
+ * 向量记录上保存 provider.id，切换实现后旧向量不再参与检索
+ */
+
+import prisma from './db';
+
+// ============= 类型定义 =============
+
+export interface EmbeddingProvider {
+  readonly id: string; // 实现和模型的标识，如 local-hash-256、openai:text-embedding-3-small
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+export type EmbeddingProviderFactory = () => Promise<EmbeddingProvider>;
+
+export const DEFAULT_EMBEDDING_PROVIDER = 'local';
+
+// ============= 本地向量 =============
+
+/**
+ * 特征哈希向量 - 字符和字符二元组经 FNV-1a 哈希映射到固定维度，带符号累加后归一化
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private readonly dimensions: number = 256) {
+    this.id = `local-hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const chars = Array.from(text.toLowerCase().replace(/\s+/g, ' ').trim());
+
+    const features: string[] = [...chars];
+    for (let i = 0; i < chars.length - 1; i++) {
+      features.push(chars[i] + chars[i + 1]);
+    }
+
+    for (const feature of features) {
+      if (feature.trim() === '') continue;
+      const hash = this.hash(feature);
+      vector[hash % this.dimensions] += (hash & 0x80000000) ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  private hash(feature: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+      hash ^= feature.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+// ============= OpenAI 兼容接口 =============
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private readonly options: {
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+    extraHeaders?: Record<string, string>;
+  }) {
+    this.id = `openai:${options.model}`;
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.options.apiKey}`,
+        ...this.options.extraHeaders
+      },
+      body: JSON.stringify({ model: this.options.model, input: texts }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`向量接口返回 ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+
+    const result = await response.json() as { data: Array<{ index: number; embedding: number[] }> };
+    return [...result.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+// ============= 注册表 =============
+
+export class EmbeddingRegistry {
+  private factories: Map<string, EmbeddingProviderFactory> = new Map();
+  private providers: Map<string, EmbeddingProvider> = new Map();
+
+  /**
+   * 注册向量实现，同名实现会被覆盖
+   */
+  register(name: string, factory: EmbeddingProviderFactory): void {
+    this.factories.set(name, factory);
+    this.providers.delete(name);
+  }
+
+  /**
+   * 获取当前使用的向量实现，创建后缓存
+   */
+  async getProvider(name: string = process.env.EMBEDDING_PROVIDER || DEFAULT_EMBEDDING_PROVIDER): Promise<EmbeddingProvider> {
+    const cached = this.providers.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`未知的向量实现: ${name}`);
+    }
+
+    const provider = await factory();
+    this.providers.set(name, provider);
+    console.log(`🧮 [EmbeddingRegistry] 使用向量实现: ${provider.id}`);
+    return provider;
+  }
+}
+
+/**
+ * 余弦相似度，维度不同时为 0
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+// 导出默认实例
+const embeddingRegistry = new EmbeddingRegistry();
+embeddingRegistry.register('local', async () => new LocalEmbeddingProvider());
+embeddingRegistry.register('openai', async () => {
+  const code = process.env.EMBEDDING_PROVIDER_CODE || 'openai';
+  const provider = await prisma.lLMProvider.findFirst({ where: { code, isActive: true } });
+  if (!provider) {
+    throw new Error(`向量接口的提供商 ${code} 不存在或未激活`);
+  }
+
+  return new OpenAIEmbeddingProvider({
+    baseUrl: provider.baseUrl,
+    apiKey: provider.apiKey,
+    model: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+    extraHeaders: (provider.extraHeaders as Record<string, string> | null) || undefined
+  });
+});
+
+export default embeddingRegistry;
@@ -1,7 +1,10 @@
-import llmService from './llm-service';
 import LLMConfigManager from './llm-config';
 import { AgentConfigManager } from './agent-config-manager';
+import { Orchestrator } from './orchestrator';
 import { LLMMessage } from '@/types/llm';
+import costLedger from './cost-ledger';
+import conversationBudget from './conversation-budget';
+import conversationBranches from './conversation-branches';
 import prisma from './db';
 
 interface Agent {
@@ -110,7 +113,8 @@ ${previousResponses.length > 0 ? `\n前面的朋友们已经说了：\n${previou
     conversationId: string,
     userMessage: string,
     conversationHistory: string,
-    onEvent: (event: any) => void
+    onEvent: (event: any) => void,
+    signal?: AbortSignal
   ): Promise<void> {
     // 获取对话信息以获取用户选择的智能体
     const conversation = await prisma.conversation.findUnique({
@@ -136,15 +140,24 @@ ${previousResponses.length > 0 ? `\n前面的朋友们已经说了：\n${previou
     
     // 依次让智能体回应
     for (let i = 0; i < selectedAgents.length; i++) {
+      if (signal?.aborted) break;
+
+      // 检查会话预算，预算不足时降级或停止
+      const budgetPolicy = await conversationBudget.checkBeforeCall(conversationId, i, onEvent);
+      if (!budgetPolicy) break;
+
       const agent = selectedAgents[i];
       const isFirstResponder = i === 0;
       
       try {
         onEvent({ type: 'step_started', step: agent.roleTag });
+
+        // 获取Agent的LLM配置和组装好的系统提示词
+        const { agent: agentConfig, llmConfig } = await AgentConfigManager.getAgentConfig(agent.roleTag, { conversationId });
         
         // 生成动态提示词
         const dynamicPrompt = await this.generateAgentPrompt(
-          agent,
+          { ...agent, prompt: agentConfig.systemPrompt },
           context,
           isFirstResponder,
           previousResponses
@@ -159,21 +172,21 @@ ${previousResponses.length > 0 ? `\n前面的朋友们已经说了：\n${previou
 
         console.log(`🚀 ${agent.name}开始LLM调用...`);
         
-        // 获取Agent的LLM配置
-        const { agent: agentConfig, llmConfig } = await AgentConfigManager.getAgentConfig(agent.roleTag);
-        
         // 使用Agent的具体配置
-        const finalConfig = {
+        const finalConfig = conversationBudget.applyPolicy({
           ...llmConfig,
           temperature: agent.temperature || llmConfig.temperature || 1.0,
-          maxTokens: 150 // 保持短回复
-        };
+          maxTokens: 150, // 保持短回复
+          signal
+        }, budgetPolicy);
         
         let fullContent = '';
         
-        await llmService.streamChat(
+        const response = await Orchestrator.streamChatWithTools(
           finalConfig,
           messages,
+          agentConfig.tools,
+          { conversationId, agentId: agent.id, agentName: agent.name, signal },
           (chunk) => {
             if (chunk.content) {
               fullContent += chunk.content;
@@ -184,21 +197,34 @@ ${previousResponses.length > 0 ? `\n前面的朋友们已经说了：\n${previou
                 fullContent: fullContent
               });
             }
+          },
+          onEvent,
+          {
+            onFailover: (failover) => onEvent({
+              type: 'llm_failover',
+              agent: agent.name,
+              step: agent.roleTag,
+              ...failover
+            })
           }
         );
         
         console.log(`✅ ${agent.name}回应完成:`, fullContent);
         
         // 保存AI消息到数据库
-        await prisma.message.create({
-          data: {
-            convId: conversationId,
-            role: 'ai',
-            content: fullContent,
-            agentId: agent.id,
-            step: agent.roleTag,
-          },
+        const aiMessage = await conversationBranches.append({
+          convId: conversationId,
+          role: 'ai',
+          content: fullContent,
+          agentId: agent.id,
+          step: agent.roleTag,
+          tokens: response.usage.totalTokens,
+          ...costLedger.messageCost(response),
+          failover: response.failovers,
+          promptVersions: agentConfig.promptVersions,
+          toolCalls: response.toolRuns,
         });
+        await costLedger.record({ source: 'message', conversationId, messageId: aiMessage.id, response });
         
         // 添加到上下文
         previousResponses.push(`${agent.name}: ${fullContent}`);
@@ -212,6 +238,11 @@ ${previousResponses.length > 0 ? `\n前面的朋友们已经说了：\n${previou
         });
         
       } catch (error) {
+        if (signal?.aborted) {
+          console.log(`🛑 ${agent.name}回应已取消`);
+          break;
+        }
+
         console.error(`❌ ${agent.name}回应失败:`, error);
         onEvent({
           type: 'agent_error',
@@ -222,6 +253,11 @@ ${previousResponses.length > 0 ? `\n前面的朋友们已经说了：\n${previou
       }
     }
     
+    if (signal?.aborted) {
+      onEvent({ type: 'orchestration_cancelled', reason: '用户取消' });
+      return;
+    }
+
     console.log('🏁 所有智能体回应完成');
     onEvent({ type: 'conversation_complete', message: '对话完成' });
   }
@@ -0,0 +1,88 @@
+/**
+ * 🛑 生成任务注册表
+ *
+ * 按会话记录正在进行的生成任务（每个任务一个 AbortController），
+ * 取消接口或客户端断开连接时中止该会话下所有模型调用；
+ * 经典、灵活和智能编排器共用同一份注册表
+ */
+
+export class GenerationRegistry {
+  private controllers: Map<string, Set<AbortController>> = new Map();
+
+  /**
+   * 开始一次生成任务
+   * 传入 parentSignal（如请求的 request.signal）时，父信号中止会一并中止该任务
+   */
+  begin(conversationId: string, parentSignal?: AbortSignal): AbortController {
+    const controller = new AbortController();
+
+    if (parentSignal) {
+      if (parentSignal.aborted) {
+        controller.abort();
+      } else {
+        const onParentAbort = () => controller.abort();
+        parentSignal.addEventListener('abort', onParentAbort, { once: true });
+        controller.signal.addEventListener(
+          'abort',
+          () => parentSignal.removeEventListener('abort', onParentAbort),
+          { once: true }
+        );
+      }
+    }
+
+    let tasks = this.controllers.get(conversationId);
+    if (!tasks) {
+      tasks = new Set();
+      this.controllers.set(conversationId, tasks);
+    }
+    tasks.add(controller);
+
+    return controller;
+  }
+
+  /**
+   * 生成任务结束（无论成功、失败还是取消）后释放
+   */
+  finish(conversationId: string, controller: AbortController): void {
+    const tasks = this.controllers.get(conversationId);
+    if (!tasks) return;
+
+    tasks.delete(controller);
+    if (tasks.size === 0) {
+      this.controllers.delete(conversationId);
+    }
+  }
+
+  /**
+   * 取消会话下所有正在进行的生成任务，返回被取消的任务数
+   */
+  cancel(conversationId: string): number {
+    const tasks = this.controllers.get(conversationId);
+    if (!tasks) return 0;
+
+    let cancelled = 0;
+    tasks.forEach(controller => {
+      if (!controller.signal.aborted) {
+        controller.abort();
+        cancelled++;
+      }
+    });
+
+    console.log(`🛑 [GenerationRegistry] 取消会话 ${conversationId} 的 ${cancelled} 个生成任务`);
+    return cancelled;
+  }
+
+  /**
+   * 会话是否有正在进行的生成任务
+   */
+  isGenerating(conversationId: string): boolean {
+    const tasks = this.controllers.get(conversationId);
+    if (!tasks) return false;
+
+    return Array.from(tasks).some(controller => !controller.signal.aborted);
+  }
+}
+
+// 导出默认实例
+const generationRegistry = new GenerationRegistry();
+export default generationRegistry;
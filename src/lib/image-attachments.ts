@@ -0,0 +1,139 @@
+/**
+ * 🖼️ 图片附件存储
+ *
+ * 聊天页上传的图片以 data URL 形式保存在 Artifact 表（type = image），
+ * 用户消息通过 Message.attachments 引用；发送给模型时转为图片内容片段，
+ * 不支持图片输入的模型由 LLMService 自动降级为文字描述
+ */
+
+import { LLMImagePart } from '@/types/llm';
+import prisma from './db';
+
+// ============= 类型定义 =============
+
+export interface ImageAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  url: string; // 前端展示用的访问地址
+}
+
+type ImageMeta = {
+  name: string;
+  mimeType: string;
+  size: number;
+};
+
+export const ALLOWED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_IMAGES_PER_MESSAGE = 4;
+
+// ============= 存储主类 =============
+
+export class ImageAttachmentStore {
+  /**
+   * 验证上传的文件，返回错误信息；合法时返回 null
+   */
+  validate(file: { type: string; size: number }): string | null {
+    if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+      return `不支持的图片格式: ${file.type || '未知'}，仅支持 PNG、JPEG、WebP、GIF`;
+    }
+
+    if (file.size === 0) {
+      return '图片内容为空';
+    }
+
+    if (file.size > MAX_IMAGE_BYTES) {
+      return `图片不能超过 ${MAX_IMAGE_BYTES / 1024 / 1024}MB`;
+    }
+
+    return null;
+  }
+
+  /**
+   * 保存图片到 Artifact 表
+   */
+  async save(conversationId: string, file: File): Promise<ImageAttachment> {
+    const data = Buffer.from(await file.arrayBuffer()).toString('base64');
+    const meta: ImageMeta = {
+      name: file.name || 'image',
+      mimeType: file.type,
+      size: file.size
+    };
+
+    const artifact = await prisma.artifact.create({
+      data: {
+        convId: conversationId,
+        type: 'image',
+        url: `data:${file.type};base64,${data}`,
+        meta
+      }
+    });
+
+    console.log(`🖼️ [ImageAttachments] 会话 ${conversationId} 上传图片 ${meta.name} (${Math.round(meta.size / 1024)}KB)`);
+
+    return this.toAttachment(conversationId, artifact.id, meta);
+  }
+
+  /**
+   * 读取图片内容 - 只返回属于该会话的图片
+   */
+  async getImage(conversationId: string, attachmentId: string): Promise<{ mimeType: string; data: Buffer } | null> {
+    const artifact = await prisma.artifact.findFirst({
+      where: { id: attachmentId, convId: conversationId, type: 'image' }
+    });
+
+    if (!artifact) {
+      return null;
+    }
+
+    const parsed = this.parseDataUrl(artifact.url);
+    return parsed ? { mimeType: parsed.mimeType, data: Buffer.from(parsed.data, 'base64') } : null;
+  }
+
+  /**
+   * 加载消息附带的图片，转为模型可用的图片内容片段（保持上传顺序，忽略不属于该会话的ID）
+   */
+  async loadParts(conversationId: string, attachmentIds: string[]): Promise<LLMImagePart[]> {
+    if (attachmentIds.length === 0) {
+      return [];
+    }
+
+    const artifacts = await prisma.artifact.findMany({
+      where: { id: { in: attachmentIds }, convId: conversationId, type: 'image' }
+    });
+
+    return attachmentIds
+      .map(id => artifacts.find(artifact => artifact.id === id))
+      .filter((artifact): artifact is (typeof artifacts)[number] => !!artifact)
+      .flatMap(artifact => {
+        const parsed = this.parseDataUrl(artifact.url);
+        if (!parsed) return [];
+
+        const meta = artifact.meta as ImageMeta | null;
+        return [{ type: 'image' as const, mimeType: parsed.mimeType, data: parsed.data, name: meta?.name }];
+      });
+  }
+
+  // ============= 私有方法 =============
+
+  private parseDataUrl(url: string): { mimeType: string; data: string } | null {
+    const match = url.match(/^data:([^;]+);base64,(.+)$/);
+    return match ? { mimeType: match[1], data: match[2] } : null;
+  }
+
+  private toAttachment(conversationId: string, id: string, meta: ImageMeta): ImageAttachment {
+    return {
+      id,
+      name: meta.name,
+      mimeType: meta.mimeType,
+      size: meta.size,
+      url: `/api/conversations/${conversationId}/attachments/${id}`
+    };
+  }
+}
+
+// 导出默认实例
+const imageAttachments = new ImageAttachmentStore();
+export default imageAttachments;
@@ -5,13 +5,19 @@
  * 让每个Agent专注自己的领域，通过智能总线协调工作
  */
 
-import { LLMMessage } from '@/types/llm';
+import { LLMCallCost, LLMCallOptions, LLMFailover, LLMImagePart, LLMMessage, LLMResponse, LLMStreamChunk } from '@/types/llm';
 import llmService from './llm-service';
 import LLMConfigManager, { LLMConfig } from './llm-config';
 import intelligentScheduler, { ExecutionPlan, ExecutionPhase, IntelligentScheduler } from './intelligent-scheduler';
 import { SceneAnalysisResult } from './agents/scene-analyzer-agent';
 import messageRouter, { RoutingContext } from './message-router';
 import resultAggregator, { AggregationContext, ExecutionMetrics, QualityRequirements } from './result-aggregator';
+import planQuotas, { PlanLimits } from './plan-quotas';
+import conversationBudget, { BudgetPolicy } from './conversation-budget';
+import { KnowledgeCitation } from './knowledge-base';
+import { ChatGroupMode } from './chat-groups';
+import { PromptVersionStamp } from './prompt-versions';
+import { ToolExecutionResult } from './tool-registry';
 
 // ============= 基础类型定义 =============
 
@@ -47,10 +53,34 @@ export interface NextAction {
 
 export interface GroupChatRequest {
   conversationId: string;
+  userId?: string; // 对话所属的用户，智能体回复时读取对该用户的长期记忆
   userMessage: string;
   conversationHistory: any[];
+  conversationSummary?: string; // 较早消息的摘要，conversationHistory 为摘要之后的最近消息
   availableAgents: any[];
   context?: any;
+  signal?: AbortSignal; // 取消信号，中止后不再执行后续阶段
+  images?: LLMImagePart[]; // 用户本条消息附带的图片
+  planLimits?: PlanLimits; // 用户套餐的智能体数和模型限制
+  mentionsOnly?: boolean; // 用户 @ 了智能体时只让被 @ 的智能体回复
+  groupMode?: ChatGroupMode; // 群聊的调度模式（smart | natural | fixed），没有群聊时为空
+  onStream?: (event: GroupChatStreamEvent) => void; // 回复生成过程中实时转发模型输出
+}
+
+// 回复的实时输出事件，多个智能体同时输出时用 streamId 区分各自的回复
+export type GroupChatStreamEvent =
+  | { type: 'agent_start'; streamId: string; agent: string }
+  | { type: 'chunk'; streamId: string; agent: string; content: string }
+  | { type: 'llm_failover'; streamId: string; agent: string; failover: LLMFailover }
+  | { type: 'tool'; streamId: string; event: Record<string, unknown> } // 工具调用过程（tool_call / tool_result）
+  | { type: 'quota_exceeded'; streamId: string; agent: string; error: string } // 套餐不允许智能体的模型，本轮到此结束
+  | { type: 'agent_complete'; streamId: string; response: ChatbotResponse };
+
+// 专业化Agent代替聊天机器人回复时遵守的限制：取消信号、套餐的模型限制和会话预算的降级策略
+export interface AgentCallLimits {
+  signal?: AbortSignal;
+  planLimits?: PlanLimits;
+  budgetPolicy?: BudgetPolicy;
 }
 
 export interface GroupChatResult {
@@ -68,6 +98,12 @@ export interface ChatbotResponse {
   content: string;
   timestamp: Date;
   confidence: number;
+  usage?: LLMResponse['usage']; // 生成该回复的模型用量和成本，保存消息时记账
+  cost?: LLMCallCost;
+  citations?: KnowledgeCitation[]; // 回复引用的知识库片段
+  promptVersions?: PromptVersionStamp; // 生成回复时的提示词版本
+  failovers?: LLMFailover[]; // 生成回复时发生的模型切换
+  toolRuns?: ToolExecutionResult[]; // 生成回复时执行的工具
 }
 
 // ============= Agent基础抽象类 =============
@@ -86,19 +122,32 @@ export abstract class BaseAgent {
   abstract execute(input: any): Promise<AgentResult>;
 
   /**
-   * 统一的LLM调用接口
+   * 统一的LLM调用接口 - 传入图片时与提示词一起作为多模态用户消息发送
    */
-  protected async callLLM(prompt: string, config?: LLMConfig): Promise<string> {
-    try {
-      const messages: LLMMessage[] = [
-        { role: 'system', content: 'You are a helpful AI assistant.' },
-        { role: 'user', content: prompt }
-      ];
+  protected async callLLM(
+    prompt: string,
+    config?: LLMConfig,
+    signal?: AbortSignal,
+    images?: LLMImagePart[]
+  ): Promise<string> {
+    const response = await this.callLLMWithUsage(prompt, config, signal, images);
+    return response.content;
+  }
 
+  /**
+   * 统一的LLM调用接口 - 返回包含用量和成本的完整响应
+   */
+  protected async callLLMWithUsage(
+    prompt: string,
+    config?: LLMConfig,
+    signal?: AbortSignal,
+    images?: LLMImagePart[],
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
+    try {
       // 如果没有提供配置，获取默认配置
       const llmConfig = config || await this.getLLMConfig();
-      const response = await llmService.chat(llmConfig, messages);
-      return response.content;
+      return await llmService.chat({ ...llmConfig, signal }, this.buildMessages(prompt, images), options);
     } catch (error) {
       console.error(`LLM调用失败 [${this.id}]:`, error);
       throw error;
@@ -106,20 +155,66 @@ export abstract class BaseAgent {
   }
 
   /**
-   * 获取LLM配置 - 从数据库动态获取
+   * 按套餐限制和会话预算调整自己的模型配置后调用 - 返回包含用量和成本的完整响应，由调用方记账
+   */
+  protected async callLLMWithinLimits(
+    prompt: string,
+    { signal, planLimits, budgetPolicy }: AgentCallLimits
+  ): Promise<LLMResponse> {
+    const allowedConfig = planQuotas.restrictModels(await this.getLLMConfig(), planLimits);
+    const llmConfig = budgetPolicy ? conversationBudget.applyPolicy(allowedConfig, budgetPolicy) : allowedConfig;
+    return this.callLLMWithUsage(prompt, llmConfig, signal);
+  }
+
+  /**
+   * 统一的流式LLM调用接口 - 模型输出的数据块实时交给 onChunk，返回包含用量和成本的完整响应
    */
-  protected async getLLMConfig(): Promise<LLMConfig> {
+  protected async streamLLMWithUsage(
+    prompt: string,
+    config: LLMConfig | undefined,
+    onChunk: (chunk: LLMStreamChunk) => void,
+    signal?: AbortSignal,
+    images?: LLMImagePart[],
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
     try {
-      // 尝试根据Agent ID获取专属配置
-      const config = await LLMConfigManager.getConfigForAgent(this.id);
-      console.log(`🔧 [BaseAgent] Agent [${this.id}] 获取LLM配置:`, {
+      const llmConfig = config || await this.getLLMConfig();
+      return await llmService.streamChat({ ...llmConfig, signal }, this.buildMessages(prompt, images), onChunk, options);
+    } catch (error) {
+      console.error(`LLM流式调用失败 [${this.id}]:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 构建调用消息 - 传入图片时与提示词一起作为多模态用户消息发送
+   */
+  protected buildMessages(prompt: string, images?: LLMImagePart[]): LLMMessage[] {
+    return [
+      { role: 'system', content: 'You are a helpful AI assistant.' },
+      {
+        role: 'user',
+        content: images?.length ? [{ type: 'text', text: prompt }, ...images] : prompt
+      }
+    ];
+  }
+
+  /**
+   * 获取LLM配置 - 从数据库动态获取；代聊天机器人调用时传入它的 roleTag，使用它配置的模型和备用模型
+   */
+  protected async getLLMConfig(roleTag: string = this.id): Promise<LLMConfig> {
+    try {
+      // 尝试获取专属配置
+      const config = await LLMConfigManager.getConfigForAgent(roleTag);
+      console.log(`🔧 [BaseAgent] Agent [${this.id}] 获取 ${roleTag} 的LLM配置:`, {
         provider: config.provider,
         model: config.model,
-        hasApiKey: !!config.apiKey
+        hasApiKey: !!config.apiKey,
+        fallbacks: config.fallbacks?.length ?? 0
       });
       return config;
     } catch (error) {
-      console.warn(`⚠️ [BaseAgent] Agent [${this.id}] 无法获取专属配置，使用默认配置:`, error);
+      console.warn(`⚠️ [BaseAgent] Agent [${this.id}] 无法获取 ${roleTag} 的专属配置，使用默认配置:`, error);
       // 回退到全局默认配置
       return await LLMConfigManager.getConfig();
     }
@@ -323,7 +418,7 @@ export class IntelligentAgentBus {
   }
 
   /**
-   * 处理群聊请求的主入口
+   * 处理群聊请求的主入口 - 设置了 request.onStream 时，智能体的回复在生成过程中实时转发
    */
   async processGroupChatRequest(request: GroupChatRequest): Promise<GroupChatResult> {
     const startTime = Date.now();
@@ -332,6 +427,10 @@ export class IntelligentAgentBus {
     try {
       // 第一阶段：场景分析
       const analysisResult = await this.runAnalysisPhase(request);
+
+      if (request.signal?.aborted) {
+        throw new Error('群聊请求已取消');
+      }
       
       // 第二阶段：执行对话
       const executionResult = await this.runExecutionPhase(request, analysisResult);
@@ -374,6 +473,7 @@ export class IntelligentAgentBus {
       const { dynamicSceneAnalyzer } = await import('./dynamic-scene-analyzer');
       
       const analysisInput = {
+        conversationId: request.conversationId,
         message: request.userMessage,
         history: request.conversationHistory,
         availableAgents: request.availableAgents,
@@ -454,6 +554,11 @@ export class IntelligentAgentBus {
       };
 
       for (const phase of executionPlan.phases) {
+        if (request.signal?.aborted) {
+          console.log(`🛑 [智能调度] 请求已取消，跳过剩余阶段`);
+          break;
+        }
+
         console.log(`⚡ [智能调度] 执行阶段: ${phase.name}`);
         
         // 检查执行条件
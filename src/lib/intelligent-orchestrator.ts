@@ -5,15 +5,39 @@
  * 替代原有的固定模式编排，实现真正智能的群聊体验
  */
 
-import agentBus, { GroupChatRequest, GroupChatResult } from './intelligent-agent-bus';
+import agentBus, { ChatbotResponse, GroupChatRequest, GroupChatResult, GroupChatStreamEvent } from './intelligent-agent-bus';
 import SceneAnalyzerAgent from './agents/scene-analyzer-agent';
 import ChatExecutorAgent from './agents/chat-executor-agent';
 import CreativeAgent from './agents/creative-agent';
 import AnalystAgent from './agents/analyst-agent';
 import QualityAssessorAgent from './agents/quality-assessor-agent';
 import dynamicSceneAnalyzer from './dynamic-scene-analyzer';
+import generationRegistry from './generation-registry';
+import imageAttachments from './image-attachments';
+import costLedger from './cost-ledger';
+import conversationBudget from './conversation-budget';
+import planQuotas, { PlanLimits } from './plan-quotas';
+import userMemory from './user-memory';
+import conversationSummarizer from './conversation-summary';
+import conversationBranches, { BranchFork } from './conversation-branches';
+import participationPolicy from './participation-policy';
 import prisma from './db';
 
+// 一轮群聊的输入
+interface RoundInput {
+  content: string;
+  attachmentIds: string[];
+  mentionsOnly?: boolean;
+  forkAfter?: string | null; // 开始前从这条消息之后开出新分支，null 为从对话开头分叉；不传时不分叉
+  userMessageId?: string; // 重新生成时本轮的用户消息已经保存，不再保存
+  agentName?: string; // 只让这个智能体回复
+}
+
+export type RegenerateScope = 'agent' | 'round';
+
+// 编排过程中发给前端的事件
+type OrchestrationEventHandler = (event: Record<string, unknown>) => void;
+
 /**
  * 智能编排器 - 新版本
  */
@@ -60,8 +84,87 @@ export class IntelligentOrchestrator {
   async runIntelligentOrchestration(
     conversationId: string,
     userMessageContent: string,
-    onEvent: (event: any) => void
+    onEvent: (event: any) => void,
+    signal?: AbortSignal,
+    attachmentIds: string[] = [],
+    planLimits?: PlanLimits,
+    mentionsOnly: boolean = false
+  ): Promise<void> {
+    await this.runRound(conversationId, { content: userMessageContent, attachmentIds, mentionsOnly }, onEvent, signal, planLimits);
+  }
+
+  /**
+   * 重新生成 - scope 为 agent 时只重新生成这条AI回复，为 round 时重新生成消息所在的整轮回复。
+   * 新的回复放在新分支上，原来的回复保留在原分支
+   */
+  async regenerate(
+    conversationId: string,
+    messageId: string,
+    scope: RegenerateScope,
+    onEvent: OrchestrationEventHandler,
+    signal?: AbortSignal,
+    planLimits?: PlanLimits
+  ): Promise<void> {
+    const position = await conversationBranches.findInTimeline(conversationId, messageId);
+    const round = position?.roundMessage;
+
+    if (!position || !round || (scope === 'agent' && position.message.role !== 'ai')) {
+      onEvent({ type: 'orchestration_failed', error: '只能重新生成当前对话里的AI回复', conversationId });
+      return;
+    }
+
+    await this.runRound(conversationId, {
+      content: round.content,
+      attachmentIds: round.attachments,
+      userMessageId: round.id,
+      ...(scope === 'agent'
+        ? { forkAfter: position.previous?.id ?? null, agentName: position.message.step || undefined }
+        : { forkAfter: round.id })
+    }, onEvent, signal, planLimits);
+  }
+
+  /**
+   * 编辑后重新发送 - 从被编辑的用户消息之前开出新分支，在新分支上发送编辑后的内容
+   */
+  async editAndResend(
+    conversationId: string,
+    messageId: string,
+    content: string,
+    onEvent: OrchestrationEventHandler,
+    signal?: AbortSignal,
+    attachmentIds: string[] = [],
+    planLimits?: PlanLimits,
+    mentionsOnly: boolean = false
   ): Promise<void> {
+    const position = await conversationBranches.findInTimeline(conversationId, messageId);
+
+    if (!position || position.message.role !== 'user') {
+      onEvent({ type: 'orchestration_failed', error: '只能编辑当前对话里的用户消息', conversationId });
+      return;
+    }
+
+    await this.runRound(conversationId, {
+      content,
+      attachmentIds,
+      mentionsOnly,
+      forkAfter: position.previous?.id ?? null
+    }, onEvent, signal, planLimits);
+  }
+
+  /**
+   * 运行一轮群聊：保存用户消息（重新生成时跳过），智能体回复并保存
+   */
+  private async runRound(
+    conversationId: string,
+    round: RoundInput,
+    onEvent: OrchestrationEventHandler,
+    signal?: AbortSignal,
+    planLimits?: PlanLimits
+  ): Promise<void> {
+    const { content: userMessageContent, attachmentIds, mentionsOnly = false } = round;
+    const generation = generationRegistry.begin(conversationId, signal);
+    let fork: BranchFork | undefined;
+
     try {
       console.log(`🎯 [智能编排器] 开始处理会话: ${conversationId}`);
 
@@ -70,35 +173,126 @@ export class IntelligentOrchestrator {
 
       // 第一步：获取会话信息和可用Agent
       onEvent({ type: 'orchestration_started', conversationId });
+
+      // 预算已用完时不保存消息、不调用任何AI，等待用户提高预算
+      const budget = await conversationBudget.check(conversationId);
+      if (!budget.allowed) {
+        onEvent(conversationBudget.toExceededEvent(budget.status));
+        return;
+      }
+
+      if (round.forkAfter !== undefined) {
+        fork = await conversationBranches.fork(conversationId, round.forkAfter);
+        onEvent({ type: 'branch_created', branchId: fork.branchId, forkAfter: round.forkAfter });
+      }
       
       const conversationData = await this.loadConversationData(conversationId);
+      const availableAgents = planQuotas.limitAgents(conversationData.availableAgents, planLimits)
+        .filter(agent => !round.agentName || agent.name === round.agentName);
+      if (availableAgents.length === 0) {
+        throw new Error(`${round.agentName || '智能体'} 不在可以回复的智能体中`);
+      }
+      const images = await imageAttachments.loadParts(conversationId, attachmentIds);
+      if (images.length !== attachmentIds.length) {
+        throw new Error('图片附件不存在或不属于该对话');
+      }
+
+      // 实时转发智能体的模型输出，回复完成后按完成顺序依次保存
+      const streamedContents = new Set<string>();
+      let pendingSaves: Promise<void> = Promise.resolve();
+      let quotaExceeded = false;
+      const onStream = (event: GroupChatStreamEvent) => {
+        if (generation.signal.aborted) return;
+
+        switch (event.type) {
+          case 'agent_start':
+            onEvent({ type: 'agent_start', agent: event.agent, streamId: event.streamId });
+            break;
+          case 'chunk':
+            onEvent({ type: 'chunk', agent: event.agent, streamId: event.streamId, content: event.content });
+            break;
+          case 'llm_failover':
+            onEvent({ type: 'llm_failover', agent: event.agent, streamId: event.streamId, ...event.failover });
+            break;
+          case 'tool':
+            onEvent({ ...event.event, streamId: event.streamId });
+            break;
+          case 'quota_exceeded':
+            // 套餐不允许智能体的模型时结束本轮，前端收到事件后关闭连接，其余智能体不再回复
+            quotaExceeded = true;
+            onEvent({ ...planQuotas.toExceededEvent('allowed_models', event.error), agent: event.agent });
+            generation.abort();
+            break;
+          case 'agent_complete':
+            streamedContents.add(event.response.content);
+            pendingSaves = pendingSaves.then(() =>
+              this.completeResponse(conversationId, event.response, onEvent, event.streamId)
+            );
+            break;
+        }
+      };
       
       // 第二步：构建群聊请求
       const groupChatRequest: GroupChatRequest = {
         conversationId,
+        userId: conversationData.conversation.userId,
         userMessage: userMessageContent,
-        conversationHistory: conversationData.history,
-        availableAgents: conversationData.availableAgents,
+        // 重新生成时本轮的用户消息已经在时间线上，作为当前消息而不是历史
+        conversationHistory: conversationData.history.filter(msg => msg.id !== round.userMessageId),
+        conversationSummary: conversationData.summary || undefined,
+        availableAgents,
         context: {
           conversationType: conversationData.conversation?.mode || 'smart'
-        }
+        },
+        signal: generation.signal,
+        images,
+        planLimits,
+        mentionsOnly,
+        groupMode: conversationData.conversation.group
+          ? participationPolicy.getMode(conversationData.conversation.group.mode)
+          : undefined,
+        onStream
       };
 
       // 第三步：保存用户消息
-      const userMessage = await this.saveUserMessage(conversationId, userMessageContent);
-      onEvent({ type: 'user_message_saved', messageId: userMessage.id });
+      const userMessageId = round.userMessageId
+        || (await this.saveUserMessage(conversationId, userMessageContent, attachmentIds)).id;
+      if (!round.userMessageId) {
+        onEvent({ type: 'user_message_saved', messageId: userMessageId });
+      }
 
       // 第四步：通过Agent总线处理群聊请求
       onEvent({ type: 'agent_bus_processing_started' });
       
       const result = await agentBus.processGroupChatRequest(groupChatRequest);
+      await pendingSaves;
+
+      if (quotaExceeded) {
+        return;
+      }
+
+      if (generation.signal.aborted) {
+        this.emitCancelled(conversationId, onEvent);
+        return;
+      }
       
       if (!result.success) {
         throw new Error('Agent总线处理失败');
       }
 
-      // 第五步：流式发送AI回复
-      await this.streamAIResponses(conversationId, result, onEvent);
+      // 第五步：发送没有流式输出过的回复（专业化Agent等非流式调用的结果）
+      await this.sendRemainingResponses(conversationId, result, streamedContents, onEvent, generation.signal);
+
+      if (generation.signal.aborted) {
+        this.emitCancelled(conversationId, onEvent);
+        return;
+      }
+
+      // 本轮回复用完了预算时通知前端
+      const budgetAfter = await conversationBudget.getStatus(conversationId);
+      if (budgetAfter.level === 'exceeded') {
+        onEvent(conversationBudget.toExceededEvent(budgetAfter));
+      }
 
       // 第六步：完成编排
       onEvent({ 
@@ -111,6 +305,19 @@ export class IntelligentOrchestrator {
         }
       });
 
+      // 第七步：后台提取用户的长期记忆，不阻塞本次回复；重新生成时用户消息已经提取过
+      if (!round.userMessageId) {
+        this.rememberExchange(
+          conversationData.conversation.userId,
+          conversationId,
+          userMessageId,
+          userMessageContent,
+          result,
+          conversationData.availableAgents,
+          planLimits
+        );
+      }
+
       console.log(`✅ [智能编排器] 会话处理完成: ${conversationId}`);
 
     } catch (error) {
@@ -121,14 +328,60 @@ export class IntelligentOrchestrator {
         error: error instanceof Error ? error.message : 'Unknown error',
         conversationId 
       });
+    } finally {
+      generationRegistry.finish(conversationId, generation);
+
+      // 新分支上什么都没生成时回到原来的分支
+      if (fork) {
+        await conversationBranches.abandonIfEmpty(conversationId, fork).catch(error => {
+          console.error('❌ [智能编排器] 恢复分支失败:', error);
+        });
+      }
     }
   }
 
+  /**
+   * 发送取消事件
+   */
+  private emitCancelled(conversationId: string, onEvent: (event: any) => void): void {
+    console.log(`🛑 [智能编排器] 会话已取消: ${conversationId}`);
+    onEvent({ type: 'orchestration_cancelled', reason: '用户取消', conversationId });
+  }
+
+  /**
+   * 提取用户的长期记忆，参与回复的智能体各自记住；在后台执行，失败只记录日志
+   */
+  private rememberExchange(
+    userId: string,
+    conversationId: string,
+    messageId: string,
+    userMessageContent: string,
+    result: GroupChatResult,
+    availableAgents: Array<{ id: string; name: string }>,
+    planLimits?: PlanLimits
+  ): void {
+    const agentIds = availableAgents
+      .filter(agent => result.responses.some(response => response.agentName === agent.name))
+      .map(agent => agent.id);
+
+    userMemory.extractAfterExchange({
+      userId,
+      conversationId,
+      messageId,
+      userMessage: userMessageContent,
+      agentIds,
+      planLimits
+    }).catch(error => {
+      console.error('❌ [智能编排器] 提取长期记忆失败:', error);
+    });
+  }
+
   /**
    * 加载会话数据
    */
   private async loadConversationData(conversationId: string): Promise<{
     conversation: any;
+    summary: string | null;
     history: any[];
     availableAgents: any[];
   }> {
@@ -143,7 +396,8 @@ export class IntelligentOrchestrator {
             members: {
               include: {
                 agent: true
-              }
+              },
+              orderBy: { order: 'asc' }
             }
           }
         }
@@ -154,31 +408,22 @@ export class IntelligentOrchestrator {
       throw new Error('Conversation not found');
     }
 
-    // 获取消息历史（最近20条）
-    const history = await prisma.message.findMany({
-      where: { convId: conversationId },
-      orderBy: { createdAt: 'desc' },
-      take: 20,
-      select: {
-        id: true,
-        role: true,
-        content: true,
-        step: true,
-        createdAt: true
-      }
-    });
+    // 获取消息历史：较早的消息已压缩为摘要，这里是摘要之后的最近消息
+    const { summary, recentMessages: history } = await conversationSummarizer.getContext(conversationId);
 
     // 获取可用的AI智能体
     let availableAgents: any[] = [];
 
     if (conversation.group) {
-      // 群聊模式：使用群组中的AI
+      // 群聊模式：使用群组中的AI，按发言顺序排列并附带优先级
       availableAgents = conversation.group.members.map(member => ({
         id: member.agent.id,
         name: member.agent.name,
         roleTag: member.agent.roleTag,
-        systemPrompt: member.agent.prompt,
-        color: member.agent.color
+        prompt: member.agent.prompt,
+        tools: member.agent.tools,
+        color: member.agent.color,
+        groupPriority: member.priority
       }));
     } else {
       // 单聊或智能模式：使用所有启用的AI
@@ -189,7 +434,8 @@ export class IntelligentOrchestrator {
           name: true,
           roleTag: true,
           prompt: true,
-          color: true
+          color: true,
+          tools: true
         }
       });
       availableAgents = agents;
@@ -199,7 +445,12 @@ export class IntelligentOrchestrator {
 
     return {
       conversation,
-      history: history.reverse(), // 按时间正序
+      summary,
+      // 按时间正序；历史中的图片只保留文字标记，当前消息的图片单独传给模型
+      history: history.map(({ attachments = [], ...msg }) => ({
+        ...msg,
+        content: attachments.length > 0 ? `${msg.content} [图片×${attachments.length}]`.trim() : msg.content
+      })),
       availableAgents
     };
   }
@@ -207,129 +458,103 @@ export class IntelligentOrchestrator {
   /**
    * 保存用户消息
    */
-  private async saveUserMessage(conversationId: string, content: string): Promise<any> {
-    return await prisma.message.create({
-      data: {
-        convId: conversationId,
-        role: 'user',
-        content,
-        tokens: content.length, // 简单估算
-        costCents: 0
-      }
+  private async saveUserMessage(conversationId: string, content: string, attachments: string[]): Promise<any> {
+    return await conversationBranches.append({
+      convId: conversationId,
+      role: 'user',
+      content,
+      attachments,
+      tokens: content.length, // 简单估算
+      costCents: 0
     });
   }
 
   /**
-   * 流式发送AI回复
+   * 发送剩余的AI回复 - 流式输出过的回复已经保存，按内容跳过
    */
-  private async streamAIResponses(
+  private async sendRemainingResponses(
     conversationId: string,
     result: GroupChatResult,
-    onEvent: (event: any) => void
+    streamedContents: Set<string>,
+    onEvent: (event: any) => void,
+    signal: AbortSignal
   ): Promise<void> {
-    console.log(`📤 [智能编排器] 开始流式发送${result.responses.length}个AI回复`);
+    const remaining = result.responses.filter(response => !streamedContents.has(response.content));
+    if (remaining.length === 0) return;
 
-    for (let i = 0; i < result.responses.length; i++) {
-      const response = result.responses[i];
-      
-      try {
-        // 发送Agent开始事件
-        onEvent({ 
-          type: 'agent_start', 
-          agent: response.agentName,
-          index: i + 1,
-          total: result.responses.length
-        });
+    console.log(`📤 [智能编排器] 发送${remaining.length}个非流式AI回复`);
 
-        // 模拟流式输出（将回复内容分块发送）
-        await this.simulateStreamingOutput(response.content, response.agentName, onEvent);
+    for (const response of remaining) {
+      if (signal.aborted) return;
 
-        // 保存AI回复到数据库
-        const savedMessage = await this.saveAIMessage(conversationId, response);
-
-        // 发送Agent完成事件
-        onEvent({ 
-          type: 'agent_complete', 
-          agent: response.agentName,
-          content: response.content,
-          messageId: savedMessage.id,
-          confidence: response.confidence
-        });
-
-        // AI回复间的延迟
-        if (i < result.responses.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 800));
-        }
-
-      } catch (error) {
-        console.error(`❌ [智能编排器] AI回复处理失败: ${response.agentName}`, error);
-        
-        onEvent({ 
-          type: 'agent_error', 
-          agent: response.agentName, 
-          error: error instanceof Error ? error.message : 'Unknown error' 
-        });
-      }
+      onEvent({ type: 'agent_start', agent: response.agentName });
+      await this.completeResponse(conversationId, response, onEvent);
     }
   }
 
   /**
-   * 模拟流式输出
+   * 保存完成的AI回复并发送 agent_complete 事件，content 为回复的完整内容
    */
-  private async simulateStreamingOutput(
-    content: string,
-    agentName: string,
-    onEvent: (event: any) => void
+  private async completeResponse(
+    conversationId: string,
+    response: ChatbotResponse,
+    onEvent: (event: any) => void,
+    streamId?: string
   ): Promise<void> {
-    const chunks = this.splitIntoChunks(content, 8); // 每8个字符一块
-    
-    for (const chunk of chunks) {
+    try {
+      const savedMessage = await this.saveAIMessage(conversationId, response);
+
       onEvent({ 
-        type: 'chunk', 
-        agent: agentName, 
-        content: chunk 
+        type: 'agent_complete', 
+        agent: response.agentName,
+        streamId,
+        content: response.content,
+        messageId: savedMessage.id,
+        confidence: response.confidence,
+        citations: response.citations
       });
-      
-      // 模拟打字延迟
-      const delay = Math.random() * 100 + 50; // 50-150ms
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-  }
 
-  /**
-   * 将文本分块
-   */
-  private splitIntoChunks(text: string, chunkSize: number): string[] {
-    const chunks: string[] = [];
-    for (let i = 0; i < text.length; i += chunkSize) {
-      chunks.push(text.slice(i, i + chunkSize));
+    } catch (error) {
+      console.error(`❌ [智能编排器] AI回复处理失败: ${response.agentName}`, error);
+      
+      onEvent({ 
+        type: 'agent_error', 
+        agent: response.agentName, 
+        streamId,
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
     }
-    return chunks;
   }
 
   /**
    * 保存AI消息
    */
-  private async saveAIMessage(conversationId: string, response: any): Promise<any> {
-    return await prisma.message.create({
-      data: {
-        convId: conversationId,
-        role: 'ai',
-        content: response.content,
-        step: response.agentName,
-        agentId: response.agentName, // 这里可以优化，使用真实的agentId
-        tokens: response.content.length,
-        costCents: this.estimateCost(response.content.length)
-      }
+  private async saveAIMessage(conversationId: string, response: ChatbotResponse): Promise<any> {
+    const message = await conversationBranches.append({
+      convId: conversationId,
+      role: 'ai',
+      content: response.content,
+      step: response.agentName,
+      agentId: response.agentName, // 这里可以优化，使用真实的agentId
+      tokens: response.usage?.totalTokens ?? response.content.length,
+      citations: response.citations,
+      promptVersions: response.promptVersions,
+      failover: response.failovers,
+      toolCalls: response.toolRuns,
+      ...costLedger.messageCost(response)
     });
-  }
 
-  /**
-   * 估算成本
-   */
-  private estimateCost(contentLength: number): number {
-    // 简单估算：每1000字符约0.01元
-    return Math.ceil(contentLength / 1000 * 0.01 * 100); // 转换为分
+    // 兜底回复没有调用模型，不记账
+    if (response.usage) {
+      await costLedger.record({
+        source: 'message',
+        conversationId,
+        messageId: message.id,
+        response: { usage: response.usage, cost: response.cost }
+      });
+    }
+
+    return message;
   }
 
   /**
@@ -0,0 +1,301 @@
+/**
+ * 📚 智能体知识库
+ *
+ * 管理员为智能体上传文档（Markdown、纯文本、从PDF提取的文本），按段落切片后向量化保存在 KnowledgeChunk；
+ * 智能体回复前用用户的消息检索最相关的 top-k 片段放进提示词，回复引用的片段作为出处显示在聊天气泡下方。
+ * 向量以数组形式存在 Postgres 中，检索时在应用内按余弦相似度排序（单个智能体的知识库规模有限）
+ */
+
+import { KnowledgeDocument } from '@prisma/client';
+import embeddingRegistry, { cosineSimilarity } from './embeddings';
+import prisma from './db';
+
+// ============= 类型定义 =============
+
+export type KnowledgeFormat = 'markdown' | 'text' | 'pdf';
+
+export const KNOWLEDGE_FORMATS: KnowledgeFormat[] = ['markdown', 'text', 'pdf'];
+
+export interface KnowledgeDocumentInput {
+  title: string;
+  format: KnowledgeFormat;
+  content: string;
+}
+
+// 回复引用的知识库片段，保存在 Message.citations
+export type KnowledgeCitation = {
+  index: number; // 提示词和回复中的编号 [1]、[2]
+  documentId: string;
+  title: string;
+  content: string;
+  score: number;
+};
+
+export interface KnowledgeContext {
+  prompt: string;
+  citations: KnowledgeCitation[];
+}
+
+// 单个文档的最大长度（字符）
+export const MAX_DOCUMENT_LENGTH = 200000;
+
+// 切片长度和相邻切片的重叠长度（字符）
+const CHUNK_SIZE = 500;
+const CHUNK_OVERLAP = 50;
+
+// 每次向量化的切片数
+const EMBED_BATCH_SIZE = 32;
+
+// 每次回复放进提示词的片段数，以及片段的最低相似度
+const DEFAULT_TOP_K = 3;
+const MIN_SCORE = 0.2;
+
+// ============= 知识库主类 =============
+
+export class KnowledgeBase {
+  /**
+   * 智能体的文档列表，附带切片数
+   */
+  async listDocuments(agentId: string) {
+    const documents = await prisma.knowledgeDocument.findMany({
+      where: { agentId },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        title: true,
+        format: true,
+        createdAt: true,
+        updatedAt: true,
+        _count: { select: { chunks: true } }
+      }
+    });
+
+    return documents.map(({ _count, ...document }) => ({ ...document, chunkCount: _count.chunks }));
+  }
+
+  /**
+   * 添加文档 - 切片、向量化后保存
+   */
+  async addDocument(agentId: string, input: KnowledgeDocumentInput): Promise<KnowledgeDocument & { chunkCount: number }> {
+    const chunks = this.chunk(input.content, input.format);
+    if (chunks.length === 0) {
+      throw new Error('文档没有可以索引的内容');
+    }
+
+    const provider = await embeddingRegistry.getProvider();
+    const embeddings = await this.embedAll(chunks);
+
+    const document = await prisma.knowledgeDocument.create({
+      data: {
+        agentId,
+        title: input.title,
+        format: input.format,
+        content: input.content,
+        chunks: {
+          create: chunks.map((content, index) => ({
+            agentId,
+            index,
+            content,
+            embedding: embeddings[index],
+            embeddingModel: provider.id
+          }))
+        }
+      }
+    });
+
+    console.log(`📚 [KnowledgeBase] 智能体 ${agentId} 新增文档《${input.title}》，${chunks.length} 个切片 (${provider.id})`);
+    return { ...document, chunkCount: chunks.length };
+  }
+
+  /**
+   * 删除文档，文档不属于该智能体时返回 false
+   */
+  async deleteDocument(agentId: string, documentId: string): Promise<boolean> {
+    const result = await prisma.knowledgeDocument.deleteMany({
+      where: { id: documentId, agentId }
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * 用当前的向量实现重新索引智能体的全部文档（切换向量实现后使用），返回切片数
+   */
+  async reindex(agentId: string): Promise<number> {
+    const provider = await embeddingRegistry.getProvider();
+    const documents = await prisma.knowledgeDocument.findMany({ where: { agentId } });
+    let total = 0;
+
+    for (const document of documents) {
+      const chunks = this.chunk(document.content, document.format as KnowledgeFormat);
+      const embeddings = await this.embedAll(chunks);
+
+      await prisma.$transaction([
+        prisma.knowledgeChunk.deleteMany({ where: { documentId: document.id } }),
+        prisma.knowledgeChunk.createMany({
+          data: chunks.map((content, index) => ({
+            documentId: document.id,
+            agentId,
+            index,
+            content,
+            embedding: embeddings[index],
+            embeddingModel: provider.id
+          }))
+        })
+      ]);
+      total += chunks.length;
+    }
+
+    console.log(`📚 [KnowledgeBase] 智能体 ${agentId} 重新索引 ${documents.length} 个文档，${total} 个切片 (${provider.id})`);
+    return total;
+  }
+
+  /**
+   * 检索与查询最相关的片段
+   */
+  async search(agentId: string, query: string, topK: number = DEFAULT_TOP_K, signal?: AbortSignal): Promise<KnowledgeCitation[]> {
+    const provider = await embeddingRegistry.getProvider();
+    const chunks = await prisma.knowledgeChunk.findMany({
+      where: { agentId, embeddingModel: provider.id },
+      select: {
+        documentId: true,
+        content: true,
+        embedding: true,
+        document: { select: { title: true } }
+      }
+    });
+
+    if (chunks.length === 0) {
+      return [];
+    }
+
+    const [queryEmbedding] = await provider.embed([query], signal);
+
+    return chunks
+      .map(chunk => ({ chunk, score: cosineSimilarity(queryEmbedding, chunk.embedding) }))
+      .filter(({ score }) => score >= MIN_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map(({ chunk, score }, i) => ({
+        index: i + 1,
+        documentId: chunk.documentId,
+        title: chunk.document.title,
+        content: chunk.content,
+        score: Math.round(score * 1000) / 1000
+      }));
+  }
+
+  /**
+   * 放进提示词的参考资料，没有相关片段时返回 null；检索失败不影响回复
+   */
+  async buildPromptContext(agentId: string | undefined, query: string, signal?: AbortSignal): Promise<KnowledgeContext | null> {
+    if (!agentId || !query.trim()) {
+      return null;
+    }
+
+    try {
+      const citations = await this.search(agentId, query, DEFAULT_TOP_K, signal);
+      if (citations.length === 0) {
+        return null;
+      }
+
+      const passages = citations
+        .map(citation => `[${citation.index}]《${citation.title}》\n${citation.content}`)
+        .join('\n\n');
+
+      return {
+        prompt: `【参考资料】\n${passages}\n\n回答用到参考资料时，在相应句子末尾用 [1]、[2] 这样的编号标注出处；资料与问题无关时忽略它们。`,
+        citations
+      };
+    } catch (error) {
+      console.error('❌ [KnowledgeBase] 检索知识库失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 回复实际引用的片段 - 回复没有标注编号时返回全部检索到的片段
+   */
+  getCitedPassages(reply: string, citations: KnowledgeCitation[]): KnowledgeCitation[] {
+    const cited = citations.filter(citation => reply.includes(`[${citation.index}]`));
+    return cited.length > 0 ? cited : citations;
+  }
+
+  /**
+   * 按段落切片 - 段落合并到接近 CHUNK_SIZE，超长段落按固定长度切分并保留重叠；
+   * Markdown 的切片带上所在章节的标题
+   */
+  chunk(content: string, format: KnowledgeFormat): string[] {
+    const paragraphs = this.normalize(content, format)
+      .split(/\n{2,}/)
+      .map(paragraph => paragraph.trim())
+      .filter(Boolean);
+
+    const chunks: string[] = [];
+    let heading = '';
+    let current = '';
+
+    const flush = () => {
+      if (current) {
+        chunks.push(heading && !current.startsWith(heading) ? `${heading}\n${current}` : current);
+        current = '';
+      }
+    };
+
+    for (const paragraph of paragraphs) {
+      if (format === 'markdown' && /^#{1,6}\s/.test(paragraph)) {
+        flush();
+        heading = paragraph.split('\n')[0];
+      }
+
+      if (paragraph.length > CHUNK_SIZE) {
+        flush();
+        for (let start = 0; start < paragraph.length; start += CHUNK_SIZE - CHUNK_OVERLAP) {
+          current = paragraph.slice(start, start + CHUNK_SIZE);
+          flush();
+          if (start + CHUNK_SIZE >= paragraph.length) break;
+        }
+        continue;
+      }
+
+      if (current && current.length + paragraph.length + 2 > CHUNK_SIZE) {
+        flush();
+      }
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+
+    flush();
+    return chunks;
+  }
+
+  // ============= 私有方法 =============
+
+  /**
+   * 统一换行；PDF提取的文本按页分隔，段落内的硬换行和断词连字符需要合并
+   */
+  private normalize(content: string, format: KnowledgeFormat): string {
+    const text = content.replace(/\r\n?/g, '\n');
+    if (format !== 'pdf') {
+      return text;
+    }
+
+    return text
+      .replace(/\f/g, '\n\n')
+      .replace(/([A-Za-z])-\n([a-z])/g, '$1$2')
+      .replace(/([^\n])\n(?!\n)/g, (_, char: string) => /[\u3000-\u9fff\uff00-\uffef]/.test(char) ? char : `${char} `);
+  }
+
+  private async embedAll(chunks: string[]): Promise<number[][]> {
+    const provider = await embeddingRegistry.getProvider();
+    const embeddings: number[][] = [];
+
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+      embeddings.push(...await provider.embed(chunks.slice(i, i + EMBED_BATCH_SIZE)));
+    }
+
+    return embeddings;
+  }
+}
+
+// 导出默认实例
+const knowledgeBase = new KnowledgeBase();
+export default knowledgeBase;
@@ -1,11 +1,130 @@
-import { LLMConfig, LLMProvider, AgentConfig } from '@/types/llm';
+import { LLMConfig, LLMProvider, AgentConfig, LOCAL_PROVIDERS } from '@/types/llm';
 import prisma from './db';
+import { parseModelPricing } from './cost-ledger';
+import llmService from './llm-service';
 
 /**
  * LLM配置管理器 - 基于数据库配置
  */
 export class LLMConfigManager {
 
+  /**
+   * 从提供商记录构建连接配置
+   * adapter 字段优先于 code，这样多个自定义提供商（vLLM、OneAPI等）可以共用 custom 适配器
+   */
+  static buildProviderConnection(provider: {
+    code: string;
+    adapter?: string | null;
+    apiKey: string;
+    baseUrl: string;
+    extraHeaders?: unknown;
+    chatPath?: string | null;
+    requestsPerMinute?: number | null;
+    tokensPerMinute?: number | null;
+    maxConcurrent?: number | null;
+  }): Pick<LLMConfig, 'provider' | 'apiKey' | 'baseUrl' | 'extraHeaders' | 'chatPath' | 'rateLimit'> {
+    return {
+      provider: (provider.adapter || provider.code) as LLMProvider,
+      apiKey: provider.apiKey,
+      baseUrl: provider.baseUrl,
+      extraHeaders: (provider.extraHeaders as Record<string, string> | null) || undefined,
+      chatPath: provider.chatPath || undefined,
+      // 限流按提供商 code 区分，多个自定义提供商共用 custom 适配器时互不影响
+      rateLimit: {
+        key: provider.code,
+        requestsPerMinute: provider.requestsPerMinute || undefined,
+        tokensPerMinute: provider.tokensPerMinute || undefined,
+        maxConcurrent: provider.maxConcurrent || undefined,
+      },
+    };
+  }
+
+  /**
+   * 校验提供商的限流配置，返回错误信息，合法时返回 null
+   */
+  static validateRateLimits(limits: {
+    requestsPerMinute?: unknown;
+    tokensPerMinute?: unknown;
+    maxConcurrent?: unknown;
+  }): string | null {
+    for (const [field, value] of Object.entries(limits)) {
+      if (value === undefined || value === null) continue;
+      if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+        return `${field} 必须是正整数，留空表示不限制`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 校验提供商的适配器相关配置，返回错误信息，合法时返回 null
+   */
+  static validateProviderOptions(options: {
+    code: string;
+    adapter?: string | null;
+    extraHeaders?: unknown;
+    chatPath?: string | null;
+  }): string | null {
+    const adapterType = options.adapter || options.code;
+    if (!llmService.getSupportedProviders().includes(adapterType as LLMProvider)) {
+      return `不支持的适配器类型 "${adapterType}"，自定义的OpenAI兼容服务请选择 custom 适配器`;
+    }
+
+    if (options.extraHeaders !== undefined && options.extraHeaders !== null) {
+      const headers = options.extraHeaders;
+      if (
+        typeof headers !== 'object' ||
+        Array.isArray(headers) ||
+        Object.values(headers).some(value => typeof value !== 'string')
+      ) {
+        return '额外请求头必须是键值均为字符串的JSON对象';
+      }
+    }
+
+    if (options.chatPath && !options.chatPath.startsWith('/')) {
+      return '接口路径必须以 / 开头';
+    }
+
+    return null;
+  }
+
+  /**
+   * 校验智能体的备用模型列表，返回错误信息，合法时返回 null
+   */
+  static async validateFallbackModelIds(modelId: string | null | undefined, fallbackModelIds: unknown): Promise<string | null> {
+    if (!Array.isArray(fallbackModelIds) || fallbackModelIds.some(id => typeof id !== 'string')) {
+      return '备用模型必须是模型ID数组';
+    }
+
+    if (new Set(fallbackModelIds).size !== fallbackModelIds.length) {
+      return '备用模型不能重复';
+    }
+
+    if (modelId && fallbackModelIds.includes(modelId)) {
+      return '备用模型不能包含主模型';
+    }
+
+    if (fallbackModelIds.length > 0) {
+      const count = await prisma.lLMModel.count({
+        where: { id: { in: fallbackModelIds } }
+      });
+      if (count !== fallbackModelIds.length) {
+        return '部分备用模型不存在';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 本地运行时和自定义提供商可以不配置API密钥
+   */
+  static isApiKeyOptional(options: { code: string; adapter?: string | null }): boolean {
+    const adapterType = (options.adapter || options.code) as LLMProvider;
+    return LOCAL_PROVIDERS.includes(adapterType) || adapterType === 'custom';
+  }
+
   /**
    * 获取默认配置 - 从数据库获取
    */
@@ -28,10 +147,11 @@ export class LLMConfigManager {
     const model = provider.models[0];
 
     return {
-      provider: provider.code as LLMProvider,
+      ...this.buildProviderConnection(provider),
       model: model.code,
-      apiKey: provider.apiKey,
-      baseURL: provider.baseUrl,
+      vision: model.capabilities.includes('vision'),
+      pricing: parseModelPricing(model.pricing),
+      contextLength: model.contextLength,
       temperature: parseFloat(process.env.DEFAULT_LLM_TEMPERATURE || '0.8'),
       maxTokens: model.maxTokens || 2000,
       timeout: parseInt(process.env.DEFAULT_LLM_TIMEOUT || '30000'),
@@ -73,28 +193,69 @@ export class LLMConfigManager {
     const model = agent.model;
     const provider = agent.model.provider;
 
-    const llmConfig = {
-      provider: provider.code as LLMProvider,
+    const llmConfig: LLMConfig = {
+      ...this.buildProviderConnection(provider),
       model: model.code,
-      apiKey: provider.apiKey,
-      baseURL: provider.baseUrl,
+      vision: model.capabilities.includes('vision'),
+      pricing: parseModelPricing(model.pricing),
+      contextLength: model.contextLength,
       temperature: agent.temperature,
       maxTokens: agent.maxTokens,
       timeout: parseInt(process.env.DEFAULT_LLM_TIMEOUT || '30000'),
       retryAttempts: parseInt(process.env.DEFAULT_LLM_RETRY_ATTEMPTS || '3'),
     };
 
+    const fallbacks = await this.getFallbackConfigs(agent.fallbackModelIds, llmConfig);
+    if (fallbacks.length > 0) {
+      llmConfig.fallbacks = fallbacks;
+    }
+
     console.log(`🔧 [LLMConfigManager] Generated config for ${roleTag}:`, {
       provider: llmConfig.provider,
       providerType: typeof llmConfig.provider,
       model: llmConfig.model,
       hasApiKey: !!llmConfig.apiKey,
-      baseURL: llmConfig.baseURL
+      baseUrl: llmConfig.baseUrl,
+      fallbacks: fallbacks.map(fallback => `${fallback.provider}/${fallback.model}`)
     });
 
     return llmConfig;
   }
 
+  /**
+   * 构建故障转移链 - 按 fallbackModelIds 的顺序加载备用模型，
+   * 跳过已停用的模型/提供商，温度和最大token沿用主配置
+   */
+  static async getFallbackConfigs(modelIds: string[], primary: LLMConfig): Promise<LLMConfig[]> {
+    if (modelIds.length === 0) {
+      return [];
+    }
+
+    const models = await prisma.lLMModel.findMany({
+      where: {
+        id: { in: modelIds },
+        isActive: true,
+        provider: { isActive: true }
+      },
+      include: { provider: true }
+    });
+
+    return modelIds
+      .map(id => models.find(model => model.id === id))
+      .filter((model): model is (typeof models)[number] => !!model)
+      .map(model => ({
+        ...this.buildProviderConnection(model.provider),
+        model: model.code,
+        vision: model.capabilities.includes('vision'),
+        pricing: parseModelPricing(model.pricing),
+        contextLength: model.contextLength,
+        temperature: primary.temperature,
+        maxTokens: primary.maxTokens,
+        timeout: primary.timeout,
+        retryAttempts: primary.retryAttempts,
+      }));
+  }
+
   /**
    * 构建LLM配置 - 从数据库获取Provider信息
    */
@@ -120,10 +281,11 @@ export class LLMConfigManager {
     const model = provider.models[0];
 
     return {
-      provider: provider.code as LLMProvider,
+      ...this.buildProviderConnection(provider),
       model: model.code,
-      apiKey: provider.apiKey,
-      baseURL: provider.baseUrl,
+      vision: model.capabilities.includes('vision'),
+      pricing: parseModelPricing(model.pricing),
+      contextLength: model.contextLength,
       temperature: options.temperature || 0.7,
       maxTokens: options.maxTokens || model.maxTokens,
       timeout: options.timeout || 30000,
@@ -214,7 +376,7 @@ export class LLMConfigManager {
       } else {
         // 检查每个Provider是否有API密钥和模型
         for (const provider of activeProviders) {
-          if (!provider.apiKey) {
+          if (!provider.apiKey && !this.isApiKeyOptional(provider)) {
             errors.push(`Provider ${provider.name} is missing API key`);
           }
           if (provider.models.length === 0) {
@@ -231,31 +393,6 @@ export class LLMConfigManager {
       errors,
     };
   }
-
-  /**
-   * 获取模型的成本信息 - 从数据库获取
-   */
-  static async getModelCost(providerCode: string, modelCode: string): Promise<{ input: number; output: number } | null> {
-    const model = await prisma.lLMModel.findFirst({
-      where: {
-        code: modelCode,
-        provider: {
-          code: providerCode
-        },
-        isActive: true
-      }
-    });
-
-    if (!model || !model.pricing) {
-      return null;
-    }
-
-    const pricing = model.pricing as any;
-    return {
-      input: pricing.input || 0,
-      output: pricing.output || 0
-    };
-  }
 }
 
 export default LLMConfigManager;
\ No newline at end of file
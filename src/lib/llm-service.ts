@@ -1,4 +1,15 @@
-import { LLMConfig, LLMMessage, LLMResponse, LLMStreamChunk, LLMProviderAdapter, LLMProvider } from '@/types/llm';
+import {
+  LLMConfig,
+  LLMMessage,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMProviderAdapter,
+  LLMProvider,
+  LLMCallOptions,
+  LLMFailover,
+  LLMFailoverReason,
+  LLMCallCost
+} from '@/types/llm';
 import OpenAIAdapter from './adapters/openai-adapter';
 import AnthropicAdapter from './adapters/anthropic-adapter';
 import DeepSeekAdapter from './adapters/deepseek-adapter';
@@ -7,6 +18,40 @@ import GoogleAdapter from './adapters/google-adapter';
 import XAIAdapter from './adapters/xai-adapter';
 import ModelScopeAdapter from './adapters/modelscope-adapter-simple';
 import BigModelAdapter from './adapters/bigmodel-adapter';
+import OllamaAdapter from './adapters/ollama-adapter';
+import LlamaCppAdapter from './adapters/llamacpp-adapter';
+import CustomOpenAIAdapter from './adapters/custom-adapter';
+import { toTextOnlyMessages } from './adapters/base-adapter';
+import providerRateLimiter, { RateLimitLease } from './provider-rate-limiter';
+import providerCircuitBreaker from './provider-circuit-breaker';
+import { calculateCostMicroCents } from './cost-ledger';
+
+/**
+ * 模型在超时时间内没有开始输出
+ */
+export class LLMTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`LLM request timed out after ${timeoutMs}ms`);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+/**
+ * 请求被调用方取消（用户点击停止或断开连接）
+ */
+export class LLMAbortedError extends Error {
+  constructor() {
+    super('LLM request aborted');
+    this.name = 'AbortError';
+  }
+}
+
+// 故障转移链上单次尝试的状态
+interface ChainAttempt {
+  active: boolean; // 超时放弃后置为 false，丢弃迟到的数据块
+  emitted: boolean; // 是否已经向调用方输出过内容
+  timeout: { promise: Promise<never>; clear: () => void };
+}
 
 class LLMService {
   private adapters: Map<LLMProvider, LLMProviderAdapter> = new Map();
@@ -21,6 +66,9 @@ class LLMService {
     this.adapters.set('xai', new XAIAdapter());
     this.adapters.set('modelscope', new ModelScopeAdapter());
     this.adapters.set('bigmodel', new BigModelAdapter());
+    this.adapters.set('ollama', new OllamaAdapter());
+    this.adapters.set('llamacpp', new LlamaCppAdapter());
+    this.adapters.set('custom', new CustomOpenAIAdapter());
   }
 
   /**
@@ -36,42 +84,281 @@ class LLMService {
 
   /**
    * 流式聊天
+   * 配置了 fallbacks 时，主模型限流/5xx/超时会按顺序切换到备用模型；
+   * 已经向调用方输出过内容后不再切换，避免回复被拼接成两段
    */
   async streamChat(
     config: LLMConfig,
     messages: LLMMessage[],
-    onChunk: (chunk: LLMStreamChunk) => void
+    onChunk: (chunk: LLMStreamChunk) => void,
+    options: LLMCallOptions = {}
   ): Promise<LLMResponse> {
-    console.log(`🚀 [LLMService] streamChat called with config:`, {
-      provider: config.provider,
-      providerType: typeof config.provider,
-      model: config.model,
-      hasApiKey: !!config.apiKey,
-      baseURL: config.baseURL
+    return this.runWithFailover(config, messages, options, (adapter, current, attempt, attemptMessages) => {
+      console.log(`🚀 [LLMService] streamChat called with config:`, {
+        provider: current.provider,
+        providerType: typeof current.provider,
+        model: current.model,
+        hasApiKey: !!current.apiKey,
+        baseUrl: current.baseUrl
+      });
+
+      return adapter.streamChat(current, attemptMessages, (chunk) => {
+        // 已放弃的请求可能还在输出，丢弃它的数据块
+        if (!attempt.active) return;
+        if (chunk.content) {
+          attempt.emitted = true;
+          attempt.timeout.clear();
+        } else if (chunk.toolCalls) {
+          // 工具调用增量不展示给用户，仍可切换模型，但说明模型已开始响应
+          attempt.timeout.clear();
+        }
+        onChunk(chunk);
+      });
     });
-    
-    const adapter = this.getAdapter(config.provider);
-    
-    // 验证配置
-    if (!adapter.validateConfig(config)) {
-      throw new Error(`Invalid configuration for provider: ${config.provider}`);
+  }
+
+  /**
+   * 非流式聊天
+   */
+  async chat(config: LLMConfig, messages: LLMMessage[], options: LLMCallOptions = {}): Promise<LLMResponse> {
+    return this.runWithFailover(config, messages, options, (adapter, current, _attempt, attemptMessages) =>
+      adapter.chat(current, attemptMessages)
+    );
+  }
+
+  /**
+   * 沿故障转移链依次调用：熔断中的提供商直接跳过，超出限流时排队等待，
+   * 限流/5xx/超时/网络错误计入熔断器并切换到下一个模型；
+   * 取消的请求既不切换模型也不计入熔断；
+   * 链上不支持图片输入的模型收到的图片会转为文字描述
+   */
+  private async runWithFailover(
+    config: LLMConfig,
+    messages: LLMMessage[],
+    options: LLMCallOptions,
+    invoke: (
+      adapter: LLMProviderAdapter,
+      current: LLMConfig,
+      attempt: ChainAttempt,
+      attemptMessages: LLMMessage[]
+    ) => Promise<LLMResponse>
+  ): Promise<LLMResponse> {
+    const chain = this.buildFailoverChain(config);
+    const failovers: LLMFailover[] = [];
+
+    for (let i = 0; i < chain.length; i++) {
+      if (config.signal?.aborted) {
+        throw new LLMAbortedError();
+      }
+
+      const current = chain[i];
+      const next = chain[i + 1];
+      const providerKey = this.getProviderKey(current);
+      const adapter = this.getValidatedAdapter(current);
+      const attemptMessages = current.vision ? messages : toTextOnlyMessages(messages);
+
+      try {
+        providerCircuitBreaker.assertAvailable(providerKey);
+      } catch (error) {
+        if (!next) {
+          throw error;
+        }
+        failovers.push(this.recordFailover(current, next, 'circuit_open', error, options));
+        continue;
+      }
+
+      // 排队等待的时间不计入超时
+      let lease: RateLimitLease;
+      try {
+        lease = await providerRateLimiter.acquire(
+          current.rateLimit,
+          providerRateLimiter.estimateTokens(attemptMessages, current.maxTokens),
+          current.signal
+        );
+      } catch (error) {
+        // 排队期间被取消
+        providerCircuitBreaker.releaseProbe(providerKey);
+        throw current.signal?.aborted ? new LLMAbortedError() : error;
+      }
+
+      // 每次尝试单独的取消信号：调用方取消时跟着取消，超时放弃时中止这次请求
+      const controller = new AbortController();
+      const abortAttempt = () => controller.abort();
+      current.signal?.addEventListener('abort', abortAttempt, { once: true });
+
+      const attempt: ChainAttempt = {
+        active: true,
+        emitted: false,
+        timeout: this.createTimeout(chain.length > 1 ? current.timeout : undefined, abortAttempt)
+      };
+
+      // 请求真正结束后才归还限流槽位，超时放弃的请求在中止完成前仍占用并发
+      const request = invoke(adapter, { ...current, signal: controller.signal }, attempt, attemptMessages);
+      request
+        .then(response => lease.release(response.usage.totalTokens), () => lease.release())
+        .finally(() => current.signal?.removeEventListener('abort', abortAttempt));
+
+      try {
+        const response = await Promise.race([request, attempt.timeout.promise]);
+
+        providerCircuitBreaker.recordSuccess(providerKey);
+
+        // 按实际响应的模型计价，故障转移后使用备用模型的价格
+        const cost: LLMCallCost = {
+          providerKey,
+          model: current.model,
+          microCents: calculateCostMicroCents(response.usage, current.pricing),
+          pricing: current.pricing
+        };
+        return { ...response, cost, ...(failovers.length > 0 ? { failovers } : {}) };
+      } catch (error) {
+        attempt.active = false;
+
+        if (current.signal?.aborted) {
+          providerCircuitBreaker.releaseProbe(providerKey);
+          throw new LLMAbortedError();
+        }
+
+        const reason = this.classifyFailoverError(error);
+        if (reason) {
+          providerCircuitBreaker.recordFailure(providerKey, error instanceof Error ? error.message : String(error));
+        } else {
+          // 参数错误等说明提供商本身可以正常响应
+          providerCircuitBreaker.recordSuccess(providerKey);
+        }
+
+        if (!next || !reason || attempt.emitted) {
+          throw error;
+        }
+
+        failovers.push(this.recordFailover(current, next, reason, error, options));
+      } finally {
+        attempt.timeout.clear();
+      }
     }
 
-    return adapter.streamChat(config, messages, onChunk);
+    // chain 至少包含主配置，不会走到这里
+    throw new Error('LLM failover chain is empty');
   }
 
   /**
-   * 非流式聊天
+   * 限流和熔断按数据库中的提供商 code 区分，没有时退回适配器类型
    */
-  async chat(config: LLMConfig, messages: LLMMessage[]): Promise<LLMResponse> {
+  private getProviderKey(config: LLMConfig): string {
+    return config.rateLimit?.key || config.provider;
+  }
+
+  /**
+   * 获取适配器并验证配置
+   */
+  private getValidatedAdapter(config: LLMConfig): LLMProviderAdapter {
     const adapter = this.getAdapter(config.provider);
-    
-    // 验证配置
+
     if (!adapter.validateConfig(config)) {
       throw new Error(`Invalid configuration for provider: ${config.provider}`);
     }
 
-    return adapter.chat(config, messages);
+    return adapter;
+  }
+
+  /**
+   * 展开故障转移链 - 主配置在前，备用配置按顺序排列（备用配置自身的 fallbacks 不再展开）
+   */
+  private buildFailoverChain(config: LLMConfig): LLMConfig[] {
+    const { fallbacks = [], ...primary } = config;
+    return [primary, ...fallbacks.map(fallback => ({ ...fallback, signal: config.signal, fallbacks: undefined }))];
+  }
+
+  /**
+   * 判断错误是否应该切换到备用模型：限流(429)、服务端错误(5xx)、超时和网络错误
+   * 适配器统一抛出 "XXX API Error: <status> - ..." 格式的错误
+   */
+  private classifyFailoverError(error: unknown): LLMFailoverReason | null {
+    if (error instanceof LLMTimeoutError) {
+      return 'timeout';
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    const status = this.extractStatus(message);
+
+    if (status === 429 || /rate limit|请求频率过高/i.test(message)) {
+      return 'rate_limit';
+    }
+
+    if (status !== undefined && status >= 500) {
+      return 'server_error';
+    }
+
+    if (/timed? ?out|ETIMEDOUT|AbortError/i.test(message)) {
+      return 'timeout';
+    }
+
+    if (/fetch failed|network|ECONNREFUSED|ECONNRESET|ENOTFOUND|socket hang up/i.test(message)) {
+      return 'network';
+    }
+
+    return null;
+  }
+
+  private extractStatus(message: string): number | undefined {
+    const match = message.match(/API Error: (\d{3})\b/);
+    return match ? parseInt(match[1]) : undefined;
+  }
+
+  /**
+   * 记录并通知一次故障转移
+   */
+  private recordFailover(
+    from: LLMConfig,
+    to: LLMConfig,
+    reason: LLMFailoverReason,
+    error: unknown,
+    options: LLMCallOptions
+  ): LLMFailover {
+    const message = error instanceof Error ? error.message : String(error);
+    const failover: LLMFailover = {
+      fromProvider: from.provider,
+      fromModel: from.model,
+      toProvider: to.provider,
+      toModel: to.model,
+      reason,
+      status: this.extractStatus(message),
+      error: message.slice(0, 500),
+      at: new Date().toISOString(),
+    };
+
+    console.warn(`🔀 [LLMService] ${from.provider}/${from.model} 调用失败(${reason})，切换到 ${to.provider}/${to.model}`);
+    options.onFailover?.(failover);
+
+    return failover;
+  }
+
+  /**
+   * 超时计时器 - 只有存在备用模型时才启用，没有备用模型时保持原有行为；超时时先中止请求再切换
+   */
+  private createTimeout(
+    timeoutMs: number | undefined,
+    onTimeout: () => void
+  ): { promise: Promise<never>; clear: () => void } {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const promise = new Promise<never>((_, reject) => {
+      if (timeoutMs && timeoutMs > 0) {
+        timer = setTimeout(() => {
+          onTimeout();
+          reject(new LLMTimeoutError(timeoutMs));
+        }, timeoutMs);
+      }
+    });
+
+    return {
+      promise,
+      clear: () => {
+        if (timer) {
+          clearTimeout(timer);
+          timer = undefined;
+        }
+      }
+    };
   }
 
   /**
@@ -89,25 +376,28 @@ class LLMService {
   /**
    * 获取可用模型
    */
-  async getAvailableModels(provider: LLMProvider, apiKey: string): Promise<string[]> {
+  async getAvailableModels(
+    provider: LLMProvider,
+    apiKey: string,
+    baseUrl?: string,
+    extraHeaders?: Record<string, string>
+  ): Promise<string[]> {
     const adapter = this.getAdapter(provider);
-    return adapter.getAvailableModels(apiKey);
+    return adapter.getAvailableModels(apiKey, baseUrl, extraHeaders);
   }
 
   /**
-   * 获取所有支持的提供商
+   * 提供商是否支持工具调用
    */
-  getSupportedProviders(): LLMProvider[] {
-    return Array.from(this.adapters.keys());
+  supportsTools(provider: LLMProvider): boolean {
+    return this.adapters.get(provider)?.supportsTools === true;
   }
 
   /**
-   * 计算成本（美分）
+   * 获取所有支持的提供商
    */
-  calculateCost(provider: LLMProvider, model: string, usage: { promptTokens: number; completionTokens: number }): number {
-    // 这里可以从配置文件读取价格信息
-    // 暂时返回0，实际实现时从 llm-providers.json 读取
-    return 0;
+  getSupportedProviders(): LLMProvider[] {
+    return Array.from(this.adapters.keys());
   }
 }
 
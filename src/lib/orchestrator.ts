@@ -1,40 +1,45 @@
-import { LLMMessage, LLMStreamChunk } from '@/types/llm';
+import { LLMCallOptions, LLMConfig, LLMFailover, LLMMessage, LLMResponse, LLMStreamChunk } from '@/types/llm';
 import llmService from './llm-service';
+import generationRegistry from './generation-registry';
+import toolRegistry, { ToolContext, ToolExecutionResult } from './tool-registry';
+import costLedger from './cost-ledger';
+import conversationBudget, { BudgetPolicy } from './conversation-budget';
+import planQuotas, { PlanLimits } from './plan-quotas';
+import agentMentions, { MAX_HANDOFFS } from './agent-mentions';
+import continuationEngine, { ContinuationSettings, ContinuationStopReason } from './continuation-engine';
+import participationPolicy, { GroupParticipant } from './participation-policy';
+import { ChatGroupMode } from './chat-groups';
+import userMemory from './user-memory';
+import conversationSummarizer from './conversation-summary';
+import conversationBranches from './conversation-branches';
 import LLMConfigManager from './llm-config';
 import { AgentConfigManager } from './agent-config-manager';
 import FlexibleChatManager from './flexible-chat-manager';
 import aiEmotionAnalyzer from './ai-emotion-analyzer';
 import diagnosticService from './diagnostic-service';
 import prisma from './db';
+import { Agent } from '@prisma/client';
+
+// 参与续聊的智能体，群聊成员附带优先级
+type GroupAgent = Agent & GroupParticipant;
 
 /**
  * AI对话编排器
  * 负责协调多个AI智能体的对话流程
  */
 export class Orchestrator {
-  // 取消标志映射 - 用于控制编排过程
-  private static cancelFlags = new Map<string, boolean>();
+  // 工具调用最多进行的模型调用轮数（含最终回复）
+  private static readonly MAX_TOOL_STEPS = 4;
+
+  // 检索长期记忆时使用的最近聊天内容长度
+  private static readonly MEMORY_QUERY_LENGTH = 500;
 
   /**
-   * 取消指定对话的编排过程
+   * 取消指定对话的编排过程 - 中止正在进行的模型调用，后续步骤不再执行
    */
   static cancelOrchestration(conversationId: string) {
     console.log(`🛑 取消编排: ${conversationId}`);
-    this.cancelFlags.set(conversationId, true);
-  }
-
-  /**
-   * 检查编排是否被取消
-   */
-  private static isCancelled(conversationId: string): boolean {
-    return this.cancelFlags.get(conversationId) === true;
-  }
-
-  /**
-   * 清理取消标志
-   */
-  private static clearCancelFlag(conversationId: string) {
-    this.cancelFlags.delete(conversationId);
+    generationRegistry.cancel(conversationId);
   }
 
   /**
@@ -43,8 +48,11 @@ export class Orchestrator {
   static async runOrchestration(
     conversationId: string,
     userMessageContent: string,
-    onEvent: (event: any) => void
+    onEvent: (event: any) => void,
+    signal?: AbortSignal
   ): Promise<void> {
+    const generation = generationRegistry.begin(conversationId, signal);
+
     try {
       // 获取对话信息
       const conversation = await prisma.conversation.findUnique({
@@ -77,18 +85,25 @@ export class Orchestrator {
         steps = (flow.steps as any[]).map(step => step.roleTag);
       }
 
-      // 构建群聊上下文，让每个agent都能看到完整对话
-      let groupChatContext = `用户: ${userMessageContent}\n\n`;
+      // 构建群聊上下文，让每个agent都能看到完整对话（较早的消息为摘要）
+      const history = await conversationSummarizer.buildPromptHistory(conversationId, userMessageContent);
+      let groupChatContext = `${history ? `${history}\n\n` : ''}用户: ${userMessageContent}\n\n`;
+      let agentsCalled = 0;
 
       // 执行每个步骤
       for (const roleTag of steps) {
         // 检查是否被取消
-        if (this.isCancelled(conversationId)) {
+        if (generation.signal.aborted) {
           console.log(`🛑 编排被取消，停止执行: ${roleTag}`);
           onEvent({ type: 'orchestration_cancelled', reason: '用户取消' });
           return;
         }
 
+        // 检查会话预算，预算不足时降级或停止
+        const budgetPolicy = await conversationBudget.checkBeforeCall(conversationId, agentsCalled, onEvent);
+        if (!budgetPolicy) break;
+        agentsCalled++;
+
         console.log(`🎭 开始执行Agent: ${roleTag}`);
 
         try {
@@ -101,7 +116,7 @@ export class Orchestrator {
           onEvent({ type: 'ai_message_started', agent: roleTag, step: roleTag });
 
           // 3. 获取智能体配置
-          const { agent, llmConfig } = await AgentConfigManager.getAgentConfig(roleTag);
+          const { agent, llmConfig } = await AgentConfigManager.getAgentConfig(roleTag, { conversationId });
           console.log(`⚙️ Agent配置 [${roleTag}]:`, {
             name: agent.name,
             temperature: agent.temperature,
@@ -113,7 +128,7 @@ export class Orchestrator {
           const messages: LLMMessage[] = [
             {
               role: 'system',
-              content: agent.prompt,
+              content: agent.systemPrompt,
             },
             {
               role: 'user',
@@ -126,9 +141,11 @@ export class Orchestrator {
           let fullResponse = '';
           let chunkCount = 0;
 
-          const response = await llmService.streamChat(
-            llmConfig,
+          const response = await this.streamChatWithTools(
+            { ...conversationBudget.applyPolicy(llmConfig, budgetPolicy), signal: generation.signal },
             messages,
+            agent.tools,
+            { conversationId, agentId: roleTag, agentName: roleTag, signal: generation.signal },
             (chunk: LLMStreamChunk) => {
               if (!chunk.isComplete && chunk.content) {
                 chunkCount++;
@@ -136,23 +153,27 @@ export class Orchestrator {
                 console.log(`📝 [${roleTag}] 块 #${chunkCount}: "${chunk.content}"`);
                 onEvent({ type: 'ai_chunk', text: chunk.content });
               }
-            }
+            },
+            onEvent,
+            this.failoverNotifier(roleTag, onEvent)
           );
 
           console.log(`✅ LLM调用完成 [${roleTag}], 总块数: ${chunkCount}, 内容长度: ${response.content.length}`);
 
           // 6. 保存AI消息到数据库
-          const aiMessage = await prisma.message.create({
-            data: {
-              convId: conversationId,
-              role: 'ai',
-              agentId: roleTag,
-              step: roleTag,
-              content: response.content,
-              tokens: response.usage.totalTokens,
-              costCents: this.calculateCost(response, llmConfig.provider, response.model),
-            },
+          const aiMessage = await conversationBranches.append({
+            convId: conversationId,
+            role: 'ai',
+            agentId: roleTag,
+            step: roleTag,
+            content: response.content,
+            tokens: response.usage.totalTokens,
+            ...costLedger.messageCost(response),
+            failover: response.failovers,
+            promptVersions: agent.promptVersions,
+            toolCalls: response.toolRuns,
           });
+          await costLedger.record({ source: 'message', conversationId, messageId: aiMessage.id, response });
 
           // 7. 发送消息完成事件
           onEvent({ 
@@ -165,6 +186,12 @@ export class Orchestrator {
           groupChatContext += `${agent.name}: ${response.content}\n\n`;
 
         } catch (stepError) {
+          if (generation.signal.aborted) {
+            console.log(`🛑 编排被取消，中止执行: ${roleTag}`);
+            onEvent({ type: 'orchestration_cancelled', reason: '用户取消', step: roleTag });
+            return;
+          }
+
           console.error(`Error in step ${roleTag}:`, stepError);
           
           // 发送步骤失败事件
@@ -190,19 +217,24 @@ export class Orchestrator {
         error: error instanceof Error ? error.message : 'Unknown error',
       });
     } finally {
-      // 清理取消标志
-      this.clearCancelFlag(conversationId);
+      generationRegistry.finish(conversationId, generation);
     }
   }
 
   /**
-   * 运行群聊互动模式 - AI们自然对话，像真实朋友圈一样
+   * 运行群聊互动模式 - AI们围绕用户的消息多轮对话，轮次和停止条件见续聊引擎
+   * 用户 @ 的AI在第一轮最先发言，mentionsOnly 为 true 时只有被 @ 的AI（及它们点名接话的AI）发言；
+   * AI在回复中 @ 其他成员时，被点名的成员在下一轮接话
    */
   static async runGroupChatMode(
     conversationId: string,
     userMessageContent: string,
-    onEvent: (event: any) => void
+    onEvent: (event: any) => void,
+    signal?: AbortSignal,
+    mentionsOnly: boolean = false
   ): Promise<void> {
+    const generation = generationRegistry.begin(conversationId, signal);
+
     try {
       console.log(`🎉 开始群聊互动模式: ${conversationId}`);
       
@@ -215,7 +247,8 @@ export class Orchestrator {
               members: {
                 include: {
                   agent: true
-                }
+                },
+                orderBy: { order: 'asc' }
               }
             }
           }
@@ -226,67 +259,40 @@ export class Orchestrator {
         throw new Error('Group conversation not found');
       }
 
-      // 获取群里的所有AI
-      const availableAgents = conversation.group.members.map(m => m.agent);
+      // 获取群里的所有AI，按发言顺序排列
+      const availableAgents: GroupAgent[] = conversation.group.members.map(m => ({ ...m.agent, groupPriority: m.priority }));
       console.log(`👥 群聊成员: ${availableAgents.map(a => a.name).join(', ')}`);
 
-      // 构建群聊上下文
-      let groupChatHistory = `用户: ${userMessageContent}\n\n`;
-      onEvent({ type: 'group_chat_started', totalAgents: availableAgents.length });
-
-      // 多轮互动 (2-4轮)
-      const totalRounds = Math.floor(Math.random() * 3) + 2; // 2-4轮
-      console.log(`🎯 计划进行 ${totalRounds} 轮互动`);
-
-      for (let round = 1; round <= totalRounds; round++) {
-        console.log(`\n🔄 第 ${round} 轮互动开始`);
-        
-        // 检查是否被取消
-        if (this.isCancelled(conversationId)) {
-          console.log(`🛑 群聊被取消，停止执行`);
-          onEvent({ type: 'group_chat_cancelled' });
-          return;
-        }
-
-        // 决定这轮有哪些AI要说话
-        const activeAgents = this.selectActiveAgentsForRound(availableAgents, round, userMessageContent);
-        console.log(`🎭 第 ${round} 轮活跃AI: ${activeAgents.map(a => a.name).join(', ')}`);
+      // 用户 @ 的AI
+      const mentionedAgents = agentMentions.parse(userMessageContent, availableAgents);
+      const exclusive = mentionsOnly && mentionedAgents.length > 0;
+      if (mentionedAgents.length > 0) {
+        console.log(`📣 用户点名: ${mentionedAgents.map(a => a.name).join(', ')}${exclusive ? '（仅被点名的AI回复）' : ''}`);
+      }
 
-        if (activeAgents.length === 0) {
-          console.log(`⏭️ 第 ${round} 轮无AI活跃，跳过`);
-          continue;
-        }
+      // 较早的聊天记录（摘要 + 最近的消息）
+      const history = await conversationSummarizer.buildPromptHistory(conversationId, userMessageContent);
 
-        // 让选中的AI们并发或顺序发言
-        const roundPromises = activeAgents.map(async (agent, index) => {
-          // 随机延迟，模拟真实打字时间
-          const delay = Math.random() * 2000 + 500; // 0.5-2.5秒
-          await new Promise(resolve => setTimeout(resolve, delay));
-
-          return this.executeAgentResponse(
-            agent, 
-            conversationId, 
-            groupChatHistory, 
-            round, 
-            index,
-            onEvent
-          );
-        });
+      onEvent({ type: 'group_chat_started', totalAgents: availableAgents.length });
 
-        // 等待这轮所有AI完成
-        const roundResponses = await Promise.all(roundPromises);
-        
-        // 更新群聊历史
-        roundResponses.forEach(response => {
-          if (response) {
-            groupChatHistory += `${response.agentName}: ${response.content}\n\n`;
-          }
-        });
+      await this.runContinuationRounds({
+        conversationId,
+        userId: conversation.userId,
+        agents: availableAgents,
+        groupChatHistory: `${history ? `${history}\n\n` : ''}用户: ${userMessageContent}\n\n`,
+        previousTurns: [userMessageContent],
+        mentionedAgents,
+        exclusive,
+        settings: continuationEngine.getSettings(conversation.group),
+        mode: participationPolicy.getMode(conversation.group.mode),
+        onEvent,
+        signal: generation.signal
+      });
 
-        // 轮次间暂停
-        if (round < totalRounds) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
+      if (generation.signal.aborted) {
+        console.log(`🛑 群聊被取消，停止执行`);
+        onEvent({ type: 'group_chat_cancelled' });
+        return;
       }
 
       onEvent({ type: 'group_chat_completed' });
@@ -299,75 +305,215 @@ export class Orchestrator {
         error: error instanceof Error ? error.message : 'Unknown error',
       });
     } finally {
-      this.clearCancelFlag(conversationId);
+      generationRegistry.finish(conversationId, generation);
     }
   }
 
   /**
-   * 选择本轮活跃的AI
+   * 继续聊天 - 用户不发言，AI们接着最近的聊天记录继续讨论，直到满足续聊的停止条件
+   * 群聊使用群成员和群聊的续聊配置，其他对话使用所有启用的AI和默认配置
    */
-  private static selectActiveAgentsForRound(
-    allAgents: any[], 
-    round: number, 
-    userMessage: string
-  ): any[] {
-    const activeAgents = [];
-
-    for (const agent of allAgents) {
-      let probability = 0.7; // 基础概率70%
-
-      // 第一轮概率更高
-      if (round === 1) {
-        probability = 0.9;
-      } else {
-        probability = 0.5; // 后续轮次概率降低
+  static async continueGroupChat(
+    conversationId: string,
+    onEvent: (event: any) => void,
+    signal?: AbortSignal,
+    planLimits?: PlanLimits
+  ): Promise<void> {
+    const generation = generationRegistry.begin(conversationId, signal);
+
+    try {
+      console.log(`🔁 继续聊天: ${conversationId}`);
+
+      const conversation = await prisma.conversation.findUnique({
+        where: { id: conversationId },
+        include: {
+          group: {
+            include: {
+              members: {
+                include: {
+                  agent: true
+                },
+                orderBy: { order: 'asc' }
+              }
+            }
+          }
+        }
+      });
+
+      if (!conversation) {
+        throw new Error('Conversation not found');
       }
 
-      // 根据AI性格调整概率
-      if (agent.roleTag === 'EMPATHY') {
-        probability += 0.2; // 共情AI更爱说话
-      } else if (agent.roleTag === 'CREATIVE') {
-        probability += 0.1; // 创意AI比较活跃
-      } else if (agent.roleTag === 'ANALYST') {
-        probability -= 0.1; // 分析AI相对沉稳
+      const agents: GroupAgent[] = conversation.group
+        ? conversation.group.members.map(m => ({ ...m.agent, groupPriority: m.priority }))
+        : await prisma.agent.findMany({ where: { enabled: true }, orderBy: { order: 'asc' } });
+
+      if (agents.length === 0) {
+        throw new Error('没有可以继续聊天的AI');
       }
 
-      // 关键词匹配增加概率
-      if (this.isMessageRelevantToAgent(userMessage, agent.roleTag)) {
-        probability += 0.3;
+      // 聊天记录：较早消息的摘要 + 最近的消息
+      const context = await conversationSummarizer.getContext(conversationId);
+      if (context.recentMessages.length === 0) {
+        throw new Error('还没有聊天记录，先说点什么吧');
       }
 
-      // 随机决定
-      if (Math.random() < probability) {
-        activeAgents.push(agent);
+      const groupChatHistory = `${conversationSummarizer.format(context)}\n\n`;
+
+      onEvent({ type: 'group_chat_started', totalAgents: agents.length });
+
+      await this.runContinuationRounds({
+        conversationId,
+        userId: conversation.userId,
+        agents: planQuotas.limitAgents(agents, planLimits),
+        groupChatHistory,
+        previousTurns: context.recentMessages.map(msg => msg.content),
+        mentionedAgents: [],
+        exclusive: false,
+        settings: continuationEngine.getSettings(conversation.group),
+        mode: participationPolicy.getMode(conversation.group?.mode),
+        onEvent,
+        signal: generation.signal,
+        planLimits
+      });
+
+      if (generation.signal.aborted) {
+        console.log(`🛑 继续聊天被取消`);
+        onEvent({ type: 'group_chat_cancelled' });
+        return;
       }
-    }
 
-    // 确保第一轮至少有一个AI回复
-    if (round === 1 && activeAgents.length === 0) {
-      const randomAgent = allAgents[Math.floor(Math.random() * allAgents.length)];
-      activeAgents.push(randomAgent);
-    }
+      onEvent({ type: 'group_chat_completed' });
 
-    return activeAgents;
+    } catch (error) {
+      console.error('Continue chat error:', error);
+      onEvent({
+        type: 'group_chat_failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      generationRegistry.finish(conversationId, generation);
+    }
   }
 
   /**
-   * 判断消息是否与AI角色相关
+   * 按续聊引擎进行多轮发言：每轮按群聊的调度模式决定发言的AI，每个AI都能看到前面的回复；
+   * 没有新内容的AI之后不再发言，一整轮都没有新内容、达到轮数或消息数上限、预算用完时停止，
+   * 停止时发送 continuation_stopped 事件
    */
-  private static isMessageRelevantToAgent(message: string, roleTag: string): boolean {
-    const lowerMessage = message.toLowerCase();
-    
-    const keywords = {
-      'EMPATHY': ['难过', '伤心', '开心', '高兴', '担心', '紧张', '感觉'],
-      'PRACTICAL': ['怎么做', '如何', '方法', '步骤', '解决', '建议'],
-      'CREATIVE': ['创意', '想法', '设计', '艺术', '音乐', '写作'],
-      'ANALYST': ['分析', '数据', '统计', '研究', '原因', '为什么'],
-      'FOLLOWUP': ['后续', '接下来', '然后', '计划']
-    };
+  private static async runContinuationRounds(params: {
+    conversationId: string;
+    userId: string;
+    agents: GroupAgent[];
+    groupChatHistory: string;
+    previousTurns: string[];
+    mentionedAgents: GroupAgent[];
+    exclusive: boolean;
+    settings: ContinuationSettings;
+    mode: ChatGroupMode;
+    onEvent: (event: any) => void;
+    signal: AbortSignal;
+    planLimits?: PlanLimits;
+  }): Promise<void> {
+    const { conversationId, userId, agents, mentionedAgents, exclusive, settings, mode, onEvent, signal, planLimits } = params;
+    const memberNames = agents.map(agent => agent.name);
+    const previousTurns = [...params.previousTurns];
+    const idleAgents = new Set<GroupAgent>();
+    let groupChatHistory = params.groupChatHistory;
+    let handoffTargets: GroupAgent[] = [];
+    let handoffCount = 0;
+    let round = 0;
+    let messageCount = 0;
+    let stopReason: ContinuationStopReason | null = null;
+
+    console.log(`🎯 续聊配置: ${mode} 模式，最多 ${settings.maxRounds} 轮、${settings.maxMessages} 条消息，相似度阈值 ${settings.idleSimilarity}`);
+
+    while (!stopReason) {
+      stopReason = continuationEngine.shouldStop(settings, round, messageCount);
+      if (stopReason) break;
+
+      round++;
+      console.log(`\n🔄 第 ${round} 轮互动开始`);
+
+      // 决定这轮有哪些AI要说话：第一轮是用户点名的AI先说，之后是上一轮被点名接话的AI先说
+      const forcedAgents = round === 1 ? mentionedAgents : handoffTargets;
+      const speakingAgents = continuationEngine.planRound(agents, round, forcedAgents, exclusive, idleAgents, mode);
+      console.log(`🎭 第 ${round} 轮发言AI: ${speakingAgents.map(a => a.name).join(', ')}`);
+
+      if (speakingAgents.length === 0) {
+        stopReason = 'idle';
+        break;
+      }
+
+      handoffTargets = [];
+      let newContentCount = 0;
+
+      for (const [index, agent] of speakingAgents.entries()) {
+        if (signal.aborted) {
+          stopReason = 'cancelled';
+          break;
+        }
 
-    const agentKeywords = keywords[roleTag as keyof typeof keywords] || [];
-    return agentKeywords.some(keyword => lowerMessage.includes(keyword));
+        if (messageCount >= settings.maxMessages) break;
+
+        // 检查会话预算，预算不足时减少发言的AI
+        const budgetPolicy = await conversationBudget.checkBeforeCall(conversationId, messageCount, onEvent);
+        if (!budgetPolicy || (budgetPolicy.maxAgents !== undefined && messageCount >= budgetPolicy.maxAgents)) {
+          stopReason = 'budget';
+          break;
+        }
+
+        const response = await this.executeAgentResponse(
+          agent,
+          conversationId,
+          groupChatHistory,
+          round,
+          index,
+          memberNames,
+          onEvent,
+          budgetPolicy,
+          signal,
+          planLimits,
+          userId
+        );
+        if (!response) continue;
+
+        messageCount++;
+
+        if (continuationEngine.isIdle(response.content, previousTurns, settings)) {
+          console.log(`💤 ${response.agentName} 没有新内容，之后不再发言`);
+          idleAgents.add(agent);
+        } else {
+          newContentCount++;
+        }
+
+        previousTurns.push(response.content);
+        groupChatHistory += `${response.agentName}: ${response.content}\n\n`;
+
+        // AI在回复中点名的成员下一轮接话
+        const target = handoffCount < MAX_HANDOFFS
+          ? agentMentions.findHandoff(response.content, response.agentName, agents)
+          : null;
+        if (target && !handoffTargets.includes(target)) {
+          console.log(`📣 ${response.agentName} 点名 ${target.name} 接话`);
+          handoffTargets.push(target);
+          idleAgents.delete(target);
+          handoffCount++;
+        }
+      }
+
+      if (!stopReason && signal.aborted) {
+        stopReason = 'cancelled';
+      }
+
+      // 一整轮都没有新内容，大家聊得差不多了
+      if (!stopReason && newContentCount === 0) {
+        stopReason = 'idle';
+      }
+    }
+
+    console.log(`⏹️ 续聊停止: ${stopReason}，共 ${round} 轮 ${messageCount} 条消息`);
+    onEvent(continuationEngine.toStoppedEvent(stopReason, round, messageCount));
   }
 
   /**
@@ -379,7 +525,12 @@ export class Orchestrator {
     groupChatHistory: string,
     round: number,
     orderInRound: number,
-    onEvent: (event: any) => void
+    memberNames: string[],
+    onEvent: (event: any) => void,
+    budgetPolicy: BudgetPolicy,
+    signal?: AbortSignal,
+    planLimits?: PlanLimits,
+    userId?: string
   ): Promise<{ agentName: string; content: string } | null> {
     try {
       console.log(`🤖 ${agent.name} 开始思考回复...`);
@@ -393,17 +544,21 @@ export class Orchestrator {
       });
 
       // 获取AI配置
-      const { agent: agentConfig, llmConfig } = await AgentConfigManager.getAgentConfig(agent.roleTag);
+      const { agent: agentConfig, llmConfig } = await AgentConfigManager.getAgentConfig(agent.roleTag, { conversationId });
+
+      // 与最近聊天内容相关的长期记忆
+      const memories = await userMemory.buildPromptContext(userId, agent.id, groupChatHistory.slice(-this.MEMORY_QUERY_LENGTH));
       
       // 构建更自然的群聊提示词
-      const systemPrompt = `${agentConfig.systemPrompt}
+      const systemPrompt = `${agentConfig.systemPrompt}${memories ? `\n\n${memories}` : ''}
 
 【群聊互动规则】
 - 这是一个朋友群聊，用户刚说了话，现在轮到你自然地回应
 - 你的回复应该：简短自然(30-80字)、有个性、可以引用其他人说的话
 - 可以用表情符号，可以开玩笑，像真实朋友一样聊天
 - 第${round}轮对话中，你是第${orderInRound + 1}个发言的
-- 如果前面有人说了，你可以附和、补充或者有不同观点`;
+- 如果前面有人说了，你可以附和、补充或者有不同观点
+- 群成员：${memberNames.join('、')}。有人 @ 你时要直接回应；想请某位朋友接话，可以用 @名字 点名`;
 
       const messages: LLMMessage[] = [
         {
@@ -418,9 +573,11 @@ export class Orchestrator {
 
       // 流式调用LLM
       let fullResponse = '';
-      const response = await llmService.streamChat(
-        llmConfig,
+      const response = await this.streamChatWithTools(
+        { ...conversationBudget.applyPolicy(planQuotas.restrictModels(llmConfig, planLimits), budgetPolicy), signal },
         messages,
+        agentConfig.tools,
+        { conversationId, agentId: agent.roleTag, agentName: agent.name, signal },
         (chunk: LLMStreamChunk) => {
           if (!chunk.isComplete && chunk.content) {
             fullResponse += chunk.content;
@@ -430,21 +587,25 @@ export class Orchestrator {
               content: chunk.content 
             });
           }
-        }
+        },
+        onEvent,
+        this.failoverNotifier(agent.name, onEvent)
       );
 
       // 保存到数据库
-      const aiMessage = await prisma.message.create({
-        data: {
-          convId: conversationId,
-          role: 'ai',
-          agentId: agent.roleTag,
-          step: agent.name,
-          content: response.content,
-          tokens: response.usage.totalTokens,
-          costCents: this.calculateCost(response, llmConfig.provider, response.model),
-        },
+      const aiMessage = await conversationBranches.append({
+        convId: conversationId,
+        role: 'ai',
+        agentId: agent.roleTag,
+        step: agent.name,
+        content: response.content,
+        tokens: response.usage.totalTokens,
+        ...costLedger.messageCost(response),
+        failover: response.failovers,
+        promptVersions: agentConfig.promptVersions,
+        toolCalls: response.toolRuns,
       });
+      await costLedger.record({ source: 'message', conversationId, messageId: aiMessage.id, response });
 
       // 发送完成事件
       onEvent({ 
@@ -458,6 +619,11 @@ export class Orchestrator {
       return { agentName: agent.name, content: response.content };
 
     } catch (error) {
+      if (signal?.aborted) {
+        console.log(`🛑 ${agent.name} 回复已取消`);
+        return null;
+      }
+
       console.error(`❌ ${agent.name} 回复失败:`, error);
       onEvent({ 
         type: 'agent_error', 
@@ -475,8 +641,11 @@ export class Orchestrator {
   static async runStreamOrchestration(
     conversationId: string,
     userMessageContent: string,
-    onEvent: (event: any) => void
+    onEvent: (event: any) => void,
+    signal?: AbortSignal
   ): Promise<void> {
+    const generation = generationRegistry.begin(conversationId, signal);
+
     // 🔍 开始诊断追踪
     const diagnosticId = await diagnosticService.startConversationDiagnostic(
       conversationId,
@@ -497,8 +666,9 @@ export class Orchestrator {
 
       // 注意：用户消息已在API路由中保存，这里不需要重复保存
 
-      // 获取对话历史
-      const conversationHistory = `用户: ${userMessageContent}\n\n`;
+      // 获取对话历史（较早的消息为摘要）
+      const history = await conversationSummarizer.buildPromptHistory(conversationId, userMessageContent);
+      const conversationHistory = `${history ? `${history}\n\n` : ''}用户: ${userMessageContent}\n\n`;
 
       // 🧠 分析阶段 - 情感和意图分析
       const analysisStartTime = Date.now();
@@ -551,7 +721,8 @@ export class Orchestrator {
             conversationId,
             userMessageContent,
             conversationHistory,
-            onEvent
+            onEvent,
+            generation.signal
           );
 
           // 记录执行完成
@@ -602,7 +773,8 @@ export class Orchestrator {
           userMessageContent,
           conversationHistory,
           onEvent,
-          conversation.mode
+          conversation.mode,
+          generation.signal
         );
       }
 
@@ -619,6 +791,8 @@ export class Orchestrator {
         type: 'orchestration_failed',
         error: error instanceof Error ? error.message : 'Unknown error',
       });
+    } finally {
+      generationRegistry.finish(conversationId, generation);
     }
   }
 
@@ -631,7 +805,8 @@ export class Orchestrator {
     userMessageContent: string,
     conversationHistory: string,
     onEvent: (event: any) => void,
-    mode: string
+    mode: string,
+    signal?: AbortSignal
   ): Promise<void> {
     const executionStartTime = Date.now();
 
@@ -642,9 +817,20 @@ export class Orchestrator {
     let conversationContext = conversationHistory;
     const phaseResults: any[] = [];
     const selectedAgents = [...steps];
+    let agentsCalled = 0;
 
     // 执行每个步骤
     for (const roleTag of steps) {
+      if (signal?.aborted) {
+        console.log(`🛑 编排被取消，停止执行: ${roleTag}`);
+        break;
+      }
+
+      // 检查会话预算，预算不足时降级或停止
+      const budgetPolicy = await conversationBudget.checkBeforeCall(conversationId, agentsCalled, onEvent);
+      if (!budgetPolicy) break;
+      agentsCalled++;
+
       console.log(`🎭 执行传统Agent: ${roleTag}`);
       const agentStartTime = Date.now();
 
@@ -653,7 +839,7 @@ export class Orchestrator {
         onEvent({ type: 'step_started', step: roleTag });
 
         // 2. 获取智能体配置
-        const { agent, llmConfig } = await AgentConfigManager.getAgentConfig(roleTag);
+        const { agent, llmConfig } = await AgentConfigManager.getAgentConfig(roleTag, { conversationId });
         console.log(`⚙️ Agent配置 [${roleTag}]:`, {
           name: agent.name,
           temperature: agent.temperature,
@@ -676,9 +862,11 @@ export class Orchestrator {
         // 4. 调用LLM服务进行流式对话
         console.log(`🚀 开始LLM调用 [${roleTag}] (流式)`);
 
-        const response = await llmService.streamChat(
-          llmConfig,
+        const response = await this.streamChatWithTools(
+          { ...conversationBudget.applyPolicy(llmConfig, budgetPolicy), signal },
           messages,
+          agent.tools,
+          { conversationId, agentId: roleTag, agentName: roleTag, signal },
           (chunk: LLMStreamChunk) => {
             if (!chunk.isComplete && chunk.content) {
               onEvent({
@@ -687,24 +875,28 @@ export class Orchestrator {
                 agent: roleTag
               });
             }
-          }
+          },
+          onEvent,
+          this.failoverNotifier(roleTag, onEvent)
         );
 
         const agentExecutionTime = Date.now() - agentStartTime;
         console.log(`✅ LLM调用完成 [${roleTag}], 内容长度: ${response.content.length}`);
 
         // 5. 保存AI消息到数据库
-        const aiMessage = await prisma.message.create({
-          data: {
-            convId: conversationId,
-            role: 'ai',
-            agentId: roleTag,
-            step: roleTag,
-            content: response.content,
-            tokens: response.usage.totalTokens,
-            costCents: this.calculateCost(response, llmConfig.provider, response.model),
-          },
+        const aiMessage = await conversationBranches.append({
+          convId: conversationId,
+          role: 'ai',
+          agentId: roleTag,
+          step: roleTag,
+          content: response.content,
+          tokens: response.usage.totalTokens,
+          ...costLedger.messageCost(response),
+          failover: response.failovers,
+          promptVersions: agent.promptVersions,
+          toolCalls: response.toolRuns,
         });
+        await costLedger.record({ source: 'message', conversationId, messageId: aiMessage.id, response });
 
         // 6. 发送消息完成事件
         onEvent({
@@ -735,6 +927,11 @@ export class Orchestrator {
         });
 
       } catch (stepError) {
+        if (signal?.aborted) {
+          console.log(`🛑 编排被取消，中止执行: ${roleTag}`);
+          break;
+        }
+
         const agentExecutionTime = Date.now() - agentStartTime;
         console.error(`Error in step ${roleTag}:`, stepError);
 
@@ -746,16 +943,14 @@ export class Orchestrator {
         });
 
         // 创建错误消息
-        const errorMessage = await prisma.message.create({
-          data: {
-            convId: conversationId,
-            role: 'ai',
-            content: `抱歉，${roleTag} 处理时出现错误`,
-            agentId: roleTag,
-            step: roleTag,
-            tokens: 0,
-            costCents: 0,
-          },
+        const errorMessage = await conversationBranches.append({
+          convId: conversationId,
+          role: 'ai',
+          content: `抱歉，${roleTag} 处理时出现错误`,
+          agentId: roleTag,
+          step: roleTag,
+          tokens: 0,
+          costCents: 0,
         });
 
         // 记录失败的Agent执行结果
@@ -800,6 +995,11 @@ export class Orchestrator {
       0 // 聚合时间很短
     );
 
+    if (signal?.aborted) {
+      onEvent({ type: 'orchestration_cancelled', reason: '用户取消' });
+      return;
+    }
+
     // 发送编排完成事件
     onEvent({ type: 'orchestration_completed' });
   }
@@ -819,9 +1019,15 @@ export class Orchestrator {
     console.log('📋 传统模式选择智能体:', steps);
 
     let conversationContext = conversationHistory;
+    let agentsCalled = 0;
 
     // 执行每个步骤
     for (const roleTag of steps) {
+      // 检查会话预算，预算不足时降级或停止
+      const budgetPolicy = await conversationBudget.checkBeforeCall(conversationId, agentsCalled, onEvent);
+      if (!budgetPolicy) break;
+      agentsCalled++;
+
       console.log(`🎭 执行传统Agent: ${roleTag}`);
 
       try {
@@ -829,7 +1035,7 @@ export class Orchestrator {
         onEvent({ type: 'step_started', step: roleTag });
 
         // 2. 获取智能体配置
-        const { agent, llmConfig } = await AgentConfigManager.getAgentConfig(roleTag);
+        const { agent, llmConfig } = await AgentConfigManager.getAgentConfig(roleTag, { conversationId });
         console.log(`⚙️ Agent配置 [${roleTag}]:`, {
           name: agent.name,
           temperature: agent.temperature,
@@ -853,7 +1059,7 @@ export class Orchestrator {
         console.log(`🚀 开始LLM调用 [${roleTag}] (流式)`);
 
         const response = await llmService.streamChat(
-          llmConfig,
+          conversationBudget.applyPolicy(llmConfig, budgetPolicy),
           messages,
           (chunk: LLMStreamChunk) => {
             if (!chunk.isComplete && chunk.content) {
@@ -863,23 +1069,25 @@ export class Orchestrator {
                 agent: roleTag
               });
             }
-          }
+          },
+          this.failoverNotifier(roleTag, onEvent)
         );
 
         console.log(`✅ LLM调用完成 [${roleTag}], 内容长度: ${response.content.length}`);
 
         // 5. 保存AI消息到数据库
-        const aiMessage = await prisma.message.create({
-          data: {
-            convId: conversationId,
-            role: 'ai',
-            agentId: roleTag,
-            step: roleTag,
-            content: response.content,
-            tokens: response.usage.totalTokens,
-            costCents: this.calculateCost(response, llmConfig.provider, response.model),
-          },
+        const aiMessage = await conversationBranches.append({
+          convId: conversationId,
+          role: 'ai',
+          agentId: roleTag,
+          step: roleTag,
+          content: response.content,
+          tokens: response.usage.totalTokens,
+          ...costLedger.messageCost(response),
+          failover: response.failovers,
+          promptVersions: agent.promptVersions,
         });
+        await costLedger.record({ source: 'message', conversationId, messageId: aiMessage.id, response });
 
         // 6. 发送消息完成事件
         onEvent({
@@ -904,16 +1112,14 @@ export class Orchestrator {
         });
 
         // 创建错误消息
-        const errorMessage = await prisma.message.create({
-          data: {
-            convId: conversationId,
-            role: 'ai',
-            content: `抱歉，${roleTag} 处理时出现错误`,
-            agentId: roleTag,
-            step: roleTag,
-            tokens: 0,
-            costCents: 0,
-          },
+        const errorMessage = await conversationBranches.append({
+          convId: conversationId,
+          role: 'ai',
+          content: `抱歉，${roleTag} 处理时出现错误`,
+          agentId: roleTag,
+          step: roleTag,
+          tokens: 0,
+          costCents: 0,
         });
 
         // 继续执行下一个Agent
@@ -931,8 +1137,12 @@ export class Orchestrator {
    */
   static async runChatOrchestration(
     conversationId: string,
-    userMessageContent: string
+    userMessageContent: string,
+    signal?: AbortSignal,
+    planLimits?: PlanLimits
   ): Promise<any[]> {
+    const generation = generationRegistry.begin(conversationId, signal);
+
     try {
       console.log('🎭 开始非流式编排:', { conversationId, content: userMessageContent.slice(0, 50) });
 
@@ -946,20 +1156,33 @@ export class Orchestrator {
       }
 
       // 获取流程配置
-      const steps: string[] = this.selectAgentsDynamically(conversation.mode, userMessageContent);
+      const steps: string[] = planQuotas.limitAgents(
+        this.selectAgentsDynamically(conversation.mode, userMessageContent),
+        planLimits
+      );
       console.log('📋 智能选择智能体:', steps);
 
-      // 构建群聊上下文，让每个agent都能看到完整对话
-      let groupChatContext = `用户: ${userMessageContent}\n\n`;
+      // 构建群聊上下文，让每个agent都能看到完整对话（较早的消息为摘要）
+      const history = await conversationSummarizer.buildPromptHistory(conversationId, userMessageContent);
+      let groupChatContext = `${history ? `${history}\n\n` : ''}用户: ${userMessageContent}\n\n`;
       const aiMessages: any[] = [];
 
       // 执行每个步骤
       for (const roleTag of steps) {
+        if (generation.signal.aborted) {
+          console.log(`🛑 编排被取消，停止执行: ${roleTag}`);
+          break;
+        }
+
+        // 检查会话预算，预算不足时降级或停止
+        const budgetPolicy = await conversationBudget.checkBeforeCall(conversationId, aiMessages.length);
+        if (!budgetPolicy) break;
+
         console.log(`🎭 执行Agent: ${roleTag}`);
 
         try {
           // 获取智能体配置
-          const { agent, llmConfig } = await AgentConfigManager.getAgentConfig(roleTag);
+          const { agent, llmConfig } = await AgentConfigManager.getAgentConfig(roleTag, { conversationId });
           console.log(`⚙️ Agent配置 [${roleTag}]:`, {
             name: agent.name,
             temperature: agent.temperature,
@@ -971,7 +1194,7 @@ export class Orchestrator {
           const messages: LLMMessage[] = [
             {
               role: 'system',
-              content: agent.prompt,
+              content: agent.systemPrompt,
             },
             {
               role: 'user',
@@ -981,25 +1204,27 @@ export class Orchestrator {
 
           // 调用LLM服务 (非流式)
           console.log(`🚀 开始LLM调用 [${roleTag}] (非流式)`);
-          const response = await llmService.chat(llmConfig, messages);
+          const allowedConfig = planQuotas.restrictModels(llmConfig, planLimits);
+          const response = await llmService.chat(
+            { ...conversationBudget.applyPolicy(allowedConfig, budgetPolicy), signal: generation.signal },
+            messages
+          );
           
           console.log(`✅ LLM调用完成 [${roleTag}], 内容长度: ${response.content.length}`);
 
-          // 计算成本
-          const cost = this.calculateCost(response.usage, llmConfig.provider, response.model);
-          
           // 保存AI消息到数据库
-          const aiMessage = await prisma.message.create({
-            data: {
-              convId: conversationId,
-              role: 'ai',
-              content: response.content,
-              agentId: roleTag,
-              step: roleTag,
-              tokens: response.usage?.totalTokens || 0,
-              costCents: Math.round(cost * 100), // 转换为分
-            },
+          const aiMessage = await conversationBranches.append({
+            convId: conversationId,
+            role: 'ai',
+            content: response.content,
+            agentId: roleTag,
+            step: roleTag,
+            tokens: response.usage?.totalTokens || 0,
+            ...costLedger.messageCost(response),
+            failover: response.failovers,
+            promptVersions: agent.promptVersions,
           });
+          await costLedger.record({ source: 'message', conversationId, messageId: aiMessage.id, response });
 
           console.log(`💾 AI消息已保存 [${roleTag}]:`, aiMessage.id);
 
@@ -1010,19 +1235,22 @@ export class Orchestrator {
           groupChatContext += `${agent.name}: ${response.content}\n\n`;
 
         } catch (error) {
+          if (generation.signal.aborted) {
+            console.log(`🛑 编排被取消，中止执行: ${roleTag}`);
+            break;
+          }
+
           console.error(`❌ Agent ${roleTag} 执行失败:`, error);
           
           // 创建错误消息
-          const errorMessage = await prisma.message.create({
-            data: {
-              convId: conversationId,
-              role: 'ai',
-              content: `抱歉，${roleTag} 智能体处理时出现错误: ${error instanceof Error ? error.message : '未知错误'}`,
-              agentId: roleTag,
-              step: roleTag,
-              tokens: 0,
-              costCents: 0,
-            },
+          const errorMessage = await conversationBranches.append({
+            convId: conversationId,
+            role: 'ai',
+            content: `抱歉，${roleTag} 智能体处理时出现错误: ${error instanceof Error ? error.message : '未知错误'}`,
+            agentId: roleTag,
+            step: roleTag,
+            tokens: 0,
+            costCents: 0,
           });
 
           aiMessages.push(errorMessage);
@@ -1036,52 +1264,104 @@ export class Orchestrator {
     } catch (error) {
       console.error('非流式编排错误:', error);
       throw error;
+    } finally {
+      generationRegistry.finish(conversationId, generation);
     }
   }
 
   /**
-   * 计算成本（美元）
+   * 带工具调用的流式对话
+   * 模型请求调用工具时执行工具、把结果作为 tool 消息交回模型，直到模型给出最终回复；
+   * 智能体没有启用工具或提供商不支持工具时等同于普通 streamChat
    */
-  private static calculateCost(usage: any, provider: string, model: string): number {
-    // 如果没有使用量信息，返回0
-    if (!usage) {
-      console.warn('⚠️ 没有使用量信息，成本设为0');
-      return 0;
+  static async streamChatWithTools(
+    llmConfig: LLMConfig,
+    messages: LLMMessage[],
+    toolNames: string[] | undefined,
+    context: ToolContext & { agentName: string },
+    onChunk: (chunk: LLMStreamChunk) => void,
+    onEvent: (event: any) => void,
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse & { toolRuns?: ToolExecutionResult[] }> {
+    const tools = llmService.supportsTools(llmConfig.provider) ? toolRegistry.getDefinitions(toolNames) : [];
+    if (tools.length === 0) {
+      return llmService.streamChat(llmConfig, messages, onChunk, options);
     }
 
-    // 安全地获取token数量
-    const promptTokens = usage.promptTokens || usage.prompt_tokens || 0;
-    const completionTokens = usage.completionTokens || usage.completion_tokens || 0;
-    
-    console.log('💰 计算成本:', { provider, model, promptTokens, completionTokens });
+    const history = [...messages];
+    const toolRuns: ToolExecutionResult[] = [];
+    const failovers: LLMFailover[] = [];
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, cachedTokens: 0 };
+    let costMicroCents = 0;
+    let content = '';
 
-    // 这里可以根据不同提供商和模型设置不同价格
-    // 暂时使用统一的示例价格
-    const inputPricePerK = 0.0005; // $0.0005 per 1K tokens
-    const outputPricePerK = 0.0015; // $0.0015 per 1K tokens
-    
-    const inputCost = (promptTokens / 1000) * inputPricePerK;
-    const outputCost = (completionTokens / 1000) * outputPricePerK;
-    const totalCost = inputCost + outputCost;
-    
-    console.log('💰 成本详情:', { 
-      inputCost: inputCost.toFixed(6), 
-      outputCost: outputCost.toFixed(6), 
-      totalCost: totalCost.toFixed(6) 
-    });
-    
-    return totalCost; // 返回美元金额
+    for (let step = 1; ; step++) {
+      // 最后一轮禁止继续调用工具，要求模型直接回复
+      const lastStep = step >= this.MAX_TOOL_STEPS;
+      const response = await llmService.streamChat(
+        { ...llmConfig, tools, toolChoice: lastStep ? 'none' : 'auto' },
+        history,
+        onChunk,
+        options
+      );
+
+      content += response.content;
+      usage.promptTokens += response.usage.promptTokens;
+      usage.completionTokens += response.usage.completionTokens;
+      usage.totalTokens += response.usage.totalTokens;
+      usage.cachedTokens += response.usage.cachedTokens || 0;
+      costMicroCents += response.cost?.microCents || 0;
+      failovers.push(...(response.failovers || []));
+
+      if (lastStep || !response.toolCalls?.length) {
+        return {
+          ...response,
+          content,
+          usage,
+          // 每一轮可能由不同模型响应，成本按轮累加
+          cost: response.cost && { ...response.cost, microCents: costMicroCents },
+          failovers: failovers.length > 0 ? failovers : undefined,
+          toolRuns: toolRuns.length > 0 ? toolRuns : undefined,
+        };
+      }
+
+      history.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+
+      for (const call of response.toolCalls) {
+        onEvent({ type: 'tool_call', agent: context.agentName, tool: call.name, arguments: call.arguments, step });
+
+        const result = await toolRegistry.execute(call, context);
+        toolRuns.push(result);
+
+        onEvent({
+          type: 'tool_result',
+          agent: context.agentName,
+          tool: call.name,
+          success: result.success,
+          content: result.content.slice(0, 500),
+          durationMs: result.durationMs,
+          step,
+        });
+
+        history.push({ role: 'tool', content: result.content, toolCallId: call.id, name: call.name });
+      }
+    }
+  }
+
+  /**
+   * 故障转移回调 - 模型切换时推送 llm_failover 事件，前端可以提示"已切换到备用模型"
+   */
+  private static failoverNotifier(agent: string, onEvent: (event: any) => void): LLMCallOptions {
+    return {
+      onFailover: (failover) => onEvent({ type: 'llm_failover', agent, ...failover }),
+    };
   }
 
   /**
    * 获取对话历史
    */
   static async getConversationHistory(conversationId: string, limit: number = 10): Promise<LLMMessage[]> {
-    const messages = await prisma.message.findMany({
-      where: { convId: conversationId },
-      orderBy: { createdAt: 'asc' },
-      take: limit,
-    });
+    const messages = (await conversationBranches.getTimeline(conversationId)).slice(0, limit);
 
     return messages.map(msg => ({
       role: msg.role as 'system' | 'user' | 'assistant',
@@ -0,0 +1,86 @@
+/**
+ * 🎲 发言策略
+ *
+ * 群聊配置的 mode 决定每轮由哪些成员发言、按什么顺序：
+ * - smart（默认）：按场景分析和话题匹配挑选成员，匹配分数按成员优先级加权
+ * - natural：每位成员按优先级对应的概率决定是否发言（优先级10必定发言，1为10%），发言顺序按优先级加权随机
+ * - fixed：全部成员按 ChatGroupMember.order 依次发言
+ * 智能体列表按成员的发言顺序传入；没有群聊配置的对话按 smart 处理，优先级都视为默认值
+ */
+
+import { CHAT_GROUP_MODES, ChatGroupMode, DEFAULT_MEMBER_PRIORITY } from './chat-groups';
+
+// ============= 类型定义 =============
+
+// 参与发言的智能体，groupPriority 为群聊成员的优先级（1-10）
+export interface GroupParticipant {
+  groupPriority?: number;
+}
+
+export const DEFAULT_GROUP_MODE: ChatGroupMode = 'smart';
+
+const MAX_PRIORITY = 10;
+
+// ============= 发言策略主类 =============
+
+export class ParticipationPolicy {
+  /**
+   * 群聊的调度模式，没有群聊或模式无效时为 smart
+   */
+  getMode(mode?: string | null): ChatGroupMode {
+    return CHAT_GROUP_MODES.includes(mode as ChatGroupMode) ? mode as ChatGroupMode : DEFAULT_GROUP_MODE;
+  }
+
+  /**
+   * 成员的优先级，限制在 1-10 之间
+   */
+  getPriority(agent: GroupParticipant): number {
+    const priority = agent.groupPriority ?? DEFAULT_MEMBER_PRIORITY;
+    return Math.min(Math.max(priority, 1), MAX_PRIORITY);
+  }
+
+  /**
+   * natural 模式下成员每轮发言的概率
+   */
+  getSpeakingProbability(agent: GroupParticipant): number {
+    return this.getPriority(agent) / MAX_PRIORITY;
+  }
+
+  /**
+   * smart 模式下匹配分数的系数 - 默认优先级时为 1，每高一级多 0.1
+   */
+  getScoreFactor(agent: GroupParticipant): number {
+    return 1 + (this.getPriority(agent) - DEFAULT_MEMBER_PRIORITY) / MAX_PRIORITY;
+  }
+
+  /**
+   * 按优先级加权随机排序 - 每个成员取 u^(1/优先级) 作为排序键，优先级越高越可能排在前面
+   */
+  weightedShuffle<T extends GroupParticipant>(agents: T[], random: () => number = Math.random): T[] {
+    return agents
+      .map(agent => ({ agent, key: Math.pow(random(), 1 / this.getPriority(agent)) }))
+      .sort((a, b) => b.key - a.key)
+      .map(({ agent }) => agent);
+  }
+
+  /**
+   * natural 模式的发言成员 - 按优先级加权随机排序后，每位成员按发言概率决定是否发言；
+   * 没有人抽中时由排在最前的成员发言
+   */
+  drawSpeakers<T extends GroupParticipant>(agents: T[], random: () => number = Math.random): T[] {
+    const shuffled = this.weightedShuffle(agents, random);
+    const speakers = shuffled.filter(agent => random() < this.getSpeakingProbability(agent));
+    return speakers.length > 0 ? speakers : shuffled.slice(0, 1);
+  }
+
+  /**
+   * 按优先级从高到低排序，优先级相同时保持原来的顺序
+   */
+  sortByPriority<T extends GroupParticipant>(agents: T[]): T[] {
+    return [...agents].sort((a, b) => this.getPriority(b) - this.getPriority(a));
+  }
+}
+
+// 导出默认实例
+const participationPolicy = new ParticipationPolicy();
+export default participationPolicy;
@@ -0,0 +1,238 @@
+/**
+ * 📊 套餐额度
+ *
+ * User.plan 对应 Plan.code。套餐规定每日消息数、每月token和费用额度、
+ * 每个对话最多参与的智能体数以及可用的模型；对话的 chat/stream 接口处理消息前检查额度，
+ * 智能体数和模型限制随请求传给编排器
+ */
+
+import { Plan } from '@prisma/client';
+import { LLMConfig } from '@/types/llm';
+import { MICRO_CENTS_PER_CENT, toMicroCents } from './cost-ledger';
+import prisma from './db';
+
+// ============= 类型定义 =============
+
+// allowed_models：套餐不允许智能体配置的任何模型，在调用智能体时才会发现
+export type QuotaKind = 'daily_messages' | 'monthly_tokens' | 'monthly_cost' | 'allowed_models';
+
+// 编排器需要遵守的套餐限制
+export interface PlanLimits {
+  maxAgents?: number;
+  allowedModels: string[]; // 为空表示不限
+}
+
+export interface UsageSummary {
+  plan: Pick<Plan, 'code' | 'name' | 'dailyMessages' | 'monthlyTokens' | 'monthlyCostCents' | 'maxAgentsPerConversation' | 'allowedModels'>;
+  usage: {
+    dailyMessages: number;
+    monthlyTokens: number;
+    monthlyCostCents: number;
+  };
+  resetsAt: {
+    daily: Date;
+    monthly: Date;
+  };
+}
+
+export type QuotaCheck =
+  | { allowed: true; summary: UsageSummary; limits: PlanLimits }
+  | { allowed: false; summary: UsageSummary; exceeded: QuotaKind; message: string };
+
+// 超出额度时通过 SSE 发给前端的事件
+export type QuotaExceededEvent = {
+  type: 'quota_exceeded';
+  quota: QuotaKind;
+  error: string;
+};
+
+export const DEFAULT_PLAN_CODE = 'free';
+
+/**
+ * 套餐不允许使用智能体配置的任何模型
+ */
+export class PlanModelNotAllowedError extends Error {
+  constructor(model: string) {
+    super(`当前套餐不能使用模型 ${model}`);
+    this.name = 'PlanModelNotAllowedError';
+  }
+}
+
+// ============= 额度主类 =============
+
+export class PlanQuotas {
+  /**
+   * 获取所有套餐
+   */
+  async listPlans(): Promise<Plan[]> {
+    return prisma.plan.findMany({ orderBy: { createdAt: 'asc' } });
+  }
+
+  /**
+   * 获取套餐定义 - 套餐不存在时按默认套餐处理，默认套餐也不存在时返回 null（不限额度）
+   */
+  async getPlan(code: string): Promise<Plan | null> {
+    const plan = await prisma.plan.findUnique({ where: { code } });
+    if (plan || code === DEFAULT_PLAN_CODE) {
+      return plan;
+    }
+
+    console.warn(`⚠️ [PlanQuotas] 套餐 ${code} 不存在，按 ${DEFAULT_PLAN_CODE} 处理`);
+    return prisma.plan.findUnique({ where: { code: DEFAULT_PLAN_CODE } });
+  }
+
+  /**
+   * 统计用户当天和当月的用量
+   */
+  async getUsage(userId: string): Promise<UsageSummary> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { plan: true }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const plan = await this.getPlan(user.plan);
+    const { dayStart, monthStart, nextDay, nextMonth } = this.getPeriods();
+
+    const dailyMessages = await prisma.message.count({
+      where: {
+        role: 'user',
+        createdAt: { gte: dayStart },
+        conv: { userId }
+      }
+    });
+
+    // 成本账本没有用户字段，按用户的对话汇总
+    const conversations = await prisma.conversation.findMany({
+      where: { userId },
+      select: { id: true }
+    });
+
+    const monthly = await prisma.costLedgerEntry.aggregate({
+      where: {
+        convId: { in: conversations.map(conversation => conversation.id) },
+        createdAt: { gte: monthStart }
+      },
+      _sum: { promptTokens: true, completionTokens: true, costMicroCents: true }
+    });
+
+    return {
+      plan: {
+        code: plan?.code ?? user.plan,
+        name: plan?.name ?? user.plan,
+        dailyMessages: plan?.dailyMessages ?? null,
+        monthlyTokens: plan?.monthlyTokens ?? null,
+        monthlyCostCents: plan?.monthlyCostCents ?? null,
+        maxAgentsPerConversation: plan?.maxAgentsPerConversation ?? null,
+        allowedModels: plan?.allowedModels ?? []
+      },
+      usage: {
+        dailyMessages,
+        monthlyTokens: (monthly._sum.promptTokens || 0) + (monthly._sum.completionTokens || 0),
+        monthlyCostCents: toMicroCents(monthly._sum.costMicroCents) / MICRO_CENTS_PER_CENT
+      },
+      resetsAt: {
+        daily: nextDay,
+        monthly: nextMonth
+      }
+    };
+  }
+
+  /**
+   * 发送消息前检查额度，通过时返回编排器需要遵守的限制
+   */
+  async check(userId: string): Promise<QuotaCheck> {
+    const summary = await this.getUsage(userId);
+    const { plan, usage } = summary;
+
+    if (plan.dailyMessages !== null && usage.dailyMessages >= plan.dailyMessages) {
+      return this.reject(userId, summary, 'daily_messages', `今日消息数已达套餐上限（${plan.dailyMessages}条），明天再来吧`);
+    }
+
+    if (plan.monthlyTokens !== null && usage.monthlyTokens >= plan.monthlyTokens) {
+      return this.reject(userId, summary, 'monthly_tokens', `本月token用量已达套餐上限（${plan.monthlyTokens}）`);
+    }
+
+    if (plan.monthlyCostCents !== null && usage.monthlyCostCents >= plan.monthlyCostCents) {
+      return this.reject(userId, summary, 'monthly_cost', `本月费用已达套餐上限（$${(plan.monthlyCostCents / 100).toFixed(2)}）`);
+    }
+
+    return {
+      allowed: true,
+      summary,
+      limits: {
+        maxAgents: plan.maxAgentsPerConversation ?? undefined,
+        allowedModels: plan.allowedModels
+      }
+    };
+  }
+
+  /**
+   * 按套餐限制参与对话的智能体数
+   */
+  limitAgents<T>(agents: T[], limits?: PlanLimits): T[] {
+    if (limits?.maxAgents === undefined || agents.length <= limits.maxAgents) {
+      return agents;
+    }
+
+    console.log(`📊 [PlanQuotas] 套餐限制每个对话最多 ${limits.maxAgents} 个智能体`);
+    return agents.slice(0, limits.maxAgents);
+  }
+
+  /**
+   * 按套餐限制模型 - 去掉故障转移链中不允许的模型，主模型不允许时改用第一个允许的备用模型
+   */
+  restrictModels(config: LLMConfig, limits?: PlanLimits): LLMConfig {
+    if (!limits || limits.allowedModels.length === 0) {
+      return config;
+    }
+
+    const { fallbacks = [], ...primary } = config;
+    const allowed = [primary, ...fallbacks].filter(candidate => limits.allowedModels.includes(candidate.model));
+
+    if (allowed.length === 0) {
+      throw new PlanModelNotAllowedError(config.model);
+    }
+
+    const [first, ...rest] = allowed;
+    if (first !== primary) {
+      console.log(`📊 [PlanQuotas] 套餐不允许模型 ${config.model}，改用 ${first.model}`);
+    }
+
+    return { ...first, signal: config.signal, fallbacks: rest.length > 0 ? rest : undefined };
+  }
+
+  /**
+   * 构建 quota_exceeded 事件
+   */
+  toExceededEvent(quota: QuotaKind, message: string): QuotaExceededEvent {
+    return { type: 'quota_exceeded', quota, error: message };
+  }
+
+  // ============= 私有方法 =============
+
+  private reject(userId: string, summary: UsageSummary, exceeded: QuotaKind, message: string): QuotaCheck {
+    console.warn(`📊 [PlanQuotas] 用户 ${userId} 超出套餐额度 (${summary.plan.code}): ${exceeded}`);
+    return { allowed: false, summary, exceeded, message };
+  }
+
+  private getPeriods(): { dayStart: Date; monthStart: Date; nextDay: Date; nextMonth: Date } {
+    const now = new Date();
+    const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+
+    return {
+      dayStart,
+      monthStart,
+      nextDay: new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1),
+      nextMonth: new Date(now.getFullYear(), now.getMonth() + 1, 1)
+    };
+  }
+}
+
+// 导出默认实例
+const planQuotas = new PlanQuotas();
+export default planQuotas;
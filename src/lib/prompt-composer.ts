@@ -0,0 +1,148 @@
+/**
+ * 🧩 系统提示词组装
+ *
+ * 智能体的系统提示词 = Agent.prompt + 挂载的启用模板（AgentPrompt，按 order），各段之间空一行。
+ * 组装后替换 {{变量}}：userName（对话用户）、timeOfDay（当前时段）、groupName（群聊名称，没有群聊时为对话标题）、
+ * sceneType（场景分析结果，没有分析时为 general）、agentName（智能体名称）。
+ * 没有取值的变量和拼错的变量原样保留，预览时列在 unresolved 里。versions 为各段提示词当前的版本号，随回复保存
+ */
+
+import { Agent } from '@prisma/client';
+import prisma from './db';
+import promptVersions, { PromptVersionStamp } from './prompt-versions';
+
+// ============= 类型定义 =============
+
+export type PromptVariableName = 'userName' | 'timeOfDay' | 'groupName' | 'sceneType' | 'agentName';
+
+export const PROMPT_VARIABLES: PromptVariableName[] = ['userName', 'timeOfDay', 'groupName', 'sceneType', 'agentName'];
+
+export type PromptVariables = Partial<Record<PromptVariableName, string>>;
+
+// 组装时可用的上下文，没有对话时 userName、groupName 没有取值
+export interface PromptContext {
+  conversationId?: string;
+  sceneType?: string;
+  now?: Date;
+}
+
+// 系统提示词的一段：智能体本身的提示词或挂载的模板
+export interface PromptPart {
+  source: 'agent' | 'template';
+  templateId?: string;
+  name: string;
+  content: string;
+}
+
+export interface ComposedPrompt {
+  systemPrompt: string;
+  parts: PromptPart[];
+  variables: PromptVariables;
+  unresolved: string[]; // 没有被替换的变量名
+  versions: PromptVersionStamp;
+}
+
+type ComposableAgent = Pick<Agent, 'id' | 'name' | 'prompt'>;
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const DEFAULT_SCENE_TYPE = 'general';
+
+// ============= 提示词组装主类 =============
+
+export class PromptComposer {
+  /**
+   * 组装智能体在某个对话中的系统提示词
+   */
+  async compose(agent: ComposableAgent, context: PromptContext = {}): Promise<ComposedPrompt> {
+    const [templates, variables] = await Promise.all([
+      prisma.agentPrompt.findMany({
+        where: { agentId: agent.id, isActive: true },
+        orderBy: { order: 'asc' },
+        select: { prompt: { select: { id: true, name: true, content: true } } }
+      }),
+      this.buildVariables(agent, context)
+    ]);
+
+    const parts: PromptPart[] = [
+      {
+        source: 'agent' as const,
+        name: agent.name,
+        content: (agent.prompt || '').trim() || `你是${agent.name}，一个友善的AI助手。`
+      },
+      ...templates.map(({ prompt }) => ({
+        source: 'template' as const,
+        templateId: prompt.id,
+        name: prompt.name,
+        content: prompt.content.trim()
+      }))
+    ].filter(part => part.content);
+
+    const versions = await promptVersions.getStamp(agent.id, templates.map(({ prompt }) => prompt.id));
+    const { text, unresolved } = this.substitute(parts.map(part => part.content).join('\n\n'), variables);
+    return { systemPrompt: text, parts, variables, unresolved, versions };
+  }
+
+  /**
+   * 替换文本中的 {{变量}}，返回替换后的文本和没有取值的变量名
+   */
+  substitute(text: string, variables: PromptVariables): { text: string; unresolved: string[] } {
+    const unresolved = new Set<string>();
+    const result = text.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+      const value = variables[name as PromptVariableName];
+      if (value === undefined) {
+        unresolved.add(name);
+        return placeholder;
+      }
+      return value;
+    });
+
+    return { text: result, unresolved: [...unresolved] };
+  }
+
+  /**
+   * 当前时段
+   */
+  getTimeOfDay(date: Date = new Date()): string {
+    const hour = date.getHours();
+    if (hour < 5) return '深夜';
+    if (hour < 8) return '清晨';
+    if (hour < 11) return '上午';
+    if (hour < 13) return '中午';
+    if (hour < 18) return '下午';
+    if (hour < 23) return '晚上';
+    return '深夜';
+  }
+
+  // ============= 私有方法 =============
+
+  private async buildVariables(agent: ComposableAgent, context: PromptContext): Promise<PromptVariables> {
+    const variables: PromptVariables = {
+      agentName: agent.name,
+      timeOfDay: this.getTimeOfDay(context.now),
+      sceneType: context.sceneType || DEFAULT_SCENE_TYPE
+    };
+
+    if (context.conversationId) {
+      const conversation = await prisma.conversation.findUnique({
+        where: { id: context.conversationId },
+        select: {
+          title: true,
+          user: { select: { name: true, email: true } },
+          group: { select: { name: true } }
+        }
+      });
+
+      if (conversation) {
+        variables.userName = conversation.user.name || conversation.user.email.split('@')[0];
+        variables.groupName = conversation.group?.name || conversation.title;
+      }
+    }
+
+    return variables;
+  }
+}
+
+// 导出默认实例
+const promptComposer = new PromptComposer();
+export default promptComposer;
@@ -0,0 +1,423 @@
+/**
+ * 📝 提示词模板库
+ *
+ * PromptTemplate 是管理员维护的可复用提示词，按分类和标签整理；公开模板所有管理员可见、可以挂到任意智能体，
+ * 私有模板只有创建者可见。只有创建者可以修改和删除模板。
+ * AgentPrompt 记录智能体挂载的模板及顺序（order，从1开始连续编号）。
+ * 模板内容每次变化都记录一个版本（见 prompt-versions），changeNote 为这次修改的说明
+ */
+
+import { PromptTemplate, Prisma } from '@prisma/client';
+import prisma from './db';
+import promptVersions from './prompt-versions';
+
+// ============= 类型定义 =============
+
+export type PromptCategory = 'common' | 'empathy' | 'practical' | 'creative' | 'analytical';
+
+export const PROMPT_CATEGORIES: PromptCategory[] = ['common', 'empathy', 'practical', 'creative', 'analytical'];
+
+export type PromptVisibility = 'all' | 'public' | 'private';
+
+export interface PromptTemplateInput {
+  name?: unknown;
+  category?: unknown;
+  content?: unknown;
+  description?: unknown;
+  tags?: unknown;
+  isPublic?: unknown;
+  changeNote?: unknown;
+}
+
+export interface PromptTemplateFilter {
+  category?: string;
+  tag?: string;
+  search?: string;
+  visibility?: PromptVisibility;
+}
+
+// 后台展示用的模板
+export type PromptTemplateView = PromptTemplate & {
+  creator: { id: string; name: string | null; email: string };
+  usageCount: number; // 挂载了这个模板的智能体数
+  isOwner: boolean;
+};
+
+// 智能体挂载的模板，按顺序排列
+export interface AgentPromptView {
+  id: string;
+  promptId: string;
+  order: number;
+  isActive: boolean;
+  prompt: Pick<PromptTemplate, 'id' | 'name' | 'category' | 'description' | 'tags' | 'isPublic'>;
+}
+
+/**
+ * 提示词模板的校验或操作失败，status 为接口应返回的状态码
+ */
+export class PromptTemplateError extends Error {
+  constructor(message: string, public readonly status: 400 | 403 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+// 字段长度限制
+const MAX_NAME_LENGTH = 50;
+export const MAX_PROMPT_LENGTH = 10000;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 20;
+
+const TEMPLATE_INCLUDE = {
+  creator: { select: { id: true, name: true, email: true } },
+  _count: { select: { agents: true } }
+} satisfies Prisma.PromptTemplateInclude;
+
+type PromptTemplateWithCreator = Prisma.PromptTemplateGetPayload<{ include: typeof TEMPLATE_INCLUDE }>;
+
+// ============= 提示词模板库主类 =============
+
+export class PromptTemplateLibrary {
+  /**
+   * 用户可见的模板（公开模板和自己的私有模板），按分类、标签、关键词筛选，最近更新的在前
+   */
+  async list(userId: string, filter: PromptTemplateFilter = {}): Promise<PromptTemplateView[]> {
+    const conditions: Prisma.PromptTemplateWhereInput[] = [this.visibleTo(userId)];
+
+    if (filter.visibility === 'public') {
+      conditions.push({ isPublic: true });
+    } else if (filter.visibility === 'private') {
+      conditions.push({ isPublic: false });
+    }
+
+    if (filter.category) {
+      conditions.push({ category: filter.category });
+    }
+
+    if (filter.tag) {
+      conditions.push({ tags: { has: filter.tag } });
+    }
+
+    if (filter.search?.trim()) {
+      const search = filter.search.trim();
+      conditions.push({
+        OR: [
+          { name: { contains: search, mode: 'insensitive' } },
+          { description: { contains: search, mode: 'insensitive' } }
+        ]
+      });
+    }
+
+    const templates = await prisma.promptTemplate.findMany({
+      where: { AND: conditions },
+      include: TEMPLATE_INCLUDE,
+      orderBy: { updatedAt: 'desc' }
+    });
+
+    return templates.map(template => this.toView(template, userId));
+  }
+
+  /**
+   * 用户可见的模板用到的所有标签
+   */
+  async listTags(userId: string): Promise<string[]> {
+    const templates = await prisma.promptTemplate.findMany({
+      where: this.visibleTo(userId),
+      select: { tags: true }
+    });
+    return [...new Set(templates.flatMap(template => template.tags))].sort();
+  }
+
+  /**
+   * 单个模板，不存在或对用户不可见时返回 null
+   */
+  async get(userId: string, templateId: string): Promise<PromptTemplateView | null> {
+    const template = await prisma.promptTemplate.findFirst({
+      where: { id: templateId, ...this.visibleTo(userId) },
+      include: TEMPLATE_INCLUDE
+    });
+    return template ? this.toView(template, userId) : null;
+  }
+
+  /**
+   * 创建模板
+   */
+  async create(userId: string, input: PromptTemplateInput): Promise<PromptTemplateView> {
+    const data = this.parseInput(input, true);
+    const note = promptVersions.parseNote(input.changeNote);
+
+    const template = await promptVersions.transaction(async (tx) => {
+      const created = await tx.promptTemplate.create({
+        data: {
+          name: data.name!,
+          category: data.category!,
+          content: data.content!,
+          description: data.description,
+          tags: data.tags ?? [],
+          isPublic: data.isPublic ?? false,
+          createdBy: userId
+        },
+        include: TEMPLATE_INCLUDE
+      });
+
+      await promptVersions.record({ type: 'template', id: created.id }, created.content, userId, note || '创建模板', undefined, tx);
+      return created;
+    });
+
+    console.log(`📝 [PromptTemplateLibrary] 创建模板 ${template.name}`);
+    return this.toView(template, userId);
+  }
+
+  /**
+   * 更新模板 - 只更新传入的字段，只有创建者可以修改
+   */
+  async update(userId: string, templateId: string, input: PromptTemplateInput): Promise<PromptTemplateView> {
+    const data = this.parseInput(input, false);
+    const note = promptVersions.parseNote(input.changeNote);
+    const previous = await this.requireOwned(userId, templateId);
+
+    const template = await promptVersions.transaction(async (tx) => {
+      const updated = await tx.promptTemplate.update({
+        where: { id: templateId },
+        data,
+        include: TEMPLATE_INCLUDE
+      });
+
+      if (data.content !== undefined) {
+        await promptVersions.record({ type: 'template', id: templateId }, updated.content, userId, note, previous.content, tx);
+      }
+      return updated;
+    });
+
+    return this.toView(template, userId);
+  }
+
+  /**
+   * 删除模板，同时从挂载它的智能体上移除；只有创建者可以删除
+   */
+  async delete(userId: string, templateId: string): Promise<void> {
+    const template = await this.requireOwned(userId, templateId);
+    const attachments = await prisma.agentPrompt.findMany({
+      where: { promptId: templateId },
+      select: { agentId: true }
+    });
+
+    await prisma.promptTemplate.delete({ where: { id: templateId } });
+
+    // 挂载过这个模板的智能体重新编号
+    for (const { agentId } of attachments) {
+      const remaining = await prisma.agentPrompt.findMany({
+        where: { agentId },
+        orderBy: { order: 'asc' },
+        select: { id: true }
+      });
+      await prisma.$transaction(this.renumber(remaining.map(item => item.id)));
+    }
+
+    console.log(`📝 [PromptTemplateLibrary] 删除模板 ${template.name}，从 ${attachments.length} 个智能体上移除`);
+  }
+
+  /**
+   * 智能体挂载的模板，按顺序排列
+   */
+  async listAgentPrompts(agentId: string): Promise<AgentPromptView[]> {
+    return prisma.agentPrompt.findMany({
+      where: { agentId },
+      orderBy: { order: 'asc' },
+      select: {
+        id: true,
+        promptId: true,
+        order: true,
+        isActive: true,
+        prompt: {
+          select: { id: true, name: true, category: true, description: true, tags: true, isPublic: true }
+        }
+      }
+    });
+  }
+
+  /**
+   * 把模板挂到智能体上，排在最后；只能挂载用户可见的模板
+   */
+  async attach(userId: string, agentId: string, templateId: string): Promise<AgentPromptView[]> {
+    await this.requireAgent(agentId);
+    if (!await this.get(userId, templateId)) {
+      throw new PromptTemplateError('提示词模板不存在', 404);
+    }
+
+    const attached = await prisma.agentPrompt.findMany({
+      where: { agentId },
+      select: { promptId: true }
+    });
+    if (attached.some(item => item.promptId === templateId)) {
+      throw new PromptTemplateError('智能体已经挂载了这个模板', 409);
+    }
+
+    await prisma.agentPrompt.create({
+      data: { agentId, promptId: templateId, order: attached.length + 1 }
+    });
+
+    return this.listAgentPrompts(agentId);
+  }
+
+  /**
+   * 从智能体上移除模板，之后的模板依次前移
+   */
+  async detach(agentId: string, templateId: string): Promise<AgentPromptView[]> {
+    const current = await this.listAgentPrompts(agentId);
+    const target = current.find(item => item.promptId === templateId);
+    if (!target) {
+      throw new PromptTemplateError('智能体没有挂载这个模板', 404);
+    }
+
+    await prisma.$transaction([
+      prisma.agentPrompt.delete({ where: { id: target.id } }),
+      ...this.renumber(current.filter(item => item.id !== target.id).map(item => item.id))
+    ]);
+
+    return this.listAgentPrompts(agentId);
+  }
+
+  /**
+   * 调整智能体挂载的模板顺序 - templateIds 必须恰好包含已挂载的全部模板
+   */
+  async reorder(agentId: string, templateIds: unknown): Promise<AgentPromptView[]> {
+    const current = await this.listAgentPrompts(agentId);
+    const byTemplate = new Map(current.map(item => [item.promptId, item.id]));
+
+    if (
+      !Array.isArray(templateIds) ||
+      templateIds.length !== byTemplate.size ||
+      new Set(templateIds).size !== templateIds.length ||
+      !templateIds.every(id => byTemplate.has(id))
+    ) {
+      throw new PromptTemplateError('模板顺序必须包含已挂载的全部模板且不能重复');
+    }
+
+    await prisma.$transaction(this.renumber((templateIds as string[]).map(id => byTemplate.get(id)!)));
+    return this.listAgentPrompts(agentId);
+  }
+
+  // ============= 私有方法 =============
+
+  private visibleTo(userId: string): Prisma.PromptTemplateWhereInput {
+    return { OR: [{ isPublic: true }, { createdBy: userId }] };
+  }
+
+  private async requireOwned(userId: string, templateId: string): Promise<PromptTemplate> {
+    const template = await prisma.promptTemplate.findFirst({
+      where: { id: templateId, ...this.visibleTo(userId) }
+    });
+
+    if (!template) {
+      throw new PromptTemplateError('提示词模板不存在', 404);
+    }
+    if (template.createdBy !== userId) {
+      throw new PromptTemplateError('只有创建者可以修改或删除这个模板', 403);
+    }
+    return template;
+  }
+
+  private async requireAgent(agentId: string): Promise<void> {
+    const agent = await prisma.agent.findUnique({ where: { id: agentId }, select: { id: true } });
+    if (!agent) {
+      throw new PromptTemplateError('智能体不存在', 404);
+    }
+  }
+
+  /**
+   * 校验模板字段，未传入的字段不出现在结果里；创建时名称、分类、内容必填
+   */
+  private parseInput(input: PromptTemplateInput, isCreate: boolean) {
+    const data: Partial<Pick<PromptTemplate, 'name' | 'category' | 'content' | 'description' | 'tags' | 'isPublic'>> = {};
+
+    if (input.name !== undefined || isCreate) {
+      if (typeof input.name !== 'string' || !input.name.trim()) {
+        throw new PromptTemplateError('模板名称不能为空');
+      }
+      if (input.name.trim().length > MAX_NAME_LENGTH) {
+        throw new PromptTemplateError(`模板名称最多 ${MAX_NAME_LENGTH} 个字符`);
+      }
+      data.name = input.name.trim();
+    }
+
+    if (input.category !== undefined || isCreate) {
+      if (!PROMPT_CATEGORIES.includes(input.category as PromptCategory)) {
+        throw new PromptTemplateError(`不支持的分类: ${input.category}，支持: ${PROMPT_CATEGORIES.join(', ')}`);
+      }
+      data.category = input.category as PromptCategory;
+    }
+
+    if (input.content !== undefined || isCreate) {
+      if (typeof input.content !== 'string' || !input.content.trim()) {
+        throw new PromptTemplateError('提示词内容不能为空');
+      }
+      if (input.content.length > MAX_PROMPT_LENGTH) {
+        throw new PromptTemplateError(`提示词内容最多 ${MAX_PROMPT_LENGTH} 个字符`);
+      }
+      data.content = input.content;
+    }
+
+    if (input.description !== undefined) {
+      if (input.description !== null && typeof input.description !== 'string') {
+        throw new PromptTemplateError('模板描述格式不正确');
+      }
+      data.description = input.description?.trim() || null;
+    }
+
+    if (input.tags !== undefined) {
+      data.tags = this.parseTags(input.tags);
+    }
+
+    if (input.isPublic !== undefined) {
+      if (typeof input.isPublic !== 'boolean') {
+        throw new PromptTemplateError('isPublic 必须是布尔值');
+      }
+      data.isPublic = input.isPublic;
+    }
+
+    return data;
+  }
+
+  /**
+   * 标签：字符串数组或逗号分隔的字符串，去掉空白和重复
+   */
+  private parseTags(value: unknown): string[] {
+    const raw = typeof value === 'string' ? value.split(/[,，]/) : value;
+    if (!Array.isArray(raw) || !raw.every(tag => typeof tag === 'string')) {
+      throw new PromptTemplateError('标签格式不正确');
+    }
+
+    const tags = [...new Set(raw.map(tag => tag.trim()).filter(Boolean))];
+    if (tags.length > MAX_TAGS) {
+      throw new PromptTemplateError(`最多 ${MAX_TAGS} 个标签`);
+    }
+    if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+      throw new PromptTemplateError(`每个标签最多 ${MAX_TAG_LENGTH} 个字符`);
+    }
+    return tags;
+  }
+
+  /**
+   * 按给定顺序把 AgentPrompt 的 order 重新编号为 1..n
+   */
+  private renumber(agentPromptIds: string[]) {
+    return agentPromptIds.map((id, index) => prisma.agentPrompt.update({
+      where: { id },
+      data: { order: index + 1 }
+    }));
+  }
+
+  private toView(template: PromptTemplateWithCreator, userId: string): PromptTemplateView {
+    const { _count, ...rest } = template;
+    return {
+      ...rest,
+      usageCount: _count.agents,
+      isOwner: template.createdBy === userId
+    };
+  }
+}
+
+// 导出默认实例
+const promptTemplates = new PromptTemplateLibrary();
+export default promptTemplates;
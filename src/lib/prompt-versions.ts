@@ -0,0 +1,387 @@
+/**
+ * 🕰️ 提示词版本
+ *
+ * 智能体提示词（Agent.prompt）和提示词模板（PromptTemplate.content）每次修改内容都新增一条 PromptVersion，
+ * 记录作者、时间和修改说明，已有的版本不再修改。回滚也是新增一个内容与旧版本相同的版本，历史保持完整。
+ * 每条AI回复在 Message.promptVersions 记录生成时智能体提示词和各个模板的版本号，人设出问题时可以对照版本差异排查
+ */
+
+import { PromptVersion, Prisma } from '@prisma/client';
+import prisma from './db';
+
+type PrismaTransaction = Prisma.TransactionClient;
+
+// ============= 类型定义 =============
+
+export type PromptVersionTargetType = 'agent' | 'template';
+
+export interface PromptVersionTarget {
+  type: PromptVersionTargetType;
+  id: string;
+}
+
+export type PromptVersionView = PromptVersion & {
+  author: { id: string; name: string | null; email: string } | null;
+};
+
+// 保存在 Message.promptVersions，没有版本记录的提示词为 null
+export type PromptVersionStamp = {
+  agent: number | null;
+  templates: { id: string; version: number }[];
+};
+
+// 并排对比的一行，left 为旧版本、right 为新版本，行号从1开始
+export type PromptDiffRow = {
+  type: 'same' | 'added' | 'removed' | 'changed';
+  left: string | null;
+  leftLine: number | null;
+  right: string | null;
+  rightLine: number | null;
+};
+
+export interface PromptVersionDiff {
+  from: PromptVersionView;
+  to: PromptVersionView;
+  rows: PromptDiffRow[];
+}
+
+/**
+ * 版本查询或回滚失败，status 为接口应返回的状态码
+ */
+export class PromptVersionError extends Error {
+  constructor(message: string, public readonly status: 400 | 403 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'PromptVersionError';
+  }
+}
+
+const MAX_NOTE_LENGTH = 200;
+
+// 同时修改同一个提示词时版本号会冲突（唯一约束 P2002），整个事务重试的次数
+const MAX_VERSION_ATTEMPTS = 3;
+
+// 逐行对比的规模上限（旧行数 × 新行数），超过时中间不同的部分整体显示为删除和新增
+const MAX_DIFF_CELLS = 1000000;
+
+const VERSION_INCLUDE = {
+  author: { select: { id: true, name: true, email: true } }
+} satisfies Prisma.PromptVersionInclude;
+
+// ============= 提示词版本主类 =============
+
+export class PromptVersions {
+  /**
+   * 全部版本，最新的在前
+   */
+  async list(target: PromptVersionTarget): Promise<PromptVersionView[]> {
+    return prisma.promptVersion.findMany({
+      where: this.targetWhere(target),
+      orderBy: { version: 'desc' },
+      include: VERSION_INCLUDE
+    });
+  }
+
+  async get(target: PromptVersionTarget, version: number): Promise<PromptVersionView | null> {
+    return prisma.promptVersion.findFirst({
+      where: { ...this.targetWhere(target), version },
+      include: VERSION_INCLUDE
+    });
+  }
+
+  /**
+   * 在一个事务中修改提示词内容并记录版本，内容和版本要么都保存、要么都不保存。
+   * 别人同时修改同一个提示词、版本号冲突时整个事务重试，多次冲突后返回 409
+   */
+  async transaction<T>(run: (tx: PrismaTransaction) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await prisma.$transaction(run);
+      } catch (error) {
+        if (!isUniqueViolation(error)) {
+          throw error;
+        }
+        if (attempt >= MAX_VERSION_ATTEMPTS) {
+          throw new PromptVersionError('提示词正在被其他人修改，请稍后重试', 409);
+        }
+        console.warn(`⚠️ [PromptVersions] 版本号冲突，第 ${attempt} 次重试`);
+      }
+    }
+  }
+
+  /**
+   * 内容变化时新增一个版本，内容与最新版本相同时返回 null。
+   * 还没有任何版本、且传入了修改前的内容时，先把修改前的内容记为版本1。
+   * 和内容修改一起保存时传入 transaction 中的 tx
+   */
+  async record(
+    target: PromptVersionTarget,
+    content: string,
+    authorId: string | null,
+    note?: string | null,
+    previousContent?: string,
+    tx: PrismaTransaction = prisma
+  ): Promise<PromptVersion | null> {
+    const latest = await tx.promptVersion.findFirst({
+      where: this.targetWhere(target),
+      orderBy: { version: 'desc' },
+      select: { version: true, content: true }
+    });
+
+    if (latest?.content === content) {
+      return null;
+    }
+
+    let version = (latest?.version ?? 0) + 1;
+    if (!latest && previousContent !== undefined && previousContent !== content) {
+      await tx.promptVersion.create({
+        data: { ...this.targetWhere(target), version, content: previousContent, note: '初始版本' }
+      });
+      version++;
+    }
+
+    const created = await tx.promptVersion.create({
+      data: { ...this.targetWhere(target), version, content, note: note || null, authorId }
+    });
+
+    console.log(`🕰️ [PromptVersions] ${target.type} ${target.id} 新增版本 ${version}`);
+    return created;
+  }
+
+  /**
+   * 两个版本的逐行对比
+   */
+  async diff(target: PromptVersionTarget, from: number, to: number): Promise<PromptVersionDiff> {
+    const [fromVersion, toVersion] = await Promise.all([this.get(target, from), this.get(target, to)]);
+    if (!fromVersion || !toVersion) {
+      throw new PromptVersionError('版本不存在', 404);
+    }
+
+    return { from: fromVersion, to: toVersion, rows: this.diffLines(fromVersion.content, toVersion.content) };
+  }
+
+  /**
+   * 回滚到指定版本：内容改回该版本，并新增一个版本记录这次回滚。模板只有创建者可以回滚
+   */
+  async rollback(
+    target: PromptVersionTarget,
+    version: number,
+    userId: string | null,
+    note?: unknown
+  ): Promise<PromptVersionView> {
+    const source = await this.get(target, version);
+    if (!source) {
+      throw new PromptVersionError('版本不存在', 404);
+    }
+
+    const parsedNote = this.parseNote(note);
+    const current = await this.getCurrentContent(target, userId);
+    if (current === source.content) {
+      throw new PromptVersionError('当前内容已经与这个版本相同');
+    }
+
+    return this.transaction(async (tx) => {
+      if (target.type === 'agent') {
+        await tx.agent.update({ where: { id: target.id }, data: { prompt: source.content } });
+      } else {
+        await tx.promptTemplate.update({ where: { id: target.id }, data: { content: source.content } });
+      }
+
+      // 内容在版本记录之外被改过时，最新版本可能已经是这段内容，不再重复记录
+      await this.record(target, source.content, userId, parsedNote || `回滚到版本 ${version}`, current, tx);
+      const latest = await tx.promptVersion.findFirst({
+        where: this.targetWhere(target),
+        orderBy: { version: 'desc' },
+        include: VERSION_INCLUDE
+      });
+      return latest!;
+    });
+  }
+
+  /**
+   * 智能体提示词和各个模板当前的版本号，用于记录在回复消息上
+   */
+  async getStamp(agentId: string, templateIds: string[]): Promise<PromptVersionStamp> {
+    const latest = await prisma.promptVersion.groupBy({
+      by: ['agentId', 'templateId'],
+      where: { OR: [{ agentId }, { templateId: { in: templateIds } }] },
+      _max: { version: true }
+    });
+
+    const agentVersion = latest.find(item => item.agentId === agentId)?._max.version ?? null;
+    const templates = templateIds.flatMap(id => {
+      const version = latest.find(item => item.templateId === id)?._max.version;
+      return version ? [{ id, version }] : [];
+    });
+
+    return { agent: agentVersion, templates };
+  }
+
+  /**
+   * 修改说明：可选，最多200字
+   */
+  parseNote(value: unknown): string | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    if (typeof value !== 'string') {
+      throw new PromptVersionError('修改说明格式不正确');
+    }
+    if (value.trim().length > MAX_NOTE_LENGTH) {
+      throw new PromptVersionError(`修改说明最多 ${MAX_NOTE_LENGTH} 个字符`);
+    }
+    return value.trim() || null;
+  }
+
+  /**
+   * 按行对比两段文本（最长公共子序列），相邻的删除和新增配成"修改"行，方便并排显示
+   */
+  diffLines(before: string, after: string): PromptDiffRow[] {
+    const left = before.split('\n');
+    const right = after.split('\n');
+
+    // 相同的开头和结尾不参与对比
+    let prefix = 0;
+    while (prefix < left.length && prefix < right.length && left[prefix] === right[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < left.length - prefix &&
+      suffix < right.length - prefix &&
+      left[left.length - 1 - suffix] === right[right.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const rows: PromptDiffRow[] = [];
+    for (let i = 0; i < prefix; i++) {
+      rows.push({ type: 'same', left: left[i], leftLine: i + 1, right: right[i], rightLine: i + 1 });
+    }
+
+    const leftEnd = left.length - suffix;
+    const rightEnd = right.length - suffix;
+    rows.push(...this.diffMiddle(left, right, prefix, leftEnd, prefix, rightEnd));
+
+    for (let k = 0; k < suffix; k++) {
+      const i = leftEnd + k;
+      const j = rightEnd + k;
+      rows.push({ type: 'same', left: left[i], leftLine: i + 1, right: right[j], rightLine: j + 1 });
+    }
+
+    return rows;
+  }
+
+  // ============= 私有方法 =============
+
+  private targetWhere(target: PromptVersionTarget) {
+    return target.type === 'agent' ? { agentId: target.id } : { templateId: target.id };
+  }
+
+  private async getCurrentContent(target: PromptVersionTarget, userId: string | null): Promise<string> {
+    if (target.type === 'agent') {
+      const agent = await prisma.agent.findUnique({ where: { id: target.id }, select: { prompt: true } });
+      if (!agent) {
+        throw new PromptVersionError('智能体不存在', 404);
+      }
+      return agent.prompt;
+    }
+
+    const template = await prisma.promptTemplate.findUnique({
+      where: { id: target.id },
+      select: { content: true, createdBy: true, isPublic: true }
+    });
+    if (!template || (!template.isPublic && template.createdBy !== userId)) {
+      throw new PromptVersionError('提示词模板不存在', 404);
+    }
+    if (template.createdBy !== userId) {
+      throw new PromptVersionError('只有创建者可以回滚这个模板', 403);
+    }
+    return template.content;
+  }
+
+  /**
+   * 对比 left[leftStart, leftEnd) 和 right[rightStart, rightEnd)
+   */
+  private diffMiddle(
+    left: string[],
+    right: string[],
+    leftStart: number,
+    leftEnd: number,
+    rightStart: number,
+    rightEnd: number
+  ): PromptDiffRow[] {
+    const n = leftEnd - leftStart;
+    const m = rightEnd - rightStart;
+    const rows: PromptDiffRow[] = [];
+    let removed: number[] = [];
+    let added: number[] = [];
+
+    const flush = () => {
+      for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+        const i = removed[k];
+        const j = added[k];
+        rows.push({
+          type: i !== undefined && j !== undefined ? 'changed' : i !== undefined ? 'removed' : 'added',
+          left: i !== undefined ? left[i] : null,
+          leftLine: i !== undefined ? i + 1 : null,
+          right: j !== undefined ? right[j] : null,
+          rightLine: j !== undefined ? j + 1 : null
+        });
+      }
+      removed = [];
+      added = [];
+    };
+
+    if (n * m > MAX_DIFF_CELLS) {
+      for (let i = leftStart; i < leftEnd; i++) removed.push(i);
+      for (let j = rightStart; j < rightEnd; j++) added.push(j);
+      flush();
+      return rows;
+    }
+
+    // lcs[i][j]：left[leftStart + i..] 与 right[rightStart + j..] 的最长公共子序列长度
+    const lcs = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = left[leftStart + i] === right[rightStart + j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && left[leftStart + i] === right[rightStart + j]) {
+        flush();
+        rows.push({
+          type: 'same',
+          left: left[leftStart + i],
+          leftLine: leftStart + i + 1,
+          right: right[rightStart + j],
+          rightLine: rightStart + j + 1
+        });
+        i++;
+        j++;
+      } else if (i < n && (j >= m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        removed.push(leftStart + i++);
+      } else {
+        added.push(rightStart + j++);
+      }
+    }
+    flush();
+
+    return rows;
+  }
+}
+
+/**
+ * 唯一约束冲突（Prisma 错误码 P2002）
+ */
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === 'P2002';
+}
+
+// 导出默认实例
+const promptVersions = new PromptVersions();
+export default promptVersions;
@@ -0,0 +1,200 @@
+/**
+ * 🔌 提供商熔断器
+ *
+ * 按 LLMProvider.code 记录连续失败次数：连续失败达到阈值后熔断（open），
+ * 冷却期内直接跳过该提供商；冷却结束后放行一个探测请求（half_open），
+ * 探测成功恢复（closed），失败则重新进入冷却
+ */
+
+// ============= 类型定义 =============
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerSnapshot {
+  key: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalTrips: number; // 累计熔断次数
+  openedAt: Date | null;
+  retryAt: Date | null; // 冷却结束、允许探测的时间
+  lastError: string | null;
+}
+
+interface CircuitRecord {
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalTrips: number;
+  openedAt: number | null;
+  retryAt: number | null;
+  lastError: string | null;
+  probeInFlight: boolean;
+}
+
+/**
+ * 提供商处于熔断冷却期
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly key: string, public readonly retryAt: Date) {
+    super(`Provider ${key} circuit is open, retry after ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// ============= 熔断器主类 =============
+
+export class ProviderCircuitBreaker {
+  private records: Map<string, CircuitRecord> = new Map();
+  private failureThreshold = parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5');
+  private cooldownMs = parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_MS || '60000');
+
+  /**
+   * @param now 当前时间（毫秒），测试时传入可手动推进的时钟
+   */
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /**
+   * 检查是否允许调用；不允许时抛出 CircuitOpenError
+   */
+  assertAvailable(key: string): void {
+    const record = this.records.get(key);
+    if (!record || record.state === 'closed') return;
+
+    const now = this.now();
+
+    if (record.state === 'open' && record.retryAt !== null && now >= record.retryAt) {
+      record.state = 'half_open';
+      record.probeInFlight = false;
+      console.log(`🔌 [CircuitBreaker] ${key} 冷却结束，进入半开状态`);
+    }
+
+    // 半开状态同一时间只放行一个探测请求
+    if (record.state === 'half_open' && !record.probeInFlight) {
+      record.probeInFlight = true;
+      return;
+    }
+
+    throw new CircuitOpenError(key, new Date(record.retryAt ?? now + this.cooldownMs));
+  }
+
+  /**
+   * 调用成功 - 清零失败计数并关闭熔断
+   */
+  recordSuccess(key: string): void {
+    const record = this.records.get(key);
+    if (!record) return;
+
+    if (record.state !== 'closed') {
+      console.log(`✅ [CircuitBreaker] ${key} 探测成功，恢复正常`);
+    }
+
+    record.state = 'closed';
+    record.consecutiveFailures = 0;
+    record.openedAt = null;
+    record.retryAt = null;
+    record.probeInFlight = false;
+  }
+
+  /**
+   * 调用失败 - 只统计限流/5xx/超时/网络这类说明提供商不健康的错误
+   */
+  recordFailure(key: string, error: string): void {
+    const record = this.getRecord(key);
+    record.consecutiveFailures++;
+    record.lastError = error.slice(0, 500);
+
+    if (record.state === 'half_open' || record.consecutiveFailures >= this.failureThreshold) {
+      this.trip(key, record);
+    }
+  }
+
+  /**
+   * 调用被取消 - 不计入成功或失败，只释放半开状态的探测名额
+   */
+  releaseProbe(key: string): void {
+    const record = this.records.get(key);
+    if (record) {
+      record.probeInFlight = false;
+    }
+  }
+
+  /**
+   * 手动重置熔断器，不传 key 时重置全部
+   */
+  reset(key?: string): void {
+    if (key) {
+      this.records.delete(key);
+    } else {
+      this.records.clear();
+    }
+    console.log(`🔄 [CircuitBreaker] 已重置${key ? ` ${key}` : '全部提供商'}的熔断状态`);
+  }
+
+  /**
+   * 获取单个提供商的熔断状态
+   */
+  getSnapshot(key: string): CircuitBreakerSnapshot {
+    const record = this.records.get(key);
+    if (!record) {
+      return {
+        key,
+        state: 'closed',
+        consecutiveFailures: 0,
+        totalTrips: 0,
+        openedAt: null,
+        retryAt: null,
+        lastError: null
+      };
+    }
+
+    return {
+      key,
+      state: record.state,
+      consecutiveFailures: record.consecutiveFailures,
+      totalTrips: record.totalTrips,
+      openedAt: record.openedAt !== null ? new Date(record.openedAt) : null,
+      retryAt: record.retryAt !== null ? new Date(record.retryAt) : null,
+      lastError: record.lastError
+    };
+  }
+
+  /**
+   * 获取所有记录过失败的提供商的熔断状态
+   */
+  getSnapshots(): CircuitBreakerSnapshot[] {
+    return Array.from(this.records.keys()).map(key => this.getSnapshot(key));
+  }
+
+  // ============= 私有方法 =============
+
+  private getRecord(key: string): CircuitRecord {
+    let record = this.records.get(key);
+    if (!record) {
+      record = {
+        state: 'closed',
+        consecutiveFailures: 0,
+        totalTrips: 0,
+        openedAt: null,
+        retryAt: null,
+        lastError: null,
+        probeInFlight: false
+      };
+      this.records.set(key, record);
+    }
+    return record;
+  }
+
+  private trip(key: string, record: CircuitRecord): void {
+    const now = this.now();
+    record.state = 'open';
+    record.openedAt = now;
+    record.retryAt = now + this.cooldownMs;
+    record.probeInFlight = false;
+    record.totalTrips++;
+
+    console.warn(`🔌 [CircuitBreaker] ${key} 连续失败 ${record.consecutiveFailures} 次，熔断 ${this.cooldownMs / 1000} 秒`);
+  }
+}
+
+// 导出默认实例
+const providerCircuitBreaker = new ProviderCircuitBreaker();
+export default providerCircuitBreaker;
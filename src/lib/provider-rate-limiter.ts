@@ -0,0 +1,299 @@
+/**
+ * 🚦 提供商限流与并发控制
+ *
+ * 按 LLMProvider.code 维护令牌桶（每分钟请求数、每分钟token数）和并发上限，
+ * 超出限制的调用进入队列按先后顺序等待，而不是直接失败
+ */
+
+import { LLMMessage, LLMRateLimit } from '@/types/llm';
+import { getMessageText } from './adapters/base-adapter';
+
+// ============= 类型定义 =============
+
+export interface RateLimitLease {
+  /**
+   * 释放并发槽位；传入实际用量时按实际token数校正预估扣减
+   */
+  release(actualTokens?: number): void;
+}
+
+export interface ProviderQueueStats {
+  key: string;
+  queued: number;
+  active: number;
+  limits: Omit<LLMRateLimit, 'key'>;
+  availableRequests: number | null;
+  availableTokens: number | null;
+}
+
+/**
+ * 时间来源，默认使用系统时间和定时器；测试时传入可手动推进的时钟
+ */
+export interface RateLimiterClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(timer: unknown): void;
+}
+
+interface TokenBucket {
+  capacity: number;
+  tokens: number;
+  updatedAt: number;
+}
+
+interface QueuedCall {
+  tokens: number;
+  enqueuedAt: number;
+  resolve: (lease: RateLimitLease) => void;
+}
+
+interface ProviderState {
+  limits: Omit<LLMRateLimit, 'key'>;
+  requestBucket: TokenBucket | null;
+  tokenBucket: TokenBucket | null;
+  active: number;
+  queue: QueuedCall[];
+  timer: unknown;
+}
+
+const MINUTE_MS = 60000;
+
+const SYSTEM_CLOCK: RateLimiterClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (timer) => clearTimeout(timer as ReturnType<typeof setTimeout>)
+};
+
+// ============= 限流器主类 =============
+
+export class ProviderRateLimiter {
+  private states: Map<string, ProviderState> = new Map();
+
+  constructor(private readonly clock: RateLimiterClock = SYSTEM_CLOCK) {}
+
+  /**
+   * 获取调用许可 - 没有配置任何限制时立即返回；排队期间取消会移出队列并拒绝
+   */
+  async acquire(
+    rateLimit: LLMRateLimit | undefined,
+    estimatedTokens: number,
+    signal?: AbortSignal
+  ): Promise<RateLimitLease> {
+    if (!rateLimit || !this.hasLimits(rateLimit)) {
+      return { release: () => {} };
+    }
+
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+
+    const state = this.getState(rateLimit);
+    // 单次调用的预估值不能超过桶容量，否则永远拿不到许可
+    const tokens = state.tokenBucket ? Math.min(estimatedTokens, state.tokenBucket.capacity) : 0;
+
+    return new Promise<RateLimitLease>((resolve, reject) => {
+      const onAbort = () => {
+        state.queue = state.queue.filter(call => call !== queued);
+        console.log(`🚦 [RateLimiter] ${rateLimit.key} 排队中的调用已取消`);
+        reject(signal?.reason);
+        this.drain(rateLimit.key);
+      };
+
+      const queued: QueuedCall = {
+        tokens,
+        enqueuedAt: this.clock.now(),
+        resolve: (lease) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(lease);
+        }
+      };
+
+      state.queue.push(queued);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      if (state.queue.length > 1) {
+        console.log(`🚦 [RateLimiter] ${rateLimit.key} 排队中，队列长度: ${state.queue.length}`);
+      }
+
+      this.drain(rateLimit.key);
+    });
+  }
+
+  /**
+   * 估算一次调用消耗的token：提示词按字符数粗略估算，加上最大输出token
+   */
+  estimateTokens(messages: LLMMessage[], maxTokens?: number): number {
+    const promptChars = messages.reduce((sum, msg) => sum + getMessageText(msg.content).length, 0);
+    return Math.ceil(promptChars / 2) + (maxTokens || 0);
+  }
+
+  /**
+   * 获取各提供商的队列状态
+   */
+  getQueueStats(): ProviderQueueStats[] {
+    const now = this.clock.now();
+
+    return Array.from(this.states.entries()).map(([key, state]) => {
+      this.refill(state.requestBucket, now);
+      this.refill(state.tokenBucket, now);
+
+      return {
+        key,
+        queued: state.queue.length,
+        active: state.active,
+        limits: { ...state.limits },
+        availableRequests: state.requestBucket ? Math.floor(state.requestBucket.tokens) : null,
+        availableTokens: state.tokenBucket ? Math.floor(state.tokenBucket.tokens) : null,
+      };
+    });
+  }
+
+  /**
+   * 所有提供商排队中的调用总数
+   */
+  getTotalQueued(): number {
+    let total = 0;
+    this.states.forEach(state => {
+      total += state.queue.length;
+    });
+    return total;
+  }
+
+  // ============= 私有方法 =============
+
+  private hasLimits(rateLimit: LLMRateLimit): boolean {
+    return !!(rateLimit.requestsPerMinute || rateLimit.tokensPerMinute || rateLimit.maxConcurrent);
+  }
+
+  /**
+   * 获取提供商状态；管理员修改限流配置后，下一次调用时生效
+   */
+  private getState(rateLimit: LLMRateLimit): ProviderState {
+    const limits = {
+      requestsPerMinute: rateLimit.requestsPerMinute || undefined,
+      tokensPerMinute: rateLimit.tokensPerMinute || undefined,
+      maxConcurrent: rateLimit.maxConcurrent || undefined,
+    };
+
+    let state = this.states.get(rateLimit.key);
+    if (!state) {
+      state = {
+        limits,
+        requestBucket: this.createBucket(limits.requestsPerMinute),
+        tokenBucket: this.createBucket(limits.tokensPerMinute),
+        active: 0,
+        queue: [],
+        timer: null,
+      };
+      this.states.set(rateLimit.key, state);
+      return state;
+    }
+
+    if (state.limits.requestsPerMinute !== limits.requestsPerMinute) {
+      state.requestBucket = this.createBucket(limits.requestsPerMinute);
+    }
+    if (state.limits.tokensPerMinute !== limits.tokensPerMinute) {
+      state.tokenBucket = this.createBucket(limits.tokensPerMinute);
+    }
+    state.limits = limits;
+
+    return state;
+  }
+
+  private createBucket(perMinute: number | undefined): TokenBucket | null {
+    return perMinute ? { capacity: perMinute, tokens: perMinute, updatedAt: this.clock.now() } : null;
+  }
+
+  /**
+   * 按经过的时间补充令牌，每分钟补满一次容量
+   */
+  private refill(bucket: TokenBucket | null, now: number): void {
+    if (!bucket) return;
+
+    const elapsed = now - bucket.updatedAt;
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (elapsed * bucket.capacity) / MINUTE_MS);
+    bucket.updatedAt = now;
+  }
+
+  /**
+   * 计算桶里攒够指定数量令牌还需要等待的毫秒数
+   */
+  private waitTime(bucket: TokenBucket | null, needed: number): number {
+    if (!bucket || bucket.tokens >= needed) return 0;
+    return Math.ceil(((needed - bucket.tokens) * MINUTE_MS) / bucket.capacity);
+  }
+
+  /**
+   * 按先进先出的顺序放行队列中的调用，队首拿不到许可时后面的调用也继续等待
+   */
+  private drain(key: string): void {
+    const state = this.states.get(key);
+    if (!state) return;
+
+    if (state.timer) {
+      this.clock.clearTimeout(state.timer);
+      state.timer = null;
+    }
+
+    while (state.queue.length > 0) {
+      if (state.limits.maxConcurrent && state.active >= state.limits.maxConcurrent) {
+        // 等待 release 时再次调度
+        return;
+      }
+
+      const now = this.clock.now();
+      this.refill(state.requestBucket, now);
+      this.refill(state.tokenBucket, now);
+
+      const next = state.queue[0];
+      const wait = Math.max(
+        this.waitTime(state.requestBucket, 1),
+        this.waitTime(state.tokenBucket, next.tokens)
+      );
+
+      if (wait > 0) {
+        state.timer = this.clock.setTimeout(() => this.drain(key), wait);
+        return;
+      }
+
+      state.queue.shift();
+      if (state.requestBucket) state.requestBucket.tokens -= 1;
+      if (state.tokenBucket) state.tokenBucket.tokens -= next.tokens;
+      state.active++;
+
+      const waited = now - next.enqueuedAt;
+      if (waited > 1000) {
+        console.log(`🚦 [RateLimiter] ${key} 放行排队调用，等待 ${waited}ms`);
+      }
+
+      next.resolve(this.createLease(key, state, next.tokens));
+    }
+  }
+
+  private createLease(key: string, state: ProviderState, reservedTokens: number): RateLimitLease {
+    let released = false;
+
+    return {
+      release: (actualTokens?: number) => {
+        if (released) return;
+        released = true;
+
+        state.active--;
+
+        // 用实际用量校正预估：多扣的退回，少扣的补扣（允许暂时为负，后续调用等待更久）
+        if (state.tokenBucket && actualTokens !== undefined && actualTokens > 0) {
+          state.tokenBucket.tokens = Math.min(
+            state.tokenBucket.capacity,
+            state.tokenBucket.tokens + reservedTokens - actualTokens
+          );
+        }
+
+        this.drain(key);
+      }
+    };
+  }
+}
+
+// 导出默认实例
+const providerRateLimiter = new ProviderRateLimiter();
+export default providerRateLimiter;
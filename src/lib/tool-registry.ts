@@ -0,0 +1,321 @@
+/**
+ * 🧰 工具注册表
+ *
+ * 智能体在管理后台按名称启用工具（Agent.tools），编排器调用模型时附带这些工具的定义；
+ * 模型发起工具调用后由注册表执行，结果作为 tool 消息交回模型继续生成
+ */
+
+import { LLMToolCall, LLMToolDefinition } from '@/types/llm';
+import conversationBranches from './conversation-branches';
+import prisma from './db';
+
+// ============= 类型定义 =============
+
+export interface ToolContext {
+  conversationId: string;
+  agentId: string;
+  signal?: AbortSignal;
+}
+
+export interface AgentTool {
+  label: string; // 管理后台显示名称
+  definition: LLMToolDefinition;
+  execute(args: Record<string, unknown>, context: ToolContext): Promise<string>;
+}
+
+export interface ToolSummary {
+  name: string;
+  label: string;
+  description: string;
+}
+
+// 一次工具执行的记录，保存在 Message.toolCalls 中
+export type ToolExecutionResult = {
+  callId: string;
+  name: string;
+  arguments: string;
+  content: string;
+  success: boolean;
+  durationMs: number;
+};
+
+const MAX_RESULT_LENGTH = 4000;
+
+// ============= 注册表主类 =============
+
+export class ToolRegistry {
+  private tools: Map<string, AgentTool> = new Map();
+
+  /**
+   * 注册工具，同名工具会被覆盖
+   */
+  register(tool: AgentTool): void {
+    this.tools.set(tool.definition.name, tool);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * 列出所有可用工具 - 供管理后台选择
+   */
+  list(): ToolSummary[] {
+    return Array.from(this.tools.values()).map(tool => ({
+      name: tool.definition.name,
+      label: tool.label,
+      description: tool.definition.description
+    }));
+  }
+
+  /**
+   * 获取智能体启用的工具定义，已下线的工具名直接忽略
+   */
+  getDefinitions(names: string[] | undefined): LLMToolDefinition[] {
+    return (names || [])
+      .map(name => this.tools.get(name))
+      .filter((tool): tool is AgentTool => !!tool)
+      .map(tool => tool.definition);
+  }
+
+  /**
+   * 验证智能体的工具配置，返回错误信息；合法时返回 null
+   */
+  validateToolNames(names: unknown): string | null {
+    if (!Array.isArray(names) || names.some(name => typeof name !== 'string')) {
+      return '工具列表必须是工具名称数组';
+    }
+
+    const unknown = names.filter(name => !this.tools.has(name));
+    if (unknown.length > 0) {
+      return `未知的工具: ${unknown.join(', ')}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * 执行一次工具调用 - 出错时把错误信息作为结果交回模型，而不是中断对话
+   */
+  async execute(call: LLMToolCall, context: ToolContext): Promise<ToolExecutionResult> {
+    const startTime = Date.now();
+    const tool = this.tools.get(call.name);
+
+    const finish = (content: string, success: boolean): ToolExecutionResult => ({
+      callId: call.id,
+      name: call.name,
+      arguments: call.arguments,
+      content: content.slice(0, MAX_RESULT_LENGTH),
+      success,
+      durationMs: Date.now() - startTime
+    });
+
+    if (!tool) {
+      return finish(`工具不存在: ${call.name}`, false);
+    }
+
+    let args: Record<string, unknown>;
+    try {
+      args = call.arguments ? JSON.parse(call.arguments) : {};
+    } catch {
+      return finish(`工具参数不是合法的JSON: ${call.arguments}`, false);
+    }
+
+    try {
+      console.log(`🧰 [ToolRegistry] ${context.agentId} 调用工具 ${call.name}:`, call.arguments);
+      const content = await tool.execute(args, context);
+      return finish(content, true);
+    } catch (error) {
+      console.warn(`⚠️ [ToolRegistry] 工具 ${call.name} 执行失败:`, error);
+      return finish(`工具执行失败: ${error instanceof Error ? error.message : String(error)}`, false);
+    }
+  }
+}
+
+// ============= 内置工具 =============
+
+const currentTimeTool: AgentTool = {
+  label: '当前时间',
+  definition: {
+    name: 'get_current_time',
+    description: '获取当前日期和时间',
+    parameters: {
+      type: 'object',
+      properties: {
+        timezone: { type: 'string', description: 'IANA时区，如 Asia/Shanghai，默认北京时间' }
+      }
+    }
+  },
+  async execute(args) {
+    const timeZone = typeof args.timezone === 'string' && args.timezone ? args.timezone : 'Asia/Shanghai';
+    const now = new Date().toLocaleString('zh-CN', {
+      timeZone,
+      weekday: 'long',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+    return `${now} (${timeZone})`;
+  }
+};
+
+const calculatorTool: AgentTool = {
+  label: '计算器',
+  definition: {
+    name: 'calculate',
+    description: '计算数学表达式，支持 + - * / % ^ 和括号',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: '数学表达式，如 (12.5 + 3) * 4' }
+      },
+      required: ['expression']
+    }
+  },
+  async execute(args) {
+    if (typeof args.expression !== 'string' || !args.expression.trim()) {
+      throw new Error('缺少 expression 参数');
+    }
+    return `${args.expression} = ${evaluateExpression(args.expression)}`;
+  }
+};
+
+const historySearchTool: AgentTool = {
+  label: '搜索聊天记录',
+  definition: {
+    name: 'search_conversation_history',
+    description: '在当前对话的历史消息中按关键词搜索，用于回忆之前聊过的内容',
+    parameters: {
+      type: 'object',
+      properties: {
+        keyword: { type: 'string', description: '搜索关键词' },
+        limit: { type: 'integer', description: '最多返回几条，默认5条，最多20条' }
+      },
+      required: ['keyword']
+    }
+  },
+  async execute(args, context) {
+    if (typeof args.keyword !== 'string' || !args.keyword.trim()) {
+      throw new Error('缺少 keyword 参数');
+    }
+
+    const limit = Math.min(Math.max(Number(args.limit) || 5, 1), 20);
+    // 只搜索当前分支的时间线，其他分支的消息对当前对话来说没有发生过
+    const timeline = await conversationBranches.getTimeline(context.conversationId);
+    const messages = await prisma.message.findMany({
+      where: {
+        id: { in: timeline.map(msg => msg.id) },
+        content: { contains: args.keyword.trim(), mode: 'insensitive' }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: { role: true, step: true, content: true, createdAt: true }
+    });
+
+    if (messages.length === 0) {
+      return `没有找到包含"${args.keyword}"的消息`;
+    }
+
+    return messages
+      .map(msg => {
+        const speaker = msg.role === 'user' ? '用户' : (msg.step || 'AI');
+        return `[${msg.createdAt.toISOString()}] ${speaker}: ${msg.content.slice(0, 200)}`;
+      })
+      .join('\n');
+  }
+};
+
+/**
+ * 计算四则运算表达式（递归下降解析，不使用 eval）
+ */
+function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(?:\.\d+)?|[-+*/%^()]/g) || [];
+  if (tokens.join('') !== expression.replace(/\s+/g, '')) {
+    throw new Error('表达式包含不支持的字符');
+  }
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  // term := power (('*' | '/' | '%') power)*
+  const parseTerm = (): number => {
+    let value = parsePower();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parsePower();
+      if ((operator === '/' || operator === '%') && right === 0) {
+        throw new Error('除数不能为0');
+      }
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // power := unary ('^' power)?  右结合
+  const parsePower = (): number => {
+    const base = parseUnary();
+    if (peek() === '^') {
+      next();
+      return Math.pow(base, parsePower());
+    }
+    return base;
+  };
+
+  // unary := ('-' | '+') unary | primary
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === '(') {
+      const value = parseExpression();
+      if (next() !== ')') {
+        throw new Error('括号不匹配');
+      }
+      return value;
+    }
+    if (token === undefined || !/^\d/.test(token)) {
+      throw new Error('表达式不完整');
+    }
+    return parseFloat(token);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`无法解析: ${tokens.slice(position).join('')}`);
+  }
+  if (!Number.isFinite(result)) {
+    throw new Error('计算结果不是有限数值');
+  }
+
+  return Math.round(result * 1e10) / 1e10;
+}
+
+// 导出默认实例
+const toolRegistry = new ToolRegistry();
+toolRegistry.register(currentTimeTool);
+toolRegistry.register(calculatorTool);
+toolRegistry.register(historySearchTool);
+
+export default toolRegistry;
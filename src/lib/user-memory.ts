@@ -0,0 +1,268 @@
+/**
+ * 🧠 长期记忆
+ *
+ * 智能体只能看到最近的几条消息。每次对话结束后，从用户的消息中提取值得长期记住的事实
+ * （喜好、经历的事、身边的人），按用户+智能体保存：参与回复的智能体各自记住；
+ * 智能体回复时取出与当前消息最相关的记忆放进系统提示词。用户可以在"朋友们记得的事"页面查看和删除
+ */
+
+import { UserMemory as UserMemoryRecord } from '@prisma/client';
+import { LLMMessage } from '@/types/llm';
+import llmService from './llm-service';
+import LLMConfigManager from './llm-config';
+import costLedger from './cost-ledger';
+import planQuotas, { PlanLimits } from './plan-quotas';
+import prisma from './db';
+
+// ============= 类型定义 =============
+
+export type MemoryCategory = 'preference' | 'event' | 'relationship' | 'fact';
+
+export interface ExtractedMemory {
+  category: MemoryCategory;
+  content: string;
+}
+
+export interface MemoryExchange {
+  userId: string;
+  conversationId: string;
+  messageId?: string; // 用户消息ID，记录记忆的来源
+  userMessage: string;
+  agentIds: string[]; // 参与回复的智能体
+  planLimits?: PlanLimits;
+}
+
+export const MEMORY_CATEGORIES: MemoryCategory[] = ['preference', 'event', 'relationship', 'fact'];
+
+// 每个智能体对同一个用户最多保留的记忆数，超出时删除最早的
+const MAX_MEMORIES_PER_AGENT = 100;
+
+// 每次回复放进提示词的记忆数
+const MAX_PROMPT_MEMORIES = 5;
+
+// 新记忆的二元组有这么多已经出现在某条旧记忆里时，视为重复
+const DUPLICATE_THRESHOLD = 0.8;
+
+// 太短的消息（"好的"、"哈哈"）不提取
+const MIN_MESSAGE_LENGTH = 4;
+
+const EXTRACTION_PROMPT = `你负责整理用户的长期记忆。阅读用户的消息，找出值得长期记住的、关于用户本人的事实：
+- preference：喜好、习惯、口味、讨厌的东西
+- event：经历或即将发生的重要事情（考试、搬家、旅行、生病等）
+- relationship：身边的人（家人、朋友、同事、宠物）及关系
+- fact：其他稳定的个人信息（职业、所在城市、年龄段等）
+
+只记录用户明确说出的内容，不要推测；寒暄、提问、一时的情绪不需要记。
+每条记忆用第三人称写成一句简短的中文，例如"用户喜欢喝冰美式"。
+已经记住的内容不要重复。
+
+只返回JSON数组，没有值得记住的内容时返回 []：
+[{"category": "preference", "content": "用户喜欢喝冰美式"}]`;
+
+// ============= 记忆主类 =============
+
+export class UserMemory {
+  /**
+   * 对话结束后提取并保存记忆 - 提取一次，参与回复的智能体各自保存（跳过已经记住的），返回提取到的记忆
+   */
+  async extractAfterExchange(exchange: MemoryExchange): Promise<ExtractedMemory[]> {
+    const { userId, conversationId, messageId, userMessage, agentIds, planLimits } = exchange;
+    if (agentIds.length === 0 || userMessage.trim().length < MIN_MESSAGE_LENGTH) {
+      return [];
+    }
+
+    const existing = await prisma.userMemory.findMany({
+      where: { userId, agentId: { in: agentIds } },
+      orderBy: { updatedAt: 'desc' },
+      take: MAX_MEMORIES_PER_AGENT
+    });
+
+    const llmConfig = planQuotas.restrictModels(await LLMConfigManager.getConfig(), planLimits);
+    const messages: LLMMessage[] = [
+      { role: 'system', content: EXTRACTION_PROMPT },
+      {
+        role: 'user',
+        content: `【已经记住的内容】\n${existing.map(memory => `- ${memory.content}`).join('\n') || '无'}\n\n【用户的消息】\n${userMessage}`
+      }
+    ];
+
+    const response = await llmService.chat({ ...llmConfig, temperature: 0 }, messages);
+    await costLedger.record({ source: 'memory_extractor', conversationId, response });
+
+    const extracted = this.parseExtraction(response.content);
+    let saved = 0;
+
+    for (const agentId of agentIds) {
+      const known = existing.filter(memory => memory.agentId === agentId).map(memory => memory.content);
+      const fresh = extracted.filter(memory => !this.isDuplicate(memory.content, known));
+      if (fresh.length === 0) continue;
+
+      await prisma.userMemory.createMany({
+        data: fresh.map(memory => ({
+          userId,
+          agentId,
+          category: memory.category,
+          content: memory.content,
+          sourceMessageId: messageId
+        }))
+      });
+      saved += fresh.length;
+
+      await this.prune(userId, agentId);
+    }
+
+    if (saved > 0) {
+      console.log(`🧠 [UserMemory] 用户 ${userId} 新增 ${saved} 条记忆（${agentIds.length} 个智能体）`);
+    }
+
+    return extracted;
+  }
+
+  /**
+   * 取出与当前消息最相关的记忆 - 按相关度排序，相关度相同时较新的优先
+   */
+  async retrieve(userId: string, agentId: string, query: string, limit: number = MAX_PROMPT_MEMORIES): Promise<UserMemoryRecord[]> {
+    const memories = await prisma.userMemory.findMany({
+      where: { userId, agentId },
+      orderBy: { updatedAt: 'desc' }
+    });
+
+    return memories
+      .map(memory => ({ memory, score: this.relevance(memory.content, query) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ memory }) => memory);
+  }
+
+  /**
+   * 放进系统提示词的记忆段落，没有记忆时为空字符串
+   */
+  async buildPromptContext(userId: string | undefined, agentId: string | undefined, query: string): Promise<string> {
+    if (!userId || !agentId) {
+      return '';
+    }
+
+    try {
+      const memories = await this.retrieve(userId, agentId, query);
+      if (memories.length === 0) {
+        return '';
+      }
+
+      return `【你记得的关于用户的事】\n${memories.map(memory => `- ${memory.content}`).join('\n')}\n自然地用上这些信息，不要逐条复述。`;
+    } catch (error) {
+      // 记忆只是锦上添花，读取失败不影响回复
+      console.error('❌ [UserMemory] 读取记忆失败:', error);
+      return '';
+    }
+  }
+
+  /**
+   * 用户的全部记忆，附带记住它的智能体
+   */
+  async list(userId: string) {
+    return prisma.userMemory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        agent: {
+          select: { id: true, name: true, avatar: true, color: true }
+        }
+      }
+    });
+  }
+
+  /**
+   * 删除一条记忆，记忆不属于该用户时返回 false
+   */
+  async remove(userId: string, memoryId: string): Promise<boolean> {
+    const result = await prisma.userMemory.deleteMany({
+      where: { id: memoryId, userId }
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * 清空记忆 - 指定 agentId 时只清空该智能体的记忆，返回删除的数量
+   */
+  async clear(userId: string, agentId?: string): Promise<number> {
+    const result = await prisma.userMemory.deleteMany({
+      where: { userId, ...(agentId ? { agentId } : {}) }
+    });
+    return result.count;
+  }
+
+  // ============= 私有方法 =============
+
+  private parseExtraction(content: string): ExtractedMemory[] {
+    try {
+      // 提取JSON部分（模型可能在前后加说明文字）
+      const jsonMatch = content.match(/\[[\s\S]*\]/);
+      const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : content);
+      if (!Array.isArray(parsed)) {
+        return [];
+      }
+
+      return parsed
+        .filter(item => item && typeof item.content === 'string' && item.content.trim())
+        .map(item => ({
+          category: MEMORY_CATEGORIES.includes(item.category) ? item.category : 'fact',
+          content: item.content.trim()
+        }));
+    } catch {
+      console.warn(`⚠️ [UserMemory] 无法解析记忆提取结果: ${content.substring(0, 100)}`);
+      return [];
+    }
+  }
+
+  private isDuplicate(content: string, known: string[]): boolean {
+    return known.some(memory => this.relevance(content, memory) >= DUPLICATE_THRESHOLD);
+  }
+
+  /**
+   * 记忆与文本的相关度（0-1）- 记忆的字符二元组出现在文本中的比例，记忆通常比文本短
+   */
+  private relevance(memory: string, text: string): number {
+    const memoryBigrams = this.getBigrams(memory);
+    if (memoryBigrams.size === 0) {
+      return 0;
+    }
+
+    const textBigrams = this.getBigrams(text);
+    let hits = 0;
+    for (const bigram of memoryBigrams) {
+      if (textBigrams.has(bigram)) hits++;
+    }
+
+    return hits / memoryBigrams.size;
+  }
+
+  private getBigrams(text: string): Set<string> {
+    // "用户"出现在每条记忆里，不参与比较
+    const chars = Array.from(text.toLowerCase().replace(/用户|[\s!-\/:-@[-`{-~\u3000-\u303f\uff00-\uff0f\uff1a-\uff20]/g, ''));
+    const bigrams = new Set<string>();
+    for (let i = 0; i < chars.length - 1; i++) {
+      bigrams.add(chars[i] + chars[i + 1]);
+    }
+    return bigrams;
+  }
+
+  /**
+   * 超出上限时删除最早的记忆
+   */
+  private async prune(userId: string, agentId: string): Promise<void> {
+    const stale = await prisma.userMemory.findMany({
+      where: { userId, agentId },
+      orderBy: { updatedAt: 'desc' },
+      skip: MAX_MEMORIES_PER_AGENT,
+      select: { id: true }
+    });
+
+    if (stale.length > 0) {
+      await prisma.userMemory.deleteMany({ where: { id: { in: stale.map(memory => memory.id) } } });
+    }
+  }
+}
+
+// 导出默认实例
+const userMemory = new UserMemory();
+export default userMemory;
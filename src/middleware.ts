@@ -8,6 +8,9 @@ const PROTECTED_ROUTES = [
   '/config',
   '/api/conversations',
   '/api/admin',
+  '/api/usage',
+  '/memories',
+  '/api/memories',
 ]
 
 // Define auth routes that authenticated users shouldn't access
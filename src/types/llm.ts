@@ -9,8 +9,13 @@ export type LLMProvider =
   | 'xai'
   | 'modelscope'
   | 'bigmodel'
+  | 'ollama'
+  | 'llamacpp'
   | 'custom';
 
+// 本地部署的推理运行时，不需要API密钥
+export const LOCAL_PROVIDERS: LLMProvider[] = ['ollama', 'llamacpp'];
+
 export interface LLMConfig {
   provider: LLMProvider;
   apiKey: string;
@@ -20,16 +25,83 @@ export interface LLMConfig {
   temperature?: number;
   timeout?: number; // 超时时间（毫秒）
   retryAttempts?: number; // 重试次数
+  extraHeaders?: Record<string, string>; // 额外请求头（自定义提供商）
+  chatPath?: string; // 聊天接口路径覆盖（自定义提供商）
+  fallbacks?: LLMConfig[]; // 故障转移链：主模型限流/5xx/超时后按顺序尝试
+  rateLimit?: LLMRateLimit; // 提供商级限流配置
+  signal?: AbortSignal; // 取消信号：用户点击停止或断开连接时中止请求
+  tools?: LLMToolDefinition[]; // 可供模型调用的工具（仅 OpenAI 兼容适配器支持）
+  toolChoice?: 'auto' | 'none' | 'required';
+  vision?: boolean; // 模型支持图片输入（LLMModel.capabilities 包含 vision）
+  pricing?: LLMModelPricing; // 模型价格（LLMModel.pricing），用于成本核算
+  contextLength?: number; // 模型上下文长度（LLMModel.contextLength），决定何时摘要对话历史
+}
+
+// 模型价格，单位为每百万token的价格
+export type LLMModelPricing = {
+  input: number;
+  output: number;
+  cachedInput?: number; // 命中缓存的输入token价格，未设置时按 input 计价
+  currency: 'USD' | 'CNY';
+};
+
+// 提供商级限流配置，按 LLMProvider.code 区分；未设置的维度不限制
+export interface LLMRateLimit {
+  key: string;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  maxConcurrent?: number;
 }
 
 export interface LLMMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | LLMContentPart[]; // 多模态消息使用内容片段数组（文本 + 图片）
+  toolCalls?: LLMToolCall[]; // assistant 消息：模型发起的工具调用
+  toolCallId?: string; // tool 消息：对应的工具调用ID
+  name?: string; // tool 消息：工具名称
+}
+
+export type LLMContentPart = LLMTextPart | LLMImagePart;
+
+export interface LLMTextPart {
+  type: 'text';
+  text: string;
+}
+
+// 图片片段，data 为不带 data: 前缀的 base64 内容
+export interface LLMImagePart {
+  type: 'image';
+  mimeType: string;
+  data: string;
+  name?: string; // 原始文件名，模型不支持图片时用于文字描述
+}
+
+// 工具定义，parameters 为 JSON Schema
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// 模型发起的一次完整工具调用，arguments 为模型生成的 JSON 字符串
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+// 流式输出中的工具调用增量，同一个 index 的增量按顺序拼接成完整调用
+export interface LLMToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
 }
 
 export interface LLMStreamChunk {
   content: string;
   isComplete: boolean;
+  toolCalls?: LLMToolCallDelta[];
   usage?: {
     promptTokens: number;
     completionTokens: number;
@@ -43,9 +115,40 @@ export interface LLMResponse {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    cachedTokens?: number; // 命中缓存的输入token，包含在 promptTokens 中
   };
   model: string;
-  finishReason: 'stop' | 'length' | 'error';
+  finishReason: 'stop' | 'length' | 'safety' | 'error' | 'tool_calls'; // safety: 被厂商安全策略拦截
+  toolCalls?: LLMToolCall[]; // finishReason 为 tool_calls 时模型请求调用的工具
+  failovers?: LLMFailover[]; // 本次调用发生的故障转移记录
+  cost?: LLMCallCost; // 按实际响应的模型计价的成本
+}
+
+// 一次调用的成本，金额统一为美元微分（1美分 = 1,000,000 微分）
+export type LLMCallCost = {
+  providerKey: string; // LLMProvider.code
+  model: string; // 实际响应的模型，发生故障转移时为备用模型
+  microCents: number;
+  pricing?: LLMModelPricing; // 计价时的价格快照，模型未配置价格时为空
+};
+
+// 触发故障转移的原因
+export type LLMFailoverReason = 'rate_limit' | 'server_error' | 'timeout' | 'network' | 'circuit_open';
+
+// 一次故障转移：从失败的模型切换到链上的下一个模型
+export type LLMFailover = {
+  fromProvider: LLMProvider;
+  fromModel: string;
+  toProvider: LLMProvider;
+  toModel: string;
+  reason: LLMFailoverReason;
+  status?: number; // HTTP状态码（限流/5xx时）
+  error: string;
+  at: string;
+};
+
+export interface LLMCallOptions {
+  onFailover?: (failover: LLMFailover) => void;
 }
 
 export interface AgentConfig {
@@ -76,7 +179,10 @@ export interface LLMProviderAdapter {
   
   // 验证配置
   validateConfig(config: LLMConfig): boolean;
+
+  // 是否支持工具调用（不支持的适配器忽略 config.tools）
+  supportsTools?: boolean;
   
-  // 获取模型列表
-  getAvailableModels(apiKey: string): Promise<string[]>;
+  // 获取模型列表（本地运行时需要 baseUrl 才能发现模型，自定义提供商可能还需要额外请求头）
+  getAvailableModels(apiKey: string, baseUrl?: string, extraHeaders?: Record<string, string>): Promise<string[]>;
 }